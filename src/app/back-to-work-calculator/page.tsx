@@ -2,11 +2,13 @@
 // BACK-TO-WORK CALCULATOR — Page Route
 // =============================================================================
 // Server component: sets metadata, reads optional pre-fill URL params
-// (from the main CCS calculator or direct link), and renders the BTWWizard.
+// (from the main CCS calculator or direct link), resolves the financial year's
+// rates once and renders the BTWWizard.
 //
 // Supports pre-fill URL params using the same encoding as the CCS calculator:
 //   rs  relationshipStatus   'single' | 'partnered'
 //   ya  youngestChildAge     'under_6' | '6_to_13'
+//   n   numberOfChildren     number (1–3)
 //   i   combinedAnnualIncome number
 //   ir  incomeRange          IncomeRange label
 //   ei  exactIncome          number | ''
@@ -16,6 +18,23 @@
 //   h   hoursPerDay          number
 //   f   feePerDay            number | ''
 //   sa  useStateAverage      '1' | '0'
+//   wk  weeksOfCarePerYear   number
+//   wp  workPatterns         custom work patterns (see lib/workPatternParams.ts)
+//   ic  informalCare         weekdays covered by informal care (see lib/informalCare.ts)
+//   tl  returnTimeline       return from parental leave (see lib/returnTimeline.ts)
+//   pp  receivesParentingPayment '1' = currently paid Parenting Payment
+//   hd  hasHELPDebt          '1' = include compulsory HELP repayments
+//   nh  noPrivateHospitalCover '1' = include the Medicare levy surcharge
+//   pm  compareBothParents   '1' = show the two-parent work matrix
+//   cd  currentDaysWorking   number (0–5)
+//   pd  partnerDaysWorking   number (0–5)
+//   pf  partnerFTEIncome     number
+//   pwc partnerWorkCosts     number (per week)
+//   py  projectionYears      number (1–30)
+//   sg  salaryGrowthRate     percentage per year
+//   fi  feeInflationRate     percentage per year
+//   cx  capIndexationRate    percentage per year
+//   fy  financialYear        '2024-25' | '2025-26' (default: current year)
 // =============================================================================
 
 import type { Metadata } from 'next';
@@ -23,8 +42,16 @@ import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
 import {
   resolveIncome,
   DEFAULT_HOURS_PER_DAY,
+  resolveWeeksOfCare,
+  resolveDaysWorking,
+  resolveNumberOfChildren,
   type IncomeRange,
 } from '@/lib/resolveInputs';
+import { decodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { decodeInformalCareParam } from '@/lib/informalCare';
+import { decodeReturnTimelineParam } from '@/lib/returnTimeline';
+import { decodeProjectionParams } from '@/lib/careerProjection';
+import { resolveFinancialYearParam } from '@/lib/ratesRegistry';
 import type { CareType, State } from '@/lib/types';
 import BTWWizard from '@/components/btw/BTWWizard';
 
@@ -97,6 +124,7 @@ interface PageProps {
 
 export default function BackToWorkCalculatorPage({ searchParams }: PageProps) {
   const p = searchParams as Record<string, string | undefined>;
+  const rates = resolveFinancialYearParam(p.fy);
 
   // ── Optional pre-fill from CCS calculator or deep link ───────────────────
   // Any params present will override the wizard defaults. Missing params are
@@ -117,16 +145,34 @@ export default function BackToWorkCalculatorPage({ searchParams }: PageProps) {
     initialInputs = {
       ...(p.rs === 'single' || p.rs === 'partnered' ? { relationshipStatus: p.rs } : {}),
       ...(p.ya === 'under_6' || p.ya === '6_to_13' ? { youngestChildAge: p.ya } : {}),
+      ...(p.n ? { numberOfChildren: resolveNumberOfChildren(parseNum(p.n, 1), 1) } : {}),
       incomeRange,
       exactIncome,
       combinedAnnualIncome: p.i ? parseNum(p.i, 60000) : resolveIncome(incomeRange, exactIncome),
       careType,
       state,
       ...(p.d ? { daysPerWeek: parseNum(p.d, 3) } : {}),
+      ...(p.wk ? { weeksOfCarePerYear: resolveWeeksOfCare(parseNum(p.wk, 52)) } : {}),
       hoursPerDay,
       ...(p.f && p.f !== '' ? { feePerDay: parseNum(p.f, 0), useStateAverage: false } : {}),
       ...(p.sa === '0' ? { useStateAverage: false } : {}),
       ...(p.sa === '1' ? { useStateAverage: true } : {}),
+      ...(p.wp ? { workPatterns: decodeWorkPatternsParam(p.wp) ?? [] } : {}),
+      ...(p.ic ? { informalCare: decodeInformalCareParam(p.ic) ?? [] } : {}),
+      ...(p.tl ? { returnTimeline: decodeReturnTimelineParam(p.tl) ?? null } : {}),
+      ...(p.pp === '1' ? { receivesParentingPayment: true } : {}),
+      ...(p.hd === '1' ? { hasHELPDebt: true } : {}),
+      ...(p.nh === '1' ? { noPrivateHospitalCover: true } : {}),
+      ...(p.py || p.sg || p.fi || p.cx ? { projection: decodeProjectionParams(p) } : {}),
+      ...(p.pm === '1'
+        ? {
+            compareBothParents: true,
+            currentDaysWorking: resolveDaysWorking(parseNum(p.cd, 0), 0),
+            partnerDaysWorking: resolveDaysWorking(parseNum(p.pd, 5), 5),
+            partnerFTEIncome: parseNum(p.pf, 0),
+            partnerWorkCostsPerWeek: parseNum(p.pwc, 0),
+          }
+        : {}),
     };
   }
 
@@ -147,7 +193,7 @@ export default function BackToWorkCalculatorPage({ searchParams }: PageProps) {
         <div className="bg-card border-b border-border">
           <div className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
             <p className="text-xs font-medium text-primary mb-1">
-              FY 2025–26 rates · Takes about 3 minutes
+              FY {rates.financialYear.replace('-', '–')} rates · Takes about 3 minutes
             </p>
             <h1 className="text-2xl font-bold text-text-main sm:text-3xl">
               Back-to-Work Calculator
@@ -161,7 +207,10 @@ export default function BackToWorkCalculatorPage({ searchParams }: PageProps) {
 
         {/* Wizard */}
         <div className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
-          <BTWWizard initialInputs={initialInputs as Parameters<typeof BTWWizard>[0]['initialInputs']} />
+          <BTWWizard
+            initialInputs={initialInputs as Parameters<typeof BTWWizard>[0]['initialInputs']}
+            pplRates={rates.paidParentalLeave}
+          />
         </div>
       </main>
     </>
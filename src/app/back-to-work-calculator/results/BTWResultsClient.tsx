@@ -6,10 +6,16 @@
 // results display: verdict banner, scenario table, interpretation, and actions.
 //
 // Task 5.2 features:
-//   • Input summary strip (condensed, collapsible)
+//   • Input summary strip (condensed, collapsible), including any return
+//     from parental leave part-way through the year
 //   • Full-width verdict banner (positive/negative)
 //   • Part-time comparison table — all 5 day scenarios vs current situation
 //   • Effective marginal rate column (net benefit per hour worked)
+//   • Optional total value view — employer super alongside the net benefit,
+//     with the extra super projected over a chosen number of years
+//   • Career projection — cumulative net benefit as salaries, fees and the
+//     CCS limits grow and children move on to school
+//   • Two-parent work matrix — every combination of days for both partners
 //   • "What This Means" interpretation (contextual prose)
 //   • Non-financial caveat
 //   • Share (copy link) + Edit answers + CTA to main CCS calculator
@@ -17,13 +23,31 @@
 
 import React, { useState } from 'react';
 import Link from 'next/link';
-import type { BackToWorkResult, BackToWorkScenario, CurrentSituation } from '@/lib/backToWorkCalculations';
-import { formatDollars, formatDollarsAndCents } from '@/lib/format';
+import {
+  projectSuperBalance,
+  DEFAULT_SUPER_RETURN_RATE,
+  type BackToWorkResult,
+  type BackToWorkScenario,
+  type CurrentSituation,
+} from '@/lib/backToWorkCalculations';
+import type { CareerProjectionResult } from '@/lib/careerProjection';
+import type { ReturnTimelineResult } from '@/lib/returnTimeline';
+import type { WorkMatrixResult } from '@/lib/workMatrix';
+import type { ReturnTimeline } from '@/lib/types';
+import { formatDateShort, formatDollars, formatDollarsAndCents } from '@/lib/format';
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 export interface BTWResultsClientProps {
   result: BackToWorkResult;
+  /** The scenarios projected over the coming years. */
+  projection: CareerProjectionResult;
+  /** Two-parent work matrix (null unless both parents are compared). */
+  workMatrix: WorkMatrixResult | null;
+  /** Return from parental leave as entered (null for a full year at work). */
+  timeline: ReturnTimeline | null;
+  /** The financial year split at the timeline's dates (null without one). */
+  returnTimeline: ReturnTimelineResult | null;
   // Display context (decoded from URL by server page)
   fteIncome: number;
   combinedAnnualIncome: number;
@@ -31,6 +55,7 @@ export interface BTWResultsClientProps {
   workCostsPerWeek: number;
   careTypeLabel: string;
   daysPerWeek: number;
+  weeksOfCarePerYear: number;
   dailyFee: number;
   usingStateAverage: boolean;
   stateName: string;
@@ -42,11 +67,11 @@ export interface BTWResultsClientProps {
 
 // ─── Table sub-components (reproduced from BackToWorkPanel pattern) ────────────
 
-function TableSection({ label }: { label: string }) {
+function TableSection({ label, colSpan }: { label: string; colSpan: number }) {
   return (
     <tr>
       <td
-        colSpan={7}
+        colSpan={colSpan}
         className="text-[10px] font-bold text-muted uppercase tracking-widest pt-4 pb-1 border-b border-border sticky left-0 bg-card"
       >
         {label}
@@ -59,7 +84,7 @@ function TableRow({
   label,
   currentValue,
   scenarios,
-  bestDay,
+  best,
   renderCell,
   muted = false,
   bold = false,
@@ -68,7 +93,7 @@ function TableRow({
   label: string;
   currentValue: React.ReactNode;
   scenarios: BackToWorkScenario[];
-  bestDay?: number;
+  best?: BackToWorkScenario | null;
   renderCell: (s: BackToWorkScenario) => React.ReactNode;
   muted?: boolean;
   bold?: boolean;
@@ -94,14 +119,14 @@ function TableRow({
       >
         {currentValue}
       </td>
-      {scenarios.map((s) => (
+      {scenarios.map((s, i) => (
         <td
-          key={s.daysWorking}
+          key={i}
           className={[
             'py-1.5 px-2 text-right tabular-nums whitespace-nowrap',
             highlight ? 'bg-gray-50' : '',
-            bestDay === s.daysWorking && !highlight ? 'bg-primary/5' : '',
-            bestDay === s.daysWorking && highlight ? 'bg-primary/10' : '',
+            best === s && !highlight ? 'bg-primary/5' : '',
+            best === s && highlight ? 'bg-primary/10' : '',
           ].join(' ')}
         >
           {renderCell(s)}
@@ -113,6 +138,23 @@ function TableRow({
 
 // ─── "What This Means" — Positive outcome ─────────────────────────────────────
 
+// Scenario name for sentences: "3 days/week", or a custom pattern's label
+function scenarioName(s: BackToWorkScenario): string {
+  return s.isWholeDays ? `${s.pattern.label}/week` : s.pattern.label;
+}
+
+// Scenario with the lowest break-even FTE salary, or null if none breaks even
+function getLowestBreakEvenScenario(scenarios: BackToWorkScenario[]): BackToWorkScenario | null {
+  return scenarios.reduce<BackToWorkScenario | null>(
+    (lowest, s) =>
+      s.breakEvenFTEIncome !== null &&
+      (lowest === null || s.breakEvenFTEIncome < lowest.breakEvenFTEIncome!)
+        ? s
+        : lowest,
+    null
+  );
+}
+
 function InterpretationPositive({
   current,
   best,
@@ -136,7 +178,7 @@ function InterpretationPositive({
       <p>
         {isCurrentlyWorking ? 'Increasing your hours to' : 'Working'}{' '}
         <strong>
-          {best.daysWorking} day{best.daysWorking === 1 ? '' : 's'} per week
+          {scenarioName(best)}
         </strong>{' '}
         at {formatDollars(fteIncome)} FTE ({formatDollars(best.grossIncome)} proportional) would put{' '}
         <strong className="text-emerald-700">{formatDollars(best.netBenefit)}</strong> more
@@ -200,15 +242,21 @@ function InterpretationPositive({
         <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
           Note: Working{' '}
           {negativeScenarios.map((s, i) => (
-            <span key={s.daysWorking}>
+            <span key={s.pattern.label}>
               {i > 0 && i < negativeScenarios.length - 1 ? ', ' : ''}
               {i > 0 && i === negativeScenarios.length - 1 ? ' or ' : ''}
-              {s.daysWorking} day{s.daysWorking === 1 ? '' : 's'}
+              {s.pattern.label}
             </span>
           ))}
           /week would cost your family money.
           The sweet spot is{' '}
-          {best.daysWorking} day{best.daysWorking === 1 ? '' : 's'} for maximum financial benefit.
+          {best.pattern.label} for maximum financial benefit.
+          {negativeScenarios.map((s) => s.breakEvenFTEIncome !== null && (
+            <span key={s.pattern.label}>
+              {' '}You need at least {formatDollars(s.breakEvenFTEIncome)} FTE for{' '}
+              {s.pattern.label} to be better off.
+            </span>
+          ))}
         </p>
       )}
     </div>
@@ -230,6 +278,7 @@ function InterpretationNegative({
     s.netBenefit > best.netBenefit ? s : best
   );
   const lowestCCS = Math.min(...scenarios.map((s) => s.ccsPercent));
+  const easiest = getLowestBreakEvenScenario(scenarios);
 
   return (
     <div className="space-y-3 text-sm text-text-main leading-relaxed">
@@ -243,7 +292,7 @@ function InterpretationNegative({
       <p>
         The closest-to-break-even scenario is{' '}
         <strong>
-          {leastBad.daysWorking} day{leastBad.daysWorking === 1 ? '' : 's'} per week
+          {scenarioName(leastBad)}
         </strong>{' '}
         (net:{' '}
         <span className="text-red-600 font-semibold">
@@ -252,6 +301,14 @@ function InterpretationNegative({
         ).
       </p>
 
+      {easiest && (
+        <p>
+          You need at least{' '}
+          <strong>{formatDollars(easiest.breakEvenFTEIncome!)} FTE</strong> for{' '}
+          {easiest.pattern.label} to be better off.
+        </p>
+      )}
+
       <div className="text-xs text-muted space-y-1 pl-3 border-l-2 border-border">
         <p>To reach break-even, consider:</p>
         <ul className="list-disc pl-4 space-y-1">
@@ -274,16 +331,315 @@ function InterpretationNegative({
   );
 }
 
+// ─── Employer super projection ────────────────────────────────────────────────
+
+const PROJECTION_YEAR_OPTIONS = [5, 10, 20, 30];
+
+function SuperProjectionPanel({
+  scenarios,
+  best,
+}: {
+  scenarios: BackToWorkScenario[];
+  best: BackToWorkScenario | null;
+}) {
+  const [years, setYears] = useState(10);
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+      <div className="px-5 py-4 border-b border-border">
+        <h2 className="text-base font-bold text-text-main">
+          Your extra super over time
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          Extra employer super vs. today, after 15% contributions tax, growing at{' '}
+          {Math.round(DEFAULT_SUPER_RETURN_RATE * 100)}% a year
+        </p>
+      </div>
+      <div className="px-5 py-5">
+        <div className="flex flex-wrap items-center gap-2 mb-4" role="group" aria-label="Projection length">
+          <span className="text-xs text-muted mr-1">Project over</span>
+          {PROJECTION_YEAR_OPTIONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setYears(option)}
+              aria-pressed={years === option}
+              className={[
+                'rounded-full px-3 py-1 text-xs font-medium border transition-colors',
+                years === option
+                  ? 'bg-primary text-white border-primary'
+                  : 'bg-card text-text-main border-border hover:border-primary',
+              ].join(' ')}
+            >
+              {option} years
+            </button>
+          ))}
+        </div>
+        <div className="overflow-x-auto -mx-5 px-5">
+          <table className="w-full text-sm border-collapse min-w-[420px]">
+            <thead>
+              <tr>
+                <th className="text-left text-xs font-medium text-muted py-2 pr-3">Scenario</th>
+                <th className="text-right text-xs font-medium text-muted py-2 px-2">Extra super/yr</th>
+                <th className="text-right text-xs font-medium text-muted py-2 px-2">
+                  Balance after {years} years
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((s, i) => (
+                <tr
+                  key={i}
+                  className={['border-t border-border', best === s ? 'bg-primary/5' : ''].join(' ')}
+                >
+                  <td className="py-1.5 pr-3 text-text-main">{s.pattern.label}</td>
+                  <td className="py-1.5 px-2 text-right tabular-nums text-muted">
+                    {formatDollars(s.superChange)}
+                  </td>
+                  <td className="py-1.5 px-2 text-right tabular-nums font-semibold text-text-main">
+                    {formatDollars(projectSuperBalance(s.superChange, years))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-xs text-muted">
+          Assumes the same salary and working pattern every year, with no salary growth
+          or indexation, and a steady return after fees and earnings tax. Real returns
+          vary from year to year. Super is preserved until retirement, so it isn&apos;t
+          money the family can spend today.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ─── Career projection ────────────────────────────────────────────────────────
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function CareerProjectionPanel({ projection }: { projection: CareerProjectionResult }) {
+  const { assumptions, years, scenarios, bestScenario } = projection;
+  const inTodaysDollars =
+    assumptions.salaryGrowthRate === 0 &&
+    assumptions.feeInflationRate === 0 &&
+    assumptions.capIndexationRate === 0;
+  const yearCount = years.length;
+  const turnsPositive = scenarios.filter(
+    (s) => s.firstYearNetBenefit <= 0 && s.paybackYear !== null
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+      <div className="px-5 py-4 border-b border-border">
+        <h2 className="text-base font-bold text-text-main">
+          Looking ahead: the next {yearCount} years
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          Net benefit added up year by year, as your children move on to school
+        </p>
+      </div>
+      <div className="px-5 py-5">
+        {bestScenario && (
+          <p className="text-sm text-text-main mb-4">
+            Over {yearCount} years, <strong>{bestScenario.label}</strong> adds up to{' '}
+            <strong className="text-emerald-700">{formatDollars(bestScenario.cumulativeNetBenefit)}</strong>
+            {' '}for your family.
+            {turnsPositive.length > 0 && (
+              <>
+                {' '}Even where the first year is negative, {turnsPositive.map((s) => s.label).join(', ')}{' '}
+                {turnsPositive.length === 1 ? 'comes' : 'come'} out ahead over time.
+              </>
+            )}
+          </p>
+        )}
+        <div className="overflow-x-auto -mx-5 px-5">
+          <table className="w-full text-sm border-collapse min-w-[480px]">
+            <thead>
+              <tr>
+                <th className="text-left text-xs font-medium text-muted py-2 pr-3">Scenario</th>
+                <th className="text-right text-xs font-medium text-muted py-2 px-2">Year 1</th>
+                <th className="text-right text-xs font-medium text-muted py-2 px-2">
+                  Total over {yearCount} years
+                </th>
+                <th className="text-right text-xs font-medium text-muted py-2 px-2">Ahead from</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((s, i) => (
+                <tr
+                  key={i}
+                  className={['border-t border-border', bestScenario === s ? 'bg-primary/5' : ''].join(' ')}
+                >
+                  <td className="py-1.5 pr-3 text-text-main">{s.label}</td>
+                  <td
+                    className={[
+                      'py-1.5 px-2 text-right tabular-nums',
+                      s.firstYearNetBenefit < 0 ? 'text-red-600' : 'text-muted',
+                    ].join(' ')}
+                  >
+                    {s.firstYearNetBenefit > 0 ? '+' : ''}{formatDollars(s.firstYearNetBenefit)}
+                  </td>
+                  <td
+                    className={[
+                      'py-1.5 px-2 text-right tabular-nums font-semibold',
+                      s.cumulativeNetBenefit > 0 ? 'text-emerald-700' : 'text-red-600',
+                    ].join(' ')}
+                  >
+                    {s.cumulativeNetBenefit > 0 ? '+' : ''}{formatDollars(s.cumulativeNetBenefit)}
+                  </td>
+                  <td className="py-1.5 px-2 text-right text-muted">
+                    {s.paybackYear !== null ? `Year ${s.paybackYear}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-xs text-muted">
+          {inTodaysDollars ? (
+            <>Figures are in today&apos;s dollars: pay, fees and the CCS limits stay at this year&apos;s values.</>
+          ) : (
+            <>
+              Pay grows {formatRate(assumptions.salaryGrowthRate)} a year, childcare fees{' '}
+              {formatRate(assumptions.feeInflationRate)}, and the CCS hourly rate caps and
+              income thresholds {formatRate(assumptions.capIndexationRate)}. Tax brackets,
+              family payments and work costs stay at this year&apos;s values, so pay rises
+              are taxed more as your income moves up the brackets.
+            </>
+          )}{' '}
+          Children move to outside school hours care at 6 and leave paid care at 13, and
+          younger children aged 5 or under get the higher CCS rate. Change the years and
+          rates under &ldquo;Looking ahead&rdquo; when you edit your answers.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ─── Two-parent work matrix ───────────────────────────────────────────────────
+
+function WorkMatrixPanel({
+  matrix,
+  returnTimeline,
+}: {
+  matrix: WorkMatrixResult;
+  returnTimeline: ReturnTimelineResult | null;
+}) {
+  const { current, dayOptions, cells, bestCell } = matrix;
+  const daysLabel = (d: number) => (d === 0 ? 'Not working' : `${d} day${d === 1 ? '' : 's'}`);
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+      <div className="px-5 py-4 border-b border-border">
+        <h2 className="text-base font-bold text-text-main">
+          Both parents: every combination of days
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          Household net benefit per year vs. today · Rows: your days · Columns:
+          your partner&apos;s days
+        </p>
+      </div>
+      <div className="px-5 py-5">
+        {bestCell && (
+          <p className="text-sm text-text-main mb-4">
+            Best combination: <strong>you {daysLabel(bestCell.daysA).toLowerCase()}</strong>,{' '}
+            <strong>your partner {daysLabel(bestCell.daysB).toLowerCase()}</strong> —{' '}
+            <strong className="text-primary">+{formatDollars(bestCell.netBenefit)}/yr</strong>{' '}
+            for the household.
+          </p>
+        )}
+        <div className="overflow-x-auto -mx-5 px-5">
+          <table className="w-full text-xs border-collapse min-w-[720px]">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-muted py-2 pr-3 sticky left-0 bg-card z-10">
+                  You ↓ · Partner →
+                </th>
+                {dayOptions.map((b) => (
+                  <th key={b} className="text-right font-medium text-muted py-2 px-2">
+                    {daysLabel(b)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cells.map((row, a) => (
+                <tr key={dayOptions[a]} className="border-t border-border">
+                  <th className="text-left font-medium text-muted py-2 pr-3 sticky left-0 bg-card z-10">
+                    {daysLabel(dayOptions[a])}
+                  </th>
+                  {row.map((cell) => {
+                    const isBest = cell === bestCell;
+                    return (
+                      <td
+                        key={cell.daysB}
+                        className={[
+                          'text-right align-top py-2 px-2',
+                          isBest ? 'bg-teal-50 rounded-lg' : '',
+                        ].join(' ')}
+                      >
+                        <span
+                          className={[
+                            'block font-bold text-sm',
+                            cell.netBenefit > 0 ? 'text-primary' : cell.netBenefit < 0 ? 'text-red-600' : 'text-text-main',
+                          ].join(' ')}
+                        >
+                          {cell.netBenefit > 0 ? '+' : ''}{formatDollars(cell.netBenefit)}
+                        </span>
+                        <span className="block text-muted">
+                          CCS {cell.ccsPercent}% · {cell.childcareDaysPerWeek}d care
+                        </span>
+                        <span className="block text-muted">
+                          Tax {formatDollars(cell.taxA.totalTax)} / {formatDollars(cell.taxB.totalTax)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-xs text-muted">
+          Today: CCS {current.ccsPercent}%, {current.childcareDaysPerWeek} days of care
+          ({formatDollars(current.annualChildcareCost)}/yr out-of-pocket). Childcare days
+          assume you stagger your working days, so care covers only the days nobody is
+          home and no one else minds your child — never fewer than today. Net benefit
+          counts each parent&apos;s tax (with HELP repayments and the Medicare levy),
+          childcare, work costs, Family Tax Benefit and Parenting Payment. Tax is
+          shown as yours / your partner&apos;s.
+          {returnTimeline && (
+            <>
+              {' '}Like the scenarios above, this is a part year: your new pay counts from
+              your return date, childcare from the day it starts, and your Parental Leave
+              Pay is added to your income. Your partner works the whole year.
+            </>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ─── Main results component ───────────────────────────────────────────────────
 
 export default function BTWResultsClient({
   result,
+  projection,
+  workMatrix,
+  timeline,
+  returnTimeline,
   fteIncome,
   combinedAnnualIncome,
   currentIndividualIncome,
   workCostsPerWeek,
   careTypeLabel,
   daysPerWeek,
+  weeksOfCarePerYear,
   dailyFee,
   usingStateAverage,
   stateName,
@@ -292,9 +648,12 @@ export default function BTWResultsClient({
   restoreUrl,
 }: BTWResultsClientProps) {
   const [copied, setCopied] = useState(false);
+  const [showSuper, setShowSuper] = useState(false);
   const { current, scenarios, bestScenario } = result;
-  const isCurrentlyWorking = current.grossIncome > 0;
+  // Parental Leave Pay counts in current income but isn't work
+  const isCurrentlyWorking = currentIndividualIncome > 0;
   const hasNegative = scenarios.some((s) => !s.isWorthIt);
+  const hasInformalCare = scenarios.some((s) => s.informalCareDaysPerWeek > 0);
 
   function handleCopy() {
     if (typeof window === 'undefined') return;
@@ -340,6 +699,7 @@ export default function BTWResultsClient({
           <span>
             <span className="font-medium text-text-main">Care:</span>{' '}
             {careTypeLabel} · {daysPerWeek}d/wk
+            {weeksOfCarePerYear < 52 && ` · ${weeksOfCarePerYear} wks/yr`}
           </span>
           <span>
             <span className="font-medium text-text-main">Fee:</span>{' '}
@@ -351,6 +711,22 @@ export default function BTWResultsClient({
               {formatDollars(workCostsPerWeek)}/wk
             </span>
           )}
+          {timeline && returnTimeline && (
+            <>
+              <span>
+                <span className="font-medium text-text-main">Back at work:</span>{' '}
+                {formatDateShort(timeline.returnDate)}
+              </span>
+              <span>
+                <span className="font-medium text-text-main">Care from:</span>{' '}
+                {formatDateShort(timeline.careStartDate)}
+              </span>
+              <span>
+                <span className="font-medium text-text-main">Parental Leave Pay:</span>{' '}
+                {formatDollars(returnTimeline.pplIncome)} this year
+              </span>
+            </>
+          )}
         </div>
       </div>
 
@@ -366,7 +742,7 @@ export default function BTWResultsClient({
             <div>
               <p className="text-lg font-bold text-emerald-800">
                 Yes — working{' '}
-                {bestScenario.daysWorking} day{bestScenario.daysWorking === 1 ? '' : 's'}/week
+                {scenarioName(bestScenario)}
                 is financially positive
               </p>
               <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2">
@@ -393,7 +769,7 @@ export default function BTWResultsClient({
               </div>
               {hasNegative && bestScenario.daysWorking < 5 && (
                 <p className="text-xs text-emerald-600 mt-2.5">
-                  {bestScenario.daysWorking} days offers the best return.
+                  {scenarioName(bestScenario)} offers the best return.
                   Working more days reduces your effective hourly rate. See the
                   table below for all scenarios.
                 </p>
@@ -434,6 +810,15 @@ export default function BTWResultsClient({
             Annual figures · Proposed FTE: {formatDollars(fteIncome)}/yr ·
             FY {ratesVersion} rates
           </p>
+          <label className="mt-2 inline-flex items-center gap-2 text-xs text-text-main cursor-pointer print:hidden">
+            <input
+              type="checkbox"
+              checked={showSuper}
+              onChange={(e) => setShowSuper(e.target.checked)}
+              className="w-4 h-4 rounded border-border accent-primary"
+            />
+            Include employer super (total value)
+          </label>
         </div>
         <div className="px-5 py-5">
           <div className="overflow-x-auto -mx-5 px-5">
@@ -444,18 +829,18 @@ export default function BTWResultsClient({
                   <th className="text-right text-xs font-medium py-2 px-2 min-w-[90px]">
                     <span className="text-text-main">Current</span>
                   </th>
-                  {scenarios.map((s) => (
+                  {scenarios.map((s, i) => (
                     <th
-                      key={s.daysWorking}
+                      key={i}
                       className={[
                         'text-right text-xs font-medium py-2 px-2 min-w-[90px]',
-                        bestScenario?.daysWorking === s.daysWorking ? 'text-primary' : 'text-muted',
+                        bestScenario === s ? 'text-primary' : 'text-muted',
                       ].join(' ')}
                     >
-                      <span className="whitespace-nowrap">
-                        {s.daysWorking} day{s.daysWorking === 1 ? '' : 's'}
+                      <span className={s.isWholeDays ? 'whitespace-nowrap' : ''}>
+                        {s.pattern.label}
                       </span>
-                      {bestScenario?.daysWorking === s.daysWorking && (
+                      {bestScenario === s && (
                         <span className="block text-[10px] font-bold text-primary bg-primary/10 rounded-full px-1.5 py-0.5 mt-0.5 mx-auto w-fit">
                           Best
                         </span>
@@ -466,12 +851,20 @@ export default function BTWResultsClient({
               </thead>
               <tbody>
                 {/* Income section */}
-                <TableSection label="Income" />
+                <TableSection label="Income" colSpan={scenarios.length + 2} />
+                <TableRow
+                  label="Hours worked/wk"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) => `${s.workHoursPerWeek}h (${Math.round(s.fteFraction * 100)}%)`}
+                  muted
+                />
                 <TableRow
                   label="Your income"
                   currentValue={formatDollars(current.grossIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.grossIncome)}
                 />
                 <TableRow
@@ -482,28 +875,56 @@ export default function BTWResultsClient({
                       : '$0'
                   }
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) =>
                     s.tax.totalTax > 0 ? `−${formatDollars(s.tax.totalTax)}` : '$0'
                   }
                   muted
                 />
+                {(current.tax.medicareLevySurcharge > 0 ||
+                  scenarios.some((s) => s.tax.medicareLevySurcharge > 0)) && (
+                  <TableRow
+                    label="incl. Medicare levy surcharge"
+                    currentValue={formatDollars(current.tax.medicareLevySurcharge)}
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) => formatDollars(s.tax.medicareLevySurcharge)}
+                    muted
+                  />
+                )}
+                {(current.tax.helpRepayment > 0 ||
+                  scenarios.some((s) => s.tax.helpRepayment > 0)) && (
+                  <TableRow
+                    label="HELP repayment"
+                    currentValue={
+                      current.tax.helpRepayment > 0
+                        ? `−${formatDollars(current.tax.helpRepayment)}`
+                        : '$0'
+                    }
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) =>
+                      s.tax.helpRepayment > 0 ? `−${formatDollars(s.tax.helpRepayment)}` : '$0'
+                    }
+                    muted
+                  />
+                )}
                 <TableRow
                   label="Net income"
                   currentValue={formatDollars(current.netIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.netIncome)}
                   bold
                 />
 
                 {/* CCS & childcare section */}
-                <TableSection label="CCS & Childcare Impact" />
+                <TableSection label="CCS & Childcare Impact" colSpan={scenarios.length + 2} />
                 <TableRow
                   label="Combined family income"
                   currentValue={formatDollars(current.combinedFamilyIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.combinedFamilyIncome)}
                   muted
                 />
@@ -511,7 +932,7 @@ export default function BTWResultsClient({
                   label="CCS rate"
                   currentValue={`${current.ccsPercent}%`}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => {
                     const diff = s.ccsPercent - current.ccsPercent;
                     return (
@@ -530,9 +951,9 @@ export default function BTWResultsClient({
                   label="Childcare days/wk"
                   currentValue={`${daysPerWeek}d`}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => {
-                    const childcareDays = Math.max(daysPerWeek, s.daysWorking);
+                    const childcareDays = s.childcareDaysPerWeek;
                     const extra = childcareDays - daysPerWeek;
                     return (
                       <span>
@@ -549,14 +970,14 @@ export default function BTWResultsClient({
                   label="Annual childcare cost"
                   currentValue={formatDollars(current.annualChildcareCost)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.annualChildcare.outOfPocketPerYear)}
                 />
                 <TableRow
                   label="Extra childcare cost"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => {
                     const extra =
                       s.annualChildcare.outOfPocketPerYear - current.annualChildcareCost;
@@ -570,14 +991,81 @@ export default function BTWResultsClient({
                   }}
                   muted
                 />
+                {hasInformalCare && (
+                  <TableRow
+                    label="Informal care saves"
+                    currentValue="—"
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) =>
+                      s.informalCareDaysPerWeek > 0 ? (
+                        <span className="text-green-700">
+                          {formatDollars(s.informalCareValue)}
+                          <span className="text-muted"> ({s.informalCareDaysPerWeek}d)</span>
+                        </span>
+                      ) : '—'
+                    }
+                    muted
+                  />
+                )}
+
+                {/* Family Tax Benefit section */}
+                {current.familyTaxBenefit && (
+                  <>
+                    <TableSection label="Family Tax Benefit" colSpan={scenarios.length + 2} />
+                    <TableRow
+                      label="FTB Parts A + B"
+                      currentValue={formatDollars(current.familyTaxBenefit.total)}
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => formatDollars(s.familyTaxBenefit?.total ?? 0)}
+                    />
+                    <TableRow
+                      label="FTB change"
+                      currentValue="—"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => {
+                        if (s.ftbChange >= 0) return <span className="text-green-700">+{formatDollars(s.ftbChange)}</span>;
+                        return <span className="text-red-600">−{formatDollars(Math.abs(s.ftbChange))}</span>;
+                      }}
+                      muted
+                    />
+                  </>
+                )}
+
+                {/* Parenting Payment section */}
+                {current.parentingPayment && (
+                  <>
+                    <TableSection label="Parenting Payment" colSpan={scenarios.length + 2} />
+                    <TableRow
+                      label="Parenting Payment"
+                      currentValue={formatDollars(current.parentingPayment.annualAmount)}
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => formatDollars(s.parentingPayment?.annualAmount ?? 0)}
+                    />
+                    <TableRow
+                      label="Payment change"
+                      currentValue="—"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => {
+                        if (s.parentingPaymentChange >= 0) return <span className="text-green-700">+{formatDollars(s.parentingPaymentChange)}</span>;
+                        return <span className="text-red-600">−{formatDollars(Math.abs(s.parentingPaymentChange))}</span>;
+                      }}
+                      muted
+                    />
+                  </>
+                )}
 
                 {/* Work costs section */}
-                <TableSection label="Work Costs" />
+                <TableSection label="Work Costs" colSpan={scenarios.length + 2} />
                 <TableRow
                   label="Work-related costs"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) =>
                     s.annualWorkCosts > 0 ? `−${formatDollars(s.annualWorkCosts)}` : '$0'
                   }
@@ -585,12 +1073,12 @@ export default function BTWResultsClient({
                 />
 
                 {/* Result section */}
-                <TableSection label="Result" />
+                <TableSection label="Result" colSpan={scenarios.length + 2} />
                 <TableRow
                   label="NET BENEFIT"
                   currentValue="Baseline"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => (
                     <span
                       className={[
@@ -609,11 +1097,67 @@ export default function BTWResultsClient({
                   bold
                   highlight
                 />
+                {showSuper && (
+                  <>
+                    <TableRow
+                      label="Employer super"
+                      currentValue={formatDollars(current.employerSuper)}
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => formatDollars(s.employerSuper)}
+                      muted
+                    />
+                    <TableRow
+                      label="Extra super (after tax)"
+                      currentValue="—"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) =>
+                        `${s.superChange > 0 ? '+' : ''}${formatDollars(s.superChange)}`
+                      }
+                      muted
+                    />
+                    <TableRow
+                      label="TOTAL VALUE incl. super"
+                      currentValue="Baseline"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => (
+                        <span
+                          className={[
+                            'font-bold',
+                            s.totalValue > 0
+                              ? 'text-emerald-700'
+                              : s.totalValue < 0
+                                ? 'text-red-600'
+                                : 'text-muted',
+                          ].join(' ')}
+                        >
+                          {s.totalValue > 0 ? '+' : ''}
+                          {formatDollars(s.totalValue)}
+                        </span>
+                      )}
+                      bold
+                    />
+                  </>
+                )}
+                <TableRow
+                  label="Effective tax rate"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) =>
+                    s.effectiveMarginalTaxRate !== null
+                      ? `${Math.round(s.effectiveMarginalTaxRate)}%`
+                      : '—'
+                  }
+                  muted
+                />
                 <TableRow
                   label="Effective $/hr"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) =>
                     s.effectiveHourlyRate !== null ? (
                       <span
@@ -628,16 +1172,58 @@ export default function BTWResultsClient({
                     )
                   }
                 />
+                <TableRow
+                  label="Break-even FTE salary"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) =>
+                    s.breakEvenFTEIncome !== null ? formatDollars(s.breakEvenFTEIncome) : '—'
+                  }
+                  muted
+                />
               </tbody>
             </table>
           </div>
           <p className="mt-3 text-xs text-muted">
-            * Childcare days: you need max(current days, working days) of care each week.
-            Work costs are proportional to days worked.
+            * Childcare days: you need max(current days, working days) of care each week,
+            less working days covered by informal care, unless a work pattern sets its own.
+            Each of your children is in care on those days, and younger children aged 5 or
+            under get the higher CCS rate. Informal care is valued at the childcare you&apos;d otherwise pay for those days.
+            Work costs are proportional to days worked. Family Tax Benefit is estimated from
+            the number of children and the youngest child&apos;s age group, and includes the
+            end-of-year supplements. The effective tax rate is the share of your extra gross
+            pay lost to income tax, higher childcare costs and reduced family payments.
+            {returnTimeline && (
+              <>
+                {' '}This is a part year: pay counts from your return date
+                ({Math.round(returnTimeline.workingShareOfYear * 100)}% of the year), childcare
+                from the day it starts ({Math.round(returnTimeline.careShareOfYear * 100)}%),
+                and {formatDollars(returnTimeline.pplIncome)} of Parental Leave Pay is added to
+                your income. Your current pay counts only outside your weeks of leave. CCS
+                uses the family&apos;s income for the whole year.
+              </>
+            )}
+            {showSuper && (
+              <>
+                {' '}Employer super is the Superannuation Guarantee on your salary; the
+                total value adds the extra super, after 15% contributions tax, to the net
+                benefit.
+              </>
+            )}
           </p>
         </div>
       </div>
 
+      {/* ── Employer super projection ─────────────────────────────────────── */}
+      {showSuper && <SuperProjectionPanel scenarios={scenarios} best={bestScenario} />}
+
+      {/* ── Career projection ─────────────────────────────────────────────── */}
+      <CareerProjectionPanel projection={projection} />
+
+      {/* ── Two-parent work matrix ────────────────────────────────────────── */}
+      {workMatrix && <WorkMatrixPanel matrix={workMatrix} returnTimeline={returnTimeline} />}
+
       {/* ── "What This Means" interpretation ────────────────────────────── */}
       <div className="rounded-2xl border border-border bg-card overflow-hidden">
         <div className="px-5 py-4 border-b border-border">
@@ -671,9 +1257,10 @@ export default function BTWResultsClient({
         </svg>
         <p className="text-xs text-muted leading-relaxed">
           This analysis covers <strong>short-term financial impact only</strong>.
-          Career progression, superannuation contributions, social connection,
-          professional development, and personal fulfilment are all real and
-          valuable — and are not captured by these numbers. Many parents find
+          Career progression, social connection, professional development, and
+          personal fulfilment are all real and valuable — and are not captured
+          by these numbers. Employer super is only included if you turn on the
+          total value view above. Many parents find
           returning to work worthwhile for reasons that go well beyond the
           immediate financial equation.
         </p>
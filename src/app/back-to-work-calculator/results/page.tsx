@@ -2,12 +2,15 @@
 // BTW RESULTS PAGE — Back-to-Work Calculator Results
 // =============================================================================
 // Server component: decodes URL search params, resolves daily fee, runs
-// calculateBackToWork(), then renders the page header and passes the result
-// to the BTWResultsClient client component.
+// calculateBackToWork() with Family Tax Benefit (and calculateWorkMatrix()
+// when both parents are compared), projects the scenarios over the years
+// and growth rates chosen with calculateCareerProjection(), then renders the page
+// header and passes the results to the BTWResultsClient client component.
 //
 // URL param key reference (matches BTWWizard handleCalculate output):
 //   rs  relationshipStatus        'single' | 'partnered'
 //   ya  youngestChildAge          'under_6' | '6_to_13'
+//   n   numberOfChildren          number (1–3, each in the care entered)
 //   i   combinedAnnualIncome      number
 //   ir  incomeRange               IncomeRange string (display only)
 //   ei  exactIncome               number | '' (display only)
@@ -17,27 +20,61 @@
 //   h   hoursPerDay               number
 //   f   feePerDay                 number | '' (empty = use state average)
 //   sa  useStateAverage           '1' | '0'
+//   wk  weeksOfCarePerYear        number (default 52)
 //   ci  currentIndividualIncome   number
 //   pi  proposedFTEIncome         number
 //   wc  workRelatedCostsPerWeek   number
+//   wp  workPatterns              custom work patterns (see lib/workPatternParams.ts)
+//   ic  informalCare              weekdays covered by informal care (see lib/informalCare.ts)
+//   tl  returnTimeline            return from parental leave (see lib/returnTimeline.ts)
+//   pp  receivesParentingPayment  '1' = currently paid Parenting Payment
+//   hd  hasHELPDebt               '1' = include compulsory HELP repayments
+//   nh  noPrivateHospitalCover    '1' = include the Medicare levy surcharge
+//   pm  compareBothParents        '1' = run the two-parent work matrix
+//   cd  currentDaysWorking        number (0–5)
+//   pd  partnerDaysWorking        number (0–5)
+//   pf  partnerFTEIncome          number (default: current income scaled to 5 days)
+//   pwc partnerWorkCostsPerWeek   number
+//   py  projectionYears           number (1–30, default 10)
+//   sg  salaryGrowthRate          percentage per year (see lib/careerProjection.ts)
+//   fi  feeInflationRate          percentage per year
+//   cx  capIndexationRate         percentage per year
+//   fy  financialYear             '2024-25' | '2025-26' (default: current year)
 // =============================================================================
 
 import type { Metadata } from 'next';
 import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
-import { calculateBackToWork } from '@/lib/backToWorkCalculations';
-import { resolveDailyFee, resolveAgeGroup } from '@/lib/resolveInputs';
+import { calculateBackToWork, type BackToWorkParams } from '@/lib/backToWorkCalculations';
+import {
+  calculateCareerProjection,
+  decodeProjectionParams,
+  getChildCareArrangements,
+} from '@/lib/careerProjection';
+import { calculateWorkMatrix } from '@/lib/workMatrix';
+import {
+  resolveDailyFee,
+  resolveAgeGroup,
+  resolveWeeksOfCare,
+  resolveDaysWorking,
+  resolveFullTimeIncome,
+  resolveNumberOfChildren,
+  DEFAULT_HOURS_PER_DAY,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  LEGACY_CHILD_AGE_YEARS,
+} from '@/lib/resolveInputs';
+import { decodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { decodeInformalCareParam } from '@/lib/informalCare';
+import { buildReturnTimeline, decodeReturnTimelineParam } from '@/lib/returnTimeline';
 import { formatDollars } from '@/lib/format';
-import type { CCSRates, TaxRates, StateAverageEntry, CareType, State } from '@/lib/types';
+import { getAvailableFinancialYears, resolveFinancialYearParam } from '@/lib/ratesRegistry';
+import type { StateAverageEntry, CareType, State } from '@/lib/types';
+import FinancialYearSelector from '@/components/rates/FinancialYearSelector';
 import BTWResultsClient from './BTWResultsClient';
 
 // ─── Data imports ─────────────────────────────────────────────────────────────
 
-import ccsRatesJson      from '@/data/ccs/current.json';
-import taxRatesJson      from '@/data/tax/current.json';
 import stateAveragesJson from '@/data/childcare-costs/state-averages.json';
 
-const ccsRates: CCSRates                 = ccsRatesJson      as unknown as CCSRates;
-const taxRates: TaxRates                 = taxRatesJson      as unknown as TaxRates;
 const stateAverages: StateAverageEntry[] = stateAveragesJson as unknown as StateAverageEntry[];
 
 // ─── Metadata ────────────────────────────────────────────────────────────────
@@ -84,6 +121,7 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
 
   const relationshipStatus       = (p.rs === 'single' ? 'single' : 'partnered') as 'single' | 'partnered';
   const youngestChildAge         = (p.ya === '6_to_13' ? '6_to_13' : 'under_6') as 'under_6' | '6_to_13';
+  const numberOfChildren         = resolveNumberOfChildren(parseNum(p.n, 1), 1);
   const combinedAnnualIncome     = parseNum(p.i,  60000);
   const careType                 = (p.ct ?? 'centre_based_day_care') as CareType;
   const state                    = (p.st ?? 'NSW') as State;
@@ -91,9 +129,24 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
   const hoursPerDay              = parseNum(p.h,  10);
   const feePerDayRaw             = (p.f && p.f !== '') ? parseNum(p.f, 0) : null;
   const useStateAverage          = parseBool(p.sa);
+  const weeksOfCarePerYear       = resolveWeeksOfCare(parseNum(p.wk, DEFAULT_WEEKS_OF_CARE_PER_YEAR));
   const currentIndividualIncome  = parseNum(p.ci, 0);
   const proposedFTEIncome        = parseNum(p.pi, 0);
   const workRelatedCostsPerWeek  = parseNum(p.wc, 0);
+  const workPatterns             = decodeWorkPatternsParam(p.wp);
+  const informalCare             = decodeInformalCareParam(p.ic);
+  const timeline                 = decodeReturnTimelineParam(p.tl) ?? null;
+  const receivesParentingPayment = parseBool(p.pp);
+  const hasHELPDebt              = parseBool(p.hd);
+  const noPrivateHospitalCover   = parseBool(p.nh);
+  const compareBothParents       = relationshipStatus === 'partnered' && parseBool(p.pm);
+  const projectionAssumptions    = decodeProjectionParams(p);
+  const {
+    ccs: ccsRates,
+    tax: taxRates,
+    ftb: ftbRates,
+    parentingPayment: ppRates,
+  } = resolveFinancialYearParam(p.fy);
 
   // ── Resolve daily fee ──────────────────────────────────────────────────────
   const dailyFee = resolveDailyFee(
@@ -108,29 +161,118 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
   const stateName     = stateEntry?.stateName ?? state;
   const ratesVersion  = ccsRates.financialYear; // e.g. "2025-26"
 
+  // Part-year return from parental leave, split over the selected financial year
+  const returnTimeline = timeline ? buildReturnTimeline(timeline, ccsRates.effectiveDate) : null;
+
+  // Ages are only known by band; every child takes the band's typical age
+  const childAges = Array<number>(numberOfChildren).fill(LEGACY_CHILD_AGE_YEARS[youngestChildAge]);
+
+  // Children move on to OSHC at school age: the family's own OSHC fee if
+  // that's the care entered, otherwise the state average.
+  const oshc = careType === 'outside_school_hours'
+    ? { dailyFee, hoursPerDay }
+    : {
+        dailyFee: resolveDailyFee(
+          { feePerDay: null, useStateAverage: true, state, careType: 'outside_school_hours' },
+          stateAverages
+        ),
+        hoursPerDay: DEFAULT_HOURS_PER_DAY.outside_school_hours,
+      };
+
+  // Every child is in the care entered; the first child is the arrangement
+  // below and the others are costed alongside, at the higher CCS rate
+  const [, ...additionalChildren] = getChildCareArrangements(
+    childAges,
+    { careType, dailyFee, hoursPerDay, ageGroup },
+    oshc
+  );
+
   // ── Run calculation ────────────────────────────────────────────────────────
-  const result = calculateBackToWork(
-    {
-      combinedAnnualIncome,
-      currentIndividualIncome,
-      proposedFTEIncome,
-      workRelatedCostsPerWeek,
-      currentDaysInCare: daysPerWeek,
-      dailyFee,
-      hoursPerDay,
-      careType,
-      ageGroup,
+  const backToWorkParams: BackToWorkParams = {
+    combinedAnnualIncome,
+    currentIndividualIncome,
+    proposedFTEIncome,
+    workRelatedCostsPerWeek,
+    currentDaysInCare: daysPerWeek,
+    dailyFee,
+    hoursPerDay,
+    careType,
+    ageGroup,
+    additionalChildren,
+    weeksOfCarePerYear,
+    hasHELPDebt,
+    medicare: {
+      partnered: relationshipStatus === 'partnered',
+      dependentChildren: numberOfChildren,
+      privateHospitalCover: !noPrivateHospitalCover,
     },
+    workPatterns,
+    informalCare,
+    returnTimeline: returnTimeline ?? undefined,
+    familyTaxBenefit: { childAges, partnered: relationshipStatus === 'partnered' },
+    parentingPayment: receivesParentingPayment
+      ? { childAges, partnered: relationshipStatus === 'partnered' }
+      : undefined,
+  };
+  const result = calculateBackToWork(backToWorkParams, ccsRates, taxRates, ftbRates, ppRates);
+
+  // ── Career projection ──────────────────────────────────────────────────────
+  const projection = calculateCareerProjection(
+    { backToWork: backToWorkParams, childAges, oshc, ...projectionAssumptions },
     ccsRates,
-    taxRates
+    taxRates,
+    ftbRates,
+    ppRates
   );
 
+  // ── Two-parent work matrix (partnered, opt-in) ─────────────────────────────
+  const partnerCurrentIncome = Math.max(0, combinedAnnualIncome - currentIndividualIncome);
+  const partnerDaysWorking   = resolveDaysWorking(parseNum(p.pd, 5), 5);
+  const workMatrix = compareBothParents
+    ? calculateWorkMatrix(
+        {
+          parentA: {
+            currentIncome: currentIndividualIncome,
+            currentDaysWorking: resolveDaysWorking(parseNum(p.cd, 0), 0),
+            fteIncome: proposedFTEIncome,
+            workRelatedCostsPerWeek,
+            hasHELPDebt,
+          },
+          parentB: {
+            currentIncome: partnerCurrentIncome,
+            currentDaysWorking: partnerDaysWorking,
+            fteIncome: resolveFullTimeIncome(parseNum(p.pf, 0), partnerCurrentIncome, partnerDaysWorking),
+            workRelatedCostsPerWeek: parseNum(p.pwc, 0),
+          },
+          currentDaysInCare: daysPerWeek,
+          dailyFee,
+          hoursPerDay,
+          careType,
+          ageGroup,
+          additionalChildren,
+          weeksOfCarePerYear,
+          medicare: {
+            dependentChildren: numberOfChildren,
+            privateHospitalCover: !noPrivateHospitalCover,
+          },
+          informalCare,
+          returnTimeline: returnTimeline ?? undefined,
+          familyTaxBenefit: { childAges },
+          parentingPayment: receivesParentingPayment ? { childAges } : undefined,
+        },
+        ccsRates,
+        taxRates,
+        ftbRates,
+        ppRates
+      )
+    : null;
+
   // ── Build restore URL ──────────────────────────────────────────────────────
   // Sends the user back to the BTW wizard page with all inputs pre-filled.
   // The BTW wizard page reads initialInputs from URL params when any of the
   // key params are present (hasPrefill check in page.tsx).
   const restoreParams = new URLSearchParams();
-  const INPUT_PARAM_KEYS = ['rs','ya','i','ir','ei','ct','st','d','h','f','sa','ci','pi','wc'] as const;
+  const INPUT_PARAM_KEYS = ['rs','ya','n','i','ir','ei','ct','st','d','h','f','sa','wk','ci','pi','wc','wp','ic','tl','pp','hd','nh','pm','cd','pd','pf','pwc','py','sg','fi','cx','fy'] as const;
   for (const key of INPUT_PARAM_KEYS) {
     if (p[key] !== undefined) restoreParams.set(key, p[key]!);
   }
@@ -148,7 +290,7 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
         <div className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
           <p className="text-xs text-primary font-medium mb-1">
             {bestScenario
-              ? `Best scenario: ${bestScenario.daysWorking} day${bestScenario.daysWorking === 1 ? '' : 's'}/week`
+              ? `Best scenario: ${bestScenario.pattern.label}/week`
               : 'All scenarios negative'}{' '}
             · FY {ratesVersion}
           </p>
@@ -160,6 +302,14 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
             {relationshipStatus === 'single' ? 'your' : 'combined family'} income of{' '}
             {incomeLabel}/year · {formatDollars(proposedFTEIncome)} FTE proposed salary
           </p>
+          <div className="mt-3">
+            <FinancialYearSelector
+              basePath="/back-to-work-calculator/results"
+              params={p}
+              selected={ratesVersion}
+              years={getAvailableFinancialYears()}
+            />
+          </div>
         </div>
       </div>
 
@@ -167,12 +317,17 @@ export default function BTWResultsPage({ searchParams }: PageProps) {
       <div className="max-w-4xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
         <BTWResultsClient
           result={result}
+          projection={projection}
+          workMatrix={workMatrix}
+          timeline={timeline}
+          returnTimeline={returnTimeline}
           fteIncome={proposedFTEIncome}
           combinedAnnualIncome={combinedAnnualIncome}
           currentIndividualIncome={currentIndividualIncome}
           workCostsPerWeek={workRelatedCostsPerWeek}
           careTypeLabel={careTypeLabel}
           daysPerWeek={daysPerWeek}
+          weeksOfCarePerYear={weeksOfCarePerYear}
           dailyFee={dailyFee}
           usingStateAverage={useStateAverage}
           stateName={stateName}
@@ -1,13 +1,15 @@
 // =============================================================================
 // CHILDCARE SUBSIDY CALCULATOR — Page Route
 // =============================================================================
-// Server component: sets metadata, renders the wizard in its provider.
-// All interactivity is inside the client component tree below.
+// Server component: sets metadata, resolves the financial year's rates once
+// (from `fy`, or the year in force today) and renders the wizard in its
+// provider. All interactivity is inside the client component tree below.
 // =============================================================================
 
 import type { Metadata } from 'next';
 import { WizardProvider, parseRestoreParams } from '@/contexts/WizardContext';
 import WizardContainer from '@/components/wizard/WizardContainer';
+import { resolveFinancialYearParam } from '@/lib/ratesRegistry';
 import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
 
 // ─── Metadata ────────────────────────────────────────────────────────────────
@@ -70,6 +72,7 @@ export default function ChildcareSubsidyCalculatorPage({ searchParams }: PagePro
   // wizard opens pre-populated at the Review step (or whichever step was specified).
   const p = searchParams as Record<string, string | undefined>;
   const initialState = p.restore === '1' ? parseRestoreParams(p) : undefined;
+  const { ccs: ccsRates } = resolveFinancialYearParam(p.fy);
 
   return (
     <>
@@ -93,14 +96,14 @@ export default function ChildcareSubsidyCalculatorPage({ searchParams }: PagePro
             <p className="mt-1 text-base text-muted">
               {initialState
                 ? 'Edit your answers below and recalculate when ready.'
-                : 'FY 2025–26 rates · Takes about 2 minutes'}
+                : `FY ${ccsRates.financialYear.replace('-', '–')} rates · Takes about 2 minutes`}
             </p>
           </div>
         </div>
 
         {/* Wizard */}
         <div className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
-          <WizardProvider initialState={initialState}>
+          <WizardProvider initialState={initialState} ccsRates={ccsRates}>
             <WizardContainer />
           </WizardProvider>
         </div>
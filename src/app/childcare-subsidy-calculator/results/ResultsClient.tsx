@@ -21,12 +21,21 @@
 
 import React, { useState } from 'react';
 import Link from 'next/link';
-import type { CalculationOutput } from '@/lib/runCalculations';
-import type { SessionCCSResult, AnnualCostResult } from '@/lib/ccsCalculations';
+import type { CalculationOutput, ChildCalculation } from '@/lib/runCalculations';
+import {
+  getHourlyRateCap,
+  type SessionCCSResult,
+  type AnnualCostResult,
+  type AnnualCapResult,
+  type AbsenceResult,
+} from '@/lib/ccsCalculations';
 import type { BackToWorkScenario, CurrentSituation } from '@/lib/backToWorkCalculations';
-import type { IncomeSensitivityRow } from '@/lib/types';
+import type { ActivityTestResult } from '@/lib/activityTest';
+import type { AdditionalCCSResult } from '@/lib/additionalCCS';
+import { reconcileYear, compareWithholdingOptions, WITHHOLDING_OPTIONS } from '@/lib/reconciliation';
+import type { CareType, IncomeSensitivityRow } from '@/lib/types';
 import type { IncomeSensitivityResult } from '@/lib/incomeSensitivity';
-import { formatDollars, formatDollarsAndCents, formatNumber } from '@/lib/format';
+import { formatDollars, formatDollarsAndCents, formatNumber, formatDateLong, formatDateShort } from '@/lib/format';
 import AdSlot from '@/components/guide/AdSlot';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -106,30 +115,44 @@ function getCombinedValues(
   output: CalculationOutput,
   withholdingPercent = 5
 ): PeriodValues {
-  const { session, annual, eldestChildSession, eldestChildAnnual, resolved } = output;
-  const youngerChildrenCount = resolved.numberOfChildren - 1;
+  const perChild = output.children.map((c) =>
+    getPeriodValues(period, c.session, c.annual, withholdingPercent)
+  );
 
-  if (!eldestChildAnnual || !eldestChildSession) {
-    // Single child — use primary directly
-    return getPeriodValues(period, session, annual, withholdingPercent);
+  if (perChild.length === 1) {
+    // Single child — use directly
+    return perChild[0];
   }
 
-  // Multi-child: youngest (primary, higher rate) + eldest children (standard rate)
-  // Matches runCalculations combined total logic.
-  const younger = getPeriodValues(period, session, annual, withholdingPercent);
-  const eldest = getPeriodValues(period, eldestChildSession, eldestChildAnnual, withholdingPercent);
-
+  // Multi-child: sum each child's own figures
   const r = (n: number) => Math.round(n * 100) / 100;
+  const sum = (key: keyof Omit<PeriodValues, 'suffix'>) =>
+    r(perChild.reduce((total, v) => total + v[key], 0));
   return {
-    gross:       r(younger.gross       + eldest.gross       * youngerChildrenCount),
-    subsidy:     r(younger.subsidy     + eldest.subsidy     * youngerChildrenCount),
-    gap:         r(younger.gap         + eldest.gap         * youngerChildrenCount),
-    withholding: r(younger.withholding + eldest.withholding * youngerChildrenCount),
-    netGap:      r(younger.netGap      + eldest.netGap      * youngerChildrenCount),
-    suffix: younger.suffix,
+    gross:       sum('gross'),
+    subsidy:     sum('subsidy'),
+    gap:         sum('gap'),
+    withholding: sum('withholding'),
+    netGap:      sum('netGap'),
+    suffix: perChild[0].suffix,
   };
 }
 
+// Maximum-rate income threshold for the selected year, e.g. "$85,279"
+function formatThreshold(output: CalculationOutput): string {
+  return formatDollars(output.rates.standardSubsidy.baseIncomeThreshold);
+}
+
+// Short label for a child in per-child breakdowns
+function getChildLabel(output: CalculationOutput, index: number): string {
+  const { child } = output.children[index];
+  if (output.children.length === 1) return 'Your child';
+  if (output.resolved.hasPerChildInputs) {
+    return `Child ${index + 1} · age ${child.ageYears}`;
+  }
+  return child.isEldest ? 'Eldest child' : 'Younger child';
+}
+
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
 function PeriodToggle({
@@ -259,7 +282,7 @@ function CalcBreakdownAccordion({
   const { ccsPercentage, session, resolved } = output;
 
   const stepLabel = period === 'annual' ? 'year' : period === 'fortnightly' ? 'fortnight' : period;
-  const multiplier = period === 'daily' ? 1 : period === 'weekly' ? daysPerWeek : period === 'fortnightly' ? daysPerWeek * 2 : daysPerWeek * 52;
+  const multiplier = period === 'daily' ? 1 : period === 'weekly' ? daysPerWeek : period === 'fortnightly' ? daysPerWeek * 2 : daysPerWeek * resolved.weeksOfCarePerYear;
 
   return (
     <div className="border-t border-border mt-1">
@@ -291,7 +314,7 @@ function CalcBreakdownAccordion({
             </p>
             <div className="space-y-1 font-mono">
               <p>Combined family income: <span className="text-text-main">{formatDollars(resolved.combinedAnnualIncome)}/yr</span></p>
-              <p>CCS threshold: $85,279</p>
+              <p>CCS threshold: {formatThreshold(output)}</p>
               {ccsPercentage.incomeAboveThreshold === 0 ? (
                 <p>Income at or below threshold → <span className="text-primary font-semibold">90% maximum rate</span></p>
               ) : (
@@ -350,7 +373,7 @@ function CalcBreakdownAccordion({
                 <>
                   <p>
                     Sessions per {stepLabel}: {daysPerWeek} days/week
-                    {period === 'fortnightly' ? ' × 2 weeks' : period === 'annual' ? ' × 52 weeks' : ''}
+                    {period === 'fortnightly' ? ' × 2 weeks' : period === 'annual' ? ` × ${resolved.weeksOfCarePerYear} weeks` : ''}
                     {' '}= {multiplier} sessions
                   </p>
                   <p>Gap fee per {stepLabel}: {formatDollars(session.outOfPocketPerSession)} × {multiplier} = <span className="text-text-main">{formatDollars(session.outOfPocketPerSession * multiplier)}</span></p>
@@ -364,7 +387,12 @@ function CalcBreakdownAccordion({
             </div>
           </div>
 
-          {output.higherCCS && (
+          {resolved.hasPerChildInputs && resolved.numberOfChildren > 1 ? (
+            <p className="border-t border-border pt-3">
+              Shown for your youngest child. Each of your other children is calculated
+              the same way using their own fee, hours, days and CCS rate.
+            </p>
+          ) : output.higherCCS && (
             <p className="border-t border-border pt-3">
               Your younger {resolved.numberOfChildren > 2 ? 'children use' : 'child uses'} the same method above but with the
               higher {output.higherCCS.higherPercent}% rate instead of {ccsPercentage.percent}%.
@@ -376,6 +404,245 @@ function CalcBreakdownAccordion({
   );
 }
 
+// ─── Annual Cap Alert ─────────────────────────────────────────────────────────
+
+function AnnualCapAlert({
+  cap,
+  childLabel,
+  incomeThreshold,
+}: {
+  cap: AnnualCapResult;
+  childLabel: string;
+  incomeThreshold: number;
+}) {
+  if (!cap.isCapReached || cap.capAmount === null) return null;
+
+  return (
+    <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm">
+      <p className="font-medium text-amber-800">
+        {childLabel} reaches the annual CCS cap in fortnight {cap.capReachedInFortnight} of 26
+      </p>
+      <p className="text-amber-700 mt-0.5 text-xs">
+        Families earning above {formatDollars(incomeThreshold)} receive at most {formatDollars(cap.capAmount)} of CCS
+        per child each financial year. At your usage, the subsidy would otherwise total{' '}
+        {formatDollars(cap.uncappedSubsidyPerYear)} — so you pay an extra{' '}
+        <strong>{formatDollars(cap.extraOutOfPocketPerYear)}/year</strong> in full fees after
+        the cap is reached. Annual figures below include this.
+      </p>
+    </div>
+  );
+}
+
+// ─── Absences Alert ───────────────────────────────────────────────────────────
+
+function AbsencesAlert({
+  absences,
+  childLabel,
+}: {
+  absences: AbsenceResult;
+  childLabel: string;
+}) {
+  if (absences.unsubsidisedDays <= 0) return null;
+
+  return (
+    <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm">
+      <p className="font-medium text-amber-800">
+        {childLabel}: {absences.unsubsidisedDays} absence{absences.unsubsidisedDays === 1 ? '' : 's'} without CCS
+      </p>
+      <p className="text-amber-700 mt-0.5 text-xs">
+        CCS covers up to {absences.allowableDays} days away per child each year
+        {absences.evidencedDays > 0 && <>, plus the {absences.evidencedDays} extra days you have evidence for</>}.
+        Of {absences.absenceDays} days away, the remaining {absences.unsubsidisedDays} are charged at
+        the full fee — an extra <strong>{formatDollars(absences.extraOutOfPocketPerYear)}/year</strong>.
+        Annual figures below include this.
+      </p>
+    </div>
+  );
+}
+
+// ─── Activity Test Alert ──────────────────────────────────────────────────────
+
+function ActivityTestAlert({
+  activityTest,
+  additionalCCS,
+  annual,
+}: {
+  activityTest: ActivityTestResult;
+  additionalCCS: AdditionalCCSResult | null;
+  annual: AnnualCostResult;
+}) {
+  if (annual.unsubsidisedHoursPerFortnight <= 0) return null;
+
+  // Fixed-hours ACCS streams don't follow the activity test
+  if (additionalCCS && !additionalCCS.activityTested) {
+    return (
+      <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm">
+        <p className="font-medium text-amber-800">
+          {formatNumber(annual.unsubsidisedHoursPerFortnight)} hours of care per fortnight
+          are not subsidised
+        </p>
+        <p className="text-amber-700 mt-0.5 text-xs">
+          Additional CCS covers up to {additionalCCS.hoursBeforeGuarantee} hours per
+          fortnight. Care above that is charged at the full fee. Figures below include this.
+        </p>
+      </div>
+    );
+  }
+
+  const guaranteeRaisesLimit =
+    activityTest.hoursFromGuarantee > activityTest.hoursBeforeGuarantee;
+
+  return (
+    <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm">
+      <p className="font-medium text-amber-800">
+        {formatNumber(annual.unsubsidisedHoursPerFortnight)} hours of care per fortnight
+        are not subsidised
+      </p>
+      <p className="text-amber-700 mt-0.5 text-xs">
+        Your activity test result allows {activityTest.hoursBeforeGuarantee} subsidised
+        hours per fortnight
+        {guaranteeRaisesLimit && (
+          <>, rising to {activityTest.hoursFromGuarantee} hours from 5 January 2026
+          under the 3-Day Guarantee</>
+        )}
+        . Across the year that averages{' '}
+        {formatNumber(annual.subsidisedHoursPerFortnight)} of your{' '}
+        {formatNumber(annual.hoursOfCarePerFortnight)} hours — care above the limit is
+        charged at the full fee. Figures below include this.
+      </p>
+    </div>
+  );
+}
+
+// ─── Additional CCS Alert ─────────────────────────────────────────────────────
+
+function AdditionalCCSAlert({ additionalCCS }: { additionalCCS: AdditionalCCSResult }) {
+  const { streamRates } = additionalCCS;
+
+  return (
+    <div className="rounded-lg bg-teal-50 border border-primary/20 px-4 py-3 text-sm">
+      <p className="font-medium text-primary">
+        Additional CCS ({streamRates.label.toLowerCase()}) replaces the income-tested rate
+      </p>
+      <p className="text-primary/80 mt-0.5 text-xs">
+        ACCS pays {streamRates.subsidyPercent}% of fees up to {streamRates.rateCapPercent}% of
+        the hourly rate cap
+        {additionalCCS.activityTested
+          ? ', for the hours your activity test allows'
+          : `, for up to ${streamRates.subsidisedHoursPerFortnight} hours per fortnight`}
+        . It isn&apos;t income tested and the annual CCS cap doesn&apos;t apply.
+        {streamRates.maxWeeksPerDetermination !== null && (
+          <> Each determination lasts up to {streamRates.maxWeeksPerDetermination} weeks, so
+          you may need to reapply during the year.</>
+        )}
+      </p>
+    </div>
+  );
+}
+
+// ─── Child Breakdown Card ─────────────────────────────────────────────────────
+
+const CARE_TYPE_SHORT_LABELS: Record<CareType, string> = {
+  centre_based_day_care: 'Long day care',
+  family_day_care: 'Family day care',
+  outside_school_hours: 'OSHC',
+  in_home_care: 'In-home care',
+};
+
+function ChildBreakdownCard({
+  label,
+  childCalc,
+  values,
+}: {
+  label: string;
+  childCalc: ChildCalculation;
+  values: PeriodValues;
+}) {
+  const { child, ccsPercent } = childCalc;
+  const higher = child.usesHigherRate;
+
+  return (
+    <div
+      className={[
+        'rounded-xl border px-4 py-4',
+        higher ? 'bg-primary/5 border-primary/20' : 'bg-gray-50 border-border',
+      ].join(' ')}
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <span className={['text-lg font-bold leading-none', higher ? 'text-green-700' : 'text-primary'].join(' ')}>
+          {ccsPercent}%
+        </span>
+        <div>
+          <p className="text-xs font-semibold text-text-main">{label}</p>
+          <p className="text-xs text-muted">
+            {CARE_TYPE_SHORT_LABELS[child.careType]} · {child.daysPerWeek}d/wk ·{' '}
+            {higher ? 'Higher rate' : 'Standard rate'}
+            {child.weeksPerYear < 52 && <> · {child.weeksPerYear} wks/yr</>}
+            {childCalc.absences.absenceDays > 0 && <> · {childCalc.absences.absenceDays} days away</>}
+          </p>
+        </div>
+      </div>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted">Gross fee</span>
+          <span className="font-medium">{formatDollars(values.gross)}{values.suffix}</span>
+        </div>
+        <div className="flex justify-between text-green-700">
+          <span>CCS subsidy</span>
+          <span className="font-medium">−{formatDollars(values.subsidy)}{values.suffix}</span>
+        </div>
+        <div className="flex justify-between border-t border-border pt-1.5 mt-1">
+          <span className="text-muted">Gap fee</span>
+          <span className="font-semibold text-text-main">{formatDollars(values.gap)}{values.suffix}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── Changes During the Year ──────────────────────────────────────────────────
+
+function YearChangesPanel({ output }: { output: CalculationOutput }) {
+  const changing = output.children
+    .map((c, i) => ({ c, i }))
+    .filter(({ c }) => c.segments.length > 1);
+  if (changing.length === 0) return null;
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-muted uppercase tracking-wide mb-3">
+        Changes during the year
+      </p>
+      <div className="space-y-3">
+        {changing.map(({ c, i }) => (
+          <div key={i} className="rounded-xl border border-border bg-gray-50 px-4 py-3">
+            <p className="text-xs font-semibold text-text-main mb-2">{getChildLabel(output, i)}</p>
+            <ul className="space-y-1.5 text-xs">
+              {c.segments.map((seg) => (
+                <li key={seg.startDate} className="flex flex-wrap justify-between gap-x-3">
+                  <span className="text-muted">
+                    From {formatDateLong(seg.startDate)} · age {seg.ageYears} ·{' '}
+                    {seg.ageGroup === 'school_age' ? 'school age' : 'below school age'}
+                  </span>
+                  <span className="font-medium text-text-main">
+                    {seg.ccsPercent}% · cap {formatDollarsAndCents(seg.session.hourlyRateCap)}/hr ·{' '}
+                    {formatDollars(seg.annual.outOfPocketPerFortnight)}/fortnight gap
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted mt-2">
+        Annual figures above add up each part of the year at the rate and hourly
+        cap that applied then. School starts assume your child starts as soon as
+        they&apos;re eligible in {output.resolved.state}.
+      </p>
+    </div>
+  );
+}
+
 // ─── Cost Summary Card (Task 4.1) ─────────────────────────────────────────────
 
 function CostSummaryCard({
@@ -389,7 +656,7 @@ function CostSummaryCard({
 }) {
   const { resolved, ccsPercentage, higherCCS, session, annual, eldestChildSession, eldestChildAnnual } = output;
   const isMultiChild = !!higherCCS;
-  const withholdingPercent = 5; // matches ccsRates.withholdingPercent
+  const withholdingPercent = output.rates.withholdingPercent;
 
   // Combined family values for the primary waterfall
   const combined = getCombinedValues(period, output, withholdingPercent);
@@ -417,8 +684,14 @@ function CostSummaryCard({
               Cost Summary
             </h2>
             <p className="text-xs text-muted mt-0.5">
-              {childrenLabel} · {resolved.daysPerWeek} day{resolved.daysPerWeek === 1 ? '' : 's'}/week
-              {resolved.usingStateAverage ? ` · ${resolved.state} average fee` : ` · ${formatDollars(resolved.dailyFee)}/day`}
+              {resolved.hasPerChildInputs ? (
+                <>{childrenLabel} · care varies by child</>
+              ) : (
+                <>
+                  {childrenLabel} · {resolved.daysPerWeek} day{resolved.daysPerWeek === 1 ? '' : 's'}/week
+                  {resolved.usingStateAverage ? ` · ${resolved.state} average fee` : ` · ${formatDollars(resolved.dailyFee)}/day`}
+                </>
+              )}
             </p>
           </div>
           <PeriodToggle value={period} onChange={onPeriodChange} />
@@ -429,15 +702,22 @@ function CostSummaryCard({
 
         {/* ── CCS rate display ─────────────────────────────────────────────── */}
         <div className="flex flex-wrap gap-x-8 gap-y-3">
-          {isMultiChild ? (
+          {output.additionalCCS ? (
+            <RateBadge
+              rate={output.additionalCCS.subsidyPercent}
+              label={`Additional CCS · ${output.additionalCCS.streamRates.label}`}
+            />
+          ) : isMultiChild ? (
             <>
               <RateBadge
                 rate={ccsPercentage.percent}
-                label="Eldest child · standard rate"
+                label={resolved.hasPerChildInputs ? 'Standard rate' : 'Eldest child · standard rate'}
               />
               <RateBadge
                 rate={higherCCS!.higherPercent}
-                label={`Younger ${resolved.numberOfChildren > 2 ? 'children' : 'child'} · higher rate${higherCCS!.wasCapped ? ' (capped at 95%)' : ''}`}
+                label={resolved.hasPerChildInputs
+                  ? `Younger children 5 and under · higher rate${higherCCS!.wasCapped ? ' (capped at 95%)' : ''}`
+                  : `Younger ${resolved.numberOfChildren > 2 ? 'children' : 'child'} · higher rate${higherCCS!.wasCapped ? ' (capped at 95%)' : ''}`}
                 higher
               />
             </>
@@ -445,12 +725,18 @@ function CostSummaryCard({
             <RateBadge rate={ccsPercentage.percent} label="Your CCS subsidy rate" />
           )}
           <div className="text-xs text-muted self-end pb-0.5 max-w-xs">
-            {ccsPercentage.incomeAboveThreshold === 0
-              ? 'Maximum rate — your income is at or below the $85,279 threshold.'
-              : `Rate tapered from 90% — ${formatDollars(ccsPercentage.incomeAboveThreshold)} above the $85,279 threshold.`}
+            {output.additionalCCS
+              ? 'Not income tested — applies to every child in care.'
+              : ccsPercentage.incomeAboveThreshold === 0
+              ? `Maximum rate — your income is at or below the ${formatThreshold(output)} threshold.`
+              : `Rate tapered from 90% — ${formatDollars(ccsPercentage.incomeAboveThreshold)} above the ${formatThreshold(output)} threshold.`}
           </div>
         </div>
 
+        {output.additionalCCS && (
+          <AdditionalCCSAlert additionalCCS={output.additionalCCS} />
+        )}
+
         {/* ── Rate cap alert (when fee exceeds cap) ──────────────────────── */}
         {session.feeAboveCapPerHour > 0 && (
           <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm">
@@ -465,6 +751,41 @@ function CostSummaryCard({
           </div>
         )}
 
+        {/* ── Annual cap alert (income above threshold, heavy usage) ──────── */}
+        {resolved.hasPerChildInputs ? (
+          output.children.map((c, i) => (
+            <AnnualCapAlert
+              key={i}
+              cap={c.annualCap}
+              childLabel={getChildLabel(output, i)}
+              incomeThreshold={output.rates.annualSubsidyCap.incomeThreshold}
+            />
+          ))
+        ) : (
+          <>
+            <AnnualCapAlert
+              cap={output.annualCap}
+              childLabel={isMultiChild ? `Your younger ${resolved.numberOfChildren > 2 ? 'children each' : 'child'}` : 'Your child'}
+              incomeThreshold={output.rates.annualSubsidyCap.incomeThreshold}
+            />
+            {output.eldestChildAnnualCap && (
+              <AnnualCapAlert
+                cap={output.eldestChildAnnualCap}
+                childLabel="Your eldest child"
+                incomeThreshold={output.rates.annualSubsidyCap.incomeThreshold}
+              />
+            )}
+          </>
+        )}
+        {output.children.map((c, i) => (
+          <AbsencesAlert key={i} absences={c.absences} childLabel={getChildLabel(output, i)} />
+        ))}
+        <ActivityTestAlert
+          activityTest={output.activityTest}
+          additionalCCS={output.additionalCCS}
+          annual={output.children.find((c) => c.annual.unsubsidisedHoursPerFortnight > 0)?.annual ?? annual}
+        />
+
         {/* ── Primary cost waterfall ──────────────────────────────────────── */}
         <div>
           {isMultiChild && (
@@ -479,7 +800,9 @@ function CostSummaryCard({
               suffix={combined.suffix}
             />
             <WaterfallRow
-              label={isMultiChild
+              label={output.additionalCCS
+                ? `Government pays (ACCS − ${output.additionalCCS.subsidyPercent}%)`
+                : isMultiChild
                 ? `Government pays (CCS − ${ccsPercentage.percent}% / ${higherCCS!.higherPercent}%)`
                 : `Government pays (CCS − ${ccsPercentage.percent}%)`}
               value={combined.subsidy}
@@ -514,8 +837,30 @@ function CostSummaryCard({
           </div>
         </div>
 
-        {/* ── Per-child breakdown (multi-child only) ──────────────────────── */}
-        {isMultiChild && youngerChildValues && eldestChildValues && (
+        {/* ── Per-child breakdown (children entered individually) ─────────── */}
+        {resolved.hasPerChildInputs && output.children.length > 1 && (
+          <div>
+            <p className="text-xs font-semibold text-muted uppercase tracking-wide mb-3">
+              Per-child breakdown
+            </p>
+            <div className="grid sm:grid-cols-2 gap-4">
+              {output.children.map((c, i) => (
+                <ChildBreakdownCard
+                  key={i}
+                  label={getChildLabel(output, i)}
+                  childCalc={c}
+                  values={getPeriodValues(period, c.session, c.annual, withholdingPercent)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* ── Mid-year birthdays and school starts ─────────────────────────── */}
+        <YearChangesPanel output={output} />
+
+        {/* ── Per-child breakdown (multi-child, shared arrangement) ────────── */}
+        {!resolved.hasPerChildInputs && isMultiChild && youngerChildValues && eldestChildValues && (
           <div>
             <p className="text-xs font-semibold text-muted uppercase tracking-wide mb-3">
               Per-child breakdown
@@ -600,6 +945,380 @@ function CostSummaryCard({
   );
 }
 
+// ─── Payment Timeline Panel ──────────────────────────────────────────────────
+//
+// Every CCS fortnight of the financial year on real dates: what the family
+// pays, the running total, and markers for the 3-Day Guarantee, annual cap
+// and mid-year rate changes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+function PaymentTimelinePanel({ output }: { output: CalculationOutput }) {
+  const [showAll, setShowAll] = useState(false);
+  const { timeline, children } = output;
+  const { fortnights, totals, capReachedInFortnight } = timeline;
+  const maxNet = Math.max(...fortnights.map((f) => f.netOutOfPocket), 1);
+
+  // Markers for fortnights where something changes
+  const markers = new Map<number, string[]>();
+  const addMarker = (fortnight: number, text: string) => {
+    markers.set(fortnight, [...(markers.get(fortnight) ?? []), text]);
+  };
+  capReachedInFortnight.forEach((n, i) => {
+    if (n !== null) addMarker(n, `Annual cap reached${children.length > 1 ? ` · ${getChildLabel(output, i)}` : ''}`);
+  });
+  timeline.absencesExhaustedInFortnight.forEach((n, i) => {
+    if (n !== null) addMarker(n, `Allowable absences used${children.length > 1 ? ` · ${getChildLabel(output, i)}` : ''}`);
+  });
+  children.forEach((c, i) => {
+    c.segments.slice(1).forEach((seg) => {
+      const f = fortnights.find((row) => seg.startDate >= row.startDate && seg.startDate < row.endDate);
+      if (f) addMarker(f.fortnight, `Rate change${children.length > 1 ? ` · ${getChildLabel(output, i)}` : ''}`);
+    });
+  });
+  fortnights.forEach((f, i) => {
+    if (i > 0 && f.subsidisedHoursLimit > fortnights[i - 1].subsidisedHoursLimit) {
+      addMarker(f.fortnight, `3-Day Guarantee · ${f.subsidisedHoursLimit} subsidised hours`);
+    }
+  });
+
+  const visible = showAll
+    ? fortnights
+    : fortnights.filter((f, i) => i < 3 || i === fortnights.length - 1 || markers.has(f.fortnight));
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+
+      {/* ── Card header ──────────────────────────────────────────────────── */}
+      <div className="px-6 pt-6 pb-4 border-b border-border">
+        <h2 className="text-sm font-semibold text-muted uppercase tracking-wide">
+          Payment Timeline
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          Every CCS fortnight in FY {output.ratesVersion}, on real dates
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-5">
+
+        {/* ── Summary ─────────────────────────────────────────────────────── */}
+        <div className="grid sm:grid-cols-3 gap-3">
+          <div className="rounded-xl bg-gray-50 border border-border px-4 py-3">
+            <p className="text-xs text-muted font-medium">Sessions of care</p>
+            <p className="text-lg font-bold text-text-main mt-0.5">{formatNumber(totals.sessions)}</p>
+            <p className="text-xs text-muted mt-0.5">across {fortnights.length} fortnights</p>
+          </div>
+          <div className="rounded-xl bg-gray-50 border border-border px-4 py-3">
+            <p className="text-xs text-muted font-medium">CCS paid to your provider</p>
+            <p className="text-lg font-bold text-green-700 mt-0.5">
+              {formatDollars(totals.subsidy - totals.withholding)}
+            </p>
+            <p className="text-xs text-muted mt-0.5">
+              plus {formatDollars(totals.withholding)} withheld until reconciliation
+            </p>
+          </div>
+          <div className="rounded-xl bg-primary/5 border border-primary/20 px-4 py-3">
+            <p className="text-xs text-muted font-medium">You pay during the year</p>
+            <p className="text-lg font-bold text-primary mt-0.5">{formatDollars(totals.netOutOfPocket)}</p>
+            <p className="text-xs text-muted mt-0.5">gap fees including withholding</p>
+          </div>
+        </div>
+
+        {/* ── Fortnight bars ──────────────────────────────────────────────── */}
+        <div>
+          <div className="flex items-end gap-0.5 h-24" aria-hidden="true">
+            {fortnights.map((f) => (
+              <div
+                key={f.fortnight}
+                title={`${formatDateShort(f.startDate)}: ${formatDollars(f.netOutOfPocket)}`}
+                className={[
+                  'flex-1 rounded-t',
+                  markers.has(f.fortnight) ? 'bg-amber-400' : 'bg-primary/60',
+                ].join(' ')}
+                style={{ height: `${Math.max(2, (f.netOutOfPocket / maxNet) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-muted mt-1">
+            <span>{formatDateShort(fortnights[0].startDate)}</span>
+            <span>{formatDateShort(fortnights[fortnights.length - 1].startDate)}</span>
+          </div>
+        </div>
+
+        {/* ── Fortnight table ─────────────────────────────────────────────── */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted border-b border-border">
+                <th className="text-left font-medium py-2 pr-3">Fortnight</th>
+                <th className="text-right font-medium py-2 px-3">Sessions</th>
+                <th className="text-right font-medium py-2 px-3">CCS</th>
+                <th className="text-right font-medium py-2 px-3">You pay</th>
+                <th className="text-right font-medium py-2 pl-3">Running total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((f) => (
+                <tr key={f.fortnight} className="border-b border-border/60 align-top">
+                  <td className="py-2 pr-3">
+                    <span className="font-medium text-text-main">{f.fortnight}</span>{' '}
+                    <span className="text-muted">· {formatDateShort(f.startDate)}</span>
+                    {markers.get(f.fortnight)?.map((m) => (
+                      <span key={m} className="block text-xs text-amber-700">{m}</span>
+                    ))}
+                  </td>
+                  <td className="text-right py-2 px-3">{f.sessions}</td>
+                  <td className="text-right py-2 px-3 text-green-700">{formatDollars(f.subsidy)}</td>
+                  <td className="text-right py-2 px-3 font-medium">{formatDollars(f.netOutOfPocket)}</td>
+                  <td className="text-right py-2 pl-3 text-muted">{formatDollars(f.cumulativeNetOutOfPocket)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {visible.length < fortnights.length || showAll ? (
+          <button
+            type="button"
+            onClick={() => setShowAll((v) => !v)}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {showAll ? 'Show key fortnights only' : `Show all ${fortnights.length} fortnights`}
+          </button>
+        ) : null}
+        <p className="text-xs text-muted">
+          Assumes care on the same weekdays each week (Monday onwards), closure
+          weeks over Christmas first and then the school holidays, and any days
+          away spread evenly across the year. Fortnights
+          start on 1 July; the last one is a single day.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ─── Reconciliation Panel ────────────────────────────────────────────────────
+//
+// End-of-year balancing: CCS paid on the income estimate vs the entitlement at
+// actual income, netted against the amount withheld during the year. Compares
+// withholding levels so families with uncertain income can avoid a debt.
+// ─────────────────────────────────────────────────────────────────────────────
+
+function ReconciliationPanel({ output }: { output: CalculationOutput }) {
+  const { resolved, children, yearSegments } = output;
+  const [estimate, setEstimate] = useState(String(resolved.combinedAnnualIncome));
+  const [actual, setActual] = useState(String(resolved.combinedAnnualIncome + 10000));
+  const [withholding, setWithholding] = useState(output.rates.withholdingPercent);
+
+  const estimatedIncome = Math.max(0, Number(estimate) || 0);
+  const actualIncome = Math.max(0, Number(actual) || 0);
+  const reconciliationChildren = children.map(({ child }, i) => ({
+    dailyFee: child.dailyFee,
+    hoursPerDay: child.hoursPerDay,
+    daysPerWeek: child.daysPerWeek,
+    careType: child.careType,
+    periods: yearSegments.map((seg) => ({
+      shareOfYear: seg.shareOfYear,
+      ageGroup: seg.children[i].ageGroup,
+      usesHigherRate: seg.children[i].usesHigherRate,
+    })),
+    absenceDays: child.absenceDaysPerYear,
+    evidencedAbsenceDays: child.evidencedAbsenceDaysPerYear,
+    weeksPerYear: child.weeksPerYear,
+  }));
+  const activity = {
+    activityHoursPerFortnight: resolved.activityHoursPerFortnight,
+    partnerActivityHoursPerFortnight: resolved.partnerActivityHoursPerFortnight,
+  };
+  const result = reconcileYear(
+    reconciliationChildren,
+    activity,
+    estimatedIncome,
+    actualIncome,
+    output.rates,
+    withholding
+  );
+  const comparison = compareWithholdingOptions(
+    reconciliationChildren,
+    activity,
+    estimatedIncome,
+    actualIncome,
+    output.rates
+  );
+
+  const incomeInput = (
+    label: string,
+    value: string,
+    onChange: (v: string) => void
+  ) => (
+    <label className="block">
+      <span className="block text-xs text-muted font-medium mb-1">{label}</span>
+      <span className="relative block">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted text-sm">$</span>
+        <input
+          type="number"
+          min="0"
+          step="1000"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full border border-border rounded-lg pl-7 pr-3 py-2 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40"
+        />
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+
+      {/* ── Card header ──────────────────────────────────────────────────── */}
+      <div className="px-6 pt-6 pb-4 border-b border-border">
+        <h2 className="text-sm font-semibold text-muted uppercase tracking-wide">
+          End-of-Year Reconciliation
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          What happens if your actual income differs from your estimate
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-5">
+
+        {/* ── Inputs ──────────────────────────────────────────────────────── */}
+        <div className="grid sm:grid-cols-3 gap-3">
+          {incomeInput('Income estimate given to Services Australia', estimate, setEstimate)}
+          {incomeInput('Actual adjusted taxable income', actual, setActual)}
+          <label className="block">
+            <span className="block text-xs text-muted font-medium mb-1">CCS withheld</span>
+            <select
+              value={withholding}
+              onChange={(e) => setWithholding(Number(e.target.value))}
+              className="w-full border border-border rounded-lg px-3 py-2 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40"
+            >
+              {WITHHOLDING_OPTIONS.map((percent) => (
+                <option key={percent} value={percent}>
+                  {percent}%{percent === output.rates.withholdingPercent ? ' (standard)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* ── Paid vs entitled ────────────────────────────────────────────── */}
+        <table className="w-full text-sm">
+          <tbody>
+            <tr className="border-b border-border/60">
+              <td className="py-2 text-muted">CCS paid on your estimate ({result.estimatedPercent}%)</td>
+              <td className="py-2 text-right">{formatDollars(result.subsidyPaid)}</td>
+            </tr>
+            <tr className="border-b border-border/60">
+              <td className="py-2 text-muted">Withheld during the year ({result.withholdingPercent}%)</td>
+              <td className="py-2 text-right">{formatDollars(result.withheld)}</td>
+            </tr>
+            <tr className="border-b border-border/60">
+              <td className="py-2 text-muted">CCS at your actual income ({result.actualPercent}%)</td>
+              <td className="py-2 text-right">{formatDollars(result.subsidyEntitled)}</td>
+            </tr>
+            {result.overpayment > 0 && (
+              <tr className="border-b border-border/60">
+                <td className="py-2 text-muted">Overpaid during the year</td>
+                <td className="py-2 text-right text-red-700">{formatDollars(result.overpayment)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        {/* ── Outcome ─────────────────────────────────────────────────────── */}
+        {result.debt > 0 ? (
+          <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm">
+            <p className="font-medium text-red-800">
+              Estimated debt: {formatDollars(result.debt)}
+            </p>
+            <p className="text-red-700 mt-0.5 text-xs">
+              The {formatDollars(result.withheld)} withheld doesn&apos;t cover the{' '}
+              {formatDollars(result.overpayment)} overpaid. Updating your income
+              estimate during the year, or withholding more, reduces the debt.
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg bg-green-50 border border-green-200 px-4 py-3 text-sm">
+            <p className="font-medium text-green-800">
+              Estimated top-up: {formatDollars(result.topUp)}
+            </p>
+            <p className="text-green-700 mt-0.5 text-xs">
+              {result.overpayment > 0
+                ? `The ${formatDollars(result.withheld)} withheld fully absorbs the ${formatDollars(result.overpayment)} overpaid — the rest is paid to you.`
+                : 'You were paid no more than your entitlement, so the withheld amount (and any shortfall) is paid to you.'}
+            </p>
+          </div>
+        )}
+
+        {/* ── Withholding comparison ──────────────────────────────────────── */}
+        <div>
+          <h3 className="text-sm font-semibold text-text-main mb-1">
+            Choosing a withholding level
+          </h3>
+          <p className="text-xs text-muted mb-3">
+            {comparison.requiredPercent <= output.rates.withholdingPercent
+              ? `The standard ${output.rates.withholdingPercent}% is enough to avoid a debt if your income is ${formatDollars(actualIncome)}.`
+              : `To avoid a debt if your income is ${formatDollars(actualIncome)}, withhold at least ${comparison.requiredPercent}% — we suggest ${comparison.suggestedPercent}%.`}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted border-b border-border">
+                  <th className="text-left font-medium py-2 pr-3">Withheld</th>
+                  <th className="text-right font-medium py-2 px-3">You pay / fortnight</th>
+                  <th className="text-right font-medium py-2 pl-3">At year end</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.options.map((option) => (
+                  <tr
+                    key={option.withholdingPercent}
+                    className={[
+                      'border-b border-border/60',
+                      option.withholdingPercent === comparison.suggestedPercent ? 'bg-primary/5' : '',
+                    ].join(' ')}
+                  >
+                    <td className="py-2 pr-3">
+                      <button
+                        type="button"
+                        onClick={() => setWithholding(option.withholdingPercent)}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        {option.withholdingPercent}%
+                      </button>
+                      {option.withholdingPercent === comparison.suggestedPercent && (
+                        <span className="ml-2 text-xs text-primary">Suggested</span>
+                      )}
+                    </td>
+                    <td className="text-right py-2 px-3">
+                      {formatDollars(option.netOutOfPocketPerFortnight)}
+                    </td>
+                    <td
+                      className={[
+                        'text-right py-2 pl-3 font-medium',
+                        option.debt > 0 ? 'text-red-700' : 'text-green-700',
+                      ].join(' ')}
+                    >
+                      {option.debt > 0
+                        ? `${formatDollars(option.debt)} debt`
+                        : `${formatDollars(option.topUp)} top-up`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted">
+          Services Australia balances CCS after you (and your partner) lodge a
+          tax return for FY {output.ratesVersion}. Assumes the same care all
+          year; top-ups can be used to offset other debts first.
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ─── Back-to-Work Analysis Panel (Task 4.2) ──────────────────────────────────
 //
 // The flagship differentiator: compares 1–5 day working scenarios with a
@@ -615,6 +1334,7 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
   const isCurrentlyWorking = current.grossIncome > 0;
   const hasPositive = scenarios.some((s) => s.isWorthIt);
   const hasNegative = scenarios.some((s) => !s.isWorthIt);
+  const hasInformalCare = scenarios.some((s) => s.informalCareDaysPerWeek > 0);
 
   return (
     <div className="rounded-2xl border border-border bg-card overflow-hidden">
@@ -643,7 +1363,7 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
               </div>
               <div className="min-w-0">
                 <p className="text-base font-semibold text-emerald-800">
-                  Working {bestScenario.daysWorking} day{bestScenario.daysWorking === 1 ? '' : 's'}/week is financially positive
+                  Working {scenarioName(bestScenario)} is financially positive
                 </p>
                 <p className="text-sm text-emerald-700 mt-0.5">
                   Net benefit: <strong>{formatDollars(bestScenario.netBenefit)}/year</strong>
@@ -654,7 +1374,7 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
                 {hasNegative && (
                   <p className="text-xs text-emerald-600 mt-1.5">
                     {bestScenario.daysWorking < 5
-                      ? `${bestScenario.daysWorking} days offers the best return. More days may reduce your effective hourly rate.`
+                      ? `${scenarioName(bestScenario)} offers the best return. More days may reduce your effective hourly rate.`
                       : 'Every scenario is financially positive — the more days you work, the more your family earns.'}
                   </p>
                 )}
@@ -695,18 +1415,18 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
                   <th className="text-right text-xs font-medium text-muted py-2 px-2 min-w-[90px]">
                     <span className="text-text-main">Current</span>
                   </th>
-                  {scenarios.map((s) => (
+                  {scenarios.map((s, i) => (
                     <th
-                      key={s.daysWorking}
+                      key={i}
                       className={[
                         'text-right text-xs font-medium py-2 px-2 min-w-[90px]',
-                        bestScenario?.daysWorking === s.daysWorking ? 'text-primary' : 'text-muted',
+                        bestScenario === s ? 'text-primary' : 'text-muted',
                       ].join(' ')}
                     >
-                      <span className="whitespace-nowrap">
-                        {s.daysWorking} day{s.daysWorking === 1 ? '' : 's'}
+                      <span className={s.isWholeDays ? 'whitespace-nowrap' : ''}>
+                        {s.pattern.label}
                       </span>
-                      {bestScenario?.daysWorking === s.daysWorking && (
+                      {bestScenario === s && (
                         <span className="block text-[10px] font-bold text-primary bg-primary/10 rounded-full px-1.5 py-0.5 mt-0.5 mx-auto w-fit">
                           Best
                         </span>
@@ -717,38 +1437,66 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
               </thead>
               <tbody>
                 {/* ── Income section ── */}
-                <BTWTableSection label="Income" />
+                <BTWTableSection label="Income" colSpan={scenarios.length + 2} />
+                <BTWTableRow
+                  label="Hours worked/wk"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) => `${s.workHoursPerWeek}h (${Math.round(s.fteFraction * 100)}%)`}
+                  muted
+                />
                 <BTWTableRow
                   label="Your income"
                   currentValue={formatDollars(current.grossIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.grossIncome)}
                 />
                 <BTWTableRow
                   label="Income tax"
                   currentValue={current.tax.totalTax > 0 ? `−${formatDollars(current.tax.totalTax)}` : '$0'}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => s.tax.totalTax > 0 ? `−${formatDollars(s.tax.totalTax)}` : '$0'}
                   muted
                 />
+                {(current.tax.medicareLevySurcharge > 0 || scenarios.some((s) => s.tax.medicareLevySurcharge > 0)) && (
+                  <BTWTableRow
+                    label="incl. Medicare levy surcharge"
+                    currentValue={formatDollars(current.tax.medicareLevySurcharge)}
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) => formatDollars(s.tax.medicareLevySurcharge)}
+                    muted
+                  />
+                )}
+                {(current.tax.helpRepayment > 0 || scenarios.some((s) => s.tax.helpRepayment > 0)) && (
+                  <BTWTableRow
+                    label="HELP repayment"
+                    currentValue={current.tax.helpRepayment > 0 ? `−${formatDollars(current.tax.helpRepayment)}` : '$0'}
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) => s.tax.helpRepayment > 0 ? `−${formatDollars(s.tax.helpRepayment)}` : '$0'}
+                    muted
+                  />
+                )}
                 <BTWTableRow
                   label="Net income"
                   currentValue={formatDollars(current.netIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.netIncome)}
                   bold
                 />
 
                 {/* ── CCS & childcare section ── */}
-                <BTWTableSection label="CCS & Childcare Impact" />
+                <BTWTableSection label="CCS & Childcare Impact" colSpan={scenarios.length + 2} />
                 <BTWTableRow
                   label="Combined family income"
                   currentValue={formatDollars(current.combinedFamilyIncome)}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => formatDollars(s.combinedFamilyIncome)}
                   muted
                 />
@@ -756,7 +1504,7 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
                   label="CCS rate"
                   currentValue={`${current.ccsPercent}%`}
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => {
                     const diff = s.ccsPercent - current.ccsPercent;
                     return (
@@ -775,32 +1523,99 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
                   label="Extra childcare cost"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => {
                     const extra = s.annualChildcare.outOfPocketPerYear - current.annualChildcareCost;
                     if (extra <= 0) return <span className="text-green-700">−{formatDollars(Math.abs(extra))}</span>;
                     return <span className="text-red-600">+{formatDollars(extra)}</span>;
                   }}
                 />
+                {hasInformalCare && (
+                  <BTWTableRow
+                    label="Informal care saves"
+                    currentValue="—"
+                    scenarios={scenarios}
+                    best={bestScenario}
+                    renderCell={(s) =>
+                      s.informalCareDaysPerWeek > 0 ? (
+                        <span className="text-green-700">
+                          {formatDollars(s.informalCareValue)}
+                          <span className="text-muted"> ({s.informalCareDaysPerWeek}d)</span>
+                        </span>
+                      ) : '—'
+                    }
+                    muted
+                  />
+                )}
+
+                {/* ── Family Tax Benefit section ── */}
+                {current.familyTaxBenefit && (
+                  <>
+                    <BTWTableSection label="Family Tax Benefit" colSpan={scenarios.length + 2} />
+                    <BTWTableRow
+                      label="FTB Parts A + B"
+                      currentValue={formatDollars(current.familyTaxBenefit.total)}
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => formatDollars(s.familyTaxBenefit?.total ?? 0)}
+                    />
+                    <BTWTableRow
+                      label="FTB change"
+                      currentValue="—"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => {
+                        if (s.ftbChange >= 0) return <span className="text-green-700">+{formatDollars(s.ftbChange)}</span>;
+                        return <span className="text-red-600">−{formatDollars(Math.abs(s.ftbChange))}</span>;
+                      }}
+                      muted
+                    />
+                  </>
+                )}
+
+                {/* ── Parenting Payment section ── */}
+                {current.parentingPayment && (
+                  <>
+                    <BTWTableSection label="Parenting Payment" colSpan={scenarios.length + 2} />
+                    <BTWTableRow
+                      label="Parenting Payment"
+                      currentValue={formatDollars(current.parentingPayment.annualAmount)}
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => formatDollars(s.parentingPayment?.annualAmount ?? 0)}
+                    />
+                    <BTWTableRow
+                      label="Payment change"
+                      currentValue="—"
+                      scenarios={scenarios}
+                      best={bestScenario}
+                      renderCell={(s) => {
+                        if (s.parentingPaymentChange >= 0) return <span className="text-green-700">+{formatDollars(s.parentingPaymentChange)}</span>;
+                        return <span className="text-red-600">−{formatDollars(Math.abs(s.parentingPaymentChange))}</span>;
+                      }}
+                      muted
+                    />
+                  </>
+                )}
 
                 {/* ── Costs section ── */}
-                <BTWTableSection label="Work Costs" />
+                <BTWTableSection label="Work Costs" colSpan={scenarios.length + 2} />
                 <BTWTableRow
                   label="Work-related costs"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => s.annualWorkCosts > 0 ? `−${formatDollars(s.annualWorkCosts)}` : '$0'}
                   muted
                 />
 
                 {/* ── Result section ── */}
-                <BTWTableSection label="Result" />
+                <BTWTableSection label="Result" colSpan={scenarios.length + 2} />
                 <BTWTableRow
                   label="NET BENEFIT"
                   currentValue="Baseline"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => (
                     <span className={[
                       'font-bold',
@@ -812,16 +1627,36 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
                   bold
                   highlight
                 />
+                <BTWTableRow
+                  label="Effective tax rate"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) =>
+                    s.effectiveMarginalTaxRate !== null
+                      ? `${Math.round(s.effectiveMarginalTaxRate)}%`
+                      : '—'
+                  }
+                  muted
+                />
                 <BTWTableRow
                   label="Effective $/hr"
                   currentValue="—"
                   scenarios={scenarios}
-                  bestDay={bestScenario?.daysWorking}
+                  best={bestScenario}
                   renderCell={(s) => s.effectiveHourlyRate !== null
                     ? <span className={s.effectiveHourlyRate > 0 ? 'text-emerald-700' : 'text-red-600'}>{formatDollarsAndCents(s.effectiveHourlyRate)}</span>
                     : '—'
                   }
                 />
+                <BTWTableRow
+                  label="Break-even FTE salary"
+                  currentValue="—"
+                  scenarios={scenarios}
+                  best={bestScenario}
+                  renderCell={(s) => s.breakEvenFTEIncome !== null ? formatDollars(s.breakEvenFTEIncome) : '—'}
+                  muted
+                />
               </tbody>
             </table>
           </div>
@@ -870,11 +1705,11 @@ function BackToWorkPanel({ output }: { output: CalculationOutput }) {
 
 // ── Table sub-components ──────────────────────────────────────────────────────
 
-function BTWTableSection({ label }: { label: string }) {
+function BTWTableSection({ label, colSpan }: { label: string; colSpan: number }) {
   return (
     <tr>
       <td
-        colSpan={7}
+        colSpan={colSpan}
         className="text-[10px] font-bold text-muted uppercase tracking-widest pt-4 pb-1 border-b border-border sticky left-0 bg-card"
       >
         {label}
@@ -887,7 +1722,7 @@ function BTWTableRow({
   label,
   currentValue,
   scenarios,
-  bestDay,
+  best,
   renderCell,
   muted = false,
   bold = false,
@@ -896,7 +1731,7 @@ function BTWTableRow({
   label: string;
   currentValue: React.ReactNode;
   scenarios: BackToWorkScenario[];
-  bestDay?: number;
+  best?: BackToWorkScenario | null;
   renderCell: (s: BackToWorkScenario) => React.ReactNode;
   muted?: boolean;
   bold?: boolean;
@@ -918,14 +1753,14 @@ function BTWTableRow({
       ].join(' ')}>
         {currentValue}
       </td>
-      {scenarios.map((s) => (
+      {scenarios.map((s, i) => (
         <td
-          key={s.daysWorking}
+          key={i}
           className={[
             'py-1.5 px-2 text-right tabular-nums whitespace-nowrap',
             highlight ? 'bg-gray-50' : '',
-            bestDay === s.daysWorking && !highlight ? 'bg-primary/5' : '',
-            bestDay === s.daysWorking && highlight ? 'bg-primary/10' : '',
+            best === s && !highlight ? 'bg-primary/5' : '',
+            best === s && highlight ? 'bg-primary/10' : '',
           ].join(' ')}
         >
           {renderCell(s)}
@@ -937,6 +1772,21 @@ function BTWTableRow({
 
 // ── "What This Means" interpretation sub-components ───────────────────────────
 
+// Scenario name for sentences: "3 days/week", or a custom pattern's label
+function scenarioName(s: BackToWorkScenario): string {
+  return s.isWholeDays ? `${s.pattern.label}/week` : s.pattern.label;
+}
+
+// Scenario with the lowest break-even FTE salary, or null if none breaks even
+function getLowestBreakEvenScenario(scenarios: BackToWorkScenario[]): BackToWorkScenario | null {
+  return scenarios.reduce<BackToWorkScenario | null>((lowest, s) =>
+    s.breakEvenFTEIncome !== null &&
+    (lowest === null || s.breakEvenFTEIncome < lowest.breakEvenFTEIncome!)
+      ? s
+      : lowest,
+  null);
+}
+
 function WhatThisMeansPositive({
   current,
   best,
@@ -958,7 +1808,7 @@ function WhatThisMeansPositive({
     <div className="space-y-3 text-sm text-text-main leading-relaxed">
       <p>
         {isCurrentlyWorking ? 'Increasing your hours to' : 'Working'}{' '}
-        <strong>{best.daysWorking} day{best.daysWorking === 1 ? '' : 's'} per week</strong>{' '}
+        <strong>{scenarioName(best)}</strong>{' '}
         at a salary of {formatDollars(fteIncome)} FTE{' '}
         ({formatDollars(best.grossIncome)} proportional) would put{' '}
         <strong className="text-emerald-700">{formatDollars(best.netBenefit)}</strong>{' '}
@@ -1008,14 +1858,19 @@ function WhatThisMeansPositive({
         <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
           Note: Working{' '}
           {negativeScenarios.map((s, i) => (
-            <span key={s.daysWorking}>
+            <span key={s.pattern.label}>
               {i > 0 && i < negativeScenarios.length - 1 ? ', ' : ''}
               {i > 0 && i === negativeScenarios.length - 1 ? ' or ' : ''}
-              {s.daysWorking} day{s.daysWorking === 1 ? '' : 's'}
+              {s.pattern.label}
             </span>
           ))}
           /week would actually cost your family money.
-          The sweet spot is {best.daysWorking} day{best.daysWorking === 1 ? '' : 's'} for maximum financial benefit.
+          The sweet spot is {best.pattern.label} for maximum financial benefit.
+          {negativeScenarios.map((s) => s.breakEvenFTEIncome !== null && (
+            <span key={s.pattern.label}>
+              {' '}You need at least {formatDollars(s.breakEvenFTEIncome)} FTE for {s.pattern.label} to be better off.
+            </span>
+          ))}
         </p>
       )}
     </div>
@@ -1033,6 +1888,7 @@ function WhatThisMeansNegative({
 }) {
   const leastBad = scenarios.reduce((best, s) => s.netBenefit > best.netBenefit ? s : best);
   const lowestCCS = Math.min(...scenarios.map((s) => s.ccsPercent));
+  const easiest = getLowestBreakEvenScenario(scenarios);
 
   return (
     <div className="space-y-3 text-sm text-text-main leading-relaxed">
@@ -1044,13 +1900,21 @@ function WhatThisMeansNegative({
 
       <p className="text-xs text-muted">
         The closest to breaking even is{' '}
-        <strong>{leastBad.daysWorking} day{leastBad.daysWorking === 1 ? '' : 's'}/week</strong>{' '}
+        <strong>{scenarioName(leastBad)}</strong>{' '}
         with a net cost of {formatDollars(Math.abs(leastBad.netBenefit))}/year.
         The main factors: income tax ({formatDollars(leastBad.tax.totalTax)}/year),
         CCS dropping from {current.ccsPercent}% to as low as {lowestCCS}%,
         and work-related costs.
       </p>
 
+      {easiest && (
+        <p>
+          You need at least{' '}
+          <strong>{formatDollars(easiest.breakEvenFTEIncome!)} FTE</strong> for{' '}
+          {easiest.pattern.label} to be better off.
+        </p>
+      )}
+
       <p className="text-xs text-muted">
         <strong>What would change this?</strong> A higher salary, lower childcare fees,
         or a change in family income could tip the balance. Try adjusting your inputs
@@ -1350,8 +2214,8 @@ function IncomeSensitivityPanel({ output }: { output: CalculationOutput }) {
             <div className="pb-4 space-y-3 text-sm text-text-main leading-relaxed">
               <p>
                 The Child Care Subsidy tapers off as your combined family income
-                rises. For every $5,000 your family earns above the $85,279
-                threshold, your CCS rate drops by 1 percentage point — from a
+                rises. For every $5,000 your family earns above the{' '}
+                {formatThreshold(output)} threshold, your CCS rate drops by 1 percentage point — from a
                 maximum of 90% down to 0%.
               </p>
 
@@ -1402,27 +2266,123 @@ function IncomeSensitivityPanel({ output }: { output: CalculationOutput }) {
   );
 }
 
+// ─── Salary Sacrifice Panel ───────────────────────────────────────────────────
+//
+// Only rendered when output.salarySacrifice is non-null. Shows what salary
+// sacrificing the amount over the CCS bracket boundary does to take-home pay,
+// super and CCS — and explains why the CCS rate doesn't move when reportable
+// super is added back to adjusted taxable income.
+// ─────────────────────────────────────────────────────────────────────────────
+
+function SalarySacrificePanel({ output }: { output: CalculationOutput }) {
+  const s = output.salarySacrifice!;
+  const { sacrifice } = s.withSacrifice;
+
+  const rows: { label: string; value: number }[] = [
+    { label: 'Take-home pay', value: s.netTakeHomeChange },
+    { label: 'Added to super (after 15% tax)', value: s.superGained },
+    { label: 'Childcare saving from CCS', value: s.ccsGained },
+  ];
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+
+      {/* ── Card header ──────────────────────────────────────────────────── */}
+      <div className="px-6 pt-6 pb-4 border-b border-border">
+        <h2 className="text-sm font-semibold text-muted uppercase tracking-wide">
+          Salary Sacrifice and Your CCS
+        </h2>
+        <p className="text-xs text-muted mt-0.5">
+          {formatDollars(s.amountOverBoundary)} over the {formatDollars(s.bracketBoundary)} bracket
+          boundary · {s.current.ccsPercent}% CCS
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-5">
+
+        {/* ── Outcome ─────────────────────────────────────────────────────── */}
+        <div className="rounded-xl bg-gray-50 border border-border px-4 py-3.5">
+          <p className="text-xs font-semibold text-text-main uppercase tracking-wide mb-2.5">
+            Salary sacrificing {formatDollars(sacrifice)} into super
+          </p>
+          <div className="space-y-1.5 text-sm">
+            {rows.map((row) => (
+              <div key={row.label} className="flex justify-between text-muted">
+                <span>{row.label}</span>
+                <span className={['tabular-nums', row.value < 0 ? 'text-red-600' : 'text-text-main'].join(' ')}>
+                  {row.value < 0 ? '−' : '+'}{formatDollars(Math.abs(row.value))}/yr
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t border-border pt-2 mt-0.5 font-semibold">
+              <span className="text-text-main">Overall</span>
+              <span className={['tabular-nums', s.totalBenefit < 0 ? 'text-red-600' : 'text-emerald-700'].join(' ')}>
+                {s.totalBenefit < 0 ? '−' : '+'}{formatDollars(Math.abs(s.totalBenefit))}/yr
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* ── Explanation ──────────────────────────────────────────────────── */}
+        <div className="text-xs text-muted leading-relaxed space-y-2">
+          {s.reachesLowerBracket ? (
+            <p>
+              Sacrificing {formatDollars(sacrifice)} takes your adjusted taxable income
+              to {formatDollars(s.withSacrifice.familyATI)}, raising your CCS to{' '}
+              {s.withSacrifice.ccsPercent}%.
+            </p>
+          ) : (
+            <p>
+              <strong className="text-text-main">It won&apos;t change your CCS.</strong>{' '}
+              Salary sacrifice lowers your taxable income, but CCS uses adjusted
+              taxable income, which adds reportable super contributions back. Your
+              CCS income stays at {formatDollars(s.withSacrifice.familyATI)}, so the
+              gain is the tax concession on super alone — and the money is locked
+              away until you retire.
+            </p>
+          )}
+          {s.limitedByCap && (
+            <p>
+              The sacrifice is limited to the room left under your concessional
+              contributions cap.
+            </p>
+          )}
+          <p>
+            Employer super guarantee contributions count towards the cap too, so
+            check your remaining cap before salary sacrificing.
+          </p>
+        </div>
+
+      </div>
+    </div>
+  );
+}
+
 // ─── Multiple Child Comparison Panel (Task 4.4) ──────────────────────────────
 //
 // Only rendered when output.higherCCS is non-null (2+ children, youngest ≤5).
 // Shows standard vs higher rate per-child costs, annual saving, and rule
-// explanation. Calculates saving as eldest-rate cost minus actual younger-rate cost.
+// explanation. Saving per child is their cost at the standard rate minus their
+// actual cost at the higher rate.
 // ─────────────────────────────────────────────────────────────────────────────
 
 function MultiChildComparisonPanel({ output }: { output: CalculationOutput }) {
-  const { ccsPercentage, higherCCS, annual, eldestChildAnnual, resolved } = output;
+  const { ccsPercentage, higherCCS, resolved, children } = output;
   const higherRate = higherCCS!;
-  const youngerCount = resolved.numberOfChildren - 1;
+  const higherRateChildren = children.filter((c) => c.child.usesHigherRate);
+  const youngerCount = higherRateChildren.length;
 
   // Saving per younger child = what they would pay at the standard rate − what they actually pay at higher rate
-  const savingPerYoungerChild =
-    (eldestChildAnnual?.outOfPocketPerYear ?? 0) - annual.outOfPocketPerYear;
-  const totalAnnualSaving = Math.round(savingPerYoungerChild * youngerCount * 100) / 100;
+  const r = (n: number) => Math.round(n * 100) / 100;
+  const actualHigherRateCost = r(
+    higherRateChildren.reduce((sum, c) => sum + c.annual.outOfPocketPerYear, 0)
+  );
+  const totalAnnualSaving = r(
+    higherRateChildren.reduce((sum, c) => sum + c.higherRateSavingPerYear, 0)
+  );
+  const standardRateCost = r(actualHigherRateCost + totalAnnualSaving);
   const weeklySaving = Math.round((totalAnnualSaving / 52) * 100) / 100;
 
-  const govSubsidyEldest = eldestChildAnnual?.subsidyPerYear ?? 0;
-  const govSubsidyYounger = annual.subsidyPerYear;
-
   return (
     <div className="rounded-2xl border border-border bg-card overflow-hidden">
 
@@ -1466,68 +2426,49 @@ function MultiChildComparisonPanel({ output }: { output: CalculationOutput }) {
             Annual cost per child
           </p>
           <div className="grid sm:grid-cols-2 gap-4">
-
-            {/* Eldest child — standard rate */}
-            <div className="rounded-xl bg-gray-50 border border-border px-4 py-4">
-              <div className="flex items-center gap-2 mb-3">
-                <span className="text-xl font-bold text-primary leading-none">{ccsPercentage.percent}%</span>
-                <div>
-                  <p className="text-xs font-semibold text-text-main">Eldest child</p>
-                  <p className="text-xs text-muted">Standard CCS rate</p>
-                </div>
-              </div>
-              <div className="space-y-1.5 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted">Gross fee/year</span>
-                  <span className="tabular-nums">{formatDollars(eldestChildAnnual?.grossFeePerYear ?? 0)}</span>
-                </div>
-                <div className="flex justify-between text-green-700">
-                  <span>Government pays</span>
-                  <span className="tabular-nums font-medium">−{formatDollars(govSubsidyEldest)}</span>
-                </div>
-                <div className="flex justify-between border-t border-border pt-2 mt-0.5 font-semibold">
-                  <span className="text-text-main">Your gap fee</span>
-                  <span className="text-text-main tabular-nums">{formatDollars(eldestChildAnnual?.outOfPocketPerYear ?? 0)}</span>
-                </div>
-              </div>
-            </div>
-
-            {/* Younger child(ren) — higher rate */}
-            <div className="rounded-xl bg-primary/5 border border-primary/20 px-4 py-4">
-              <div className="flex items-center gap-2 mb-3">
-                <span className="text-xl font-bold text-green-700 leading-none">{higherRate.higherPercent}%</span>
-                <div>
-                  <p className="text-xs font-semibold text-text-main">
-                    {youngerCount === 1 ? 'Younger child' : `${youngerCount} younger children`}
-                  </p>
-                  <p className="text-xs text-muted">
-                    Higher CCS rate
-                    {higherRate.wasCapped ? ' (capped at 95%)' : ` (+${higherRate.additionalPoints}pp)`}
-                  </p>
-                </div>
-              </div>
-              <div className="space-y-1.5 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted">Gross fee/year</span>
-                  <span className="tabular-nums">{formatDollars(annual.grossFeePerYear)}</span>
-                </div>
-                <div className="flex justify-between text-green-700">
-                  <span>Government pays</span>
-                  <span className="tabular-nums font-medium">−{formatDollars(govSubsidyYounger)}</span>
-                </div>
-                <div className="flex justify-between border-t border-border pt-2 mt-0.5 font-semibold">
-                  <span className="text-text-main">Your gap fee</span>
-                  <span className="text-green-700 tabular-nums">{formatDollars(annual.outOfPocketPerYear)}</span>
+            {children.map((c, i) => {
+              const higher = c.child.usesHigherRate;
+              return (
+                <div
+                  key={i}
+                  className={[
+                    'rounded-xl border px-4 py-4',
+                    higher ? 'bg-primary/5 border-primary/20' : 'bg-gray-50 border-border',
+                  ].join(' ')}
+                >
+                  <div className="flex items-center gap-2 mb-3">
+                    <span className={['text-xl font-bold leading-none', higher ? 'text-green-700' : 'text-primary'].join(' ')}>
+                      {c.ccsPercent}%
+                    </span>
+                    <div>
+                      <p className="text-xs font-semibold text-text-main">{getChildLabel(output, i)}</p>
+                      <p className="text-xs text-muted">
+                        {higher
+                          ? `Higher CCS rate${higherRate.wasCapped ? ' (capped at 95%)' : ` (+${higherRate.additionalPoints}pp)`}`
+                          : 'Standard CCS rate'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="space-y-1.5 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted">Gross fee/year</span>
+                      <span className="tabular-nums">{formatDollars(c.annual.grossFeePerYear)}</span>
+                    </div>
+                    <div className="flex justify-between text-green-700">
+                      <span>Government pays</span>
+                      <span className="tabular-nums font-medium">−{formatDollars(c.annual.subsidyPerYear)}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-border pt-2 mt-0.5 font-semibold">
+                      <span className="text-text-main">Your gap fee</span>
+                      <span className={['tabular-nums', higher ? 'text-green-700' : 'text-text-main'].join(' ')}>
+                        {formatDollars(c.annual.outOfPocketPerYear)}
+                      </span>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
+              );
+            })}
           </div>
-
-          {youngerCount > 1 && (
-            <p className="mt-2 text-xs text-muted">
-              * Per-child figures shown above. Your {youngerCount} younger children each have a gap fee of {formatDollars(annual.outOfPocketPerYear)}/year.
-            </p>
-          )}
         </div>
 
         {/* ── Saving breakdown ─────────────────────────────────────────────── */}
@@ -1542,13 +2483,13 @@ function MultiChildComparisonPanel({ output }: { output: CalculationOutput }) {
                   If {youngerCount === 1 ? 'younger child' : `${youngerCount} younger children`} were at standard {ccsPercentage.percent}%
                 </span>
                 <span className="tabular-nums text-text-main">
-                  {formatDollars((eldestChildAnnual?.outOfPocketPerYear ?? 0) * youngerCount)}/yr
+                  {formatDollars(standardRateCost)}/yr
                 </span>
               </div>
               <div className="flex justify-between text-green-700">
                 <span>Actual cost at higher {higherRate.higherPercent}%</span>
                 <span className="tabular-nums font-medium">
-                  −{formatDollars(annual.outOfPocketPerYear * youngerCount)}/yr
+                  −{formatDollars(actualHigherRateCost)}/yr
                 </span>
               </div>
               <div className="flex justify-between border-t border-border pt-2 mt-0.5 font-semibold">
@@ -1579,13 +2520,14 @@ function MultiChildComparisonPanel({ output }: { output: CalculationOutput }) {
             children, the eldest gets {ccsPercentage.percent}% and every other child
             gets {higherRate.higherPercent}%.
           </p>
-          {resolved.combinedAnnualIncome > 85279 && (
+          {output.annualCap.applies && output.annualCap.capAmount !== null && (
             <p className="flex items-start gap-1.5">
               <span className="flex-shrink-0">ⓘ</span>
               <span>
-                As a family earning above $85,279 you are subject to an <strong>annual CCS cap of $11,003 per child</strong>.
-                If your childcare usage is very high, you may hit this cap during the year and pay full fees from
-                that point. Contact Services Australia if you are concerned this may apply.
+                As a family earning above {formatDollars(output.rates.annualSubsidyCap.incomeThreshold)} you are subject to an <strong>annual CCS cap of {formatDollars(output.annualCap.capAmount)} per child</strong>.
+                {children.some((c) => c.annualCap.isCapReached)
+                  ? ' At your usage the cap is reached during the year — the figures above include the full fees you pay once it is.'
+                  : ' At your usage no child reaches the cap, so the figures above are not affected.'}
               </span>
             </p>
           )}
@@ -1642,9 +2584,10 @@ function InsightItem({
 }
 
 function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
-  const { ccsPercentage, session, resolved } = output;
-  const hasAnnualCap = resolved.combinedAnnualIncome > 85279;
-  const annualCapAmount = 11003;
+  const { ccsPercentage, session, resolved, annual } = output;
+  const { annualCap } = output;
+  const hasAnnualCap = annualCap.applies && annualCap.capAmount !== null;
+  const annualCapAmount = annualCap.capAmount ?? 0;
 
   return (
     <div className="rounded-2xl border border-border bg-card overflow-hidden">
@@ -1666,7 +2609,7 @@ function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
           <p>
             Your CCS rate is based on your combined family income for the
             relevant financial year. The maximum rate is <strong>90%</strong>{' '}
-            for families earning up to $85,279. For every $5,000 your income
+            for families earning up to {formatThreshold(output)}. For every $5,000 your income
             exceeds that threshold, the rate reduces by 1 percentage point —
             down to a minimum of 0%.
           </p>
@@ -1681,7 +2624,7 @@ function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
           ) : (
             <p>
               Your combined income of {formatDollars(resolved.combinedAnnualIncome)}/year
-              is at or below the $85,279 threshold — so you receive the{' '}
+              is at or below the {formatThreshold(output)} threshold — so you receive the{' '}
               <strong>maximum 90% rate</strong>.
             </p>
           )}
@@ -1727,8 +2670,9 @@ function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
           <p>
             Rate caps are indexed annually by the government and vary by care type
             and child age. Centre-based day care for pre-school children carries the
-            highest cap ($14.63/hr), while family day care ($12.43/hr) and OSHC
-            ($12.81/hr) are lower.
+            highest cap ({formatDollarsAndCents(getHourlyRateCap('centre_based_day_care', 'below_school_age', output.rates))}/hr),
+            while family day care ({formatDollarsAndCents(getHourlyRateCap('family_day_care', 'below_school_age', output.rates))}/hr)
+            and OSHC ({formatDollarsAndCents(getHourlyRateCap('outside_school_hours', 'school_age', output.rates))}/hr) are lower.
           </p>
         </InsightItem>
 
@@ -1752,12 +2696,23 @@ function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
             activity — paid work, study, training, volunteering, or other approved
             activities — to access those additional subsidised hours.
           </p>
-          <p>
-            <strong>This calculator assumes you meet the activity requirements</strong>{' '}
-            for the number of days you&apos;ve entered. If you use 4 or 5 days of care,
-            check your activity hours with Services Australia or your childcare
-            provider to confirm you qualify for the full subsidy.
-          </p>
+          {annual.unsubsidisedHoursPerFortnight > 0 ? (
+            <p>
+              Based on the activity hours you entered, your family is assessed at{' '}
+              <strong>{output.activityTest.hoursBeforeGuarantee} subsidised hours</strong>{' '}
+              per fortnight before 5 January 2026 and{' '}
+              <strong>{output.activityTest.hoursFromGuarantee} hours</strong> from then on.
+              You use {formatNumber(annual.hoursOfCarePerFortnight)} hours per fortnight,
+              so the hours above your limit are charged at the full fee in these results.
+            </p>
+          ) : (
+            <p>
+              Based on the activity hours you entered, all{' '}
+              {formatNumber(annual.hoursOfCarePerFortnight)} hours of care you use each
+              fortnight are within your subsidised hours limit. If your work or study
+              hours drop, check your activity test result with Services Australia.
+            </p>
+          )}
         </InsightItem>
 
         {/* ── 4. 5% withholding ───────────────────────────────────────────── */}
@@ -1835,17 +2790,27 @@ function KeyInsightsAccordion({ output }: { output: CalculationOutput }) {
                 <>
                   At your income level, you are subject to an annual CCS cap of{' '}
                   <strong>${annualCapAmount.toLocaleString('en-AU')}/child</strong>.
-                  If you use a high volume of care (especially full-time at above-average
-                  fees), you may hit this cap during the year and pay full fees from
-                  that point. If this is a risk, plan your childcare use accordingly
-                  or contact Services Australia for personalised advice.
+                  {annualCap.isCapReached ? (
+                    <>
+                      {' '}At your current usage the cap is reached in fortnight{' '}
+                      {annualCap.capReachedInFortnight}, and you pay full fees from that
+                      point — an extra {formatDollars(annualCap.extraOutOfPocketPerYear)}/year
+                      per child. Reducing days or hours would delay or avoid this.
+                    </>
+                  ) : (
+                    <>
+                      {' '}At your current usage you stay under the cap. If you add days or
+                      move to a higher-fee provider, check whether you would hit it during
+                      the year.
+                    </>
+                  )}
                 </>
               ) : (
                 <>
                   At your current income, there is <strong>no annual CCS cap</strong> —
                   you receive the full subsidy all year regardless of how many hours
-                  of care you use. This is a significant benefit of being below the
-                  $85,279 threshold.
+                  of care you use. This is a significant benefit of being below the{' '}
+                  {formatDollars(output.rates.annualSubsidyCap.incomeThreshold)} threshold.
                 </>
               )}
             </li>
@@ -1987,7 +2952,7 @@ function WhatThisActuallyMeans({
     session,
     annual,
     higherCCS,
-    eldestChildAnnual,
+    children,
     totalAnnualOutOfPocket,
     totalAnnualGovSubsidy,
     sensitivity,
@@ -2007,13 +2972,11 @@ function WhatThisActuallyMeans({
 
   // Above-cap annual cost for framing
   const aboveCapAnnual = session.feeAboveCapPerHour > 0
-    ? Math.round(session.feeAboveCapPerHour * resolved.hoursPerDay * resolved.daysPerWeek * 52 * 100) / 100
+    ? Math.round(session.feeAboveCapPerHour * resolved.hoursPerDay * resolved.daysPerWeek * resolved.weeksOfCarePerYear * 100) / 100
     : 0;
 
-  // For multi-child savings per younger child
-  const savingPerYoungerChild = higherCCS && eldestChildAnnual
-    ? (eldestChildAnnual.outOfPocketPerYear - annual.outOfPocketPerYear)
-    : 0;
+  // For multi-child: total saving from the higher rate across younger children
+  const higherRateSaving = children.reduce((sum, c) => sum + c.higherRateSavingPerYear, 0);
 
   return (
     <div className="rounded-2xl border border-border bg-card overflow-hidden">
@@ -2128,7 +3091,7 @@ function WhatThisActuallyMeans({
           {isMaxRate ? (
             <InterpretationItem icon="info" title="You&apos;re in the maximum-rate zone">
               With {relationshipStatus === 'single' ? 'your' : 'combined'} income
-              at or below $85,279, you receive the maximum 90% rate and have no
+              at or below {formatThreshold(output)}, you receive the maximum 90% rate and have no
               annual CCS cap. If your income rises above that threshold, the rate
               starts to taper — each additional $5,000 reduces it by 1 percentage
               point, increasing your childcare cost by roughly{' '}
@@ -2149,15 +3112,15 @@ function WhatThisActuallyMeans({
           ) : null}
 
           {/* Multi-child advantage */}
-          {higherCCS && savingPerYoungerChild > 0 && (
+          {higherCCS && higherRateSaving > 0 && (
             <InterpretationItem icon="family" title="Multi-child advantage">
-              Because you have {resolved.numberOfChildren} children in care with
-              the youngest under 6, your younger{' '}
-              {resolved.numberOfChildren > 2 ? 'children receive' : 'child receives'}{' '}
+              Because you have more than one child aged 5 or under in care, your
+              younger{' '}
+              {children.filter((c) => c.child.usesHigherRate).length > 1 ? 'children receive' : 'child receives'}{' '}
               the higher {higherCCS.higherPercent}% rate instead of{' '}
               {ccsPercentage.percent}%. This saves your family{' '}
-              <strong>{formatDollars(savingPerYoungerChild)}/year per younger
-              child</strong> compared to the standard rate.
+              <strong>{formatDollars(higherRateSaving)}/year</strong> compared to
+              the standard rate.
             </InterpretationItem>
           )}
 
@@ -2397,7 +3360,10 @@ const STEP_ICONS = {
 function NextStepsPanel({ output }: { output: CalculationOutput }) {
   const { resolved, ccsPercentage, session } = output;
   const isAboveCap = session.feeAboveCapPerHour > 0;
-  const isHighIncome = resolved.combinedAnnualIncome > 85279;
+  const isHighIncome = resolved.combinedAnnualIncome > output.rates.annualSubsidyCap.incomeThreshold;
+  // Rates apply for the financial year starting on their effective date
+  const nextYearStart = `${Number(output.rates.effectiveDate.slice(0, 4)) + 1}-07-01`;
+  const yearEnd = `${Number(output.rates.effectiveDate.slice(0, 4)) + 1}-06-30`;
 
   return (
     <div className="rounded-2xl border border-border bg-card overflow-hidden">
@@ -2543,8 +3509,8 @@ function NextStepsPanel({ output }: { output: CalculationOutput }) {
             change — a mid-year pay rise, new job, or partner&apos;s income change
             all matter.
             {isHighIncome && (
-              <> With a combined income above $85,279, you&apos;re also subject to
-              the <strong>annual CCS cap of $11,003 per child</strong>. Monitor
+              <> With a combined income above {formatDollars(output.rates.annualSubsidyCap.incomeThreshold)}, you&apos;re also subject to
+              the <strong>annual CCS cap of {formatDollars(output.annualCap.capAmount ?? 0)} per child</strong>. Monitor
               your subsidy usage through your Centrelink account to avoid
               unexpected cap effects.</>
             )}
@@ -2651,9 +3617,10 @@ function NextStepsPanel({ output }: { output: CalculationOutput }) {
             </li>
           </ul>
           <p>
-            The FY 2025–26 rates used in this calculator apply from 1 July 2025
-            to 30 June 2026. New rates and caps for FY 2026–27 will be announced
-            by the government before 1 July 2026.
+            The FY {output.ratesVersion} rates used in this calculator apply
+            from {formatDateLong(output.rates.effectiveDate)} to {formatDateLong(yearEnd)}.
+            New rates and caps for the following financial year are announced
+            by the government before {formatDateLong(nextYearStart)}.
           </p>
         </StepCard>
 
@@ -2710,22 +3677,37 @@ export default function ResultsClient({ output, relationshipStatus, restoreUrl }
             <span className="font-medium text-text-main">Income:</span>{' '}
             {relationshipStatus === 'single' ? 'Your' : 'Combined'} {incomeLabel}/yr
           </span>
-          <span>
-            <span className="font-medium text-text-main">Care:</span>{' '}
-            {resolved.careType.replace(/_/g, ' ')}
-          </span>
-          <span>
-            <span className="font-medium text-text-main">Attendance:</span>{' '}
-            {resolved.daysPerWeek}d/wk · {resolved.hoursPerDay}h/day
-          </span>
-          <span>
-            <span className="font-medium text-text-main">Fee:</span>{' '}
-            {resolved.usingStateAverage ? `${resolved.state} average` : `${formatDollars(resolved.dailyFee)}/day`}
-          </span>
-          <span>
-            <span className="font-medium text-text-main">Children:</span>{' '}
-            {resolved.numberOfChildren}
-          </span>
+          {resolved.hasPerChildInputs ? (
+            resolved.children.map((child, i) => (
+              <span key={i}>
+                <span className="font-medium text-text-main">Child {i + 1}:</span>{' '}
+                age {child.ageYears} · {CARE_TYPE_SHORT_LABELS[child.careType]} ·{' '}
+                {child.daysPerWeek}d/wk · {child.hoursPerDay}h/day ·{' '}
+                {child.weeksPerYear < 52 && `${child.weeksPerYear} wks/yr · `}
+                {child.usingStateAverage ? `${resolved.state} average` : `${formatDollars(child.dailyFee)}/day`}
+              </span>
+            ))
+          ) : (
+            <>
+              <span>
+                <span className="font-medium text-text-main">Care:</span>{' '}
+                {resolved.careType.replace(/_/g, ' ')}
+              </span>
+              <span>
+                <span className="font-medium text-text-main">Attendance:</span>{' '}
+                {resolved.daysPerWeek}d/wk · {resolved.hoursPerDay}h/day
+                {resolved.weeksOfCarePerYear < 52 && ` · ${resolved.weeksOfCarePerYear} wks/yr`}
+              </span>
+              <span>
+                <span className="font-medium text-text-main">Fee:</span>{' '}
+                {resolved.usingStateAverage ? `${resolved.state} average` : `${formatDollars(resolved.dailyFee)}/day`}
+              </span>
+              <span>
+                <span className="font-medium text-text-main">Children:</span>{' '}
+                {resolved.numberOfChildren}
+              </span>
+            </>
+          )}
         </div>
       </div>
 
@@ -2741,6 +3723,14 @@ export default function ResultsClient({ output, relationshipStatus, restoreUrl }
         onPeriodChange={setPeriod}
       />
 
+      {/* ── Payment Timeline ──────────────────────────────────────────── */}
+      <PaymentTimelinePanel output={output} />
+
+      {/* ── End-of-Year Reconciliation (ACCS isn't income tested) ──────── */}
+      {!output.additionalCCS && (
+        <ReconciliationPanel output={output} />
+      )}
+
       {/* ── Task 4.6 — "What This Actually Means" ─────────────────────── */}
       <WhatThisActuallyMeans output={output} relationshipStatus={relationshipStatus} />
 
@@ -2762,6 +3752,11 @@ export default function ResultsClient({ output, relationshipStatus, restoreUrl }
       {/* ── Task 4.3 — Income Sensitivity Panel ──────────────────────── */}
       <IncomeSensitivityPanel output={output} />
 
+      {/* ── Salary sacrifice near the CCS bracket boundary ─────────────── */}
+      {output.salarySacrifice && (
+        <SalarySacrificePanel output={output} />
+      )}
+
       {/* ── Task 4.5 — Key Insights Accordion ──────────────────────────── */}
       <KeyInsightsAccordion output={output} />
 
@@ -8,49 +8,60 @@
 // URL param key reference (compact form to keep URLs short):
 //   n   numberOfChildren        number
 //   ya  youngestChildAge        'under_6' | '6_to_13'
-//   i   combinedAnnualIncome    number
+//   i   combinedAnnualIncome    number (the family's ATI when `ai` is set)
 //   ir  incomeRange             IncomeRange string (display only)
+//   ai  incomeComponents        ATI components (see lib/adjustedTaxableIncome.ts)
+//   pai partnerIncomeComponents partner's ATI components (ignored if single)
 //   ct  careType                CareType string
 //   st  state                   State string
 //   d   daysPerWeek             number
 //   h   hoursPerDay             number
 //   f   feePerDay               number | '' (empty = use state average)
 //   sa  useStateAverage         '1' | '0'
+//   wk  weeksOfCarePerYear      number (default 52)
+//   ac  additionalCCSStream     ACCSStream | '' (empty = standard CCS)
+//   ch  children                per-child care (see lib/childrenParams.ts)
+//   ah  activityHoursPerFortnight         number (default 76)
+//   pah partnerActivityHoursPerFortnight  number (default 76; ignored if single)
 //   btw includeBackToWork       '1' | '0'
 //   ci  currentAnnualIncome     number
 //   pi  proposedAnnualIncome    number
 //   wc  workRelatedCostsPerWeek number
+//   wp  workPatterns            custom work patterns (see lib/workPatternParams.ts)
+//   ic  informalCare            weekdays covered by informal care (see lib/informalCare.ts)
+//   pp  receivesParentingPayment '1' = currently paid Parenting Payment
+//   hd  hasHELPDebt             '1' = include compulsory HELP repayments
+//   nh  noPrivateHospitalCover  '1' = include the Medicare levy surcharge
 //   rs  relationshipStatus      'single' | 'partnered' (display only)
+//   fy  financialYear           '2024-25' | '2025-26' (default: current year)
 // =============================================================================
 
 import type { Metadata } from 'next';
 import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
 import { runCalculations } from '@/lib/runCalculations';
 import { formatDollars } from '@/lib/format';
-import type { CCSRates, TaxRates, StateAverageEntry, CareType, State, WizardInputs } from '@/lib/types';
+import {
+  DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  resolveAdditionalCCSStream,
+  resolveWeeksOfCare,
+} from '@/lib/resolveInputs';
+import { decodeChildrenParam } from '@/lib/childrenParams';
+import { decodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { decodeInformalCareParam } from '@/lib/informalCare';
+import { decodeATIParam } from '@/lib/adjustedTaxableIncome';
+import { getAvailableFinancialYears, resolveFinancialYearParam } from '@/lib/ratesRegistry';
+import type { StateAverageEntry, SchoolStartRule, CareType, State, WizardInputs } from '@/lib/types';
+import FinancialYearSelector from '@/components/rates/FinancialYearSelector';
 import ResultsClient from './ResultsClient';
 
 // ─── Data imports ─────────────────────────────────────────────────────────────
 
-import ccsRatesJson      from '@/data/ccs/current.json';
-import taxRatesJson      from '@/data/tax/current.json';
 import stateAveragesJson from '@/data/childcare-costs/state-averages.json';
+import schoolStartJson   from '@/data/school-start/rules.json';
 
-const ccsRates: CCSRates                 = ccsRatesJson      as unknown as CCSRates;
-const taxRates: TaxRates                 = taxRatesJson      as unknown as TaxRates;
 const stateAverages: StateAverageEntry[] = stateAveragesJson as unknown as StateAverageEntry[];
-
-// ─── Metadata ────────────────────────────────────────────────────────────────
-
-export const metadata: Metadata = {
-  title: `Your CCS Results | ${SITE_NAME}`,
-  description:
-    'Your personalised Child Care Subsidy estimate for FY 2025–26 — gap fee, annual out-of-pocket cost, fortnightly breakdown and more.',
-  alternates: {
-    canonical: `${SITE_URL}/childcare-subsidy-calculator/results`,
-  },
-  robots: { index: false }, // results pages are params-based; not indexed
-};
+const schoolStartRules: SchoolStartRule[] = schoolStartJson  as unknown as SchoolStartRule[];
 
 // ─── Param parsing helpers ────────────────────────────────────────────────────
 
@@ -62,12 +73,28 @@ function parseBool(v: string | undefined): boolean {
   return v === '1';
 }
 
-// ─── Page ────────────────────────────────────────────────────────────────────
-
 interface PageProps {
   searchParams: Record<string, string | string[] | undefined>;
 }
 
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+export function generateMetadata({ searchParams }: PageProps): Metadata {
+  const p = searchParams as Record<string, string | undefined>;
+  const { financialYear } = resolveFinancialYearParam(p.fy);
+  return {
+    title: `Your CCS Results | ${SITE_NAME}`,
+    description:
+      `Your personalised Child Care Subsidy estimate for FY ${financialYear.replace('-', '–')} — gap fee, annual out-of-pocket cost, fortnightly breakdown and more.`,
+    alternates: {
+      canonical: `${SITE_URL}/childcare-subsidy-calculator/results`,
+    },
+    robots: { index: false }, // results pages are params-based; not indexed
+  };
+}
+
+// ─── Page ────────────────────────────────────────────────────────────────────
+
 export default function ResultsPage({ searchParams }: PageProps) {
   // ── Decode URL params ─────────────────────────────────────────────────────
   const p = searchParams as Record<string, string | undefined>;
@@ -81,31 +108,73 @@ export default function ResultsPage({ searchParams }: PageProps) {
   const hoursPerDay             = parseNum(p.h,  10);
   const feePerDay               = (p.f && p.f !== '') ? parseNum(p.f, 0) : null;
   const useStateAverage         = parseBool(p.sa);
+  const weeksOfCarePerYear      = resolveWeeksOfCare(parseNum(p.wk, DEFAULT_WEEKS_OF_CARE_PER_YEAR));
+  const additionalCCSStream     = resolveAdditionalCCSStream(p.ac);
+  const children                = decodeChildrenParam(p.ch);
   const includeBackToWork       = parseBool(p.btw);
   const currentAnnualIncome     = parseNum(p.ci, 0);
   const proposedAnnualIncome    = parseNum(p.pi, 0);
   const workRelatedCostsPerWeek = parseNum(p.wc, 0);
+  const workPatterns            = decodeWorkPatternsParam(p.wp);
+  const informalCare            = decodeInformalCareParam(p.ic);
+  const receivesParentingPayment = parseBool(p.pp);
+  const hasHELPDebt             = parseBool(p.hd);
+  const noPrivateHospitalCover  = parseBool(p.nh);
   const relationshipStatus      = (p.rs === 'single' ? 'single' : 'partnered') as 'single' | 'partnered';
+  const incomeComponents        = decodeATIParam(p.ai);
+  const partnerIncomeComponents = incomeComponents && relationshipStatus === 'partnered'
+    ? decodeATIParam(p.pai)
+    : undefined;
+  const activityHoursPerFortnight        = parseNum(p.ah, DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT);
+  const partnerActivityHoursPerFortnight = relationshipStatus === 'single'
+    ? null
+    : parseNum(p.pah, DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT);
+  const {
+    ccs: ccsRates,
+    tax: taxRates,
+    ftb: ftbRates,
+    parentingPayment: ppRates,
+  } = resolveFinancialYearParam(p.fy);
 
   // ── Assemble WizardInputs ─────────────────────────────────────────────────
   const inputs: WizardInputs = {
     numberOfChildren,
     youngestChildAge,
     combinedAnnualIncome,
+    incomeComponents,
+    partnerIncomeComponents,
     careType,
     state,
     daysPerWeek,
     hoursPerDay,
     feePerDay,
     useStateAverage,
+    weeksOfCarePerYear,
+    additionalCCSStream,
+    children,
+    activityHoursPerFortnight,
+    partnerActivityHoursPerFortnight,
     includeBackToWork,
     currentAnnualIncome,
     proposedAnnualIncome,
     workRelatedCostsPerWeek,
+    workPatterns,
+    informalCare,
+    receivesParentingPayment,
+    hasHELPDebt,
+    noPrivateHospitalCover,
   };
 
   // ── Run full calculation suite ────────────────────────────────────────────
-  const output = runCalculations(inputs, ccsRates, taxRates, stateAverages);
+  const output = runCalculations(
+    inputs,
+    ccsRates,
+    taxRates,
+    ftbRates,
+    ppRates,
+    stateAverages,
+    schoolStartRules
+  );
 
   // ── Build restore URL for "Edit answers" links ────────────────────────────
   // Passes all original URL params back to the wizard page with restore=1 and
@@ -114,7 +183,7 @@ export default function ResultsPage({ searchParams }: PageProps) {
   restoreParams.set('restore', '1');
   restoreParams.set('step', '5');
   // Forward all original input params (including ir, ei if set by Step5Review)
-  const INPUT_PARAM_KEYS = ['n','ya','i','ir','ei','ct','st','d','h','f','sa','btw','ci','pi','wc','rs'] as const;
+  const INPUT_PARAM_KEYS = ['n','ya','i','ir','ei','ai','pai','ct','st','d','h','f','sa','wk','ac','ch','ah','pah','btw','ci','pi','wc','wp','ic','pp','hd','nh','rs','fy'] as const;
   for (const key of INPUT_PARAM_KEYS) {
     if (p[key] !== undefined) restoreParams.set(key, p[key]!);
   }
@@ -122,7 +191,9 @@ export default function ResultsPage({ searchParams }: PageProps) {
 
   // ── Page header display helpers ───────────────────────────────────────────
   const incomeLabel = formatDollars(combinedAnnualIncome);
-  const rateLabel   = output.higherCCS
+  const rateLabel   = output.additionalCCS
+    ? `ACCS ${output.additionalCCS.subsidyPercent}%`
+    : output.higherCCS
     ? `${output.ccsPercentage.percent}% / ${output.higherCCS.higherPercent}%`
     : `${output.ccsPercentage.percent}%`;
 
@@ -143,6 +214,14 @@ export default function ResultsPage({ searchParams }: PageProps) {
             {relationshipStatus === 'single' ? 'your' : 'combined family'} income of{' '}
             {incomeLabel}/year
           </p>
+          <div className="mt-3">
+            <FinancialYearSelector
+              basePath="/childcare-subsidy-calculator/results"
+              params={p}
+              selected={output.ratesVersion}
+              years={getAvailableFinancialYears()}
+            />
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,112 @@
+// =============================================================================
+// EMTR CALCULATOR — Page Route
+// =============================================================================
+// Shows the effective marginal tax rate on an extra $1,000 earned by either
+// partner, across incomes from $0 to $250,000: income tax, Medicare, LITO,
+// lost CCS and family payments. Fully client-side interactive; the only URL
+// param is `fy` ('2024-25' | '2025-26', default: the year in force today).
+//
+// Architecture:
+//   - Server component (this file): metadata, JSON-LD, resolves the financial
+//     year's rates once and renders the client wrapper with them
+//   - EffectiveMarginalRateClient: all interactive state, calculations, and display
+// =============================================================================
+
+import type { Metadata } from 'next';
+import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
+import { resolveFinancialYearParam } from '@/lib/ratesRegistry';
+import EffectiveMarginalRateClient from '@/components/emtr/EffectiveMarginalRateClient';
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+export const metadata: Metadata = {
+  title: `EMTR Calculator — How Much of a Pay Rise Do You Keep? | ${SITE_NAME}`,
+  description:
+    'See how much of an extra $1,000 your family keeps at every income from $0 to $250,000, after income tax, Medicare, the Low Income Tax Offset, lost Child Care Subsidy and family payments.',
+  alternates: { canonical: `${SITE_URL}/emtr-calculator` },
+  openGraph: {
+    title: 'EMTR Calculator \u2014 Effective Marginal Tax Rates for Families',
+    description:
+      'Chart and table of effective marginal tax rates for an extra $1,000 earned by either partner, including lost CCS and family payments.',
+    url: `${SITE_URL}/emtr-calculator`,
+    type: 'website',
+  },
+};
+
+// ─── JSON-LD ─────────────────────────────────────────────────────────────────
+
+const breadcrumbLd = {
+  '@context': 'https://schema.org',
+  '@type': 'BreadcrumbList',
+  itemListElement: [
+    { '@type': 'ListItem', position: 1, name: 'Home', item: SITE_URL },
+    { '@type': 'ListItem', position: 2, name: 'EMTR Calculator' },
+  ],
+};
+
+const jsonLd = {
+  '@context': 'https://schema.org',
+  '@type': 'WebApplication',
+  name: 'Effective Marginal Tax Rate Calculator',
+  description:
+    'See the effective marginal tax rate on an extra $1,000 earned by either partner, including income tax, Medicare, LITO, lost CCS and family payments.',
+  url: `${SITE_URL}/emtr-calculator`,
+  applicationCategory: 'FinanceApplication',
+  operatingSystem: 'All',
+  offers: { '@type': 'Offer', price: '0', priceCurrency: 'AUD' },
+  provider: { '@type': 'Organization', name: SITE_NAME, url: SITE_URL },
+};
+
+// ─── Page ────────────────────────────────────────────────────────────────────
+
+interface PageProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export default function EMTRCalculatorPage({ searchParams }: PageProps) {
+  const p = searchParams as Record<string, string | undefined>;
+  const rates = resolveFinancialYearParam(p.fy);
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(breadcrumbLd) }}
+      />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+      />
+
+      <main className="min-h-screen bg-background">
+        {/* Page header */}
+        <div className="bg-primary">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 py-10">
+            <nav aria-label="Breadcrumb" className="mb-4">
+              <ol className="flex items-center gap-1 text-sm text-teal-100">
+                <li><a href="/" className="hover:text-white">Home</a></li>
+                <li aria-hidden="true" className="text-teal-100">›</li>
+                <li className="text-white font-medium" aria-current="page">EMTR Calculator</li>
+              </ol>
+            </nav>
+            <p className="text-xs font-semibold text-teal-100 uppercase tracking-wide mb-2">
+              FY {rates.financialYear.replace('-', '–')} rates
+            </p>
+            <h1 className="text-2xl sm:text-3xl font-bold text-white mb-3">
+              Effective Marginal Tax Rate Calculator
+            </h1>
+            <p className="text-teal-100 text-base sm:text-lg leading-relaxed max-w-2xl">
+              How much of a pay rise does your family actually keep? See what an extra $1,000
+              is worth after tax, Medicare, lost CCS and family payments — for you or your partner.
+            </p>
+          </div>
+        </div>
+
+        {/* Client component handles all interactivity */}
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8">
+          <EffectiveMarginalRateClient rates={rates} />
+        </div>
+      </main>
+    </>
+  );
+}
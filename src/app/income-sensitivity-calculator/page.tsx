@@ -2,15 +2,18 @@
 // INCOME SENSITIVITY CALCULATOR — Page Route
 // =============================================================================
 // Shows how CCS% and out-of-pocket childcare costs change across the full
-// income spectrum ($40k–$600k). Fully client-side interactive — no URL params.
+// income spectrum ($40k–$600k). Fully client-side interactive; the only URL
+// param is `fy` ('2024-25' | '2025-26', default: the year in force today).
 //
 // Architecture:
-//   - Server component (this file): metadata, JSON-LD, renders client wrapper
+//   - Server component (this file): metadata, JSON-LD, resolves the financial
+//     year's CCS rates once and renders the client wrapper with them
 //   - IncomeSensitivityClient: all interactive state, calculations, and display
 // =============================================================================
 
 import type { Metadata } from 'next';
 import { SITE_NAME, SITE_URL } from '@/lib/siteConfig';
+import { resolveFinancialYearParam } from '@/lib/ratesRegistry';
 import IncomeSensitivityClient from '@/components/income-sensitivity/IncomeSensitivityClient';
 
 // ─── Metadata ────────────────────────────────────────────────────────────────
@@ -55,7 +58,14 @@ const jsonLd = {
 
 // ─── Page ────────────────────────────────────────────────────────────────────
 
-export default function IncomeSensitivityCalculatorPage() {
+interface PageProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export default function IncomeSensitivityCalculatorPage({ searchParams }: PageProps) {
+  const p = searchParams as Record<string, string | undefined>;
+  const { ccs: ccsRates } = resolveFinancialYearParam(p.fy);
+
   return (
     <>
       <script
@@ -79,7 +89,7 @@ export default function IncomeSensitivityCalculatorPage() {
               </ol>
             </nav>
             <p className="text-xs font-semibold text-teal-100 uppercase tracking-wide mb-2">
-              FY 2025–26 rates
+              FY {ccsRates.financialYear.replace('-', '–')} rates
             </p>
             <h1 className="text-2xl sm:text-3xl font-bold text-white mb-3">
               Income Sensitivity Calculator
@@ -93,7 +103,7 @@ export default function IncomeSensitivityCalculatorPage() {
 
         {/* Client component handles all interactivity */}
         <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8">
-          <IncomeSensitivityClient />
+          <IncomeSensitivityClient ccsRates={ccsRates} />
         </div>
       </main>
     </>
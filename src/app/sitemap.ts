@@ -91,6 +91,12 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: 'monthly',
       priority: 0.8,
     },
+    {
+      url: `${SITE_URL}/emtr-calculator`,
+      lastModified: '2026-10-19',
+      changeFrequency: 'monthly',
+      priority: 0.8,
+    },
 
     // ── Site pages ───────────────────────────────────────────────────────────
     {
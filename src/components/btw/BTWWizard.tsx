@@ -5,11 +5,18 @@
 // A streamlined wizard for parents wanting to know: "Is going back to work
 // financially worth it?" — independent of the main CCS calculator.
 //
-// Step 1: Current situation — income, care type, fee, days in care
-// Step 2: Work scenario    — proposed salary, current income, work costs
+// Step 1: Current situation — children, income, care type, fee, days and
+//                            weeks in care
+// Step 2: Work scenario    — proposed salary, current income, work costs,
+//                            optional extra work patterns, informal care
+//                            days, a return from parental leave, Parenting
+//                            Payment, HELP debt, private hospital cover and
+//                            (partnered) both parents' salaries and days for
+//                            the matrix
 // → Navigate to /back-to-work-calculator/results with all inputs as URL params
 //
-// Reuses: RadioCard, InfoTooltip, StepAside, IncomeRangeSelector
+// Reuses: RadioCard, InfoTooltip, StepAside, IncomeRangeSelector, WorkPatternPicker,
+//         InformalCarePicker, ReturnTimelinePicker
 // Calculation: calculateBackToWork() runs server-side on the results page.
 // =============================================================================
 
@@ -19,19 +26,42 @@ import RadioCard from '@/components/wizard/RadioCard';
 import InfoTooltip from '@/components/wizard/InfoTooltip';
 import StepAside from '@/components/wizard/StepAside';
 import IncomeRangeSelector from '@/components/wizard/IncomeRangeSelector';
+import WorkPatternPicker from '@/components/btw/WorkPatternPicker';
+import InformalCarePicker from '@/components/btw/InformalCarePicker';
+import ReturnTimelinePicker from '@/components/btw/ReturnTimelinePicker';
+import ProjectionAssumptionsPicker from '@/components/btw/ProjectionAssumptionsPicker';
 import {
   resolveIncome,
   DEFAULT_HOURS_PER_DAY,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  WEEKS_OF_CARE_OPTIONS,
+  resolveFullTimeIncome,
   type IncomeRange,
 } from '@/lib/resolveInputs';
 import { formatDollars } from '@/lib/format';
-import type { CareType, State } from '@/lib/types';
+import { encodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { encodeInformalCareParam } from '@/lib/informalCare';
+import { encodeReturnTimelineParam } from '@/lib/returnTimeline';
+import {
+  encodeProjectionParams,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  type ProjectionAssumptions,
+} from '@/lib/careerProjection';
+import type {
+  CareType,
+  InformalCareDay,
+  PaidParentalLeaveRates,
+  ReturnTimeline,
+  State,
+  WorkPattern,
+} from '@/lib/types';
 
 // ─── Input State ─────────────────────────────────────────────────────────────
 
 interface BTWInputs {
   relationshipStatus: 'single' | 'partnered';
   youngestChildAge: 'under_6' | '6_to_13';
+  numberOfChildren: number;
 
   // Income (uses same IncomeRangeSelector as main calculator)
   incomeRange: IncomeRange;
@@ -42,6 +72,7 @@ interface BTWInputs {
   careType: CareType;
   state: State;
   daysPerWeek: number;
+  weeksOfCarePerYear: number;
   hoursPerDay: number;
   feePerDay: number | null;
   useStateAverage: boolean;
@@ -50,23 +81,53 @@ interface BTWInputs {
   currentIndividualIncome: number;
   proposedFTEIncome: number;
   workRelatedCostsPerWeek: number;
+  workPatterns: WorkPattern[];
+  informalCare: InformalCareDay[];
+  /** Coming back from Paid Parental Leave part-way through the year */
+  returnTimeline: ReturnTimeline | null;
+  receivesParentingPayment: boolean;
+  hasHELPDebt: boolean;
+  noPrivateHospitalCover: boolean;
+  /** Years and growth rates for the career projection */
+  projection: ProjectionAssumptions;
+
+  // Two-parent work matrix (Step 2, partnered only)
+  compareBothParents: boolean;
+  currentDaysWorking: number;
+  partnerFTEIncome: number;
+  partnerDaysWorking: number;
+  partnerWorkCostsPerWeek: number;
 }
 
 const DEFAULT_INPUTS: BTWInputs = {
   relationshipStatus: 'partnered',
   youngestChildAge: 'under_6',
+  numberOfChildren: 1,
   incomeRange: 'under_85279',
   exactIncome: null,
   combinedAnnualIncome: 60000,
   careType: 'centre_based_day_care',
   state: 'NSW',
   daysPerWeek: 3,
+  weeksOfCarePerYear: DEFAULT_WEEKS_OF_CARE_PER_YEAR,
   hoursPerDay: 10,
   feePerDay: null,
   useStateAverage: true,
   currentIndividualIncome: 0,
   proposedFTEIncome: 0,
   workRelatedCostsPerWeek: 0,
+  workPatterns: [],
+  informalCare: [],
+  returnTimeline: null,
+  receivesParentingPayment: false,
+  hasHELPDebt: false,
+  noPrivateHospitalCover: false,
+  projection: DEFAULT_PROJECTION_ASSUMPTIONS,
+  compareBothParents: false,
+  currentDaysWorking: 0,
+  partnerFTEIncome: 0,
+  partnerDaysWorking: 5,
+  partnerWorkCostsPerWeek: 0,
 };
 
 // ─── Care type options ────────────────────────────────────────────────────────
@@ -232,6 +293,44 @@ function DollarInput({
   );
 }
 
+// ─── Days worked select ───────────────────────────────────────────────────────
+
+function DaysWorkedSelect({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (days: number) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-semibold text-text-main mb-1">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={[
+          'px-3 py-2.5 rounded-lg border-2 bg-card text-text-main text-sm',
+          'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+          'focus:outline-none transition-colors duration-150',
+        ].join(' ')}
+      >
+        {[0, 1, 2, 3, 4, 5].map((d) => (
+          <option key={d} value={d}>
+            {d === 0 ? 'Not working' : `${d} day${d === 1 ? '' : 's'}/week`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 // ─── Step 1: Current situation ────────────────────────────────────────────────
 
 function Step1({
@@ -381,6 +480,38 @@ function Step1({
           </div>
         </div>
 
+        {/* Number of children */}
+        <div>
+          <p className="text-base font-semibold text-text-main mb-1">
+            Number of children
+          </p>
+          <p className="text-sm text-muted mb-3">
+            Used to estimate Family Tax Benefit, which falls as your income rises.
+          </p>
+          <div className="grid grid-cols-3 gap-2 max-w-sm">
+            {([
+              { value: 1, label: '1 child' },
+              { value: 2, label: '2 children' },
+              { value: 3, label: '3 or more' },
+            ] as const).map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => update({ numberOfChildren: opt.value })}
+                className={[
+                  'flex items-center justify-center py-2.5 px-4 rounded-lg border-2 font-medium text-sm transition-all duration-150',
+                  inputs.numberOfChildren === opt.value
+                    ? 'border-primary bg-teal-50 text-primary'
+                    : 'border-border bg-card text-text-main hover:border-primary/40',
+                ].join(' ')}
+                aria-pressed={inputs.numberOfChildren === opt.value}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Days in care */}
         <div>
           <p className="text-base font-semibold text-text-main mb-1">
@@ -417,6 +548,31 @@ function Step1({
           </div>
         </div>
 
+        {/* Weeks of care */}
+        <div>
+          <label htmlFor="btw-weeks-of-care" className="block text-base font-semibold text-text-main mb-1">
+            Weeks per year in care
+          </label>
+          <p className="text-sm text-muted mb-3">
+            Leave out weeks your centre is closed or you take your child out of
+            care — you aren&apos;t charged for them.
+          </p>
+          <select
+            id="btw-weeks-of-care"
+            value={inputs.weeksOfCarePerYear}
+            onChange={(e) => update({ weeksOfCarePerYear: parseInt(e.target.value, 10) })}
+            className={[
+              'w-full sm:w-96 px-3 py-2.5 rounded-lg border-2 bg-card text-text-main text-sm',
+              'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+              'focus:outline-none transition-colors duration-150',
+            ].join(' ')}
+          >
+            {WEEKS_OF_CARE_OPTIONS.map((opt) => (
+              <option key={opt.weeksPerYear} value={opt.weeksPerYear}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Daily fee */}
         <div>
           <p className="text-base font-semibold text-text-main mb-1">
@@ -575,11 +731,13 @@ function Step1({
 
 function Step2({
   inputs,
+  pplRates,
   update,
   onBack,
   onCalculate,
 }: {
   inputs: BTWInputs;
+  pplRates: PaidParentalLeaveRates;
   update: (updates: Partial<BTWInputs>) => void;
   onBack: () => void;
   onCalculate: () => void;
@@ -593,8 +751,17 @@ function Step2({
   const [workCostsStr, setWorkCostsStr] = useState<string>(
     inputs.workRelatedCostsPerWeek > 0 ? String(inputs.workRelatedCostsPerWeek) : ''
   );
+  const [partnerFTEStr, setPartnerFTEStr] = useState<string>(
+    inputs.partnerFTEIncome > 0 ? String(inputs.partnerFTEIncome) : ''
+  );
+  const [partnerWorkCostsStr, setPartnerWorkCostsStr] = useState<string>(
+    inputs.partnerWorkCostsPerWeek > 0 ? String(inputs.partnerWorkCostsPerWeek) : ''
+  );
 
-  const canProceed = inputs.proposedFTEIncome > 0;
+  const timeline = inputs.returnTimeline;
+  const canProceed =
+    inputs.proposedFTEIncome > 0 &&
+    (timeline === null || (timeline.returnDate !== '' && timeline.careStartDate !== ''));
 
   const partnerIncome = Math.max(
     0,
@@ -611,7 +778,8 @@ function Step2({
           </h2>
           <p className="text-sm text-muted leading-relaxed">
             We&apos;ll calculate the net financial benefit for 1, 2, 3, 4, and 5 working
-            days per week — so you can find the sweet spot.
+            days per week, plus any other working patterns you add — so you can find
+            the sweet spot.
           </p>
         </div>
 
@@ -690,6 +858,145 @@ function Step2({
           )}
         </div>
 
+        {/* Extra work patterns */}
+        <WorkPatternPicker
+          value={inputs.workPatterns}
+          onChange={(workPatterns) => update({ workPatterns })}
+        />
+
+        {/* Informal care */}
+        <InformalCarePicker
+          value={inputs.informalCare}
+          onChange={(informalCare) => update({ informalCare })}
+        />
+
+        {/* Return from parental leave */}
+        <ReturnTimelinePicker
+          value={inputs.returnTimeline}
+          onChange={(returnTimeline) => update({ returnTimeline })}
+          pplRates={pplRates}
+        />
+
+        {/* Career projection settings */}
+        <ProjectionAssumptionsPicker
+          value={inputs.projection}
+          onChange={(projection) => update({ projection })}
+        />
+
+        {/* Parenting Payment */}
+        <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+          <input
+            type="checkbox"
+            checked={inputs.receivesParentingPayment}
+            onChange={(e) => update({ receivesParentingPayment: e.target.checked })}
+            className="w-4 h-4 mt-0.5 accent-primary"
+          />
+          <span>
+            <span className="font-semibold">I currently receive Parenting Payment</span>
+            <span className="block text-muted">
+              We&apos;ll reduce it for your earnings in each scenario.
+            </span>
+          </span>
+        </label>
+
+        {/* HELP debt */}
+        <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+          <input
+            type="checkbox"
+            checked={inputs.hasHELPDebt}
+            onChange={(e) => update({ hasHELPDebt: e.target.checked })}
+            className="w-4 h-4 mt-0.5 accent-primary"
+          />
+          <span>
+            <span className="font-semibold">I have a HELP (HECS) debt</span>
+            <span className="block text-muted">
+              Compulsory repayments start above $67,000 and come out of your pay.
+            </span>
+          </span>
+        </label>
+
+        {/* Private hospital cover */}
+        <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+          <input
+            type="checkbox"
+            checked={inputs.noPrivateHospitalCover}
+            onChange={(e) => update({ noPrivateHospitalCover: e.target.checked })}
+            className="w-4 h-4 mt-0.5 accent-primary"
+          />
+          <span>
+            <span className="font-semibold">We don&apos;t have private hospital cover</span>
+            <span className="block text-muted">
+              Families earning over $202,000 without it pay the Medicare levy surcharge.
+            </span>
+          </span>
+        </label>
+
+        {/* Two-parent work matrix */}
+        {inputs.relationshipStatus === 'partnered' && (
+          <div className="rounded-xl border border-border p-4 space-y-4">
+            <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.compareBothParents}
+                onChange={(e) => update({ compareBothParents: e.target.checked })}
+                className="w-4 h-4 mt-0.5 accent-primary"
+              />
+              <span>
+                <span className="font-semibold">Plan both parents&apos; days together</span>
+                <span className="block text-muted">
+                  Compare every combination of days for you and your partner — e.g.
+                  you 3 days and your partner 4.
+                </span>
+              </span>
+            </label>
+
+            {inputs.compareBothParents && (
+              <>
+                <DaysWorkedSelect
+                  id="btw-current-days"
+                  label="Days you work now"
+                  value={inputs.currentDaysWorking}
+                  onChange={(currentDaysWorking) => update({ currentDaysWorking })}
+                />
+                <DaysWorkedSelect
+                  id="btw-partner-days"
+                  label="Days your partner works now"
+                  value={inputs.partnerDaysWorking}
+                  onChange={(partnerDaysWorking) => update({ partnerDaysWorking })}
+                />
+                <DollarInput
+                  id="btw-partner-fte"
+                  label="Partner's full-time annual salary"
+                  hint={
+                    partnerIncome > 0
+                      ? `What your partner would earn working 5 days. Leave blank to use ${formatDollars(
+                          resolveFullTimeIncome(null, partnerIncome, inputs.partnerDaysWorking)
+                        )} — their current income scaled up to 5 days.`
+                      : 'What your partner would earn working 5 days.'
+                  }
+                  value={partnerFTEStr}
+                  onChange={(raw, parsed) => {
+                    setPartnerFTEStr(raw);
+                    update({ partnerFTEIncome: parsed });
+                  }}
+                  placeholder="e.g. 100000"
+                />
+                <DollarInput
+                  id="btw-partner-work-costs"
+                  label="Partner's weekly work-related costs"
+                  value={partnerWorkCostsStr}
+                  onChange={(raw, parsed) => {
+                    setPartnerWorkCostsStr(raw);
+                    update({ partnerWorkCostsPerWeek: parsed });
+                  }}
+                  placeholder="e.g. 60"
+                  suffix="/week"
+                />
+              </>
+            )}
+          </div>
+        )}
+
         {/* InfoTooltip */}
         <InfoTooltip trigger="How does returning to work affect my CCS?">
           <p className="mb-2">
@@ -762,9 +1069,11 @@ function Step2({
 export interface BTWWizardProps {
   /** Optional pre-fill from main CCS calculator params or URL. */
   initialInputs?: Partial<BTWInputs>;
+  /** Paid Parental Leave rates for the financial year the page resolved. */
+  pplRates: PaidParentalLeaveRates;
 }
 
-export default function BTWWizard({ initialInputs }: BTWWizardProps) {
+export default function BTWWizard({ initialInputs, pplRates }: BTWWizardProps) {
   const router = useRouter();
   const [step, setStep] = useState<1 | 2>(1);
   const [inputs, setInputs] = useState<BTWInputs>({
@@ -780,6 +1089,7 @@ export default function BTWWizard({ initialInputs }: BTWWizardProps) {
     const params = new URLSearchParams({
       rs:  inputs.relationshipStatus,
       ya:  inputs.youngestChildAge,
+      n:   String(inputs.numberOfChildren),
       i:   String(inputs.combinedAnnualIncome),
       ir:  inputs.incomeRange,
       ei:  inputs.exactIncome !== null ? String(inputs.exactIncome) : '',
@@ -789,10 +1099,26 @@ export default function BTWWizard({ initialInputs }: BTWWizardProps) {
       h:   String(inputs.hoursPerDay),
       f:   inputs.feePerDay !== null ? String(inputs.feePerDay) : '',
       sa:  inputs.useStateAverage ? '1' : '0',
+      wk:  String(inputs.weeksOfCarePerYear),
       ci:  String(inputs.currentIndividualIncome),
       pi:  String(inputs.proposedFTEIncome),
       wc:  String(inputs.workRelatedCostsPerWeek),
+      wp:  encodeWorkPatternsParam(inputs.workPatterns),
+      ic:  encodeInformalCareParam(inputs.informalCare),
+      pp:  inputs.receivesParentingPayment ? '1' : '',
+      hd:  inputs.hasHELPDebt ? '1' : '',
+      nh:  inputs.noPrivateHospitalCover ? '1' : '',
+      tl:  inputs.returnTimeline ? encodeReturnTimelineParam(inputs.returnTimeline) : '',
+      ...encodeProjectionParams(inputs.projection),
+      fy:  pplRates.financialYear,
     });
+    if (inputs.relationshipStatus === 'partnered' && inputs.compareBothParents) {
+      params.set('pm',  '1');
+      params.set('cd',  String(inputs.currentDaysWorking));
+      params.set('pd',  String(inputs.partnerDaysWorking));
+      params.set('pf',  String(inputs.partnerFTEIncome));
+      params.set('pwc', String(inputs.partnerWorkCostsPerWeek));
+    }
     router.push(`/back-to-work-calculator/results?${params.toString()}`);
   }
 
@@ -802,7 +1128,7 @@ export default function BTWWizard({ initialInputs }: BTWWizardProps) {
       {step === 1 ? (
         <Step1 inputs={inputs} update={update} onNext={() => setStep(2)} />
       ) : (
-        <Step2 inputs={inputs} update={update} onBack={() => setStep(1)} onCalculate={handleCalculate} />
+        <Step2 inputs={inputs} pplRates={pplRates} update={update} onBack={() => setStep(1)} onCalculate={handleCalculate} />
       )}
     </div>
   );
@@ -0,0 +1,73 @@
+'use client';
+// =============================================================================
+// INFORMAL CARE PICKER — Weekdays Covered Without Paid Childcare
+// =============================================================================
+// Lets parents mark weekdays when grandparents, a partner's day off or working
+// from home covers care. Working days on those weekdays need no paid
+// childcare in the back-to-work comparison.
+//
+// Used by the main wizard (Step 4) and the standalone back-to-work wizard.
+// =============================================================================
+
+import { WEEKDAYS, WEEKDAY_LABELS, INFORMAL_CARE_SOURCE_LABELS } from '@/lib/informalCare';
+import type { InformalCareDay, InformalCareSource, Weekday } from '@/lib/types';
+
+const SOURCES = Object.keys(INFORMAL_CARE_SOURCE_LABELS) as InformalCareSource[];
+
+const SELECT_CLASS = [
+  'px-3 py-2 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+export default function InformalCarePicker({
+  value,
+  onChange,
+}: {
+  value: InformalCareDay[];
+  onChange: (schedule: InformalCareDay[]) => void;
+}) {
+  function setDay(weekday: Weekday, source: InformalCareSource | '') {
+    const others = value.filter((d) => d.weekday !== weekday);
+    const next = source === '' ? others : [...others, { weekday, source }];
+    onChange(WEEKDAYS.flatMap((w) => next.filter((d) => d.weekday === w)));
+  }
+
+  return (
+    <div>
+      <p className="block text-sm font-semibold text-text-main mb-1">
+        Days covered without paid childcare (optional)
+      </p>
+      <p className="text-sm text-muted mb-3">
+        Grandparents, a partner&apos;s day off or working from home. We&apos;ll
+        put your working days on these first, so they need no paid care.
+      </p>
+      <div className="space-y-2">
+        {WEEKDAYS.map((weekday) => {
+          const current = value.find((d) => d.weekday === weekday);
+          return (
+            <div key={weekday} className="flex items-center gap-3">
+              <label
+                htmlFor={`ic-${weekday}`}
+                className="w-24 text-sm text-text-main"
+              >
+                {WEEKDAY_LABELS[weekday]}
+              </label>
+              <select
+                id={`ic-${weekday}`}
+                value={current?.source ?? ''}
+                onChange={(e) => setDay(weekday, e.target.value as InformalCareSource | '')}
+                className={SELECT_CLASS}
+              >
+                <option value="">Paid care if I work</option>
+                {SOURCES.map((s) => (
+                  <option key={s} value={s}>{INFORMAL_CARE_SOURCE_LABELS[s]}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+// =============================================================================
+// PROJECTION ASSUMPTIONS PICKER — Years Ahead and Growth Rates
+// =============================================================================
+// Lets the family set how many years the career projection covers and how
+// fast pay, childcare fees and the CCS caps and income thresholds grow each
+// year. Starts from the sourced defaults in lib/careerProjection.ts; setting
+// every rate to 0 projects in today's dollars.
+//
+// Used by the standalone back-to-work wizard (Step 2).
+// =============================================================================
+
+import {
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  MAX_PROJECTION_YEARS,
+  type ProjectionAssumptions,
+} from '@/lib/careerProjection';
+
+type RateField = 'salaryGrowthRate' | 'feeInflationRate' | 'capIndexationRate';
+
+const RATE_FIELDS: { field: RateField; id: string; label: string; hint: string }[] = [
+  {
+    field: 'salaryGrowthRate',
+    id: 'btw-salary-growth',
+    label: 'Pay rises per year',
+    hint: 'Wages rose 3.4% in the year to June 2025 (ABS Wage Price Index).',
+  },
+  {
+    field: 'feeInflationRate',
+    id: 'btw-fee-inflation',
+    label: 'Childcare fee rises per year',
+    hint: 'Most centres kept rises to 4.4% to August 2025 under the Worker Retention Payment.',
+  },
+  {
+    field: 'capIndexationRate',
+    id: 'btw-cap-indexation',
+    label: 'CCS indexation per year',
+    hint: 'The hourly rate caps and income thresholds rose 2.4% on 1 July 2025.',
+  },
+];
+
+const INPUT_CLASS = [
+  'w-full px-3 py-2 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+export default function ProjectionAssumptionsPicker({
+  value,
+  onChange,
+}: {
+  value: ProjectionAssumptions;
+  onChange: (assumptions: ProjectionAssumptions) => void;
+}) {
+  function setYears(raw: string) {
+    const n = Math.round(Number(raw));
+    onChange({
+      ...value,
+      years: raw === '' || !Number.isFinite(n) ? 1 : Math.min(MAX_PROJECTION_YEARS, Math.max(1, n)),
+    });
+  }
+
+  function setRate(field: RateField, raw: string) {
+    const n = Number(raw);
+    onChange({ ...value, [field]: raw === '' || !Number.isFinite(n) ? 0 : n / 100 });
+  }
+
+  return (
+    <div className="rounded-xl border border-border p-4 space-y-4">
+      <div>
+        <p className="text-sm font-semibold text-text-main">Looking ahead</p>
+        <p className="text-sm text-muted">
+          We&apos;ll project each scenario over the coming years as your pay, fees and
+          the CCS limits grow. Set the rates to 0% to see it in today&apos;s dollars.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="btw-projection-years" className="block text-sm font-semibold text-text-main mb-1">
+            Years to project
+          </label>
+          <input
+            id="btw-projection-years"
+            type="number"
+            min={1}
+            max={MAX_PROJECTION_YEARS}
+            value={value.years}
+            onChange={(e) => setYears(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        {RATE_FIELDS.map(({ field, id, label, hint }) => (
+          <div key={field}>
+            <label htmlFor={id} className="block text-sm font-semibold text-text-main mb-1">
+              {label} (%)
+            </label>
+            <input
+              id={id}
+              type="number"
+              step="0.1"
+              value={Number((value[field] * 100).toFixed(2))}
+              onChange={(e) => setRate(field, e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <p className="mt-1 text-xs text-muted">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_PROJECTION_ASSUMPTIONS)}
+        className="text-xs font-medium text-primary hover:underline"
+      >
+        Reset to the defaults
+      </button>
+    </div>
+  );
+}
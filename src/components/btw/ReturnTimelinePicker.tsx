@@ -0,0 +1,136 @@
+'use client';
+// =============================================================================
+// RETURN TIMELINE PICKER — Coming Back From Paid Parental Leave
+// =============================================================================
+// Lets a parent on Paid Parental Leave enter when the leave pay runs to, when
+// they go back to work and when paid childcare starts. The back-to-work
+// comparison then treats the financial year as a part year: pay from the
+// return date, childcare from the care start date, and Parental Leave Pay
+// counted in the year's income.
+//
+// Used by the standalone back-to-work wizard (Step 2).
+// =============================================================================
+
+import { formatDollarsAndCents } from '@/lib/format';
+import type { PaidParentalLeaveRates, ReturnTimeline } from '@/lib/types';
+
+const INPUT_CLASS = [
+  'w-full px-3 py-2 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+export default function ReturnTimelinePicker({
+  value,
+  onChange,
+  pplRates,
+}: {
+  value: ReturnTimeline | null;
+  onChange: (timeline: ReturnTimeline | null) => void;
+  pplRates: PaidParentalLeaveRates;
+}) {
+  function set(updates: Partial<ReturnTimeline>) {
+    if (value) onChange({ ...value, ...updates });
+  }
+
+  function setNumber(field: 'pplWeeks' | 'pplWeeklyRate', raw: string) {
+    const n = Number(raw);
+    set({ [field]: raw === '' || !Number.isFinite(n) ? 0 : Math.max(0, n) });
+  }
+
+  return (
+    <div className="rounded-xl border border-border p-4 space-y-4">
+      <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? {
+                    pplWeeks: pplRates.maxWeeks,
+                    pplWeeklyRate: pplRates.weeklyRate,
+                    returnDate: '',
+                    careStartDate: '',
+                  }
+                : null
+            )
+          }
+          className="w-4 h-4 mt-0.5 accent-primary"
+        />
+        <span>
+          <span className="font-semibold">I&apos;m returning from parental leave this financial year</span>
+          <span className="block text-muted">
+            We&apos;ll count your pay from your return date and childcare from the day it
+            starts. CCS still uses your family&apos;s income for the whole year, including
+            Parental Leave Pay.
+          </span>
+        </span>
+      </label>
+
+      {value && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="btw-return-date" className="block text-sm font-semibold text-text-main mb-1">
+              Back at work from
+            </label>
+            <input
+              id="btw-return-date"
+              type="date"
+              value={value.returnDate}
+              onChange={(e) => set({ returnDate: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="btw-care-start" className="block text-sm font-semibold text-text-main mb-1">
+              Childcare starts
+            </label>
+            <input
+              id="btw-care-start"
+              type="date"
+              value={value.careStartDate}
+              onChange={(e) => set({ careStartDate: e.target.value })}
+              className={INPUT_CLASS}
+            />
+            <p className="mt-1 text-xs text-muted">Often a week or two early, for orientation.</p>
+          </div>
+          <div>
+            <label htmlFor="btw-ppl-weeks" className="block text-sm font-semibold text-text-main mb-1">
+              Weeks of Parental Leave Pay
+            </label>
+            <input
+              id="btw-ppl-weeks"
+              type="number"
+              min={0}
+              max={52}
+              value={value.pplWeeks}
+              onChange={(e) => setNumber('pplWeeks', e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <p className="mt-1 text-xs text-muted">
+              Up to {pplRates.maxWeeks} weeks, ending on your return date.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="btw-ppl-rate" className="block text-sm font-semibold text-text-main mb-1">
+              Parental Leave Pay per week
+            </label>
+            <input
+              id="btw-ppl-rate"
+              type="number"
+              min={0}
+              step="0.01"
+              value={value.pplWeeklyRate}
+              onChange={(e) => setNumber('pplWeeklyRate', e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <p className="mt-1 text-xs text-muted">
+              The government rate is {formatDollarsAndCents(pplRates.weeklyRate)} before tax.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
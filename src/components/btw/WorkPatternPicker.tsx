@@ -0,0 +1,181 @@
+'use client';
+// =============================================================================
+// WORK PATTERN PICKER — Custom Back-to-Work Scenarios
+// =============================================================================
+// Lets parents add working patterns beyond whole days (compressed weeks,
+// school hours, short days) to the back-to-work comparison. The 1–5 full-day
+// scenarios are always included; patterns chosen here are added after them.
+//
+// Used by the main wizard (Step 4) and the standalone back-to-work wizard.
+// =============================================================================
+
+import { useState } from 'react';
+import { WORK_PATTERN_PRESETS, getWorkPatternLabel } from '@/lib/backToWorkCalculations';
+import { isSamePattern } from '@/lib/workPatternParams';
+import type { WorkPattern } from '@/lib/types';
+
+/** Most extra patterns we compare (keeps the scenario table readable). */
+export const MAX_WORK_PATTERNS = 4;
+
+const DAY_OPTIONS = [1, 2, 3, 4, 5];
+
+const SELECT_CLASS = [
+  'px-3 py-2 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+export default function WorkPatternPicker({
+  value,
+  onChange,
+}: {
+  value: WorkPattern[];
+  onChange: (patterns: WorkPattern[]) => void;
+}) {
+  const [days, setDays] = useState(4);
+  const [hoursStr, setHoursStr] = useState('9');
+  const [careDays, setCareDays] = useState<number | null>(null);
+
+  const hours = Number(hoursStr);
+  const hoursValid = Number.isFinite(hours) && hours > 0 && hours <= 24;
+  const atLimit = value.length >= MAX_WORK_PATTERNS;
+  const customPatterns = value.filter(
+    (p) => !WORK_PATTERN_PRESETS.some((preset) => isSamePattern(preset, p))
+  );
+
+  function togglePreset(preset: WorkPattern) {
+    const selected = value.some((p) => isSamePattern(p, preset));
+    onChange(
+      selected
+        ? value.filter((p) => !isSamePattern(p, preset))
+        : [...value, preset]
+    );
+  }
+
+  function addCustom() {
+    if (!hoursValid || atLimit) return;
+    const pattern: WorkPattern = { daysPerWeek: days, hoursPerDay: hours };
+    if (careDays !== null) pattern.childcareDaysPerWeek = careDays;
+    if (value.some((p) => isSamePattern(p, pattern))) return;
+    onChange([...value, pattern]);
+  }
+
+  return (
+    <div>
+      <p className="block text-sm font-semibold text-text-main mb-1">
+        Other ways of working to compare (optional)
+      </p>
+      <p className="text-sm text-muted mb-3">
+        We always compare 1–5 full days. Add part-time patterns — income is
+        pro-rated by hours worked against a 40-hour full-time week.
+      </p>
+
+      {/* Presets */}
+      <div className="space-y-2">
+        {WORK_PATTERN_PRESETS.map((preset) => {
+          const checked = value.some((p) => isSamePattern(p, preset));
+          return (
+            <label
+              key={getWorkPatternLabel(preset)}
+              className="flex items-center gap-2 text-sm text-text-main cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={!checked && atLimit}
+                onChange={() => togglePreset(preset)}
+                className="w-4 h-4 accent-primary"
+              />
+              {getWorkPatternLabel(preset)}
+            </label>
+          );
+        })}
+      </div>
+
+      {/* Custom patterns already added */}
+      {customPatterns.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {customPatterns.map((p) => (
+            <li
+              key={`${p.daysPerWeek}x${p.hoursPerDay}x${p.childcareDaysPerWeek ?? ''}`}
+              className="flex items-center gap-3 text-sm text-text-main"
+            >
+              <span>
+                {getWorkPatternLabel(p)}
+                {p.childcareDaysPerWeek !== undefined && (
+                  <span className="text-muted"> · {p.childcareDaysPerWeek} days of care</span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((v) => v !== p))}
+                className="text-xs text-muted hover:text-primary underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add a custom pattern */}
+      <div className="mt-3 flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="wp-days" className="block text-xs text-muted mb-1">Days/week</label>
+          <select
+            id="wp-days"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="wp-hours" className="block text-xs text-muted mb-1">Hours/day</label>
+          <input
+            id="wp-hours"
+            type="text"
+            inputMode="decimal"
+            value={hoursStr}
+            onChange={(e) => setHoursStr(e.target.value.replace(/[^0-9.]/g, ''))}
+            className={[SELECT_CLASS, 'w-20', hoursValid ? '' : 'border-amber-400'].join(' ')}
+          />
+        </div>
+        <div>
+          <label htmlFor="wp-care-days" className="block text-xs text-muted mb-1">Childcare days</label>
+          <select
+            id="wp-care-days"
+            value={careDays ?? ''}
+            onChange={(e) => setCareDays(e.target.value === '' ? null : Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            <option value="">As needed</option>
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={addCustom}
+          disabled={!hoursValid || atLimit}
+          className={[
+            'px-4 py-2 rounded-lg border-2 border-primary text-primary text-sm font-medium',
+            'hover:bg-teal-50 transition-colors',
+            !hoursValid || atLimit ? 'opacity-50 cursor-not-allowed' : '',
+          ].join(' ')}
+        >
+          Add pattern
+        </button>
+      </div>
+      {atLimit && (
+        <p className="mt-1.5 text-xs text-muted">
+          Up to {MAX_WORK_PATTERNS} extra patterns can be compared.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,682 @@
+'use client';
+
+// =============================================================================
+// EFFECTIVE MARGINAL RATE CLIENT — Interactive EMTR Calculator
+// =============================================================================
+// Lets users enter their family's incomes and care details, then shows what
+// an extra $1,000 earned by either partner is worth at every income from $0
+// to $250,000: a stacked chart and a table splitting the effective marginal
+// tax rate into income tax, LITO, Medicare, lost CCS and family payments.
+//
+// All calculation is done client-side using calculateEffectiveMarginalRates().
+// Rates come from the page, which resolves the financial year on the server;
+// state averages are imported as JSON.
+// =============================================================================
+
+import React, { useState, useMemo } from 'react';
+import {
+  calculateEffectiveMarginalRates,
+  type EffectiveMarginalRateRow,
+} from '@/lib/effectiveMarginalRate';
+import { formatDollars } from '@/lib/format';
+import type { CareType, State, StateAverageEntry } from '@/lib/types';
+import {
+  DEFAULT_HOURS_PER_DAY,
+  LEGACY_CHILD_AGE_YEARS,
+} from '@/lib/resolveInputs';
+import { getStateAverageDailyFee } from '@/lib/ccsCalculations';
+import type { FinancialYearRates } from '@/lib/ratesRegistry';
+
+// JSON data imports
+import stateAveragesJson from '@/data/childcare-costs/state-averages.json';
+
+const stateAverages: StateAverageEntry[] = stateAveragesJson as unknown as StateAverageEntry[];
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface Inputs {
+  relationshipStatus: 'single' | 'partnered';
+  earner:         'parent' | 'partner';
+  yourIncome:     string;        // raw string for controlled input
+  partnerIncome:  string;
+  careType:       CareType;
+  ageGroup:       'below_school_age' | 'school_age';
+  state:          State;
+  useStateAvg:    boolean;
+  customFee:      string;
+  daysPerWeek:    number;
+  numberOfChildren: number;
+  includeFTB:     boolean;
+  receivesParentingPayment: boolean;
+  privateHospitalCover: boolean;
+}
+
+type Component = 'incomeTaxRate' | 'litoRate' | 'medicareRate' | 'childcareRate' | 'familyPaymentsRate';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const STATES: State[] = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+const CARE_TYPE_LABELS: Record<CareType, string> = {
+  centre_based_day_care: 'Centre-Based Day Care',
+  family_day_care:       'Family Day Care',
+  outside_school_hours:  'Outside School Hours (OSHC)',
+  in_home_care:          'In-Home Care',
+};
+
+const COMPONENTS: { key: Component; label: string; colour: string }[] = [
+  { key: 'incomeTaxRate',      label: 'Income tax',      colour: 'bg-primary' },
+  { key: 'litoRate',           label: 'LITO withdrawn',  colour: 'bg-sky-400' },
+  { key: 'medicareRate',       label: 'Medicare',        colour: 'bg-indigo-400' },
+  { key: 'childcareRate',      label: 'Lost CCS',        colour: 'bg-amber-400' },
+  { key: 'familyPaymentsRate', label: 'Family payments', colour: 'bg-rose-400' },
+];
+
+const CONDENSED_STEP = 10;   // show every 10th row ($10,000) when condensed
+const CONDENSED_CONTEXT = 2; // rows either side of the user's income to show
+const CCS_STEP = 5000;       // family income per 1% of CCS
+
+// Default inputs shown on first load
+const DEFAULT_INPUTS: Inputs = {
+  relationshipStatus: 'partnered',
+  earner:         'parent',
+  yourIncome:     '60000',
+  partnerIncome:  '90000',
+  careType:       'centre_based_day_care',
+  ageGroup:       'below_school_age',
+  state:          'NSW',
+  useStateAvg:    true,
+  customFee:      '',
+  daysPerWeek:    3,
+  numberOfChildren: 1,
+  includeFTB:     true,
+  receivesParentingPayment: false,
+  privateHospitalCover: true,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function parseIncome(raw: string): number {
+  const n = Number(raw.replace(/,/g, ''));
+  return Number.isFinite(n) && n >= 0 ? n : 0;
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export default function EffectiveMarginalRateClient({ rates }: { rates: FinancialYearRates }) {
+  const {
+    ccs: ccsRates,
+    tax: taxRates,
+    ftb: ftbRates,
+    parentingPayment: ppRates,
+  } = rates;
+  const [inputs, setInputs] = useState<Inputs>(DEFAULT_INPUTS);
+  const [showAll, setShowAll] = useState(false);
+
+  // ── Derived values ────────────────────────────────────────────────────────
+
+  const partnered = inputs.relationshipStatus === 'partnered';
+
+  const dailyFee = useMemo((): number => {
+    if (inputs.careType !== 'in_home_care' && inputs.useStateAvg) {
+      return getStateAverageDailyFee(
+        inputs.state,
+        inputs.careType as Exclude<CareType, 'in_home_care'>,
+        stateAverages
+      );
+    }
+    return Math.max(0, Number(inputs.customFee) || 0);
+  }, [inputs.careType, inputs.useStateAvg, inputs.state, inputs.customFee]);
+
+  const emtr = useMemo(() => {
+    if (dailyFee <= 0) return null;
+    // Ages are only known by band; every child takes the band's typical age
+    const childAges = Array<number>(inputs.numberOfChildren).fill(
+      LEGACY_CHILD_AGE_YEARS[inputs.ageGroup === 'below_school_age' ? 'under_6' : '6_to_13']
+    );
+    return calculateEffectiveMarginalRates(
+      {
+        parentIncome:  parseIncome(inputs.yourIncome),
+        partnerIncome: partnered ? parseIncome(inputs.partnerIncome) : null,
+        earner:        partnered ? inputs.earner : 'parent',
+        dailyFee,
+        hoursPerDay:   DEFAULT_HOURS_PER_DAY[inputs.careType],
+        daysPerWeek:   inputs.daysPerWeek,
+        careType:      inputs.careType,
+        ageGroup:      inputs.ageGroup,
+        medicare: {
+          dependentChildren:    inputs.numberOfChildren,
+          privateHospitalCover: inputs.privateHospitalCover,
+        },
+        familyTaxBenefit: inputs.includeFTB ? { childAges } : undefined,
+        parentingPayment: inputs.receivesParentingPayment ? { childAges } : undefined,
+      },
+      ccsRates,
+      taxRates,
+      ftbRates,
+      ppRates
+    );
+  }, [dailyFee, inputs, partnered, ccsRates, taxRates, ftbRates, ppRates]);
+
+  // ── Input helpers ─────────────────────────────────────────────────────────
+
+  function set<K extends keyof Inputs>(key: K, value: Inputs[K]) {
+    setInputs((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function handleCareTypeChange(ct: CareType) {
+    setInputs((prev) => ({
+      ...prev,
+      careType:    ct,
+      ageGroup:    ct === 'outside_school_hours' ? 'school_age' : prev.ageGroup,
+      useStateAvg: ct !== 'in_home_care' ? prev.useStateAvg : false,
+    }));
+  }
+
+  // ── Table rows ────────────────────────────────────────────────────────────
+
+  const visibleRows = useMemo(() => {
+    if (!emtr) return [];
+    const { rows, userRowIndex, extraIncome } = emtr;
+    // Average over the next CCS step, so one step's spike isn't read as the rate
+    const rowsPerStep = Math.max(1, Math.round(CCS_STEP / extraIncome));
+    return rows
+      .map((row, index) => {
+        const next = rows.slice(index, index + rowsPerStep);
+        const stepRate = next.reduce((total, r) => total + r.effectiveMarginalRate, 0) / next.length;
+        return { row, index, stepRate };
+      })
+      .filter(({ index }) =>
+        showAll ||
+        index % CONDENSED_STEP === 0 ||
+        Math.abs(index - userRowIndex) <= CONDENSED_CONTEXT
+      );
+  }, [emtr, showAll]);
+
+  // ── Render ────────────────────────────────────────────────────────────────
+
+  const buttonClass = (selected: boolean) =>
+    [
+      'flex-1 px-3 py-2.5 rounded-lg border text-sm font-medium transition-colors',
+      selected
+        ? 'border-primary bg-primary/10 text-primary'
+        : 'border-border bg-background text-text-main hover:border-primary/50',
+    ].join(' ');
+  const inputClass =
+    'w-full border border-border rounded-lg pl-7 pr-16 py-2.5 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40';
+
+  return (
+    <div className="space-y-6">
+
+      {/* ================================================================ */}
+      {/* INPUTS PANEL                                                     */}
+      {/* ================================================================ */}
+      <div className="rounded-2xl border border-border bg-card p-6">
+        <h2 className="text-base font-semibold text-text-main mb-4">Your family</h2>
+
+        <div className="grid sm:grid-cols-2 gap-5">
+
+          {/* Relationship status */}
+          <div>
+            <label className="block text-sm font-medium text-text-main mb-2">
+              Family
+            </label>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => set('relationshipStatus', 'single')} className={buttonClass(!partnered)}>
+                Single parent
+              </button>
+              <button type="button" onClick={() => set('relationshipStatus', 'partnered')} className={buttonClass(partnered)}>
+                Couple
+              </button>
+            </div>
+          </div>
+
+          {/* Who earns the extra */}
+          {partnered && (
+            <div>
+              <label className="block text-sm font-medium text-text-main mb-2">
+                Who earns the extra $1,000?
+              </label>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => set('earner', 'parent')} className={buttonClass(inputs.earner === 'parent')}>
+                  Me
+                </button>
+                <button type="button" onClick={() => set('earner', 'partner')} className={buttonClass(inputs.earner === 'partner')}>
+                  My partner
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Your income */}
+          <div>
+            <label htmlFor="emtr-your-income" className="block text-sm font-medium text-text-main mb-2">
+              Your income
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted text-sm">$</span>
+              <input
+                id="emtr-your-income"
+                type="number"
+                min="0"
+                max="2000000"
+                step="1000"
+                value={inputs.yourIncome}
+                onChange={(e) => set('yourIncome', e.target.value)}
+                placeholder="e.g. 60000"
+                className={inputClass}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted text-xs">/year</span>
+            </div>
+          </div>
+
+          {/* Partner's income */}
+          {partnered && (
+            <div>
+              <label htmlFor="emtr-partner-income" className="block text-sm font-medium text-text-main mb-2">
+                Your partner&apos;s income
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted text-sm">$</span>
+                <input
+                  id="emtr-partner-income"
+                  type="number"
+                  min="0"
+                  max="2000000"
+                  step="1000"
+                  value={inputs.partnerIncome}
+                  onChange={(e) => set('partnerIncome', e.target.value)}
+                  placeholder="e.g. 90000"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted text-xs">/year</span>
+              </div>
+            </div>
+          )}
+
+          {/* Care type */}
+          <div>
+            <label htmlFor="emtr-care-type" className="block text-sm font-medium text-text-main mb-2">
+              Type of care
+            </label>
+            <select
+              id="emtr-care-type"
+              value={inputs.careType}
+              onChange={(e) => handleCareTypeChange(e.target.value as CareType)}
+              className="w-full border border-border rounded-lg px-3 py-2.5 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40"
+            >
+              {(Object.keys(CARE_TYPE_LABELS) as CareType[]).map((ct) => (
+                <option key={ct} value={ct}>{CARE_TYPE_LABELS[ct]}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Daily fee */}
+          <div>
+            <label className="block text-sm font-medium text-text-main mb-2">
+              Daily fee
+            </label>
+            {inputs.careType !== 'in_home_care' && (
+              <div className="flex gap-2 mb-3">
+                <button type="button" onClick={() => set('useStateAvg', true)} className={buttonClass(inputs.useStateAvg)}>
+                  State average
+                </button>
+                <button type="button" onClick={() => set('useStateAvg', false)} className={buttonClass(!inputs.useStateAvg)}>
+                  My fee
+                </button>
+              </div>
+            )}
+            {inputs.careType !== 'in_home_care' && inputs.useStateAvg ? (
+              <div>
+                <select
+                  value={inputs.state}
+                  onChange={(e) => set('state', e.target.value as State)}
+                  className="w-full border border-border rounded-lg px-3 py-2.5 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40"
+                  aria-label="State"
+                >
+                  {STATES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted mt-1.5">
+                  State average: <span className="font-medium text-text-main">${dailyFee}/day</span>
+                </p>
+              </div>
+            ) : (
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted text-sm">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="1000"
+                  step="1"
+                  value={inputs.customFee}
+                  onChange={(e) => set('customFee', e.target.value)}
+                  placeholder="e.g. 165"
+                  className={inputClass}
+                  aria-label="Daily fee in dollars"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted text-xs">/day</span>
+              </div>
+            )}
+          </div>
+
+          {/* Days per week */}
+          <div>
+            <label className="block text-sm font-medium text-text-main mb-2">
+              Days of care per week
+            </label>
+            <div className="flex gap-2">
+              {[1, 2, 3, 4, 5].map((d) => (
+                <button key={d} type="button" onClick={() => set('daysPerWeek', d)} className={buttonClass(inputs.daysPerWeek === d)}>
+                  {d}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Children */}
+          <div>
+            <label className="block text-sm font-medium text-text-main mb-2">
+              Children
+            </label>
+            <div className="flex gap-2 mb-2">
+              {[1, 2, 3].map((n) => (
+                <button key={n} type="button" onClick={() => set('numberOfChildren', n)} className={buttonClass(inputs.numberOfChildren === n)}>
+                  {n}
+                </button>
+              ))}
+            </div>
+            {inputs.careType !== 'outside_school_hours' && (
+              <div className="flex gap-2">
+                {(['below_school_age', 'school_age'] as const).map((ag) => (
+                  <button key={ag} type="button" onClick={() => set('ageGroup', ag)} className={buttonClass(inputs.ageGroup === ag)}>
+                    {ag === 'below_school_age' ? 'Under school age' : 'School age'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Payments and cover */}
+          <div className="sm:col-span-2 space-y-2">
+            <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.includeFTB}
+                onChange={(e) => set('includeFTB', e.target.checked)}
+                className="w-4 h-4 mt-0.5 accent-primary"
+              />
+              Include Family Tax Benefit
+            </label>
+            <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.receivesParentingPayment}
+                onChange={(e) => set('receivesParentingPayment', e.target.checked)}
+                className="w-4 h-4 mt-0.5 accent-primary"
+              />
+              I&apos;m paid Parenting Payment
+            </label>
+            <label className="flex items-start gap-2 text-sm text-text-main cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.privateHospitalCover}
+                onChange={(e) => set('privateHospitalCover', e.target.checked)}
+                className="w-4 h-4 mt-0.5 accent-primary"
+              />
+              We have private hospital cover
+            </label>
+          </div>
+
+        </div>
+      </div>
+
+      {/* ================================================================ */}
+      {/* NO FEE STATE                                                     */}
+      {/* ================================================================ */}
+      {!emtr && (
+        <div className="rounded-2xl border border-border bg-card p-8 text-center">
+          <p className="text-muted text-sm">
+            Enter your daily fee above to see your effective marginal tax rates.
+          </p>
+        </div>
+      )}
+
+      {/* ================================================================ */}
+      {/* RESULTS                                                          */}
+      {/* ================================================================ */}
+      {emtr && (() => {
+        const { rows, userRowIndex, peakRow, extraIncome } = emtr;
+        const userRow = rows[userRowIndex];
+        const nextRows = rows.slice(userRowIndex, userRowIndex + 5);
+        const nextKept = nextRows.reduce((total, r) => total + r.amountKept, 0);
+        const scale = Math.max(1, Math.ceil(peakRow.effectiveMarginalRate * 4) / 4);
+        const whose = partnered && inputs.earner === 'partner' ? "your partner's" : 'your';
+
+        return (
+          <div className="space-y-5">
+
+            {/* ── Insight cards ────────────────────────────────────────── */}
+            <div className="grid sm:grid-cols-3 gap-3">
+              <div className="rounded-xl bg-primary/5 border border-primary/20 px-4 py-4">
+                <p className="text-xs text-muted font-medium uppercase tracking-wide">At {whose} income</p>
+                <p className="text-2xl font-bold text-primary mt-1">{formatRate(userRow.effectiveMarginalRate)}</p>
+                <p className="text-xs text-muted mt-1">
+                  keep {formatDollars(userRow.amountKept)} of the next {formatDollars(extraIncome)}
+                </p>
+              </div>
+
+              <div className="rounded-xl bg-card border border-border px-4 py-4">
+                <p className="text-xs text-muted font-medium uppercase tracking-wide">Next {formatDollars(nextRows.length * extraIncome)}</p>
+                <p className="text-2xl font-bold text-text-main mt-1">{formatDollars(nextKept)} kept</p>
+                <p className="text-xs text-muted mt-1">
+                  {formatRate(1 - nextKept / (nextRows.length * extraIncome))} average, smoothing out CCS steps
+                </p>
+              </div>
+
+              <div className="rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 px-4 py-4">
+                <p className="text-xs text-red-600 dark:text-red-400 font-medium uppercase tracking-wide">Highest rate</p>
+                <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-1">{formatRate(peakRow.effectiveMarginalRate)}</p>
+                <p className="text-xs text-muted mt-1">
+                  from {formatDollars(peakRow.income)} to {formatDollars(peakRow.income + extraIncome)}
+                </p>
+              </div>
+            </div>
+
+            {/* ── Chart ────────────────────────────────────────────────── */}
+            <div className="rounded-2xl border border-border bg-card p-6 space-y-3">
+              <div>
+                <h2 className="text-sm font-semibold text-text-main">
+                  Effective marginal tax rate by {whose} income
+                </h2>
+                <p className="text-xs text-muted mt-0.5">
+                  Share of each extra {formatDollars(extraIncome)} the family doesn&apos;t keep
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <div className="flex flex-col justify-between text-[10px] text-muted text-right h-40">
+                  <span>{formatRate(scale)}</span>
+                  <span>{formatRate(scale / 2)}</span>
+                  <span>0%</span>
+                </div>
+                <div className="flex-1 flex items-end h-40 border-b border-l border-border" aria-hidden="true">
+                  {rows.map((row, i) => (
+                    <div
+                      key={row.income}
+                      title={`${formatDollars(row.income)}: ${formatRate(row.effectiveMarginalRate)}`}
+                      className={[
+                        'flex-1 h-full flex flex-col-reverse',
+                        i === userRowIndex ? 'outline outline-1 outline-text-main' : '',
+                      ].join(' ')}
+                    >
+                      {COMPONENTS.map(({ key, colour }) => (
+                        <div
+                          key={key}
+                          className={colour}
+                          style={{ height: `${(Math.max(0, row[key]) / scale) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-between text-xs text-muted pl-10">
+                <span>{formatDollars(rows[0].income)}</span>
+                <span>{formatDollars(rows[Math.floor(rows.length / 2)].income)}</span>
+                <span>{formatDollars(rows[rows.length - 1].income)}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted">
+                {COMPONENTS.map(({ key, label, colour }) => (
+                  <span key={key} className="flex items-center gap-1.5">
+                    <span className={`inline-block w-3 h-3 rounded-sm ${colour}`} />
+                    {label}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* ── Table ────────────────────────────────────────────────── */}
+            <div className="rounded-2xl border border-border bg-card overflow-hidden">
+              <div className="px-6 pt-5 pb-3 border-b border-border">
+                <h2 className="text-sm font-semibold text-text-main">
+                  {showAll ? `Every ${formatDollars(extraIncome)}` : 'Every $10,000 and around your income'}
+                </h2>
+                <p className="text-xs text-muted mt-0.5">
+                  <button
+                    type="button"
+                    onClick={() => setShowAll(!showAll)}
+                    className="text-primary hover:underline"
+                  >
+                    {showAll ? 'Show condensed view' : `Show all ${rows.length} rows`}
+                  </button>
+                </p>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse min-w-[720px]">
+                  <thead>
+                    <tr className="border-b border-border bg-background">
+                      <th className="text-left text-xs font-semibold text-muted px-4 py-3">Income</th>
+                      <th className="text-right text-xs font-semibold text-muted px-3 py-3">Family</th>
+                      {COMPONENTS.map(({ key, label }) => (
+                        <th key={key} className="text-right text-xs font-semibold text-muted px-3 py-3">{label}</th>
+                      ))}
+                      <th className="text-right text-xs font-semibold text-muted px-3 py-3">EMTR</th>
+                      <th className="text-right text-xs font-semibold text-muted px-3 py-3">You keep</th>
+                      <th className="text-right text-xs font-semibold text-muted px-4 py-3">Next $5k</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(({ row, index, stepRate }) => (
+                      <EMTRTableRow
+                        key={row.income}
+                        row={row}
+                        stepRate={stepRate}
+                        isUser={index === userRowIndex}
+                        striped={index % 2 === 0}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* ── Explainer ────────────────────────────────────────────── */}
+            <div className="rounded-xl border border-border bg-card p-5 text-sm text-muted space-y-2">
+              <p>
+                <strong className="text-text-main">What is an effective marginal tax rate?</strong>{' '}
+                It&apos;s the share of an extra dollar earned that your family doesn&apos;t keep once
+                income tax, the Low Income Tax Offset, the Medicare levy, a lower CCS rate and
+                reduced family payments are all counted.
+              </p>
+              <p>
+                <strong className="text-text-main">Why the spikes?</strong> The CCS rate drops by
+                1% for every $5,000 of family income, so one {formatDollars(extraIncome)} in five
+                costs you a full percentage point of your childcare fees. The{' '}
+                <em>Next $5k</em> column averages the rate over a full step.
+              </p>
+              <p>
+                Family Tax Benefit and Parenting Payment use each child&apos;s typical age for the
+                age group chosen. Estimates use FY {ccsRates.financialYear} rates and{' '}
+                {DEFAULT_HOURS_PER_DAY[inputs.careType]} hours of care a day.
+              </p>
+            </div>
+
+            {/* ── CTA ──────────────────────────────────────────────────── */}
+            <div className="rounded-xl border border-primary/30 bg-primary/5 px-5 py-4 flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
+              <div>
+                <p className="text-sm font-semibold text-text-main">Thinking about more days at work?</p>
+                <p className="text-xs text-muted mt-0.5">
+                  The Back to Work Calculator compares every working pattern after tax, childcare and payments.
+                </p>
+              </div>
+              <a
+                href="/back-to-work-calculator"
+                className="flex-shrink-0 inline-block bg-primary text-white font-semibold px-5 py-2.5 rounded-lg text-sm hover:bg-cyan-800 transition-colors whitespace-nowrap"
+              >
+                Back to Work Calculator →
+              </a>
+            </div>
+
+          </div>
+        );
+      })()}
+    </div>
+  );
+}
+
+// ─── Table row ───────────────────────────────────────────────────────────────
+
+function EMTRTableRow({
+  row,
+  stepRate,
+  isUser,
+  striped,
+}: {
+  row: EffectiveMarginalRateRow;
+  /** Average EMTR over the next $5,000 */
+  stepRate: number;
+  isUser: boolean;
+  striped: boolean;
+}) {
+  return (
+    <tr className={[
+      'border-b border-border/50',
+      isUser ? 'bg-primary/10 font-semibold' : striped ? 'bg-background/40' : '',
+    ].join(' ')}>
+      <td className="px-4 py-2.5 whitespace-nowrap">
+        <span className={isUser ? 'text-primary' : 'text-text-main'}>{formatDollars(row.income)}</span>
+        {isUser && (
+          <span className="ml-2 text-[10px] font-bold text-primary bg-primary/15 rounded-full px-2 py-0.5">
+            You
+          </span>
+        )}
+      </td>
+      <td className="px-3 py-2.5 text-right tabular-nums text-muted text-xs">
+        {formatDollars(row.familyIncome)}
+      </td>
+      {COMPONENTS.map(({ key }) => (
+        <td key={key} className="px-3 py-2.5 text-right tabular-nums text-xs text-muted">
+          {row[key] === 0 ? '—' : formatRate(row[key])}
+        </td>
+      ))}
+      <td className={[
+        'px-3 py-2.5 text-right tabular-nums',
+        row.effectiveMarginalRate >= 0.5 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-text-main',
+      ].join(' ')}>
+        {formatRate(row.effectiveMarginalRate)}
+      </td>
+      <td className="px-3 py-2.5 text-right tabular-nums text-text-main">
+        {formatDollars(row.amountKept)}
+      </td>
+      <td className="px-4 py-2.5 text-right tabular-nums text-xs text-muted">
+        {formatRate(stepRate)}
+      </td>
+    </tr>
+  );
+}
@@ -7,21 +7,24 @@
 // at every $5,000 income increment from $40,000 to $600,000.
 //
 // All calculation is done client-side using calculateIncomeSensitivity().
-// Data (CCS rates, state averages) is imported as JSON.
+// CCS rates come from the page, which resolves the financial year on the
+// server; state averages are imported as JSON.
 // =============================================================================
 
 import React, { useState, useMemo } from 'react';
 import { calculateIncomeSensitivity } from '@/lib/incomeSensitivity';
 import { formatDollars } from '@/lib/format';
-import type { CCSRates, CareType, State, StateAverageEntry, IncomeSensitivityRow } from '@/lib/types';
-import { DEFAULT_HOURS_PER_DAY } from '@/lib/resolveInputs';
+import type { CareType, CCSRates, State, StateAverageEntry, IncomeSensitivityRow } from '@/lib/types';
+import {
+  DEFAULT_HOURS_PER_DAY,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  WEEKS_OF_CARE_OPTIONS,
+} from '@/lib/resolveInputs';
 import { getStateAverageDailyFee } from '@/lib/ccsCalculations';
 
 // JSON data imports
-import ccsRatesJson      from '@/data/ccs/current.json';
 import stateAveragesJson from '@/data/childcare-costs/state-averages.json';
 
-const ccsRates: CCSRates                 = ccsRatesJson      as unknown as CCSRates;
 const stateAverages: StateAverageEntry[] = stateAveragesJson as unknown as StateAverageEntry[];
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -33,6 +36,7 @@ interface Inputs {
   useStateAvg: boolean;
   customFee:   string;           // raw string for controlled input
   daysPerWeek: number;
+  weeksPerYear: number;
   hoursPerDay: string;           // raw string — default by care type
   yourIncome:  string;           // optional, to highlight user row
 }
@@ -69,6 +73,7 @@ const DEFAULT_INPUTS: Inputs = {
   useStateAvg: true,
   customFee:   '',
   daysPerWeek: 3,
+  weeksPerYear: DEFAULT_WEEKS_OF_CARE_PER_YEAR,
   hoursPerDay: String(DEFAULT_HOURS_PER_DAY['centre_based_day_care']),
   yourIncome:  '120000',
 };
@@ -100,7 +105,7 @@ function getCondensedIndices(rows: IncomeSensitivityRow[], userRowIndex: number)
 
 // ─── Component ───────────────────────────────────────────────────────────────
 
-export default function IncomeSensitivityClient() {
+export default function IncomeSensitivityClient({ ccsRates }: { ccsRates: CCSRates }) {
   const [inputs, setInputs] = useState<Inputs>(DEFAULT_INPUTS);
   const [showAll, setShowAll] = useState(false);
 
@@ -140,10 +145,11 @@ export default function IncomeSensitivityClient() {
         daysPerWeek: inputs.daysPerWeek,
         careType:    inputs.careType,
         ageGroup:    inputs.ageGroup,
+        weeksPerYear: inputs.weeksPerYear,
       },
       ccsRates
     );
-  }, [dailyFee, hoursPerDay, inputs.daysPerWeek, inputs.careType, inputs.ageGroup, userIncome]);
+  }, [dailyFee, hoursPerDay, inputs.daysPerWeek, inputs.weeksPerYear, inputs.careType, inputs.ageGroup, userIncome, ccsRates]);
 
   // ── Input helpers ─────────────────────────────────────────────────────────
 
@@ -372,6 +378,23 @@ export default function IncomeSensitivityClient() {
             </div>
           </div>
 
+          {/* Weeks of care */}
+          <div>
+            <label htmlFor="weeks-of-care" className="block text-sm font-medium text-text-main mb-2">
+              Weeks of care per year
+            </label>
+            <select
+              id="weeks-of-care"
+              value={inputs.weeksPerYear}
+              onChange={(e) => set('weeksPerYear', parseInt(e.target.value, 10))}
+              className="w-full border border-border rounded-lg px-3 py-2.5 text-sm bg-background text-text-main focus:outline-none focus:ring-2 focus:ring-primary/40"
+            >
+              {WEEKS_OF_CARE_OPTIONS.map((opt) => (
+                <option key={opt.weeksPerYear} value={opt.weeksPerYear}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Hours per day */}
           <div>
             <label className="block text-sm font-medium text-text-main mb-2">
@@ -451,7 +474,8 @@ export default function IncomeSensitivityClient() {
               <p className="text-sm text-teal-800 dark:text-teal-200">
                 Showing costs for <strong>{inputs.daysPerWeek} day{inputs.daysPerWeek > 1 ? 's' : ''}/week</strong> of{' '}
                 <strong>{CARE_TYPE_LABELS[inputs.careType].toLowerCase()}</strong> at{' '}
-                <strong>${dailyFee}/day</strong> ({hoursPerDay} hrs/day).
+                <strong>${dailyFee}/day</strong> ({hoursPerDay} hrs/day
+                {inputs.weeksPerYear < DEFAULT_WEEKS_OF_CARE_PER_YEAR && `, ${inputs.weeksPerYear} weeks/year`}).
                 {hasIncome && (
                   <> Your income of <strong>{formatDollars(userIncome)}</strong> is highlighted in the table.</>
                 )}
@@ -25,6 +25,11 @@ const calculatorLinks = [
     label: 'Income Sensitivity Calculator',
     description: 'See how costs change at every income level from $40k–$600k',
   },
+  {
+    href: '/emtr-calculator',
+    label: 'EMTR Calculator',
+    description: 'How much of an extra $1,000 does your family keep?',
+  },
 ];
 
 const guideLinks = [
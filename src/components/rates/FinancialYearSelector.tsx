@@ -0,0 +1,63 @@
+// =============================================================================
+// FINANCIAL YEAR SELECTOR — Switch Results Between Rate Years
+// =============================================================================
+// Renders one link per financial year in the rates registry. Each link keeps
+// the current URL params and sets `fy`, so the server page recalculates with
+// that year's CCS and tax rates.
+// =============================================================================
+
+import Link from 'next/link';
+
+interface FinancialYearSelectorProps {
+  /** Page path, e.g. '/childcare-subsidy-calculator/results' */
+  basePath: string;
+  /** Current URL params (the `fy` param is replaced) */
+  params: Record<string, string | undefined>;
+  /** Selected financial year, e.g. '2025-26' */
+  selected: string;
+  /** Available financial years, oldest first */
+  years: string[];
+}
+
+export default function FinancialYearSelector({
+  basePath,
+  params,
+  selected,
+  years,
+}: FinancialYearSelectorProps) {
+  if (years.length < 2) return null;
+
+  function hrefFor(year: string): string {
+    const next = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && key !== 'fy') next.set(key, value);
+    }
+    next.set('fy', year);
+    return `${basePath}?${next.toString()}`;
+  }
+
+  return (
+    <nav aria-label="Financial year" className="flex flex-wrap items-center gap-2 print:hidden">
+      <span className="text-xs text-muted">Rates for:</span>
+      {years.map((year) => {
+        const active = year === selected;
+        return (
+          <Link
+            key={year}
+            href={hrefFor(year)}
+            aria-current={active ? 'page' : undefined}
+            scroll={false}
+            className={[
+              'rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+              active
+                ? 'border-primary bg-primary text-white'
+                : 'border-border text-muted hover:border-primary hover:text-primary',
+            ].join(' ')}
+          >
+            FY {year.replace('-', '–')}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+// =============================================================================
+// ATI BUILDER — One Parent's Adjusted Taxable Income
+// =============================================================================
+// Controlled widget listing each component of adjusted taxable income:
+// taxable income, the amounts CCS adds on top (fringe benefits, salary
+// sacrifice, investment losses, tax-free foreign income) and child
+// maintenance paid, which comes off. Shows the parent's ATI underneath.
+//
+// Used in Step 2 of the wizard, once per parent.
+// =============================================================================
+
+import {
+  ATI_COMPONENT_FIELDS,
+  ATI_COMPONENT_LABELS,
+  ATI_DEDUCTION_FIELDS,
+  calculateAdjustedTaxableIncome,
+} from '@/lib/adjustedTaxableIncome';
+import { formatDollars } from '@/lib/format';
+import type { ATIComponents } from '@/lib/types';
+
+const COMPONENT_HINTS: Record<keyof ATIComponents, string> = {
+  taxableIncome:                'From your tax return or payment summary',
+  reportableFringeBenefits:     'Shown on your income statement, e.g. a salary packaged car',
+  reportableSuperContributions: 'Salary sacrifice and personal deductible contributions',
+  netInvestmentLosses:          'e.g. a negatively geared rental property',
+  taxFreeForeignIncome:         'Foreign income not taxed in Australia',
+  childMaintenancePaid:         'Deductible child support you pay — this comes off',
+};
+
+const INPUT_CLASS = [
+  'w-full pl-7 pr-3 py-2 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+export default function ATIBuilder({
+  title,
+  idPrefix,
+  value,
+  onChange,
+}: {
+  title: string;
+  idPrefix: string;
+  value: ATIComponents;
+  onChange: (components: ATIComponents) => void;
+}) {
+  const { adjustedTaxableIncome } = calculateAdjustedTaxableIncome(value);
+
+  function setField(field: keyof ATIComponents, raw: string) {
+    const digits = raw.replace(/[^0-9]/g, '');
+    onChange({ ...value, [field]: digits === '' ? 0 : parseInt(digits, 10) });
+  }
+
+  return (
+    <fieldset className="p-4 rounded-lg border border-border bg-card space-y-3">
+      <legend className="px-1 text-sm font-semibold text-text-main">{title}</legend>
+      {ATI_COMPONENT_FIELDS.map((field) => {
+        const id = `${idPrefix}-${field}`;
+        const isDeduction = ATI_DEDUCTION_FIELDS.includes(field);
+        return (
+          <div key={field} className="sm:flex sm:items-center sm:gap-4">
+            <label htmlFor={id} className="block sm:flex-1 text-sm text-text-main">
+              {isDeduction ? '− ' : field === 'taxableIncome' ? '' : '+ '}
+              {ATI_COMPONENT_LABELS[field]}
+              <span className="block text-xs text-muted">{COMPONENT_HINTS[field]}</span>
+            </label>
+            <div className="relative mt-1 sm:mt-0 w-full sm:w-40">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted text-sm select-none">
+                $
+              </span>
+              <input
+                id={id}
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                value={value[field] > 0 ? String(value[field]) : ''}
+                onChange={(e) => setField(field, e.target.value)}
+                placeholder="0"
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex justify-between pt-2 border-t border-border text-sm">
+        <span className="text-muted">Adjusted taxable income</span>
+        <span className="font-semibold text-text-main">
+          {formatDollars(adjustedTaxableIncome)}
+        </span>
+      </div>
+    </fieldset>
+  );
+}
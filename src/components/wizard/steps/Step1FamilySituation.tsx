@@ -3,19 +3,22 @@
 // STEP 1 — Family Situation
 // =============================================================================
 // Collects: relationship status, number of children in approved childcare,
-// youngest child's age group, and state/territory.
+// youngest child's age group, state/territory, and whether the family is
+// eligible for Additional Child Care Subsidy (ACCS).
 //
 // These drive:
 //   • Number of children → higher CCS rate eligibility
 //   • Youngest child age → hourly rate cap tier + higher rate eligibility
 //   • State → state average fee lookup if user doesn't know their fee
+//   • ACCS stream → replaces the income-tested CCS rate for every child
 // =============================================================================
 
 import RadioCard from '@/components/wizard/RadioCard';
 import StepAside from '@/components/wizard/StepAside';
 import { useWizard } from '@/contexts/WizardContext';
-import type { State } from '@/lib/types';
+import type { ACCSStream, State } from '@/lib/types';
 import type { RelationshipStatus } from '@/contexts/WizardContext';
+import { formatDollars } from '@/lib/format';
 
 // ─── Australian States & Territories ────────────────────────────────────────
 
@@ -33,7 +36,7 @@ const STATES: { value: State; label: string }[] = [
 // ─── Component ───────────────────────────────────────────────────────────────
 
 export default function Step1FamilySituation() {
-  const { state, dispatch, updateInput, nextStep } = useWizard();
+  const { state, dispatch, ccsRates, updateInput, nextStep } = useWizard();
   const { inputs, relationshipStatus } = state;
 
   // ── Derived state ──────────────────────────────────────────────────────────
@@ -63,6 +66,12 @@ export default function Step1FamilySituation() {
     updateInput({ state: e.target.value as State });
   }
 
+  function handleAdditionalCCSChange(val: string) {
+    updateInput({
+      additionalCCSStream: val === 'none' ? null : (val as ACCSStream),
+    });
+  }
+
   return (
     <div className="md:grid md:grid-cols-[1fr_300px] md:gap-8">
       {/* ── Main content ───────────────────────────────────────────────── */}
@@ -190,6 +199,41 @@ export default function Step1FamilySituation() {
           </select>
         </div>
 
+        {/* Q5: Additional Child Care Subsidy */}
+        <fieldset>
+          <legend className="text-base font-semibold text-text-main mb-1">
+            Do any of these apply to your family?
+          </legend>
+          <p className="text-sm text-muted mb-3">
+            Families in these situations may get Additional Child Care Subsidy (ACCS)
+            instead of the income-tested rate.
+          </p>
+          <div className="space-y-3">
+            <RadioCard
+              id="accs-none"
+              name="additionalCCSStream"
+              value="none"
+              checked={!inputs.additionalCCSStream}
+              onChange={handleAdditionalCCSChange}
+              label="None of these"
+              description="Standard CCS based on family income"
+            />
+            {ccsRates.additionalSubsidy.streams.map((s) => (
+              <RadioCard
+                key={s.stream}
+                id={`accs-${s.stream}`}
+                name="additionalCCSStream"
+                value={s.stream}
+                checked={inputs.additionalCCSStream === s.stream}
+                onChange={handleAdditionalCCSChange}
+                label={s.label}
+                description={s.eligibility}
+                badge={`${s.subsidyPercent}% subsidy`}
+              />
+            ))}
+          </div>
+        </fieldset>
+
         {/* ── Navigation ─────────────────────────────────────────────────── */}
         <div className="flex justify-end pt-2">
           <button
@@ -224,12 +268,14 @@ export default function Step1FamilySituation() {
           </p>
         ) : (
           <p>
-            The <strong>standard maximum rate is 90%</strong> for families earning
-            under $85,279. It tapers down by 1% for every $5,000 above that.
+            The <strong>standard maximum rate is {ccsRates.standardSubsidy.maxSubsidyPercent}%</strong>{' '}
+            for families earning under{' '}
+            {formatDollars(ccsRates.standardSubsidy.baseIncomeThreshold)}. It tapers down by
+            1% for every $5,000 above that.
           </p>
         )}
         <p className="mt-2 text-xs text-muted">
-          Source: Services Australia · FY 2025–26 rates
+          Source: Services Australia · FY {ccsRates.financialYear} rates
         </p>
       </StepAside>
     </div>
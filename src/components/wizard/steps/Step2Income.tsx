@@ -2,7 +2,8 @@
 // =============================================================================
 // STEP 2 — Income
 // =============================================================================
-// Collects: combined family income (range bucket OR exact amount).
+// Collects: combined family income (range bucket OR exact amount), or each
+// parent's adjusted taxable income components for people who know them.
 //
 // Why range-first?
 //   Many users don't know their exact combined income. A range bucket gives
@@ -13,17 +14,25 @@
 //
 // The income-selection UI is handled by <IncomeRangeSelector> — a reusable
 // component that owns the RadioCards, exact-input toggle, and live chip.
+// The optional ATI builder replaces it with <ATIBuilder> for each parent;
+// the family's ATI then drives the CCS instead of the range midpoint.
 // =============================================================================
 
 import InfoTooltip from '@/components/wizard/InfoTooltip';
 import StepAside from '@/components/wizard/StepAside';
 import IncomeRangeSelector from '@/components/wizard/IncomeRangeSelector';
+import ATIBuilder from '@/components/wizard/ATIBuilder';
 import { useWizard } from '@/contexts/WizardContext';
+import { EMPTY_ATI_COMPONENTS } from '@/lib/adjustedTaxableIncome';
+import { formatDollars } from '@/lib/format';
 import type { IncomeRange } from '@/lib/resolveInputs';
+import type { ATIComponents } from '@/lib/types';
 
 export default function Step2Income() {
-  const { state, setIncomeRange, nextStep, prevStep } = useWizard();
-  const { incomeRange, exactIncome, relationshipStatus } = state;
+  const { state, setIncomeRange, setIncomeComponents, nextStep, prevStep } = useWizard();
+  const { inputs, incomeRange, exactIncome, relationshipStatus } = state;
+  const { incomeComponents, partnerIncomeComponents } = inputs;
+  const isPartnered = relationshipStatus === 'partnered';
 
   const incomeLabel =
     relationshipStatus === 'single'
@@ -34,6 +43,22 @@ export default function Step2Income() {
     setIncomeRange(range, exact);
   }
 
+  // Start the builder from the current income so the estimate doesn't jump
+  function handleToggleBuilder() {
+    if (incomeComponents) {
+      setIncomeComponents(null);
+      return;
+    }
+    setIncomeComponents({
+      parent: { ...EMPTY_ATI_COMPONENTS, taxableIncome: inputs.combinedAnnualIncome },
+      partner: isPartnered ? EMPTY_ATI_COMPONENTS : null,
+    });
+  }
+
+  function handleComponentsChange(parent: ATIComponents, partner: ATIComponents | null) {
+    setIncomeComponents({ parent, partner: isPartnered ? partner : null });
+  }
+
   return (
     <div className="md:grid md:grid-cols-[1fr_300px] md:gap-8">
       {/* ── Main content ───────────────────────────────────────────────── */}
@@ -52,12 +77,60 @@ export default function Step2Income() {
         </div>
 
         {/* Income range selector (RadioCards + exact input toggle + live chip) */}
-        <IncomeRangeSelector
-          incomeRange={incomeRange}
-          exactIncome={exactIncome}
-          onChange={handleChange}
-          incomeLabel={incomeLabel}
-        />
+        {!incomeComponents && (
+          <IncomeRangeSelector
+            incomeRange={incomeRange}
+            exactIncome={exactIncome}
+            onChange={handleChange}
+            incomeLabel={incomeLabel}
+          />
+        )}
+
+        {/* Adjusted taxable income builder (optional) */}
+        <div>
+          <button
+            type="button"
+            onClick={handleToggleBuilder}
+            className="text-primary text-sm font-medium hover:underline focus:outline-none focus:underline"
+          >
+            {incomeComponents
+              ? 'Use a range or single figure instead'
+              : `I know ${isPartnered ? 'our' : 'my'} tax figures — build adjusted taxable income`}
+          </button>
+
+          {incomeComponents && (
+            <div className="mt-3 space-y-4">
+              <p className="text-sm text-muted">
+                CCS uses adjusted taxable income: taxable income plus fringe
+                benefits, salary sacrifice, investment losses and tax-free
+                foreign income, less child maintenance paid.
+              </p>
+              <ATIBuilder
+                title={isPartnered ? 'You' : 'Your income'}
+                idPrefix="ati"
+                value={incomeComponents}
+                onChange={(c) => handleComponentsChange(c, partnerIncomeComponents ?? null)}
+              />
+              {isPartnered && (
+                <ATIBuilder
+                  title="Your partner"
+                  idPrefix="pati"
+                  value={partnerIncomeComponents ?? EMPTY_ATI_COMPONENTS}
+                  onChange={(c) => handleComponentsChange(incomeComponents, c)}
+                />
+              )}
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted">Using income:</span>
+                <span className="font-semibold text-primary">
+                  {formatDollars(inputs.combinedAnnualIncome)}
+                </span>
+                <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
+                  Adjusted taxable income
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
 
         {/* InfoTooltip: what counts as income */}
         <InfoTooltip trigger="What counts as combined family income?">
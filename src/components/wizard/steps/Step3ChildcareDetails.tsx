@@ -2,12 +2,17 @@
 // =============================================================================
 // STEP 3 — Childcare Details
 // =============================================================================
-// Collects: care type, days per week, and daily fee (known or state average).
+// Collects: care type, days per week, weeks of care per year, daily fee
+// (known or state average), and each parent's activity hours per fortnight. Families can instead enter each
+// child individually, including an optional date of birth so mid-year
+// birthdays and school starts are costed.
 //
 // These drive:
 //   • Care type → hourly rate cap that applies
 //   • Days per week → total annual childcare spend
+//   • Weeks of care → closures and holidays when no fees are charged
 //   • Daily fee → out-of-pocket gap fee after CCS
+//   • Activity hours → subsidised hours per fortnight (activity test)
 // =============================================================================
 
 import { useState } from 'react';
@@ -15,8 +20,16 @@ import RadioCard from '@/components/wizard/RadioCard';
 import InfoTooltip from '@/components/wizard/InfoTooltip';
 import StepAside from '@/components/wizard/StepAside';
 import { useWizard } from '@/contexts/WizardContext';
-import type { CareType } from '@/lib/types';
-import { DEFAULT_HOURS_PER_DAY } from '@/lib/resolveInputs';
+import type { CareType, ChildInput } from '@/lib/types';
+import {
+  DEFAULT_HOURS_PER_DAY,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  WEEKS_OF_CARE_OPTIONS,
+  ACTIVITY_LEVEL_OPTIONS,
+  getActivityLevelOption,
+  synthesiseChildren,
+} from '@/lib/resolveInputs';
+import { getAgeOnDate } from '@/lib/childTimeline';
 import { formatDollars } from '@/lib/format';
 
 // ─── Care type options ───────────────────────────────────────────────────────
@@ -67,11 +80,235 @@ const STATE_AVERAGE_NOTE: Record<string, string> = {
   NT:  '~$120/day (centre-based)',
 };
 
+// ─── Per-child care editor ───────────────────────────────────────────────────
+
+const SELECT_CLASS = [
+  'w-full px-3 py-2.5 rounded-lg border-2 bg-card text-text-main text-sm',
+  'border-border focus:border-primary focus:ring-2 focus:ring-primary/20',
+  'focus:outline-none transition-colors duration-150',
+].join(' ');
+
+function ChildCareEditor({
+  index,
+  child,
+  onChange,
+}: {
+  index: number;
+  child: ChildInput;
+  onChange: (updates: Partial<ChildInput>) => void;
+}) {
+  // Local string so partially typed fees (e.g. "150.") aren't reformatted
+  const [feeStr, setFeeStr] = useState<string>(
+    child.feePerDay !== null ? String(child.feePerDay) : ''
+  );
+  const idPrefix = `child-${index}`;
+
+  function handleChildFeeInput(e: React.ChangeEvent<HTMLInputElement>) {
+    const raw = e.target.value.replace(/[^0-9.]/g, '');
+    setFeeStr(raw);
+    onChange({ feePerDay: raw === '' ? null : parseFloat(raw) });
+  }
+
+  function handleDaysInput(
+    key: 'absenceDaysPerYear' | 'evidencedAbsenceDaysPerYear',
+    e: React.ChangeEvent<HTMLInputElement>
+  ) {
+    const raw = e.target.value.replace(/[^0-9]/g, '');
+    onChange({ [key]: raw === '' ? undefined : Math.min(260, parseInt(raw, 10)) });
+  }
+
+  function handleDateOfBirthInput(e: React.ChangeEvent<HTMLInputElement>) {
+    const dateOfBirth = e.target.value;
+    if (!dateOfBirth) {
+      onChange({ dateOfBirth: undefined });
+      return;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    onChange({
+      dateOfBirth,
+      ageYears: Math.min(13, getAgeOnDate(dateOfBirth, today)),
+    });
+  }
+
+  return (
+    <div className="rounded-lg border-2 border-border bg-card p-4">
+      <p className="text-sm font-semibold text-text-main mb-3">Child {index + 1}</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-age`} className="block text-xs font-medium text-muted mb-1">
+            Age
+          </label>
+          <select
+            id={`${idPrefix}-age`}
+            value={child.ageYears}
+            onChange={(e) => onChange({ ageYears: parseInt(e.target.value, 10) })}
+            disabled={!!child.dateOfBirth}
+            className={`${SELECT_CLASS} disabled:opacity-60`}
+          >
+            {Array.from({ length: 14 }, (_, age) => (
+              <option key={age} value={age}>
+                {age === 0 ? 'Under 1' : `${age} ${age === 1 ? 'year' : 'years'}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2 sm:col-span-1">
+          <label htmlFor={`${idPrefix}-care`} className="block text-xs font-medium text-muted mb-1">
+            Care type
+          </label>
+          <select
+            id={`${idPrefix}-care`}
+            value={child.careType}
+            onChange={(e) => {
+              const careType = e.target.value as CareType;
+              onChange({ careType, hoursPerDay: DEFAULT_HOURS_PER_DAY[careType] });
+            }}
+            className={SELECT_CLASS}
+          >
+            {CARE_TYPES.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-days`} className="block text-xs font-medium text-muted mb-1">
+            Days/week
+          </label>
+          <select
+            id={`${idPrefix}-days`}
+            value={child.daysPerWeek}
+            onChange={(e) => onChange({ daysPerWeek: parseInt(e.target.value, 10) })}
+            className={SELECT_CLASS}
+          >
+            {[1, 2, 3, 4, 5].map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-fee`} className="block text-xs font-medium text-muted mb-1">
+            Daily fee
+          </label>
+          <input
+            id={`${idPrefix}-fee`}
+            type="text"
+            inputMode="decimal"
+            value={feeStr}
+            onChange={handleChildFeeInput}
+            placeholder={child.careType === 'in_home_care' ? 'Required' : 'State avg'}
+            className={SELECT_CLASS}
+          />
+        </div>
+      </div>
+      <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="col-span-2">
+          <label htmlFor={`${idPrefix}-dob`} className="block text-xs font-medium text-muted mb-1">
+            Date of birth <span className="font-normal">(optional — for birthdays and school starts during the year)</span>
+          </label>
+          <input
+            id={`${idPrefix}-dob`}
+            type="date"
+            value={child.dateOfBirth ?? ''}
+            onChange={handleDateOfBirthInput}
+            className={SELECT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-absences`} className="block text-xs font-medium text-muted mb-1">
+            Days away/year
+          </label>
+          <input
+            id={`${idPrefix}-absences`}
+            type="text"
+            inputMode="numeric"
+            value={child.absenceDaysPerYear ?? ''}
+            onChange={(e) => handleDaysInput('absenceDaysPerYear', e)}
+            placeholder="0"
+            className={SELECT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-evidenced`} className="block text-xs font-medium text-muted mb-1">
+            With evidence
+          </label>
+          <input
+            id={`${idPrefix}-evidenced`}
+            type="text"
+            inputMode="numeric"
+            value={child.evidencedAbsenceDaysPerYear ?? ''}
+            onChange={(e) => handleDaysInput('evidencedAbsenceDaysPerYear', e)}
+            placeholder="0"
+            className={SELECT_CLASS}
+          />
+        </div>
+      </div>
+      <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="col-span-2">
+          <label htmlFor={`${idPrefix}-weeks`} className="block text-xs font-medium text-muted mb-1">
+            Weeks of care/year
+          </label>
+          <select
+            id={`${idPrefix}-weeks`}
+            value={child.weeksPerYear ?? DEFAULT_WEEKS_OF_CARE_PER_YEAR}
+            onChange={(e) => onChange({ weeksPerYear: parseInt(e.target.value, 10) })}
+            className={SELECT_CLASS}
+          >
+            {WEEKS_OF_CARE_OPTIONS.map((opt) => (
+              <option key={opt.weeksPerYear} value={opt.weeksPerYear}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── Activity level selector ─────────────────────────────────────────────────
+
+function ActivityLevelButtons({
+  label,
+  hoursPerFortnight,
+  onChange,
+}: {
+  label: string;
+  hoursPerFortnight: number;
+  onChange: (hours: number) => void;
+}) {
+  const selected = getActivityLevelOption(hoursPerFortnight);
+  return (
+    <div>
+      <p className="text-sm font-medium text-text-main mb-2">{label}</p>
+      <div
+        className="grid grid-cols-2 sm:grid-cols-4 gap-2"
+        role="group"
+        aria-label={label}
+      >
+        {ACTIVITY_LEVEL_OPTIONS.map((opt) => (
+          <button
+            key={opt.hoursPerFortnight}
+            type="button"
+            onClick={() => onChange(opt.hoursPerFortnight)}
+            className={[
+              'px-3 py-2.5 rounded-lg border-2 text-sm font-medium transition-all duration-150',
+              selected === opt
+                ? 'border-primary bg-teal-50 text-primary'
+                : 'border-border bg-card text-text-main hover:border-primary/40',
+            ].join(' ')}
+            aria-pressed={selected === opt}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Component ───────────────────────────────────────────────────────────────
 
 export default function Step3ChildcareDetails() {
   const { state, updateInput, nextStep, prevStep } = useWizard();
-  const { inputs } = state;
+  const { inputs, relationshipStatus } = state;
 
   const selectedCap = CARE_TYPES.find((c) => c.value === inputs.careType)?.cap;
   const stateAvgNote = STATE_AVERAGE_NOTE[inputs.state] ?? '';
@@ -98,6 +335,20 @@ export default function Step3ChildcareDetails() {
     updateInput({ daysPerWeek: days });
   }
 
+  // ── Per-child care (2+ children) ──────────────────────────────────────────
+  const perChild = !!inputs.children;
+
+  function handlePerChildToggle(enabled: boolean) {
+    updateInput({ children: enabled ? synthesiseChildren(inputs) : undefined });
+  }
+
+  function handleChildChange(index: number, updates: Partial<ChildInput>) {
+    if (!inputs.children) return;
+    updateInput({
+      children: inputs.children.map((c, i) => (i === index ? { ...c, ...updates } : c)),
+    });
+  }
+
   function handleFeeOptionChange(knownFee: boolean) {
     setUseKnownFee(knownFee);
     if (!knownFee) {
@@ -125,6 +376,55 @@ export default function Step3ChildcareDetails() {
       {/* ── Main content ───────────────────────────────────────────────── */}
       <div className="space-y-8">
 
+        {/* Per-child toggle */}
+        {inputs.numberOfChildren >= 1 && (
+          <label className="flex items-start gap-3 p-4 rounded-lg border-2 border-border bg-card cursor-pointer">
+            <input
+              type="checkbox"
+              checked={perChild}
+              onChange={(e) => handlePerChildToggle(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-primary"
+            />
+            <span>
+              <span className="block font-medium text-text-main">
+                {inputs.numberOfChildren >= 2
+                  ? 'My children have different care arrangements'
+                  : 'Enter my child\'s date of birth or absences'}
+              </span>
+              <span className="block text-sm text-muted mt-0.5">
+                {inputs.numberOfChildren >= 2
+                  ? 'E.g. one in long day care and an older child in OSHC. Enter each child\'s age or date of birth, care type, days and fee.'
+                  : 'Costs the year accurately if your child turns 6, starts school or misses more than 42 days of care before 30 June.'}
+              </span>
+            </span>
+          </label>
+        )}
+
+        {perChild && inputs.children && (
+          <div className="space-y-3">
+            {inputs.children.map((child, i) => (
+              <ChildCareEditor
+                key={i}
+                index={i}
+                child={child}
+                onChange={(updates) => handleChildChange(i, updates)}
+              />
+            ))}
+            <p className="text-xs text-muted">
+              Leave the fee blank to use the {inputs.state} state average. Younger
+              children aged 5 or under get the higher CCS rate when an older
+              sibling aged 5 or under is also in care. With a date of birth, we
+              assume your child starts school as soon as they&apos;re eligible in{' '}
+              {inputs.state}. CCS covers up to 42 days away per child each year;
+              after that, only absences with evidence (such as a medical
+              certificate) are subsidised. Weeks the centre is closed aren&apos;t
+              charged and don&apos;t count as absences.
+            </p>
+          </div>
+        )}
+
+        {!perChild && (
+        <>
         {/* Q1: Care type */}
         <fieldset>
           <legend className="text-base font-semibold text-text-main mb-1">
@@ -197,6 +497,28 @@ export default function Step3ChildcareDetails() {
           </p>
         </div>
 
+        {/* Q2b: Weeks of care */}
+        <div>
+          <label htmlFor="weeks-of-care" className="block text-base font-semibold text-text-main mb-1">
+            How many weeks a year is your child in care?
+          </label>
+          <p className="text-sm text-muted mb-3">
+            Most centres close for 2–3 weeks over Christmas, and OSHC usually
+            runs during school terms plus any vacation care you book. You
+            aren&apos;t charged for weeks the centre is closed.
+          </p>
+          <select
+            id="weeks-of-care"
+            value={inputs.weeksOfCarePerYear ?? DEFAULT_WEEKS_OF_CARE_PER_YEAR}
+            onChange={(e) => updateInput({ weeksOfCarePerYear: parseInt(e.target.value, 10) })}
+            className={`${SELECT_CLASS} sm:w-96`}
+          >
+            {WEEKS_OF_CARE_OPTIONS.map((opt) => (
+              <option key={opt.weeksPerYear} value={opt.weeksPerYear}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Q3: Daily fee */}
         <div>
           <p className="text-base font-semibold text-text-main mb-1">
@@ -335,6 +657,53 @@ export default function Step3ChildcareDetails() {
           </InfoTooltip>
         </div>
 
+        </>
+        )}
+
+        {/* Q4: Activity test */}
+        <div>
+          <p className="text-base font-semibold text-text-main mb-1">
+            How many hours of work, study or training do you do per fortnight?
+          </p>
+          <p className="text-sm text-muted mb-3">
+            The activity test sets how many hours of care per fortnight are
+            subsidised.{relationshipStatus === 'partnered' &&
+              ' For couples, the parent with fewer hours determines the limit.'}
+          </p>
+          <div className="space-y-4">
+            <ActivityLevelButtons
+              label={relationshipStatus === 'partnered' ? 'You' : 'Your activity'}
+              hoursPerFortnight={inputs.activityHoursPerFortnight}
+              onChange={(hours) => updateInput({ activityHoursPerFortnight: hours })}
+            />
+            {relationshipStatus === 'partnered' && (
+              <ActivityLevelButtons
+                label="Your partner"
+                hoursPerFortnight={inputs.partnerActivityHoursPerFortnight ?? inputs.activityHoursPerFortnight}
+                onChange={(hours) => updateInput({ partnerActivityHoursPerFortnight: hours })}
+              />
+            )}
+          </div>
+
+          <InfoTooltip trigger="How does the activity test work?">
+            <p className="mb-2">
+              Recognised activity includes paid work, study, training, job
+              searching and volunteering. Until 5 January 2026:
+            </p>
+            <p className="mb-2">
+              8–16 hours → <strong>36 hours</strong> of subsidised care ·
+              17–48 hours → <strong>72 hours</strong> · More than 48 hours →{' '}
+              <strong>100 hours</strong>. Families earning $85,279 or less
+              with less than 8 hours of activity get 24 hours.
+            </p>
+            <p className="text-xs text-muted">
+              From 5 January 2026 the 3-Day Guarantee gives every family at
+              least 72 subsidised hours per fortnight. Hours of care above your
+              limit are charged at the full fee.
+            </p>
+          </InfoTooltip>
+        </div>
+
         {/* ── Navigation ─────────────────────────────────────────────────── */}
         <div className="flex items-center justify-between pt-2">
           <button
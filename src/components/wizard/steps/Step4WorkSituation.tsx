@@ -8,13 +8,15 @@
 // shouldn't be forced through a work-scenario step. So we open with a clear
 // opt-in/opt-out choice.
 //
-// If opted in, we collect three inputs:
+// If opted in, we collect:
 //   1. Current individual income (could be $0 if not working at all)
 //   2. Proposed full-time salary (what the job offer or role pays)
 //   3. Weekly work-related costs (transport, parking, meals, etc.)
+//   4. Optional extra work patterns (e.g. 4 × 9-hour days, school hours)
 //
 // The calculation engine generates 1–5 day scenarios automatically from the
 // FTE salary, so we don't need a day selector here — that's shown in results.
+// Extra patterns are compared alongside them.
 //
 // Why this matters:
 //   Returning to work increases family income → lowers CCS rate → increases
@@ -28,6 +30,8 @@ import { useState } from 'react';
 import InfoTooltip from '@/components/wizard/InfoTooltip';
 import StepAside from '@/components/wizard/StepAside';
 import { useWizard } from '@/contexts/WizardContext';
+import WorkPatternPicker from '@/components/btw/WorkPatternPicker';
+import InformalCarePicker from '@/components/btw/InformalCarePicker';
 import { formatDollars } from '@/lib/format';
 
 export default function Step4WorkSituation() {
@@ -62,6 +66,11 @@ export default function Step4WorkSituation() {
       currentAnnualIncome: 0,
       proposedAnnualIncome: 0,
       workRelatedCostsPerWeek: 0,
+      workPatterns: undefined,
+      informalCare: undefined,
+      receivesParentingPayment: undefined,
+      hasHELPDebt: undefined,
+      noPrivateHospitalCover: undefined,
     });
     setCurrentIncomeStr('');
     setProposedIncomeStr('');
@@ -337,6 +346,79 @@ export default function Step4WorkSituation() {
               )}
             </div>
 
+            {/* ── Extra work patterns ───────────────────────────────────── */}
+            <WorkPatternPicker
+              value={inputs.workPatterns ?? []}
+              onChange={(patterns) =>
+                updateInput({ workPatterns: patterns.length > 0 ? patterns : undefined })
+              }
+            />
+
+            {/* ── Informal care ─────────────────────────────────────────── */}
+            <InformalCarePicker
+              value={inputs.informalCare ?? []}
+              onChange={(schedule) =>
+                updateInput({ informalCare: schedule.length > 0 ? schedule : undefined })
+              }
+            />
+
+            {/* ── Parenting Payment ─────────────────────────────────────── */}
+            <label className="flex items-start gap-3 p-4 rounded-lg border-2 border-border bg-card cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.receivesParentingPayment ?? false}
+                onChange={(e) =>
+                  updateInput({ receivesParentingPayment: e.target.checked || undefined })
+                }
+                className="mt-1 h-4 w-4 accent-primary"
+              />
+              <span>
+                <span className="block font-medium text-text-main">
+                  I currently receive Parenting Payment
+                </span>
+                <span className="block text-sm text-muted mt-0.5">
+                  We&apos;ll reduce it for your earnings in each scenario. Leave
+                  unticked if you don&apos;t get it.
+                </span>
+              </span>
+            </label>
+
+            {/* ── HELP debt ─────────────────────────────────────────────── */}
+            <label className="flex items-start gap-3 p-4 rounded-lg border-2 border-border bg-card cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.hasHELPDebt ?? false}
+                onChange={(e) => updateInput({ hasHELPDebt: e.target.checked || undefined })}
+                className="mt-1 h-4 w-4 accent-primary"
+              />
+              <span>
+                <span className="block font-medium text-text-main">
+                  I have a HELP (HECS) debt
+                </span>
+                <span className="block text-sm text-muted mt-0.5">
+                  Compulsory repayments start above $67,000 and come out of your pay.
+                </span>
+              </span>
+            </label>
+
+            {/* ── Private hospital cover ─────────────────────────────────── */}
+            <label className="flex items-start gap-3 p-4 rounded-lg border-2 border-border bg-card cursor-pointer">
+              <input
+                type="checkbox"
+                checked={inputs.noPrivateHospitalCover ?? false}
+                onChange={(e) => updateInput({ noPrivateHospitalCover: e.target.checked || undefined })}
+                className="mt-1 h-4 w-4 accent-primary"
+              />
+              <span>
+                <span className="block font-medium text-text-main">
+                  We don&apos;t have private hospital cover
+                </span>
+                <span className="block text-sm text-muted mt-0.5">
+                  Families earning over $202,000 without it pay the Medicare levy surcharge.
+                </span>
+              </span>
+            </label>
+
             {/* InfoTooltip */}
             <InfoTooltip trigger="How does returning to work affect my CCS?">
               <p className="mb-2">
@@ -354,10 +436,11 @@ export default function Step4WorkSituation() {
                 Our analysis accounts for all of this:
               </p>
               <ul className="space-y-1 list-disc list-inside text-sm mb-2">
-                <li>Income tax on your new earnings</li>
+                <li>Income tax and Medicare on your new earnings (and HELP repayments)</li>
                 <li>Reduced CCS percentage from higher combined income</li>
                 <li>Additional childcare days needed</li>
                 <li>Your estimated work-related costs</li>
+                <li>Family Tax Benefit and Parenting Payment lost to income tests</li>
               </ul>
               <p>
                 The <strong>net benefit</strong> is what you actually take home after
@@ -375,6 +458,11 @@ export default function Step4WorkSituation() {
                   currentAnnualIncome: 0,
                   proposedAnnualIncome: 0,
                   workRelatedCostsPerWeek: 0,
+                  workPatterns: undefined,
+                  informalCare: undefined,
+                  receivesParentingPayment: undefined,
+                  hasHELPDebt: undefined,
+                  noPrivateHospitalCover: undefined,
                 })
               }
               className="text-xs text-muted hover:text-primary underline transition-colors"
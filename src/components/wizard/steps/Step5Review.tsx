@@ -20,13 +20,25 @@ import {
   calculateCCSPercentage,
   calculateHigherCCSPercentage,
 } from '@/lib/ccsCalculations';
-import { isEligibleForHigherRate, INCOME_RANGE_LABELS } from '@/lib/resolveInputs';
-import { formatDollars } from '@/lib/format';
-import type { CareType, CCSRates, State } from '@/lib/types';
-
-// Import rates data for the live CCS preview
-import ccsRatesJson from '@/data/ccs/current.json';
-const ccsRates = ccsRatesJson as unknown as CCSRates;
+import {
+  isEligibleForHigherRate,
+  getActivityLevelOption,
+  HIGHER_RATE_MAX_CHILD_AGE,
+  DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  INCOME_RANGE_LABELS,
+} from '@/lib/resolveInputs';
+import { formatDollars, formatDateLong } from '@/lib/format';
+import { encodeChildrenParam } from '@/lib/childrenParams';
+import { encodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { encodeATIParam } from '@/lib/adjustedTaxableIncome';
+import {
+  encodeInformalCareParam,
+  WEEKDAY_LABELS,
+  INFORMAL_CARE_SOURCE_LABELS,
+} from '@/lib/informalCare';
+import { getWorkPatternLabel } from '@/lib/backToWorkCalculations';
+import type { CareType, State } from '@/lib/types';
 
 // ─── Label maps ─────────────────────────────────────────────────────────────
 
@@ -100,29 +112,42 @@ function ReviewRow({ label, value }: { label: string; value: string }) {
 
 export default function Step5Review() {
   const router = useRouter();
-  const { state, goToStep, prevStep } = useWizard();
+  const { state, ccsRates, goToStep, prevStep } = useWizard();
   const { inputs, incomeRange, exactIncome, relationshipStatus } = state;
 
   // ── Live CCS% preview (runs the real calculation engine) ──────────────────
+  const accsRates = inputs.additionalCCSStream
+    ? ccsRates.additionalSubsidy.streams.find((s) => s.stream === inputs.additionalCCSStream) ?? null
+    : null;
+
   const ccsPreview = useMemo(() => {
+    // ACCS replaces the income-tested rate (and the higher rate) for every child
+    if (accsRates) {
+      return { standard: accsRates.subsidyPercent, higher: null, eligible: false };
+    }
     const result = calculateCCSPercentage(inputs.combinedAnnualIncome, ccsRates);
-    const eligible = isEligibleForHigherRate(
-      inputs.numberOfChildren,
-      inputs.youngestChildAge
-    );
+    // Per-child: higher rate needs 2+ children aged 5 or under in care
+    const eligible = inputs.children
+      ? inputs.children.filter((c) => c.ageYears <= HIGHER_RATE_MAX_CHILD_AGE).length >= 2
+      : isEligibleForHigherRate(inputs.numberOfChildren, inputs.youngestChildAge);
     const higher = eligible
       ? calculateHigherCCSPercentage(result.percent, ccsRates)
       : null;
     return { standard: result.percent, higher, eligible };
   }, [
+    accsRates,
+    ccsRates,
     inputs.combinedAnnualIncome,
     inputs.numberOfChildren,
     inputs.youngestChildAge,
+    inputs.children,
   ]);
 
   // ── Display helpers ────────────────────────────────────────────────────────
   const incomeDisplay =
-    exactIncome !== null
+    inputs.incomeComponents
+      ? `${formatDollars(inputs.combinedAnnualIncome)}/year (adjusted taxable income)`
+      : exactIncome !== null
       ? `${formatDollars(exactIncome)}/year (exact)`
       : `${INCOME_RANGE_LABELS[incomeRange]} (range)`;
 
@@ -146,17 +171,39 @@ export default function Step5Review() {
       ir:  incomeRange,
       // ei = exact income, empty if user selected a range bucket (not exact)
       ei:  exactIncome !== null ? String(exactIncome) : '',
+      // ai / pai = each parent's ATI components, empty unless the builder was used
+      ai:  inputs.incomeComponents ? encodeATIParam(inputs.incomeComponents) : '',
+      pai: inputs.partnerIncomeComponents ? encodeATIParam(inputs.partnerIncomeComponents) : '',
       ct:  inputs.careType,
       st:  inputs.state,
       d:   String(inputs.daysPerWeek),
       h:   String(inputs.hoursPerDay),
       f:   inputs.feePerDay !== null ? String(inputs.feePerDay) : '',
       sa:  inputs.useStateAverage ? '1' : '0',
+      wk:  String(inputs.weeksOfCarePerYear ?? DEFAULT_WEEKS_OF_CARE_PER_YEAR),
+      // ac = ACCS stream, empty for the standard income-tested rate
+      ac:  inputs.additionalCCSStream ?? '',
+      // ch = per-child care, empty if all children share one arrangement
+      ch:  inputs.children ? encodeChildrenParam(inputs.children) : '',
+      ah:  String(inputs.activityHoursPerFortnight),
+      pah: String(inputs.partnerActivityHoursPerFortnight ?? DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT),
       btw: inputs.includeBackToWork ? '1' : '0',
       ci:  String(inputs.currentAnnualIncome),
       pi:  String(inputs.proposedAnnualIncome),
       wc:  String(inputs.workRelatedCostsPerWeek),
+      // wp = custom work patterns, empty for the 1–5 day scenarios only
+      wp:  inputs.workPatterns ? encodeWorkPatternsParam(inputs.workPatterns) : '',
+      // ic = weekdays covered by informal care, empty if none
+      ic:  inputs.informalCare ? encodeInformalCareParam(inputs.informalCare) : '',
+      // pp = '1' if currently paid Parenting Payment, empty otherwise
+      pp:  inputs.receivesParentingPayment ? '1' : '',
+      // hd = '1' if repaying a HELP debt, empty otherwise
+      hd:  inputs.hasHELPDebt ? '1' : '',
+      // nh = '1' if the family has no private hospital cover, empty otherwise
+      nh:  inputs.noPrivateHospitalCover ? '1' : '',
       rs:  relationshipStatus,
+      // fy = the financial year the preview above was calculated for
+      fy:  ccsRates.financialYear,
     });
     router.push(`/childcare-subsidy-calculator/results?${params.toString()}`);
   }
@@ -188,6 +235,7 @@ export default function Step5Review() {
           label="Family status"
           value={relationshipStatus === 'single' ? 'Single parent' : 'Partnered'}
         />
+        <ReviewRow label="Additional CCS" value={accsRates ? accsRates.label : 'None'} />
         {ccsPreview.eligible && (
           <div className="mt-1 px-3 py-2 bg-teal-50 rounded-lg text-xs text-primary font-medium">
             ✓ Higher CCS rate applies for younger children (up to 95%)
@@ -205,12 +253,48 @@ export default function Step5Review() {
 
       {/* ── Section 3: Childcare Details ─────────────────────────────────── */}
       <ReviewSection title="Childcare Details" onEdit={() => goToStep(3)}>
-        <ReviewRow label="Care type" value={CARE_TYPE_LABELS[inputs.careType]} />
+        {inputs.children ? (
+          inputs.children.map((child, i) => (
+            <ReviewRow
+              key={i}
+              label={`Child ${i + 1} (${child.dateOfBirth ? `born ${formatDateLong(child.dateOfBirth)}` : `age ${child.ageYears}`})`}
+              value={[
+                CARE_TYPE_LABELS[child.careType],
+                `${child.daysPerWeek} ${child.daysPerWeek === 1 ? 'day' : 'days'}`,
+                child.feePerDay !== null ? `${formatDollars(child.feePerDay)}/day` : `${inputs.state} average`,
+                ...(child.absenceDaysPerYear
+                  ? [`${child.absenceDaysPerYear} days away/year${child.evidencedAbsenceDaysPerYear ? ` (${child.evidencedAbsenceDaysPerYear} with evidence)` : ''}`]
+                  : []),
+                ...(child.weeksPerYear && child.weeksPerYear < DEFAULT_WEEKS_OF_CARE_PER_YEAR
+                  ? [`${child.weeksPerYear} weeks/year`]
+                  : []),
+              ].join(' · ')}
+            />
+          ))
+        ) : (
+          <>
+            <ReviewRow label="Care type" value={CARE_TYPE_LABELS[inputs.careType]} />
+            <ReviewRow
+              label="Days per week"
+              value={`${inputs.daysPerWeek} ${inputs.daysPerWeek === 1 ? 'day' : 'days'}`}
+            />
+            <ReviewRow
+              label="Weeks of care"
+              value={`${inputs.weeksOfCarePerYear ?? DEFAULT_WEEKS_OF_CARE_PER_YEAR} weeks/year`}
+            />
+            <ReviewRow label="Daily fee" value={feeDisplay} />
+          </>
+        )}
         <ReviewRow
-          label="Days per week"
-          value={`${inputs.daysPerWeek} ${inputs.daysPerWeek === 1 ? 'day' : 'days'}`}
+          label="Your activity"
+          value={`${getActivityLevelOption(inputs.activityHoursPerFortnight).label} / fortnight`}
         />
-        <ReviewRow label="Daily fee" value={feeDisplay} />
+        {relationshipStatus === 'partnered' && inputs.partnerActivityHoursPerFortnight !== null && (
+          <ReviewRow
+            label="Partner's activity"
+            value={`${getActivityLevelOption(inputs.partnerActivityHoursPerFortnight).label} / fortnight`}
+          />
+        )}
       </ReviewSection>
 
       {/* ── Section 4: Work Situation ─────────────────────────────────────── */}
@@ -237,6 +321,29 @@ export default function Step5Review() {
                   : 'None ($0)'
               }
             />
+            {inputs.workPatterns && inputs.workPatterns.length > 0 && (
+              <ReviewRow
+                label="Extra work patterns"
+                value={inputs.workPatterns.map(getWorkPatternLabel).join(', ')}
+              />
+            )}
+            {inputs.informalCare && inputs.informalCare.length > 0 && (
+              <ReviewRow
+                label="Informal care"
+                value={inputs.informalCare
+                  .map((d) => `${WEEKDAY_LABELS[d.weekday]}: ${INFORMAL_CARE_SOURCE_LABELS[d.source]}`)
+                  .join(', ')}
+              />
+            )}
+            {inputs.receivesParentingPayment && (
+              <ReviewRow label="Parenting Payment" value="Currently receiving" />
+            )}
+            {inputs.hasHELPDebt && (
+              <ReviewRow label="HELP debt" value="Compulsory repayments included" />
+            )}
+            {inputs.noPrivateHospitalCover && (
+              <ReviewRow label="Private hospital cover" value="None — surcharge included" />
+            )}
           </>
         ) : (
           <ReviewRow
@@ -257,7 +364,9 @@ export default function Step5Review() {
               {ccsPreview.standard}%
             </p>
             <p className="text-xs text-muted mt-1.5">
-              {ccsPreview.eligible ? 'Eldest child — standard rate' : 'Your CCS subsidy rate'}
+              {accsRates
+                ? `Additional CCS — ${accsRates.label.toLowerCase()}`
+                : ccsPreview.eligible ? 'Eldest child — standard rate' : 'Your CCS subsidy rate'}
             </p>
           </div>
           {ccsPreview.eligible && ccsPreview.higher && (
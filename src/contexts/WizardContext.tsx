@@ -15,11 +15,19 @@ import React, {
   useReducer,
   type ReactNode,
 } from 'react';
-import type { WizardInputs, WizardStep, CareType, State } from '@/lib/types';
+import type { ATIComponents, CCSRates, WizardInputs, WizardStep, CareType, State } from '@/lib/types';
 import {
   resolveIncome,
+  DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT,
+  DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  resolveAdditionalCCSStream,
+  resolveWeeksOfCare,
   type IncomeRange,
 } from '@/lib/resolveInputs';
+import { decodeChildrenParam } from '@/lib/childrenParams';
+import { decodeWorkPatternsParam } from '@/lib/workPatternParams';
+import { decodeInformalCareParam } from '@/lib/informalCare';
+import { calculateFamilyATI, decodeATIParam } from '@/lib/adjustedTaxableIncome';
 
 // ─── Wizard State ────────────────────────────────────────────────────────────
 
@@ -50,6 +58,10 @@ const DEFAULT_INPUTS: WizardInputs = {
   hoursPerDay: 10,
   feePerDay: null,
   useStateAverage: true,
+  weeksOfCarePerYear: DEFAULT_WEEKS_OF_CARE_PER_YEAR,
+  additionalCCSStream: null,
+  activityHoursPerFortnight: DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT,
+  partnerActivityHoursPerFortnight: DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT,
   includeBackToWork: false,
   currentAnnualIncome: 0,
   proposedAnnualIncome: 0,
@@ -76,12 +88,34 @@ export type WizardAction =
       type: 'SET_INCOME_RANGE';
       payload: { range: IncomeRange; exactIncome: number | null };
     }
+  /** Set each parent's ATI components (null = back to the range / exact income). */
+  | {
+      type: 'SET_INCOME_COMPONENTS';
+      payload: { parent: ATIComponents; partner: ATIComponents | null } | null;
+    }
   | { type: 'RESET' }
   /** Restore the full wizard state from a previous session (used by Edit Answers flow). */
   | { type: 'RESTORE'; payload: WizardState };
 
 // ─── Reducer ─────────────────────────────────────────────────────────────────
 
+/**
+ * Keep the optional per-child list in step with numberOfChildren.
+ * Extra children copy the last child's arrangement (without the date of
+ * birth).
+ */
+function syncChildrenCount(inputs: WizardInputs): WizardInputs {
+  const { children, numberOfChildren } = inputs;
+  if (!children || children.length === numberOfChildren) return inputs;
+  if (numberOfChildren < 1) return { ...inputs, children: undefined };
+
+  const synced = children.slice(0, numberOfChildren);
+  while (synced.length < numberOfChildren) {
+    synced.push({ ...synced[synced.length - 1], dateOfBirth: undefined });
+  }
+  return { ...inputs, children: synced };
+}
+
 function wizardReducer(state: WizardState, action: WizardAction): WizardState {
   switch (action.type) {
     case 'GO_TO_STEP':
@@ -99,13 +133,27 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
         currentStep: Math.max(1, state.currentStep - 1) as WizardStep,
       };
 
-    case 'SET_RELATIONSHIP_STATUS':
+    case 'SET_RELATIONSHIP_STATUS': {
+      // Single parents have no partner income to add to the ATI
+      const { incomeComponents } = state.inputs;
+      if (action.payload === 'single' && incomeComponents) {
+        return {
+          ...state,
+          relationshipStatus: action.payload,
+          inputs: {
+            ...state.inputs,
+            partnerIncomeComponents: undefined,
+            combinedAnnualIncome: calculateFamilyATI(incomeComponents, null),
+          },
+        };
+      }
       return { ...state, relationshipStatus: action.payload };
+    }
 
     case 'UPDATE_INPUT':
       return {
         ...state,
-        inputs: { ...state.inputs, ...action.payload },
+        inputs: syncChildrenCount({ ...state.inputs, ...action.payload }),
       };
 
     case 'SET_INCOME_RANGE': {
@@ -117,7 +165,34 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
         ...state,
         incomeRange: action.payload.range,
         exactIncome: action.payload.exactIncome,
-        inputs: { ...state.inputs, combinedAnnualIncome: resolved },
+        // A built ATI takes precedence over the range and exact income
+        inputs: state.inputs.incomeComponents
+          ? state.inputs
+          : { ...state.inputs, combinedAnnualIncome: resolved },
+      };
+    }
+
+    case 'SET_INCOME_COMPONENTS': {
+      if (!action.payload) {
+        return {
+          ...state,
+          inputs: {
+            ...state.inputs,
+            incomeComponents: undefined,
+            partnerIncomeComponents: undefined,
+            combinedAnnualIncome: resolveIncome(state.incomeRange, state.exactIncome),
+          },
+        };
+      }
+      const { parent, partner } = action.payload;
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          incomeComponents: parent,
+          partnerIncomeComponents: partner ?? undefined,
+          combinedAnnualIncome: calculateFamilyATI(parent, partner),
+        },
       };
     }
 
@@ -141,7 +216,8 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
 // URL params used:
 //   restore=1       flag — signals that restore should be applied
 //   step=N          which wizard step to land on (default 5 — Review)
-//   n, ya, i, ir, ei, ct, st, d, h, f, sa, btw, ci, pi, wc, rs
+//   n, ya, i, ir, ei, ai, pai, ct, st, d, h, f, sa, ch, ah, pah, btw, ci, pi,
+//   wc, rs
 //   (same encoding as Step5Review.handleCalculate)
 // ─────────────────────────────────────────────────────────────────────────────
 
@@ -197,20 +273,40 @@ export function parseRestoreParams(
     ? (p.st as State)
     : 'NSW';
 
+  const children = decodeChildrenParam(p.ch);
+  const relationshipStatus: RelationshipStatus = p.rs === 'single' ? 'single' : 'partnered';
+  const incomeComponents = decodeATIParam(p.ai);
+  const partnerIncomeComponents =
+    incomeComponents && relationshipStatus === 'partnered' ? decodeATIParam(p.pai) : undefined;
+
   const inputs: WizardInputs = {
-    numberOfChildren:        pNum(p.n,  1),
+    numberOfChildren:        children ? children.length : pNum(p.n, 1),
     youngestChildAge:        p.ya === '6_to_13' ? '6_to_13' : 'under_6',
-    combinedAnnualIncome:    pNum(p.i,  60000),
+    combinedAnnualIncome:    incomeComponents
+      ? calculateFamilyATI(incomeComponents, partnerIncomeComponents ?? null)
+      : pNum(p.i,  60000),
+    incomeComponents,
+    partnerIncomeComponents,
     careType,
     state,
     daysPerWeek:             pNum(p.d,  3),
     hoursPerDay:             pNum(p.h,  10),
     feePerDay:               (p.f && p.f !== '') ? pNum(p.f, 0) : null,
     useStateAverage:         p.sa === '1',
+    weeksOfCarePerYear:      resolveWeeksOfCare(pNum(p.wk, DEFAULT_WEEKS_OF_CARE_PER_YEAR)),
+    additionalCCSStream:     resolveAdditionalCCSStream(p.ac),
+    children,
+    activityHoursPerFortnight:        pNum(p.ah,  DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT),
+    partnerActivityHoursPerFortnight: pNum(p.pah, DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT),
     includeBackToWork:       p.btw === '1',
     currentAnnualIncome:     pNum(p.ci, 0),
     proposedAnnualIncome:    pNum(p.pi, 0),
     workRelatedCostsPerWeek: pNum(p.wc, 0),
+    workPatterns:            decodeWorkPatternsParam(p.wp),
+    informalCare:            decodeInformalCareParam(p.ic),
+    receivesParentingPayment: p.pp === '1' || undefined,
+    hasHELPDebt:             p.hd === '1' || undefined,
+    noPrivateHospitalCover:  p.nh === '1' || undefined,
   };
 
   return {
@@ -218,7 +314,7 @@ export function parseRestoreParams(
     inputs,
     incomeRange,
     exactIncome,
-    relationshipStatus: p.rs === 'single' ? 'single' : 'partnered',
+    relationshipStatus,
   };
 }
 
@@ -227,12 +323,17 @@ export function parseRestoreParams(
 interface WizardContextValue {
   state: WizardState;
   dispatch: React.Dispatch<WizardAction>;
+  /** CCS rates for the financial year the page resolved on the server. */
+  ccsRates: CCSRates;
   // ── Convenience helpers ──────────────────────────────────────────────
   goToStep: (step: WizardStep) => void;
   nextStep: () => void;
   prevStep: () => void;
   updateInput: (updates: Partial<WizardInputs>) => void;
   setIncomeRange: (range: IncomeRange, exactIncome: number | null) => void;
+  setIncomeComponents: (
+    components: { parent: ATIComponents; partner: ATIComponents | null } | null
+  ) => void;
 }
 
 const WizardContext = createContext<WizardContextValue | null>(null);
@@ -242,16 +343,20 @@ const WizardContext = createContext<WizardContextValue | null>(null);
 export function WizardProvider({
   children,
   initialState,
+  ccsRates,
 }: {
   children: ReactNode;
   /** Optional pre-populated state for the Edit Answers restore flow. */
   initialState?: WizardState;
+  /** CCS rates for the selected financial year, resolved once on the server. */
+  ccsRates: CCSRates;
 }) {
   const [state, dispatch] = useReducer(wizardReducer, initialState ?? INITIAL_STATE);
 
   const value: WizardContextValue = {
     state,
     dispatch,
+    ccsRates,
     goToStep: (step) => dispatch({ type: 'GO_TO_STEP', payload: step }),
     nextStep: () => dispatch({ type: 'NEXT_STEP' }),
     prevStep: () => dispatch({ type: 'PREV_STEP' }),
@@ -259,6 +364,8 @@ export function WizardProvider({
       dispatch({ type: 'UPDATE_INPUT', payload: updates }),
     setIncomeRange: (range, exactIncome) =>
       dispatch({ type: 'SET_INCOME_RANGE', payload: { range, exactIncome } }),
+    setIncomeComponents: (components) =>
+      dispatch({ type: 'SET_INCOME_COMPONENTS', payload: components }),
   };
 
   return (
@@ -0,0 +1,79 @@
+// =============================================================================
+// TESTS — Activity Test (Subsidised Hours per Fortnight)
+// =============================================================================
+
+import { getActivityTestHours, calculateActivityTest } from '../activityTest';
+import { TEST_CCS_RATES } from './fixtures';
+
+// ─── getActivityTestHours ───────────────────────────────────────────────────
+
+describe('getActivityTestHours', () => {
+  it('maps activity hours to the correct tier', () => {
+    expect(getActivityTestHours(8, 120000, TEST_CCS_RATES).subsidisedHours).toBe(36);
+    expect(getActivityTestHours(16, 120000, TEST_CCS_RATES).subsidisedHours).toBe(36);
+    expect(getActivityTestHours(17, 120000, TEST_CCS_RATES).subsidisedHours).toBe(72);
+    expect(getActivityTestHours(48, 120000, TEST_CCS_RATES).subsidisedHours).toBe(72);
+    expect(getActivityTestHours(49, 120000, TEST_CCS_RATES).subsidisedHours).toBe(100);
+    expect(getActivityTestHours(76, 120000, TEST_CCS_RATES).subsidisedHours).toBe(100);
+  });
+
+  it('returns 0 hours for under 8 hours of activity above the low income threshold', () => {
+    const result = getActivityTestHours(5, 120000, TEST_CCS_RATES);
+    expect(result.subsidisedHours).toBe(0);
+    expect(result.lowIncomeResultApplied).toBe(false);
+  });
+
+  it('applies the 24-hour low income result at or below $85,279', () => {
+    const result = getActivityTestHours(0, 85279, TEST_CCS_RATES);
+    expect(result.subsidisedHours).toBe(24);
+    expect(result.lowIncomeResultApplied).toBe(true);
+  });
+
+  it('does not apply the low income result when the tier is higher', () => {
+    const result = getActivityTestHours(10, 60000, TEST_CCS_RATES);
+    expect(result.subsidisedHours).toBe(36);
+    expect(result.lowIncomeResultApplied).toBe(false);
+  });
+
+  it('throws for negative activity hours', () => {
+    expect(() => getActivityTestHours(-1, 100000, TEST_CCS_RATES)).toThrow(
+      'activityHours cannot be negative'
+    );
+  });
+});
+
+// ─── calculateActivityTest ──────────────────────────────────────────────────
+
+describe('calculateActivityTest', () => {
+  it('uses the parent with fewer activity hours for couples', () => {
+    const result = calculateActivityTest(76, 20, 120000, TEST_CCS_RATES);
+    expect(result.assessedActivityHours).toBe(20);
+    expect(result.hoursBeforeGuarantee).toBe(72);
+  });
+
+  it('uses only the single parent\'s own hours', () => {
+    const result = calculateActivityTest(10, null, 120000, TEST_CCS_RATES);
+    expect(result.assessedActivityHours).toBe(10);
+    expect(result.hoursBeforeGuarantee).toBe(36);
+  });
+
+  it('raises the result to 72 hours from the 3-Day Guarantee date', () => {
+    const result = calculateActivityTest(10, null, 120000, TEST_CCS_RATES);
+    expect(result.hoursFromGuarantee).toBe(72);
+  });
+
+  it('keeps 100 hours from the guarantee date for high activity', () => {
+    const result = calculateActivityTest(76, 76, 120000, TEST_CCS_RATES);
+    expect(result.hoursBeforeGuarantee).toBe(100);
+    expect(result.hoursFromGuarantee).toBe(100);
+    expect(result.averageHoursPerFortnight).toBe(100);
+  });
+
+  it('blends the two regimes by the share of the year before the guarantee', () => {
+    // 2025-07-01 → 2026-01-05 = 188 of 365 days
+    const result = calculateActivityTest(10, null, 120000, TEST_CCS_RATES);
+    expect(result.shareOfYearBeforeGuarantee).toBeCloseTo(188 / 365, 4);
+    // 36 × 0.5151 + 72 × 0.4849
+    expect(result.averageHoursPerFortnight).toBe(53.46);
+  });
+});
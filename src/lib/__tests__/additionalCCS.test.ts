@@ -0,0 +1,94 @@
+// =============================================================================
+// TESTS — Additional Child Care Subsidy (ACCS)
+// =============================================================================
+
+import {
+  getACCSStreamRates,
+  calculateAdditionalCCS,
+  calculateACCSSession,
+} from '../additionalCCS';
+import type { ACCSStream } from '../types';
+import { TEST_CCS_RATES } from './fixtures';
+
+const ACTIVITY_TEST = {
+  hoursBeforeGuarantee: 36,
+  hoursFromGuarantee: 72,
+  averageHoursPerFortnight: 54,
+};
+
+// ─── getACCSStreamRates ─────────────────────────────────────────────────────
+
+describe('getACCSStreamRates', () => {
+  it('returns the rates for a stream', () => {
+    const rates = getACCSStreamRates('grandparent', TEST_CCS_RATES);
+    expect(rates.subsidyPercent).toBe(100);
+    expect(rates.rateCapPercent).toBe(120);
+  });
+
+  it('throws for an unknown stream', () => {
+    expect(() => getACCSStreamRates('unknown' as ACCSStream, TEST_CCS_RATES)).toThrow(
+      'No ACCS rates found'
+    );
+  });
+});
+
+// ─── calculateAdditionalCCS ─────────────────────────────────────────────────
+
+describe('calculateAdditionalCCS', () => {
+  it('gives fixed-hours streams 100 hours regardless of the activity test', () => {
+    const result = calculateAdditionalCCS('child_wellbeing', ACTIVITY_TEST, TEST_CCS_RATES);
+    expect(result.subsidyPercent).toBe(100);
+    expect(result.activityTested).toBe(false);
+    expect(result.hoursBeforeGuarantee).toBe(100);
+    expect(result.hoursFromGuarantee).toBe(100);
+    expect(result.averageHoursPerFortnight).toBe(100);
+  });
+
+  it('uses the activity test for transition to work', () => {
+    const result = calculateAdditionalCCS('transition_to_work', ACTIVITY_TEST, TEST_CCS_RATES);
+    expect(result.subsidyPercent).toBe(95);
+    expect(result.activityTested).toBe(true);
+    expect(result.hoursBeforeGuarantee).toBe(36);
+    expect(result.hoursFromGuarantee).toBe(72);
+    expect(result.averageHoursPerFortnight).toBe(54);
+  });
+});
+
+// ─── calculateACCSSession ───────────────────────────────────────────────────
+
+describe('calculateACCSSession', () => {
+  it('covers the full fee up to 120% of the rate cap (worked example)', () => {
+    const result = calculateACCSSession(
+      160, 10, 'grandparent', 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES
+    );
+    expect(result.hourlyRateCap).toBe(17.56);
+    expect(result.feeAboveCapPerHour).toBe(0);
+    expect(result.subsidyPerSession).toBe(160);
+    expect(result.outOfPocketPerSession).toBe(0);
+    expect(result.ccsPercent).toBe(100);
+  });
+
+  it('pays 95% up to the standard cap for transition to work (worked example)', () => {
+    const result = calculateACCSSession(
+      160, 10, 'transition_to_work', 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES
+    );
+    expect(result.hourlyRateCap).toBe(14.63);
+    expect(result.subsidyPerSession).toBe(138.99);
+    expect(result.outOfPocketPerSession).toBe(21.01);
+  });
+
+  it('leaves a gap when the fee exceeds 120% of the cap', () => {
+    // $200 / 10hr = $20/hr; cap $17.556 → subsidy $175.56
+    const result = calculateACCSSession(
+      200, 10, 'child_wellbeing', 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES
+    );
+    expect(result.subsidyPerSession).toBe(175.56);
+    expect(result.outOfPocketPerSession).toBe(24.44);
+  });
+
+  it('throws for zero hours', () => {
+    expect(() =>
+      calculateACCSSession(160, 0, 'grandparent', 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES)
+    ).toThrow('hoursPerDay must be greater than 0');
+  });
+});
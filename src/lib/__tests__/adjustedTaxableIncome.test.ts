@@ -0,0 +1,111 @@
+// =============================================================================
+// TESTS — Adjusted Taxable Income
+// =============================================================================
+
+import {
+  calculateAdjustedTaxableIncome,
+  calculateFamilyATI,
+  encodeATIParam,
+  decodeATIParam,
+  EMPTY_ATI_COMPONENTS,
+} from '../adjustedTaxableIncome';
+import { calculateCCSPercentage } from '../ccsCalculations';
+import type { ATIComponents } from '../types';
+import { TEST_CCS_RATES } from './fixtures';
+
+// Parent with salary sacrifice and an investment property
+const PARENT: ATIComponents = {
+  ...EMPTY_ATI_COMPONENTS,
+  taxableIncome: 95000,
+  reportableSuperContributions: 8000,
+  netInvestmentLosses: 4500,
+};
+
+// Partner paying child maintenance from a previous relationship
+const PARTNER: ATIComponents = {
+  ...EMPTY_ATI_COMPONENTS,
+  taxableIncome: 60000,
+  childMaintenancePaid: 3000,
+};
+
+describe('calculateAdjustedTaxableIncome', () => {
+  it('adds the reportable amounts to taxable income', () => {
+    expect(calculateAdjustedTaxableIncome(PARENT)).toEqual({
+      taxableIncome: 95000,
+      additions: 12500,
+      deductions: 0,
+      adjustedTaxableIncome: 107500,
+    });
+  });
+
+  it('adds fringe benefits and tax-free foreign income', () => {
+    const result = calculateAdjustedTaxableIncome({
+      ...EMPTY_ATI_COMPONENTS,
+      taxableIncome: 70000,
+      reportableFringeBenefits: 5000,
+      taxFreeForeignIncome: 2000,
+    });
+    expect(result.adjustedTaxableIncome).toBe(77000);
+  });
+
+  it('takes child maintenance paid off', () => {
+    const result = calculateAdjustedTaxableIncome(PARTNER);
+    expect(result.deductions).toBe(3000);
+    expect(result.adjustedTaxableIncome).toBe(57000);
+  });
+
+  it('never goes below zero', () => {
+    const result = calculateAdjustedTaxableIncome({
+      ...EMPTY_ATI_COMPONENTS,
+      taxableIncome: 1000,
+      childMaintenancePaid: 5000,
+    });
+    expect(result.adjustedTaxableIncome).toBe(0);
+  });
+});
+
+describe('calculateFamilyATI', () => {
+  it("sums both partners' ATI", () => {
+    expect(calculateFamilyATI(PARENT, PARTNER)).toBe(164500);
+  });
+
+  it("uses the parent's ATI alone for single parents", () => {
+    expect(calculateFamilyATI(PARENT, null)).toBe(107500);
+  });
+
+  it('can give a lower CCS rate than taxable income alone', () => {
+    // Taxable incomes $155,000 → 76%; ATI $164,500 → 74%
+    expect(calculateCCSPercentage(155000, TEST_CCS_RATES).percent).toBe(76);
+    expect(
+      calculateCCSPercentage(calculateFamilyATI(PARENT, PARTNER), TEST_CCS_RATES).percent
+    ).toBe(74);
+  });
+});
+
+describe('encodeATIParam / decodeATIParam', () => {
+  it('encodes components in order, dropping trailing zeros', () => {
+    expect(encodeATIParam(PARENT)).toBe('95000~0~8000~4500');
+    expect(encodeATIParam(PARTNER)).toBe('60000~0~0~0~0~3000');
+    expect(encodeATIParam(EMPTY_ATI_COMPONENTS)).toBe('0');
+  });
+
+  it('round-trips components', () => {
+    expect(decodeATIParam(encodeATIParam(PARENT))).toEqual(PARENT);
+    expect(decodeATIParam(encodeATIParam(PARTNER))).toEqual(PARTNER);
+  });
+
+  it('treats malformed or negative fields as $0', () => {
+    expect(decodeATIParam('80000~x~-500~200')).toEqual({
+      ...EMPTY_ATI_COMPONENTS,
+      taxableIncome: 80000,
+      netInvestmentLosses: 200,
+    });
+  });
+
+  it('returns undefined without a valid taxable income', () => {
+    expect(decodeATIParam(undefined)).toBeUndefined();
+    expect(decodeATIParam('')).toBeUndefined();
+    expect(decodeATIParam('abc~100')).toBeUndefined();
+    expect(decodeATIParam('-1000')).toBeUndefined();
+  });
+});
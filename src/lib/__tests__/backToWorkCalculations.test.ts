@@ -2,8 +2,15 @@
 // TESTS — Back-to-Work Calculation Engine
 // =============================================================================
 
-import { calculateBackToWork, type BackToWorkParams } from '../backToWorkCalculations';
-import { TEST_CCS_RATES, TEST_TAX_RATES } from './fixtures';
+import {
+  calculateBackToWork,
+  getWorkPatternLabel,
+  projectSuperBalance,
+  WORK_PATTERN_PRESETS,
+  type BackToWorkParams,
+} from '../backToWorkCalculations';
+import { buildReturnTimeline } from '../returnTimeline';
+import { TEST_CCS_RATES, TEST_TAX_RATES, TEST_FTB_RATES, TEST_PP_RATES } from './fixtures';
 
 // Shared test params: partner earns $100k, user earns $0, FTE offer $80k
 const baseParams: BackToWorkParams = {
@@ -42,6 +49,18 @@ describe('calculateBackToWork', () => {
     expect(result.current.annualChildcareCost).toBe(1352);
   });
 
+  it('charges childcare only for the weeks of care', () => {
+    const closed = calculateBackToWork(
+      { ...baseParams, weeksOfCarePerYear: 48 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // 2 days/week × 48 weeks = 96 sessions × $13 = $1,248/year
+    expect(closed.current.annualChildcareCost).toBe(1248);
+    // Work costs don't depend on the centre's closures
+    expect(closed.scenarios[2].annualWorkCosts).toBe(result.scenarios[2].annualWorkCosts);
+  });
+
   // ── Proportional income ───────────────────────────────────────────────
 
   it('calculates proportional gross income for each scenario', () => {
@@ -130,10 +149,635 @@ describe('calculateBackToWork', () => {
       }
     }
   });
+
+  // ── Effective marginal tax rate ───────────────────────────────────────
+
+  it('calculates the share of extra gross income lost, excluding work costs', () => {
+    // 3 days: $48,000 gross, net benefit $38,336 after $1,560 work costs
+    // 1 − ($38,336 + $1,560) / $48,000 = 16.88%
+    expect(result.scenarios[2].effectiveMarginalTaxRate).toBe(16.88);
+    for (const scenario of result.scenarios) {
+      expect(scenario.effectiveMarginalTaxRate).toBeCloseTo(
+        (1 - (scenario.netBenefit + scenario.annualWorkCosts) / scenario.grossIncome) * 100,
+        1
+      );
+    }
+  });
+
+  it('has no effective marginal tax rate when income does not rise', () => {
+    const noRise = calculateBackToWork(
+      { ...baseParams, currentIndividualIncome: 80000, combinedAnnualIncome: 180000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(noRise.scenarios[4].effectiveMarginalTaxRate).toBeNull();
+  });
+});
+
+// ── Custom work patterns ────────────────────────────────────────────────
+
+describe('calculateBackToWork with custom work patterns', () => {
+  const result = calculateBackToWork(
+    {
+      ...baseParams,
+      workPatterns: [
+        { daysPerWeek: 4, hoursPerDay: 9 },
+        { daysPerWeek: 5, hoursPerDay: 5, childcareDaysPerWeek: 3, childcareHoursPerDay: 6 },
+      ],
+    },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+  const [compressed, schoolHours] = result.scenarios.slice(5);
+
+  it('adds custom patterns after the 1–5 day scenarios', () => {
+    expect(result.scenarios).toHaveLength(7);
+    expect(result.scenarios.slice(0, 5).every((s) => s.isWholeDays)).toBe(true);
+    expect(compressed.isWholeDays).toBe(false);
+    expect(compressed.pattern.label).toBe('4 days × 9 hrs');
+  });
+
+  it('pro-rates income by hours against a 40-hour week', () => {
+    // 4 × 9 = 36 hours = 0.9 FTE → $72,000
+    expect(compressed.workHoursPerWeek).toBe(36);
+    expect(compressed.fteFraction).toBe(0.9);
+    expect(compressed.grossIncome).toBe(72000);
+    // 5 × 5 = 25 hours = 0.625 FTE → $50,000
+    expect(schoolHours.grossIncome).toBe(50000);
+  });
+
+  it('derives childcare days from working days unless the pattern sets them', () => {
+    expect(compressed.childcareDaysPerWeek).toBe(4);
+    expect(compressed.childcareHoursPerDay).toBe(10);
+    expect(schoolHours.childcareDaysPerWeek).toBe(3);
+    expect(schoolHours.childcareHoursPerDay).toBe(6);
+  });
+
+  it('costs work by days and the hourly rate by hours worked', () => {
+    expect(compressed.annualWorkCosts).toBe(2080);  // $50 × 4/5 × 52
+    expect(compressed.effectiveHourlyRate).toBe(
+      Math.round((compressed.netBenefit / (36 * 52)) * 100) / 100
+    );
+  });
+
+  it('matches the whole-day scenario for a 5 × 8-hour pattern', () => {
+    const fullTime = calculateBackToWork(
+      { ...baseParams, workPatterns: [{ daysPerWeek: 5, hoursPerDay: 8 }] },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(fullTime.scenarios[5].netBenefit).toBe(fullTime.scenarios[4].netBenefit);
+  });
+
+  it('throws for a pattern outside 1–5 whole days', () => {
+    expect(() =>
+      calculateBackToWork(
+        { ...baseParams, workPatterns: [{ daysPerWeek: 6, hoursPerDay: 8 }] },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('daysPerWeek must be a whole number from 1 to 5');
+  });
+
+  it('labels presets with their own names', () => {
+    expect(WORK_PATTERN_PRESETS.map(getWorkPatternLabel)).toEqual([
+      '4 × 9-hour days',
+      'School hours (5 × 5 hours)',
+      '0.6 FTE over 5 short days',
+    ]);
+  });
+});
+
+// ── Break-even FTE income ───────────────────────────────────────────────
+
+describe('calculateBackToWork break-even FTE income', () => {
+  const result = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+  const netBenefitAt = (fteIncome: number, days: number) =>
+    calculateBackToWork(
+      { ...baseParams, proposedFTEIncome: fteIncome },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    ).scenarios[days - 1].netBenefit;
+
+  it('finds the lowest salary where each scenario turns positive (worked example)', () => {
+    // 3 days: CCS drops 87% → 86% at $102,392 combined
+    expect(result.scenarios[2].breakEvenFTEIncome).toBe(3987);
+    expect(netBenefitAt(3987, 3)).toBeGreaterThan(0);
+    expect(netBenefitAt(3986, 3)).toBeLessThanOrEqual(0);
+  });
+
+  it('is positive at break-even and not positive a dollar below for every scenario', () => {
+    for (const s of result.scenarios) {
+      const breakEven = s.breakEvenFTEIncome!;
+      expect(netBenefitAt(breakEven, s.daysWorking)).toBeGreaterThan(0);
+      expect(netBenefitAt(breakEven - 1, s.daysWorking)).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('reports the lowest scenario break-even for the family', () => {
+    const lowest = Math.min(...result.scenarios.map((s) => s.breakEvenFTEIncome!));
+    expect(result.breakEvenFTEIncome).toBe(lowest);
+  });
+
+  it('does not depend on the proposed salary', () => {
+    const other = calculateBackToWork(
+      { ...baseParams, proposedFTEIncome: 150000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(other.scenarios.map((s) => s.breakEvenFTEIncome)).toEqual(
+      result.scenarios.map((s) => s.breakEvenFTEIncome)
+    );
+  });
+
+  it('skips the solver when asked', () => {
+    const unsolved = calculateBackToWork(
+      { ...baseParams, solveBreakEven: false },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(unsolved.scenarios.every((s) => s.breakEvenFTEIncome === null)).toBe(true);
+    expect(unsolved.breakEvenFTEIncome).toBeNull();
+    expect(unsolved.scenarios.map((s) => s.netBenefit)).toEqual(
+      result.scenarios.map((s) => s.netBenefit)
+    );
+  });
+
+  it('returns null when no salary up to $500k breaks even', () => {
+    const params: BackToWorkParams = {
+      ...baseParams,
+      workRelatedCostsPerWeek: 10000,  // $520k/yr at 5 days
+    };
+    const expensive = calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES);
+    expect(expensive.scenarios[4].breakEvenFTEIncome).toBeNull();
+  });
 });
 
 // ── Edge case: all scenarios negative (very low FTE offer) ────────────
 
+describe('calculateBackToWork with informal care', () => {
+  const params: BackToWorkParams = {
+    ...baseParams,
+    informalCare: [
+      { weekday: 'mon', source: 'grandparents' },
+      { weekday: 'fri', source: 'partner' },
+    ],
+  };
+  const result = calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES);
+  const withoutInformal = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  it('needs paid care only on working days nobody covers', () => {
+    // 5 days working, 2 covered → max(2 current, 3) = 3 paid days
+    expect(result.scenarios[4].childcareDaysPerWeek).toBe(3);
+    expect(result.scenarios[4].informalCareDaysPerWeek).toBe(2);
+    // 4 days working, 2 covered → the 2 current days
+    expect(result.scenarios[3].childcareDaysPerWeek).toBe(2);
+  });
+
+  it('values informal care as the paid care it replaces', () => {
+    // 5 days at 71% CCS: $7,540 for 5 days − $4,524 for 3 days
+    expect(result.scenarios[4].informalCareValue).toBe(3016);
+    result.scenarios.forEach((s, i) => {
+      expect(s.informalCareValue).toBeCloseTo(
+        withoutInformal.scenarios[i].annualChildcare.outOfPocketPerYear -
+          s.annualChildcare.outOfPocketPerYear,
+        2
+      );
+    });
+  });
+
+  it('adds the value of informal care to the net benefit', () => {
+    result.scenarios.forEach((s, i) => {
+      expect(s.netBenefit).toBeCloseTo(
+        withoutInformal.scenarios[i].netBenefit + s.informalCareValue,
+        2
+      );
+    });
+  });
+
+  it('is worth nothing when the current days already cover the work days', () => {
+    // 1 working day: the child is already in care 2 days
+    expect(result.scenarios[0].informalCareValue).toBe(0);
+  });
+
+  it('does not apply to patterns that set their own childcare days', () => {
+    const custom = calculateBackToWork(
+      { ...params, workPatterns: [{ daysPerWeek: 5, hoursPerDay: 8, childcareDaysPerWeek: 5 }] },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(custom.scenarios[5].childcareDaysPerWeek).toBe(5);
+    expect(custom.scenarios[5].informalCareDaysPerWeek).toBe(0);
+    expect(custom.scenarios[5].informalCareValue).toBe(0);
+  });
+});
+
+describe('calculateBackToWork with Family Tax Benefit', () => {
+  const params: BackToWorkParams = {
+    ...baseParams,
+    familyTaxBenefit: { childAges: [2], partnered: true },
+  };
+  const result = calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES, TEST_FTB_RATES);
+  const withoutFTB = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  it('calculates current FTB from both partners\' incomes', () => {
+    // Part A base rate $1,905.30 + Part B $4,923.85 + $459.90 supplement
+    expect(result.current.familyTaxBenefit?.total).toBe(7289.05);
+    expect(withoutFTB.current.familyTaxBenefit).toBeNull();
+  });
+
+  it('loses FTB as the second earner\'s income rises (worked example)', () => {
+    // 3 days: $48k — Part A and Part B both taper to nothing
+    expect(result.scenarios[2].familyTaxBenefit?.total).toBe(0);
+    expect(result.scenarios[2].ftbChange).toBe(-7289.05);
+  });
+
+  it('counts the FTB change in the net benefit', () => {
+    result.scenarios.forEach((s, i) => {
+      expect(s.netBenefit).toBeCloseTo(withoutFTB.scenarios[i].netBenefit + s.ftbChange, 2);
+    });
+    expect(withoutFTB.scenarios.every((s) => s.ftbChange === 0)).toBe(true);
+  });
+
+  it('leaves FTB unchanged below the Part B income free area', () => {
+    const low = calculateBackToWork(
+      { ...params, proposedFTEIncome: 10000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES
+    );
+    // 3 days at $10k FTE = $6,000, under the $6,935 income free area
+    expect(low.scenarios[2].ftbChange).toBe(0);
+  });
+
+  it('uses single-parent rules without a partner', () => {
+    const single = calculateBackToWork(
+      {
+        ...baseParams,
+        combinedAnnualIncome: 0,
+        familyTaxBenefit: { childAges: [2], partnered: false },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES
+    );
+    // Part B is not reduced by a single parent's own income below the limit
+    expect(single.scenarios[2].familyTaxBenefit?.partB.annualAmount).toBe(4923.85);
+  });
+
+  it('throws when FTB inputs are given without FTB rates', () => {
+    expect(() => calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES)).toThrow(
+      'FTB rates are required to model Family Tax Benefit.'
+    );
+  });
+});
+
+describe('calculateBackToWork with Parenting Payment', () => {
+  // Single parent on Parenting Payment, not working, $60k FTE offer
+  const params: BackToWorkParams = {
+    ...baseParams,
+    combinedAnnualIncome: 0,
+    proposedFTEIncome: 60000,
+    parentingPayment: { childAges: [2], partnered: false },
+  };
+  const result = calculateBackToWork(
+    params,
+    TEST_CCS_RATES,
+    TEST_TAX_RATES,
+    undefined,
+    TEST_PP_RATES
+  );
+  const withoutPP = calculateBackToWork(
+    { ...params, parentingPayment: undefined },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+
+  it('pays the maximum rate in the current situation with no income', () => {
+    expect(result.current.parentingPayment?.annualAmount).toBe(27403.68);
+    expect(withoutPP.current.parentingPayment).toBeNull();
+  });
+
+  it('tapers the payment at each scenario\'s income', () => {
+    // 3 days: $36,000 → $1,380.82/fn, 40% × ($1,380.82 − $226.40) off
+    expect(result.scenarios[2].parentingPayment?.annualAmount).toBe(15364.71);
+    expect(result.scenarios[2].parentingPaymentChange).toBe(-12038.97);
+  });
+
+  it('counts the payment change in the net benefit', () => {
+    result.scenarios.forEach((s, i) => {
+      expect(s.netBenefit).toBeCloseTo(
+        withoutPP.scenarios[i].netBenefit + s.parentingPaymentChange,
+        2
+      );
+    });
+    expect(withoutPP.scenarios.every((s) => s.parentingPaymentChange === 0)).toBe(true);
+  });
+
+  it('raises the effective marginal tax rate', () => {
+    // 3 days: tax $2,868 + childcare $520 + payment $12,038.97 of $36,000
+    expect(result.scenarios[2].effectiveMarginalTaxRate).toBe(42.85);
+    result.scenarios.forEach((s, i) => {
+      expect(s.effectiveMarginalTaxRate!).toBeGreaterThan(
+        withoutPP.scenarios[i].effectiveMarginalTaxRate!
+      );
+    });
+  });
+
+  it('leaves the payment unchanged under the income free area', () => {
+    const low = calculateBackToWork(
+      { ...params, proposedFTEIncome: 10000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      undefined,
+      TEST_PP_RATES
+    );
+    // 1 day at $10k FTE = $2,000 a year, $76.71/fn
+    expect(low.scenarios[0].parentingPaymentChange).toBe(0);
+  });
+
+  it('throws when Parenting Payment inputs are given without its rates', () => {
+    expect(() => calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES)).toThrow(
+      'Parenting Payment rates are required to model Parenting Payment.'
+    );
+  });
+});
+
+describe('calculateBackToWork with a HELP debt', () => {
+  const result = calculateBackToWork(
+    { ...baseParams, hasHELPDebt: true },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+  const withoutHELP = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  it('repays nothing at or below the repayment threshold', () => {
+    // 4 days: $64,000
+    expect(result.scenarios[3].tax.helpRepayment).toBe(0);
+    expect(result.scenarios[3].netBenefit).toBe(withoutHELP.scenarios[3].netBenefit);
+  });
+
+  it('takes the compulsory repayment out of the net benefit', () => {
+    // 5 days: $80,000 → 15% × $13,000 = $1,950
+    expect(result.scenarios[4].tax.helpRepayment).toBe(1950);
+    expect(result.scenarios[4].netBenefit).toBeCloseTo(
+      withoutHELP.scenarios[4].netBenefit - 1950,
+      2
+    );
+  });
+
+  it('counts the repayment in the effective marginal tax rate', () => {
+    // $1,950 of $80,000 = 2.44 percentage points
+    expect(result.scenarios[4].effectiveMarginalTaxRate).toBeCloseTo(
+      withoutHELP.scenarios[4].effectiveMarginalTaxRate! + 2.44,
+      1
+    );
+  });
+});
+
+describe('calculateBackToWork for a younger child on the higher CCS rate', () => {
+  const standard = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+  const higher = calculateBackToWork(
+    { ...baseParams, higherCCSRate: true },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+
+  it('adds 30 points to the CCS%, capped at 95%', () => {
+    // Current $100k → 87% standard → 95% higher
+    expect(standard.current.ccsPercent).toBe(87);
+    expect(higher.current.ccsPercent).toBe(95);
+    // 5 days: $180k combined income
+    expect(higher.scenarios[4].ccsPercent).toBe(
+      Math.min(95, standard.scenarios[4].ccsPercent + 30)
+    );
+  });
+
+  it('costs less childcare than the standard rate', () => {
+    expect(higher.scenarios[4].annualChildcare.outOfPocketPerYear).toBeLessThan(
+      standard.scenarios[4].annualChildcare.outOfPocketPerYear
+    );
+  });
+});
+
+describe('calculateBackToWork with more than one child in care', () => {
+  const younger = { ...baseParams, higherCCSRate: true };
+  const firstOnly = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+  const youngerOnly = calculateBackToWork(younger, TEST_CCS_RATES, TEST_TAX_RATES);
+  const twoChildren = calculateBackToWork(
+    { ...baseParams, additionalChildren: [younger] },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+
+  it('adds each child’s cost on the same days', () => {
+    expect(twoChildren.current.annualChildcareCost).toBeCloseTo(
+      firstOnly.current.annualChildcareCost + youngerOnly.current.annualChildcareCost,
+      2
+    );
+    twoChildren.scenarios.forEach((s, i) => {
+      expect(s.childcareDaysPerWeek).toBe(firstOnly.scenarios[i].childcareDaysPerWeek);
+      expect(s.annualChildcare.outOfPocketPerYear).toBeCloseTo(
+        firstOnly.scenarios[i].annualChildcare.outOfPocketPerYear +
+          youngerOnly.scenarios[i].annualChildcare.outOfPocketPerYear,
+        2
+      );
+    });
+  });
+
+  it('reports the first child’s CCS% and takes the extra cost off the net benefit', () => {
+    const extra = (s: (typeof youngerOnly.scenarios)[number]) =>
+      s.annualChildcare.outOfPocketPerYear - youngerOnly.current.annualChildcareCost;
+    expect(twoChildren.scenarios[4].ccsPercent).toBe(firstOnly.scenarios[4].ccsPercent);
+    expect(twoChildren.scenarios[4].netBenefit).toBeCloseTo(
+      firstOnly.scenarios[4].netBenefit - extra(youngerOnly.scenarios[4]),
+      2
+    );
+  });
+});
+
+describe('calculateBackToWork with household Medicare details', () => {
+  const family = { partnered: true, dependentChildren: 2, privateHospitalCover: true };
+
+  it('uses the Medicare levy family threshold on the combined income', () => {
+    const lowIncome = { ...baseParams, combinedAnnualIncome: 23000 };
+    const single = calculateBackToWork(lowIncome, TEST_CCS_RATES, TEST_TAX_RATES);
+    const result = calculateBackToWork(
+      { ...lowIncome, medicare: family },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // 2 days: $32,000, family income $55,000 vs threshold $54,339
+    //   individual: 10% × ($32,000 − $27,222) = $477.80
+    //   family:     10% × $661 × 32/55 = $38.46
+    expect(single.scenarios[1].tax.medicareLevy).toBe(477.8);
+    expect(result.scenarios[1].tax.medicareLevy).toBe(38.46);
+  });
+
+  describe('without private hospital cover', () => {
+    const highIncome = { ...baseParams, combinedAnnualIncome: 150000 };
+    const covered = calculateBackToWork(
+      { ...highIncome, medicare: family },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const result = calculateBackToWork(
+      { ...highIncome, medicare: { ...family, privateHospitalCover: false } },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+
+    it('charges no surcharge while the combined income is in the base tier', () => {
+      // 3 days: $48,000 + $150,000 = $198,000
+      expect(covered.scenarios[2].tax.medicareLevySurcharge).toBe(0);
+      expect(result.scenarios[2].tax.medicareLevySurcharge).toBe(0);
+      expect(result.scenarios[2].netBenefit).toBe(covered.scenarios[2].netBenefit);
+    });
+
+    it('charges the surcharge once the combined income reaches a tier', () => {
+      // 5 days: $230,000 ≥ $203,501 (tier 1, two children) → 1% × $80,000
+      expect(result.scenarios[4].tax.medicareLevySurcharge).toBe(800);
+      expect(result.scenarios[4].netBenefit).toBeCloseTo(
+        covered.scenarios[4].netBenefit - 800,
+        2
+      );
+    });
+  });
+});
+
+describe('calculateBackToWork employer super', () => {
+  const result = calculateBackToWork(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  it('pays the Superannuation Guarantee on each scenario income', () => {
+    expect(result.current.employerSuper).toBe(0);
+    // 3 days: 12% × $48,000
+    expect(result.scenarios[2].employerSuper).toBe(5760);
+  });
+
+  it('adds the extra super after contributions tax to the total value', () => {
+    const s = result.scenarios[2];
+    // $5,760 × (1 − 15%)
+    expect(s.superChange).toBe(4896);
+    expect(s.totalValue).toBeCloseTo(s.netBenefit + 4896, 2);
+  });
+
+  it('counts only the change from super already earned', () => {
+    const earning = calculateBackToWork(
+      { ...baseParams, currentIndividualIncome: 30000, combinedAnnualIncome: 130000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // 5 days: ($9,600 − $3,600) × 85%
+    expect(earning.current.employerSuper).toBe(3600);
+    expect(earning.scenarios[4].superChange).toBe(5100);
+  });
+
+  it('stops at the maximum contribution base', () => {
+    const highIncome = calculateBackToWork(
+      { ...baseParams, proposedFTEIncome: 400000 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // 5 days: 12% × $250,000
+    expect(highIncome.scenarios[4].employerSuper).toBe(30000);
+  });
+});
+
+describe('projectSuperBalance', () => {
+  it('compounds yearly contributions at the return rate', () => {
+    expect(projectSuperBalance(4896, 10, 0.06)).toBe(64533.17);
+  });
+
+  it('defaults to a 6% return', () => {
+    expect(projectSuperBalance(4896, 10)).toBe(projectSuperBalance(4896, 10, 0.06));
+  });
+
+  it('sums contributions when the return is zero', () => {
+    expect(projectSuperBalance(4896, 10, 0)).toBe(48960);
+    expect(projectSuperBalance(4896, 0)).toBe(0);
+  });
+
+  it('rejects a negative or fractional number of years', () => {
+    expect(() => projectSuperBalance(1000, -1)).toThrow(
+      'Projection years must be a whole number of 0 or more.'
+    );
+    expect(() => projectSuperBalance(1000, 2.5)).toThrow();
+  });
+});
+
+describe('calculateBackToWork with a return timeline', () => {
+  // 24 weeks of PPL at $948.10, back at work 2 February, care from 19 January
+  const timeline = buildReturnTimeline(
+    {
+      pplWeeks: 24,
+      pplWeeklyRate: 948.10,
+      returnDate: '2026-02-02',
+      careStartDate: '2026-01-19',
+    },
+    '2025-07-01'
+  );
+  const result = calculateBackToWork(
+    { ...baseParams, returnTimeline: timeline },
+    TEST_CCS_RATES,
+    TEST_TAX_RATES
+  );
+
+  it('counts Parental Leave Pay in the current income', () => {
+    expect(result.current.grossIncome).toBe(22754.4);
+    expect(result.current.combinedFamilyIncome).toBe(122754.4);
+    // CCS tested on the full-year income including PPL
+    expect(result.current.ccsPercent).toBe(82);
+  });
+
+  it('pays the new salary only from the return date', () => {
+    // 3 days: $48,000 × 149/365 + $22,754.40
+    expect(result.scenarios[2].grossIncome).toBe(42348.92);
+    expect(result.scenarios[2].combinedFamilyIncome).toBe(142348.92);
+  });
+
+  it('charges childcare only from the care start date', () => {
+    const s = result.scenarios[2];
+    expect(s.annualChildcare.outOfPocketPerYear).toBeCloseTo(
+      s.annualChildcare.outOfPocketPerWeek * 52 * (163 / 365),
+      1
+    );
+    expect(result.current.annualChildcareCost).toBeCloseTo(
+      2 * 100 * (1 - 0.82) * 52 * (163 / 365),
+      1
+    );
+  });
+
+  it('charges work costs only from the return date', () => {
+    // $50/week × 3/5 × 52 × 149/365
+    expect(result.scenarios[2].annualWorkCosts).toBe(636.82);
+  });
+
+  it('leaves PPL out of the extra income and employer super', () => {
+    expect(result.scenarios[2].employerSuper).toBe(2351.34);
+    expect(result.scenarios[2].effectiveMarginalTaxRate).not.toBeNull();
+  });
+
+  it('counts current pay only outside the weeks of leave', () => {
+    // $20,000 a year now; leave from 18 August (48 days before it)
+    const earning = calculateBackToWork(
+      {
+        ...baseParams,
+        combinedAnnualIncome: 120000,
+        currentIndividualIncome: 20000,
+        returnTimeline: timeline,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // Current: $20,000 × (48 + 149)/365 + $22,754.40
+    expect(earning.current.grossIncome).toBe(33548.92);
+    expect(earning.current.combinedFamilyIncome).toBe(133548.92);
+    // 3 days: $20,000 × 48/365 + $48,000 × 149/365 + $22,754.40
+    expect(earning.scenarios[2].grossIncome).toBe(44979.06);
+    expect(earning.scenarios[2].combinedFamilyIncome).toBe(144979.06);
+  });
+});
+
 describe('calculateBackToWork with very low FTE income', () => {
   it('returns null bestScenario when all scenarios have negative net benefit', () => {
     const lowIncomeParams: BackToWorkParams = {
@@ -168,3 +812,46 @@ describe('calculateBackToWork when user already earns income', () => {
     expect(result.current.combinedFamilyIncome).toBe(130000);
   });
 });
+
+// ── Activity test ───────────────────────────────────────────────────────
+
+describe('calculateBackToWork with the activity test', () => {
+  it('limits current subsidised hours using the current activity level', () => {
+    const params: BackToWorkParams = {
+      ...baseParams,
+      currentDaysInCare: 5,   // 100 hours/fortnight of care
+      activityTest: {
+        currentActivityHoursPerFortnight: 0,
+        partnerActivityHoursPerFortnight: 76,
+      },
+    };
+    const result = calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES);
+    const withoutTest = calculateBackToWork(
+      { ...baseParams, currentDaysInCare: 5 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+
+    // 0 hours before the guarantee, 72 after — current cost is higher
+    expect(result.current.annualChildcareCost).toBeGreaterThan(
+      withoutTest.current.annualChildcareCost
+    );
+  });
+
+  it('re-tests activity for each working scenario', () => {
+    const params: BackToWorkParams = {
+      ...baseParams,
+      currentDaysInCare: 5,
+      activityTest: {
+        currentActivityHoursPerFortnight: 0,
+        partnerActivityHoursPerFortnight: 76,
+      },
+    };
+    const result = calculateBackToWork(params, TEST_CCS_RATES, TEST_TAX_RATES);
+
+    // 1 day × 8hr × 2 = 16 activity hours → 36 hours before the guarantee
+    expect(result.scenarios[0].annualChildcare.unsubsidisedHoursPerFortnight).toBeGreaterThan(0);
+    // 4 days × 8hr × 2 = 64 activity hours → 100 hours, fully subsidised
+    expect(result.scenarios[3].annualChildcare.unsubsidisedHoursPerFortnight).toBe(0);
+  });
+});
@@ -0,0 +1,355 @@
+// =============================================================================
+// TESTS — Career Projection
+// =============================================================================
+
+import {
+  calculateCareerProjection,
+  decodeProjectionParams,
+  encodeProjectionParams,
+  getChildCareArrangements,
+  indexCCSRates,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  DEFAULT_CAP_INDEXATION_RATE,
+  DEFAULT_FEE_INFLATION_RATE,
+  DEFAULT_SALARY_GROWTH_RATE,
+  type CareerProjectionParams,
+} from '../careerProjection';
+import { calculateBackToWork, type BackToWorkParams } from '../backToWorkCalculations';
+import { TEST_CCS_RATES, TEST_TAX_RATES, TEST_FTB_RATES } from './fixtures';
+
+// Partner earns $100k, FTE offer $60k, $150/day × 10hr, 2 days in care now
+const backToWork: BackToWorkParams = {
+  combinedAnnualIncome: 100000,
+  currentIndividualIncome: 0,
+  proposedFTEIncome: 60000,
+  workRelatedCostsPerWeek: 0,
+  currentDaysInCare: 2,
+  dailyFee: 150,
+  hoursPerDay: 10,
+  careType: 'centre_based_day_care',
+  ageGroup: 'below_school_age',
+};
+
+// One child aged 4, OSHC once at school, no growth
+const baseParams: CareerProjectionParams = {
+  backToWork,
+  years: 5,
+  childAges: [4],
+  oshc: { dailyFee: 60, hoursPerDay: 4 },
+  salaryGrowthRate: 0,
+  feeInflationRate: 0,
+  capIndexationRate: 0,
+};
+
+describe('calculateCareerProjection', () => {
+  const result = calculateCareerProjection(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+  const yearOne = calculateBackToWork(backToWork, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  it('projects one entry per year and one per scenario', () => {
+    expect(result.years).toHaveLength(5);
+    expect(result.years.map((y) => y.childAges)).toEqual([[4], [5], [6], [7], [8]]);
+    expect(result.scenarios.map((s) => s.label)).toEqual(
+      yearOne.scenarios.map((s) => s.pattern.label)
+    );
+  });
+
+  it('matches the single-year calculation in year one', () => {
+    expect(result.years[0].netBenefits).toEqual(yearOne.scenarios.map((s) => s.netBenefit));
+    expect(result.scenarios[2].firstYearNetBenefit).toBe(30125.36);
+  });
+
+  it('moves a child from day care to OSHC at school age', () => {
+    expect(result.years[1].childrenInDayCare).toBe(1);
+    expect(result.years[2].childrenInDayCare).toBe(0);
+    expect(result.years[2].childrenInOSHC).toBe(1);
+    // 3 days: extra OSHC costs $1,441.44 instead of $3,006.64 of day care
+    expect(result.years[2].netBenefits[2]).toBe(31690.56);
+  });
+
+  it('sums net benefit across the years', () => {
+    expect(result.years.map((y) => y.cumulativeNetBenefits[2])).toEqual([
+      30125.36, 60250.72, 91941.28, 123631.84, 155322.4,
+    ]);
+    expect(result.scenarios[2].cumulativeNetBenefit).toBe(155322.4);
+    expect(result.bestScenario?.label).toBe('5 days');
+  });
+
+  it('stops childcare costs at school age without OSHC', () => {
+    const noOSHC = calculateCareerProjection(
+      { ...baseParams, oshc: null },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const noCare = calculateBackToWork(
+      { ...backToWork, dailyFee: 0 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(noOSHC.years[2].childrenInOSHC).toBe(0);
+    expect(noOSHC.years[2].netBenefits).toEqual(noCare.scenarios.map((s) => s.netBenefit));
+  });
+
+  it('adds each further child’s change in childcare cost at the higher rate', () => {
+    const twoChildren = calculateCareerProjection(
+      { ...baseParams, years: 1, childAges: [4, 1] },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const younger = calculateBackToWork(
+      { ...backToWork, higherCCSRate: true },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const extraDayCare =
+      younger.scenarios[2].annualChildcare.outOfPocketPerYear -
+      younger.current.annualChildcareCost;
+    expect(younger.scenarios[2].ccsPercent).toBe(95);
+    expect(twoChildren.years[0].childrenInDayCare).toBe(2);
+    expect(twoChildren.years[0].netBenefits[2]).toBeCloseTo(
+      yearOne.scenarios[2].netBenefit - extraDayCare,
+      2
+    );
+  });
+
+  it('matches the single-year result for two children in year one', () => {
+    const childAges = [3, 3];
+    const [, ...additionalChildren] = getChildCareArrangements(
+      childAges,
+      backToWork,
+      baseParams.oshc
+    );
+    const twoChildBackToWork = { ...backToWork, additionalChildren };
+    const twoChildYearOne = calculateBackToWork(twoChildBackToWork, TEST_CCS_RATES, TEST_TAX_RATES);
+    const twoChildren = calculateCareerProjection(
+      { ...baseParams, backToWork: twoChildBackToWork, years: 2, childAges },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(additionalChildren).toEqual([{ ...backToWork, higherCCSRate: true }]);
+    twoChildYearOne.scenarios.forEach((s, i) => {
+      expect(twoChildren.years[0].netBenefits[i]).toBe(s.netBenefit);
+    });
+    expect(twoChildren.years[0].netBenefits[2]).toBeLessThan(yearOne.scenarios[2].netBenefit);
+  });
+
+  it('keeps the standard rate for the eldest child aged 5 or under', () => {
+    const withSchoolChild = calculateCareerProjection(
+      { ...baseParams, years: 1, childAges: [8, 4], oshc: null },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(withSchoolChild.years[0].netBenefits).toEqual(result.years[0].netBenefits);
+  });
+
+  it('finds the year a negative first year pays back', () => {
+    // $20k FTE, partner on $250k, $200/day: day care costs outweigh the pay
+    // until the child starts school
+    const lowSalary = calculateCareerProjection(
+      {
+        ...baseParams,
+        backToWork: {
+          ...backToWork,
+          combinedAnnualIncome: 250000,
+          proposedFTEIncome: 20000,
+          dailyFee: 200,
+          workRelatedCostsPerWeek: 60,
+        },
+        childAges: [5],
+        oshc: null,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const fiveDays = lowSalary.scenarios[4];
+    expect(fiveDays.firstYearNetBenefit).toBeLessThan(0);
+    expect(lowSalary.years[1].netBenefits[4]).toBeGreaterThan(0);
+    expect(fiveDays.paybackYear).toBeGreaterThan(1);
+    expect(
+      lowSalary.years[fiveDays.paybackYear! - 2].cumulativeNetBenefits[4]
+    ).toBeLessThanOrEqual(0);
+  });
+
+  it('grows salaries and fees each year', () => {
+    const growing = calculateCareerProjection(
+      { ...baseParams, years: 2, salaryGrowthRate: 0.03, feeInflationRate: 0.04 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const yearTwo = calculateBackToWork(
+      {
+        ...backToWork,
+        combinedAnnualIncome: 103000,
+        proposedFTEIncome: 61800,
+        dailyFee: 156,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(growing.years[1].fteIncome).toBe(61800);
+    expect(growing.years[1].netBenefits).toEqual(yearTwo.scenarios.map((s) => s.netBenefit));
+  });
+
+  it('indexes the CCS caps and income thresholds each year', () => {
+    const indexed = calculateCareerProjection(
+      { ...baseParams, years: 2, capIndexationRate: 0.024 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const yearTwo = calculateBackToWork(
+      backToWork,
+      indexCCSRates(TEST_CCS_RATES, 1.024),
+      TEST_TAX_RATES
+    );
+    expect(indexed.years[1].netBenefits).toEqual(yearTwo.scenarios.map((s) => s.netBenefit));
+    expect(indexed.years[1].netBenefits[2]).toBeGreaterThan(result.years[1].netBenefits[2]);
+  });
+
+  it('uses the default growth rates when none are given', () => {
+    const defaults = calculateCareerProjection(
+      { backToWork, years: 3, childAges: [4], oshc: { dailyFee: 60, hoursPerDay: 4 } },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(defaults.assumptions).toEqual({
+      salaryGrowthRate: DEFAULT_SALARY_GROWTH_RATE,
+      feeInflationRate: DEFAULT_FEE_INFLATION_RATE,
+      capIndexationRate: DEFAULT_CAP_INDEXATION_RATE,
+    });
+    // $60,000 × 1.034 and × 1.034²
+    expect(defaults.years.map((y) => y.fteIncome)).toEqual([60000, 62040, 64149.36]);
+  });
+
+  it('ages the children used for Family Tax Benefit', () => {
+    const withFTB = calculateCareerProjection(
+      {
+        ...baseParams,
+        backToWork: {
+          ...backToWork,
+          familyTaxBenefit: { childAges: [4], partnered: true },
+        },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES
+    );
+    const atSix = calculateBackToWork(
+      {
+        ...backToWork,
+        careType: 'outside_school_hours',
+        dailyFee: 60,
+        hoursPerDay: 4,
+        ageGroup: 'school_age',
+        familyTaxBenefit: { childAges: [6], partnered: true },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES
+    );
+    expect(withFTB.years[2].netBenefits).toEqual(atSix.scenarios.map((s) => s.netBenefit));
+  });
+
+  it('applies a return timeline to year one only', () => {
+    const returnTimeline = {
+      pplIncome: 10000,
+      preLeaveShareOfYear: 0.25,
+      workingShareOfYear: 0.5,
+      careShareOfYear: 0.5,
+    };
+    const partYear = calculateCareerProjection(
+      { ...baseParams, backToWork: { ...backToWork, returnTimeline } },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const partYearOne = calculateBackToWork(
+      { ...backToWork, returnTimeline },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(partYear.years[0].netBenefits).toEqual(partYearOne.scenarios.map((s) => s.netBenefit));
+    expect(partYear.years[1].netBenefits).toEqual(result.years[1].netBenefits);
+  });
+
+  it('rejects a projection outside 1–30 years', () => {
+    expect(() =>
+      calculateCareerProjection({ ...baseParams, years: 0 }, TEST_CCS_RATES, TEST_TAX_RATES)
+    ).toThrow('Projection years must be a whole number from 1 to 30.');
+    expect(() =>
+      calculateCareerProjection({ ...baseParams, years: 31 }, TEST_CCS_RATES, TEST_TAX_RATES)
+    ).toThrow();
+  });
+});
+
+describe('getChildCareArrangements', () => {
+  const dayCare = {
+    careType: 'centre_based_day_care' as const,
+    dailyFee: 150,
+    hoursPerDay: 10,
+    ageGroup: 'below_school_age' as const,
+  };
+  const oshc = { dailyFee: 60, hoursPerDay: 4 };
+
+  it('moves children from day care to OSHC to no paid care', () => {
+    const arrangements = getChildCareArrangements([13, 8, 4, 1], dayCare, oshc);
+    expect(arrangements.map((a) => a.careType)).toEqual([
+      'outside_school_hours',
+      'centre_based_day_care',
+      'centre_based_day_care',
+    ]);
+    expect(arrangements.map((a) => a.higherCCSRate)).toEqual([false, false, true]);
+  });
+
+  it('keeps school-age care the family already uses', () => {
+    const ownOSHC = { ...dayCare, careType: 'family_day_care' as const, ageGroup: 'school_age' as const };
+    expect(getChildCareArrangements([8, 10], ownOSHC, null)).toEqual([
+      { ...ownOSHC, higherCCSRate: false },
+      { ...ownOSHC, higherCCSRate: false },
+    ]);
+  });
+});
+
+describe('indexCCSRates', () => {
+  it('scales every hourly cap, leaving the rates data untouched', () => {
+    const indexed = indexCCSRates(TEST_CCS_RATES, 1.03);
+    expect(indexed.hourlyRateCaps[0].ratePerHour).toBe(15.07);
+    expect(TEST_CCS_RATES.hourlyRateCaps[0].ratePerHour).toBe(14.63);
+    expect(indexed.standardSubsidy.maxSubsidyPercent).toBe(
+      TEST_CCS_RATES.standardSubsidy.maxSubsidyPercent
+    );
+  });
+
+  it('scales the income thresholds to whole dollars', () => {
+    const indexed = indexCCSRates(TEST_CCS_RATES, 1.03);
+    // $85,279 × 1.03 = $87,837.37
+    expect(indexed.standardSubsidy.baseIncomeThreshold).toBe(87837);
+    expect(indexed.annualSubsidyCap.incomeThreshold).toBe(
+      Math.round(TEST_CCS_RATES.annualSubsidyCap.incomeThreshold * 1.03)
+    );
+    expect(indexed.activityTest.lowIncomeResult.incomeThreshold).toBe(87837);
+  });
+});
+
+describe('encodeProjectionParams / decodeProjectionParams', () => {
+  it('round-trips the settings as percentages', () => {
+    const params = encodeProjectionParams(DEFAULT_PROJECTION_ASSUMPTIONS);
+    expect(params).toEqual({ py: '10', sg: '3.4', fi: '4.4', cx: '2.4' });
+    expect(decodeProjectionParams(params)).toEqual(DEFAULT_PROJECTION_ASSUMPTIONS);
+  });
+
+  it('keeps zero growth for a projection in today’s dollars', () => {
+    expect(decodeProjectionParams({ py: '5', sg: '0', fi: '0', cx: '0' })).toEqual({
+      years: 5,
+      salaryGrowthRate: 0,
+      feeInflationRate: 0,
+      capIndexationRate: 0,
+    });
+  });
+
+  it('falls back to the defaults and clamps the years', () => {
+    expect(decodeProjectionParams({})).toEqual(DEFAULT_PROJECTION_ASSUMPTIONS);
+    expect(decodeProjectionParams({ py: '99', sg: 'abc', fi: '', cx: '-150' })).toEqual({
+      ...DEFAULT_PROJECTION_ASSUMPTIONS,
+      years: 30,
+    });
+    expect(decodeProjectionParams({ py: '0' }).years).toBe(1);
+  });
+});
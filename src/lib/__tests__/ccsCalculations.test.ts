@@ -9,6 +9,11 @@ import {
   getStateAverageDailyFee,
   calculateSessionCCS,
   calculateAnnualCost,
+  calculateAnnualCap,
+  applyAnnualCap,
+  combinePartYearCosts,
+  calculateAbsences,
+  applyAbsences,
   type SessionCCSResult,
 } from '../ccsCalculations';
 import { TEST_CCS_RATES, TEST_STATE_AVERAGES } from './fixtures';
@@ -280,6 +285,7 @@ describe('calculateAnnualCost', () => {
     hourlyRateCap: 14.63,
     effectiveHourlyRate: 10,
     feeAboveCapPerHour: 0,
+    hoursPerSession: 10,
     subsidyPerHour: 8,
     subsidyPerSession: 80,
     outOfPocketPerSession: 20,
@@ -338,4 +344,206 @@ describe('calculateAnnualCost', () => {
       'daysPerWeek must be between 1 and 5'
     );
   });
+
+  it('subsidises all hours when care is within the activity test limit', () => {
+    // 3 days × 10hr × 2 = 60 hours/fortnight ≤ 72
+    const result = calculateAnnualCost(mockSession, 3, 5, 52, 72);
+
+    expect(result.hoursOfCarePerFortnight).toBe(60);
+    expect(result.subsidisedHoursPerFortnight).toBe(60);
+    expect(result.unsubsidisedHoursPerFortnight).toBe(0);
+    expect(result.subsidyPerFortnight).toBe(480);      // 80 × 6
+  });
+
+  it('charges hours above the activity test limit at the full fee', () => {
+    // 5 days × 10hr × 2 = 100 hours/fortnight, only 36 subsidised
+    const result = calculateAnnualCost(mockSession, 5, 5, 52, 36);
+
+    expect(result.hoursOfCarePerFortnight).toBe(100);
+    expect(result.subsidisedHoursPerFortnight).toBe(36);
+    expect(result.unsubsidisedHoursPerFortnight).toBe(64);
+    expect(result.grossFeePerFortnight).toBe(1000);    // unchanged
+    expect(result.subsidyPerFortnight).toBe(288);      // 800 × 0.36
+    expect(result.outOfPocketPerFortnight).toBe(712);  // 1000 − 288
+    expect(result.subsidyPerYear).toBe(7488);          // 288 × 26
+  });
+
+  it('throws for a negative subsidised hours limit', () => {
+    expect(() => calculateAnnualCost(mockSession, 2, 5, 52, -1)).toThrow(
+      'subsidisedHoursPerFortnight cannot be negative'
+    );
+  });
+});
+
+// ─── 2.4b: calculateAnnualCap / applyAnnualCap ─────────────────────────────
+
+describe('calculateAnnualCap', () => {
+  // $200k → 67% CCS; $180/day × 10hr, 5 days → $98.02 subsidy/session
+  const session = calculateSessionCCS(
+    180, 10, 67,
+    'centre_based_day_care', 'below_school_age',
+    TEST_CCS_RATES
+  );
+  const annual = calculateAnnualCost(session, 5, 5);
+
+  it('does not apply at or below the $85,279 income threshold', () => {
+    const result = calculateAnnualCap(annual, 85279, TEST_CCS_RATES);
+    expect(result.applies).toBe(false);
+    expect(result.capAmount).toBeNull();
+    expect(result.isCapReached).toBe(false);
+    expect(result.cappedSubsidyPerYear).toBe(annual.subsidyPerYear);
+    expect(result.extraOutOfPocketPerYear).toBe(0);
+  });
+
+  it('caps subsidy at $11,003 per child above the threshold', () => {
+    const result = calculateAnnualCap(annual, 200000, TEST_CCS_RATES);
+    expect(result.applies).toBe(true);
+    expect(result.capAmount).toBe(11003);
+    expect(result.isCapReached).toBe(true);
+    expect(result.uncappedSubsidyPerYear).toBe(25485.2);  // 98.02 × 5 × 52
+    expect(result.cappedSubsidyPerYear).toBe(11003);
+    expect(result.extraOutOfPocketPerYear).toBe(14482.2);
+  });
+
+  it('reports the fortnight in which the cap is reached', () => {
+    // ceil(11003 / 980.20) = 12
+    const result = calculateAnnualCap(annual, 200000, TEST_CCS_RATES);
+    expect(result.capReachedInFortnight).toBe(12);
+  });
+
+  it('applies but is not reached for low usage', () => {
+    const oneDay = calculateAnnualCost(session, 1, 5);  // $5,097.04/year
+    const result = calculateAnnualCap(oneDay, 200000, TEST_CCS_RATES);
+    expect(result.applies).toBe(true);
+    expect(result.isCapReached).toBe(false);
+    expect(result.capReachedInFortnight).toBeNull();
+    expect(result.extraOutOfPocketPerYear).toBe(0);
+  });
+});
+
+describe('applyAnnualCap', () => {
+  const session = calculateSessionCCS(
+    180, 10, 67,
+    'centre_based_day_care', 'below_school_age',
+    TEST_CCS_RATES
+  );
+  const annual = calculateAnnualCost(session, 5, 5);
+
+  it('reduces per-year subsidy and raises out-of-pocket when the cap is reached', () => {
+    const cap = calculateAnnualCap(annual, 200000, TEST_CCS_RATES);
+    const result = applyAnnualCap(annual, cap, 5);
+
+    expect(result.subsidyPerYear).toBe(11003);
+    expect(result.outOfPocketPerYear).toBe(35797);       // 46800 − 11003
+    expect(result.withholdingPerYear).toBe(550.15);      // 11003 × 0.05
+    expect(result.netOutOfPocketPerYear).toBe(36347.15);
+    // Fortnightly figures describe a typical fortnight before the cap
+    expect(result.subsidyPerFortnight).toBe(annual.subsidyPerFortnight);
+  });
+
+  it('returns the annual cost unchanged when the cap is not reached', () => {
+    const cap = calculateAnnualCap(annual, 80000, TEST_CCS_RATES);
+    expect(applyAnnualCap(annual, cap, 5)).toBe(annual);
+  });
+});
+
+// ─── 2.4c: combinePartYearCosts ────────────────────────────────────────────
+
+describe('combinePartYearCosts', () => {
+  // $150/day × 10hr, 3 days, 90% — cap drops from $14.63 to $12.81 at school
+  const beforeSchool = calculateAnnualCost(
+    calculateSessionCCS(150, 10, 90, 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES),
+    3, 5
+  );
+  const atSchool = calculateAnnualCost(
+    calculateSessionCCS(150, 10, 90, 'centre_based_day_care', 'school_age', TEST_CCS_RATES),
+    3, 5
+  );
+
+  it('weights each part of the year by its share', () => {
+    const result = combinePartYearCosts([
+      { annual: beforeSchool, shareOfYear: 216 / 365 },
+      { annual: atSchool, shareOfYear: 149 / 365 },
+    ]);
+
+    expect(beforeSchool.subsidyPerYear).toBe(20540.52);  // $131.67 × 3 × 52
+    expect(atSchool.subsidyPerYear).toBe(17985.24);      // $115.29 × 3 × 52
+    expect(result.subsidyPerYear).toBeCloseTo(20540.52 * 216 / 365 + 17985.24 * 149 / 365, 2);
+    expect(result.grossFeePerYear).toBe(23400);          // fee unchanged all year
+    expect(result.outOfPocketPerYear).toBeGreaterThan(beforeSchool.outOfPocketPerYear);
+    expect(result.outOfPocketPerYear).toBeLessThan(atSchool.outOfPocketPerYear);
+  });
+
+  it('returns a single whole-year part unchanged', () => {
+    expect(combinePartYearCosts([{ annual: beforeSchool, shareOfYear: 1 }])).toBe(beforeSchool);
+  });
+
+  it('throws when no parts are given', () => {
+    expect(() => combinePartYearCosts([])).toThrow('At least one part of the year is required.');
+  });
+});
+
+// ─── 2.4d: calculateAbsences / applyAbsences ───────────────────────────────
+
+describe('calculateAbsences', () => {
+  const annual = calculateAnnualCost(
+    calculateSessionCCS(150, 10, 90, 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES),
+    3, 5
+  );
+
+  it('charges absences beyond 42 days at the full fee (worked example)', () => {
+    const result = calculateAbsences(annual, 3, 50, 0, TEST_CCS_RATES);
+    expect(result.allowableDays).toBe(42);
+    expect(result.unsubsidisedDays).toBe(8);
+    expect(result.extraOutOfPocketPerYear).toBeCloseTo(1053.36, 2); // 8 × $131.67
+  });
+
+  it('subsidises absences within the allowance', () => {
+    const result = calculateAbsences(annual, 3, 42, 0, TEST_CCS_RATES);
+    expect(result.unsubsidisedDays).toBe(0);
+    expect(result.extraOutOfPocketPerYear).toBe(0);
+  });
+
+  it('subsidises evidenced absences beyond the allowance', () => {
+    const result = calculateAbsences(annual, 3, 50, 5, TEST_CCS_RATES);
+    expect(result.evidencedDays).toBe(5);
+    expect(result.unsubsidisedDays).toBe(3);
+  });
+
+  it('limits evidenced days to absences beyond the allowance', () => {
+    const result = calculateAbsences(annual, 3, 45, 10, TEST_CCS_RATES);
+    expect(result.evidencedDays).toBe(3);
+    expect(result.unsubsidisedDays).toBe(0);
+  });
+
+  it('caps absences at the booked sessions in the year', () => {
+    const result = calculateAbsences(annual, 1, 100, 0, TEST_CCS_RATES);
+    expect(result.absenceDays).toBe(52);
+    expect(result.unsubsidisedDays).toBe(10);
+  });
+
+  it('throws for negative absence days', () => {
+    expect(() => calculateAbsences(annual, 3, -1, 0, TEST_CCS_RATES)).toThrow();
+  });
+});
+
+describe('applyAbsences', () => {
+  const annual = calculateAnnualCost(
+    calculateSessionCCS(150, 10, 90, 'centre_based_day_care', 'below_school_age', TEST_CCS_RATES),
+    3, 5
+  );
+
+  it('removes the lost subsidy from the per-year figures', () => {
+    const absences = calculateAbsences(annual, 3, 50, 0, TEST_CCS_RATES);
+    const result = applyAbsences(annual, absences, 5);
+    expect(result.subsidyPerYear).toBeCloseTo(20540.52 - 1053.36, 2);
+    expect(result.outOfPocketPerYear).toBeCloseTo(annual.outOfPocketPerYear + 1053.36, 2);
+    expect(result.withholdingPerYear).toBeCloseTo(result.subsidyPerYear * 0.05, 2);
+    expect(result.netOutOfPocketPerFortnight).toBe(annual.netOutOfPocketPerFortnight);
+  });
+
+  it('returns the annual cost unchanged with no unsubsidised absences', () => {
+    const absences = calculateAbsences(annual, 3, 10, 0, TEST_CCS_RATES);
+    expect(applyAbsences(annual, absences, 5)).toBe(annual);
+  });
 });
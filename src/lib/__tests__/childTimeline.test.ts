@@ -0,0 +1,128 @@
+// =============================================================================
+// TESTS — Child Timeline (Mid-Year Age Changes)
+// =============================================================================
+
+import {
+  getAgeOnDate,
+  getBirthdayDate,
+  getSchoolStartDate,
+  buildYearSegments,
+} from '../childTimeline';
+import { TEST_SCHOOL_START_RULES } from './fixtures';
+
+const NSW = TEST_SCHOOL_START_RULES[0];
+const VIC = TEST_SCHOOL_START_RULES[1];
+
+// ─── Dates ──────────────────────────────────────────────────────────────────
+
+describe('getAgeOnDate', () => {
+  it('counts completed years', () => {
+    expect(getAgeOnDate('2020-03-10', '2026-03-09')).toBe(5);
+    expect(getAgeOnDate('2020-03-10', '2026-03-10')).toBe(6);
+  });
+
+  it('returns 0 before the date of birth', () => {
+    expect(getAgeOnDate('2026-01-01', '2025-07-01')).toBe(0);
+  });
+});
+
+describe('getBirthdayDate', () => {
+  it('moves a 29 February birthday to 1 March in non-leap years', () => {
+    expect(getBirthdayDate('2020-02-29', 6)).toBe('2026-03-01');
+    expect(getBirthdayDate('2020-02-29', 4)).toBe('2024-02-29');
+  });
+});
+
+describe('getSchoolStartDate', () => {
+  it('starts school in the year the child turns 5 when born by the cut-off', () => {
+    expect(getSchoolStartDate('2020-07-31', NSW)).toBe('2025-02-02');
+  });
+
+  it('starts school the following year when born after the cut-off', () => {
+    expect(getSchoolStartDate('2020-08-15', NSW)).toBe('2026-02-02');
+    expect(getSchoolStartDate('2020-05-01', VIC)).toBe('2026-01-28');
+  });
+});
+
+// ─── buildYearSegments ──────────────────────────────────────────────────────
+
+describe('buildYearSegments', () => {
+  it('returns one whole-year segment when no dates of birth are given', () => {
+    const segments = buildYearSegments(
+      [
+        { ageYears: 3, ageGroup: 'below_school_age', dateOfBirth: null },
+        { ageYears: 3, ageGroup: 'below_school_age', dateOfBirth: null },
+      ],
+      '2025-07-01',
+      NSW
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      startDate: '2025-07-01',
+      endDate: '2026-07-01',
+      days: 365,
+      shareOfYear: 1,
+    });
+    expect(segments[0].children.map((c) => c.usesHigherRate)).toEqual([false, true]);
+  });
+
+  it('switches to the school age cap when a child starts school', () => {
+    const segments = buildYearSegments(
+      [{ ageYears: 4, ageGroup: 'below_school_age', dateOfBirth: '2020-09-01' }],
+      '2025-07-01',
+      NSW
+    );
+
+    expect(segments.map((s) => s.startDate)).toEqual(['2025-07-01', '2026-02-02']);
+    expect(segments[0].days).toBe(216);
+    expect(segments[0].children[0].ageGroup).toBe('below_school_age');
+    expect(segments[1].children[0].ageGroup).toBe('school_age');
+  });
+
+  it('ends the higher rate for the younger child when the eldest turns 6 (worked example)', () => {
+    const segments = buildYearSegments(
+      [
+        { ageYears: 5, ageGroup: 'below_school_age', dateOfBirth: '2020-03-10' },
+        { ageYears: 2, ageGroup: 'below_school_age', dateOfBirth: '2023-05-01' },
+      ],
+      '2025-07-01',
+      NSW
+    );
+
+    expect(segments.map((s) => s.days)).toEqual([252, 113]);
+    expect(segments[0].children[0]).toEqual({
+      ageYears: 5,
+      ageGroup: 'school_age',
+      usesHigherRate: false,
+    });
+    expect(segments[0].children[1].usesHigherRate).toBe(true);
+    expect(segments[1].children[0].ageYears).toBe(6);
+    expect(segments[1].children[1].usesHigherRate).toBe(false);
+  });
+
+  it('uses exact dates of birth to pick the eldest of two children the same age', () => {
+    const [segment] = buildYearSegments(
+      [
+        { ageYears: 1, ageGroup: 'below_school_age', dateOfBirth: '2024-06-01' },
+        { ageYears: 1, ageGroup: 'below_school_age', dateOfBirth: '2023-08-01' },
+      ],
+      '2025-07-01',
+      NSW
+    );
+
+    expect(segment.children.map((c) => c.usesHigherRate)).toEqual([true, false]);
+  });
+
+  it('treats children as school age from their 6th birthday without a rule', () => {
+    const segments = buildYearSegments(
+      [{ ageYears: 5, ageGroup: 'below_school_age', dateOfBirth: '2020-01-15' }],
+      '2025-07-01',
+      null
+    );
+
+    expect(segments.map((s) => s.startDate)).toEqual(['2025-07-01', '2026-01-15']);
+    expect(segments[0].children[0].ageGroup).toBe('below_school_age');
+    expect(segments[1].children[0].ageGroup).toBe('school_age');
+  });
+});
@@ -0,0 +1,78 @@
+// =============================================================================
+// TESTS — Children URL Param Encoding
+// =============================================================================
+
+import { encodeChildrenParam, decodeChildrenParam } from '../childrenParams';
+import type { ChildInput } from '../types';
+
+const CHILDREN: ChildInput[] = [
+  { ageYears: 4, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: 10, feePerDay: 150 },
+  { ageYears: 8, careType: 'outside_school_hours', daysPerWeek: 5, hoursPerDay: null, feePerDay: null },
+];
+
+describe('encodeChildrenParam', () => {
+  it('encodes each child as age.care.days.hours.fee joined by ~', () => {
+    expect(encodeChildrenParam(CHILDREN)).toBe('4.cb.3.10.150~8.os.5..');
+  });
+
+  it('returns an empty string for no children', () => {
+    expect(encodeChildrenParam([])).toBe('');
+  });
+});
+
+describe('decodeChildrenParam', () => {
+  it('round-trips encoded children', () => {
+    expect(decodeChildrenParam(encodeChildrenParam(CHILDREN))).toEqual(CHILDREN);
+  });
+
+  it('returns undefined for a missing or empty param', () => {
+    expect(decodeChildrenParam(undefined)).toBeUndefined();
+    expect(decodeChildrenParam('')).toBeUndefined();
+  });
+
+  it('skips malformed entries', () => {
+    expect(decodeChildrenParam('4.xx.3..~abc~2.fd.2..')).toEqual([
+      { ageYears: 2, careType: 'family_day_care', daysPerWeek: 2, hoursPerDay: null, feePerDay: null },
+    ]);
+    expect(decodeChildrenParam('junk')).toBeUndefined();
+  });
+
+  it('round-trips a date of birth and drops invalid ones', () => {
+    const withDob: ChildInput[] = [{ ...CHILDREN[0], dateOfBirth: '2021-03-14' }];
+    expect(encodeChildrenParam(withDob)).toBe('4.cb.3.10.150.2021-03-14');
+    expect(decodeChildrenParam('4.cb.3.10.150.2021-03-14')).toEqual(withDob);
+    expect(decodeChildrenParam('4.cb.3.10.150.2021-02-30')![0].dateOfBirth).toBeUndefined();
+  });
+
+  it('round-trips absences with or without a date of birth', () => {
+    const withAbsences: ChildInput[] = [
+      { ...CHILDREN[0], absenceDaysPerYear: 50, evidencedAbsenceDaysPerYear: 4 },
+      { ...CHILDREN[1], dateOfBirth: '2017-05-01', absenceDaysPerYear: 10, evidencedAbsenceDaysPerYear: 0 },
+    ];
+    expect(encodeChildrenParam(withAbsences)).toBe('4.cb.3.10.150..50.4~8.os.5...2017-05-01.10.0');
+    expect(decodeChildrenParam(encodeChildrenParam(withAbsences))).toEqual([
+      withAbsences[0],
+      { ...CHILDREN[1], dateOfBirth: '2017-05-01', absenceDaysPerYear: 10 },
+    ]);
+  });
+
+  it('round-trips weeks of care and omits a full year', () => {
+    const withWeeks: ChildInput[] = [
+      { ...CHILDREN[0], weeksPerYear: 48 },
+      { ...CHILDREN[1], weeksPerYear: 52 },
+    ];
+    expect(encodeChildrenParam(withWeeks)).toBe('4.cb.3.10.150..0.0.48~8.os.5..');
+    expect(decodeChildrenParam(encodeChildrenParam(withWeeks))).toEqual([
+      withWeeks[0],
+      CHILDREN[1],
+    ]);
+    expect(decodeChildrenParam('4.cb.3.10.150..0.0.60')![0].weeksPerYear).toBe(52);
+  });
+
+  it('clamps age to 0–13 and days to 1–5', () => {
+    const [child] = decodeChildrenParam('20.ih.9.8.-5')!;
+    expect(child.ageYears).toBe(13);
+    expect(child.daysPerWeek).toBe(5);
+    expect(child.feePerDay).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+// =============================================================================
+// TESTS — Effective Marginal Tax Rate
+// =============================================================================
+
+import {
+  calculateEffectiveMarginalRates,
+  type EffectiveMarginalRateParams,
+} from '../effectiveMarginalRate';
+import { calculateFamilyTaxBenefit } from '../familyTaxBenefit';
+import { TEST_CCS_RATES, TEST_TAX_RATES, TEST_FTB_RATES, TEST_PP_RATES } from './fixtures';
+
+// Single parent on $85,000, $140/day × 10hr, 3 days
+const baseParams: EffectiveMarginalRateParams = {
+  parentIncome: 85000,
+  partnerIncome: null,
+  dailyFee: 140,
+  hoursPerDay: 10,
+  daysPerWeek: 3,
+  careType: 'centre_based_day_care',
+  ageGroup: 'below_school_age',
+};
+
+describe('calculateEffectiveMarginalRates', () => {
+  const result = calculateEffectiveMarginalRates(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+  const rowAt = (income: number) => result.rows.find((r) => r.income === income)!;
+
+  it('tiles the income range in steps of the extra income', () => {
+    expect(result.extraIncome).toBe(1000);
+    expect(result.rows).toHaveLength(251);
+    expect(result.rows[0].income).toBe(0);
+    expect(result.rows[250].income).toBe(250000);
+    expect(result.rows[result.userRowIndex].income).toBe(85000);
+  });
+
+  it('adds tax, Medicare and lost CCS across a CCS step', () => {
+    const row = rowAt(85000);
+    expect(row.ccsPercent).toBe(90);
+    expect(row.incomeTaxRate).toBe(0.3);
+    expect(row.medicareRate).toBe(0.02);
+    expect(row.litoRate).toBe(0);
+    // 1% of $140 × 3 days × 52 weeks
+    expect(row.childcareRate).toBe(0.2184);
+    expect(row.effectiveMarginalRate).toBe(0.5384);
+    expect(row.amountKept).toBe(461.6);
+  });
+
+  it('has no childcare component within a CCS step', () => {
+    const row = rowAt(87000);
+    expect(row.childcareRate).toBe(0);
+    expect(row.effectiveMarginalRate).toBe(0.32);
+  });
+
+  it('costs childcare at each income and the extra on top, for any increment', () => {
+    const offStep = calculateEffectiveMarginalRates(
+      { ...baseParams, incomeMin: 83700, incomeMax: 85500, increment: 300 },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(offStep.rows.map((r) => r.income)).toEqual([
+      83700, 84000, 84300, 84600, 84900, 85200, 85500,
+    ]);
+    // Only $84,300–$85,200 cross the $85,279 threshold with the extra $1,000
+    expect(offStep.rows.map((r) => r.childcareRate)).toEqual([
+      0, 0, 0.2184, 0.2184, 0.2184, 0.2184, 0,
+    ]);
+  });
+
+  it('counts the LITO being withdrawn', () => {
+    const row = rowAt(40000);
+    expect(row.incomeTaxRate).toBe(0.16);
+    expect(row.litoRate).toBe(0.05);
+    expect(row.medicareRate).toBe(0.02);
+    expect(row.effectiveMarginalRate).toBe(0.23);
+  });
+
+  it('is zero below the tax-free threshold', () => {
+    const row = rowAt(10000);
+    expect(row.effectiveMarginalRate).toBe(0);
+    expect(row.amountKept).toBe(1000);
+  });
+
+  it('has no income tax while LITO still covers it', () => {
+    const row = rowAt(20000);
+    expect(row.incomeTaxRate).toBe(0);
+    expect(row.litoRate).toBe(0);
+  });
+
+  it('finds the peak rate at a CCS step', () => {
+    expect(result.peakRow.childcareRate).toBeGreaterThan(0);
+    expect(result.peakRow.effectiveMarginalRate).toBeGreaterThanOrEqual(
+      Math.max(...result.rows.map((r) => r.effectiveMarginalRate))
+    );
+  });
+
+  it("varies the partner's income when the partner earns the extra", () => {
+    const partnered = calculateEffectiveMarginalRates(
+      {
+        ...baseParams,
+        parentIncome: 30000,
+        partnerIncome: 90000,
+        earner: 'partner',
+        incomeMin: 80000,
+        incomeMax: 100000,
+        familyTaxBenefit: { childAges: [2] },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES
+    );
+    const row = partnered.rows.find((r) => r.income === 90000)!;
+    expect(partnered.rows).toHaveLength(21);
+    expect(partnered.rows[partnered.userRowIndex]).toBe(row);
+    expect(row.familyIncome).toBe(120000);
+
+    const ftbAt = (partnerIncome: number) =>
+      calculateFamilyTaxBenefit(
+        { parentIncome: 30000, partnerIncome, childAges: [2] },
+        TEST_FTB_RATES
+      ).total;
+    expect(row.familyPaymentsRate).toBeCloseTo((ftbAt(90000) - ftbAt(91000)) / 1000, 4);
+  });
+
+  it('counts Parenting Payment tapering away', () => {
+    const withPP = calculateEffectiveMarginalRates(
+      {
+        ...baseParams,
+        parentIncome: 30000,
+        incomeMin: 30000,
+        incomeMax: 30000,
+        parentingPayment: { childAges: [2, 4] },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      undefined,
+      TEST_PP_RATES
+    );
+    // 40% single taper above the income free area
+    expect(withPP.rows[0].familyPaymentsRate).toBeCloseTo(0.4, 3);
+  });
+
+  it('rejects invalid inputs', () => {
+    expect(() =>
+      calculateEffectiveMarginalRates(
+        { ...baseParams, extraIncome: 0 },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('Extra income must be more than $0.');
+    expect(() =>
+      calculateEffectiveMarginalRates(
+        { ...baseParams, earner: 'partner' },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('A single parent has no partner to earn the extra income.');
+    expect(() =>
+      calculateEffectiveMarginalRates(
+        { ...baseParams, familyTaxBenefit: { childAges: [2] } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('FTB rates are required to model Family Tax Benefit.');
+  });
+});
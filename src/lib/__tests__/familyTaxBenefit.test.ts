@@ -0,0 +1,135 @@
+// =============================================================================
+// TESTS — Family Tax Benefit Parts A and B
+// =============================================================================
+
+import {
+  calculateFamilyTaxBenefit,
+  calculateFTBPartA,
+  calculateFTBPartB,
+  getFTBPartARate,
+} from '../familyTaxBenefit';
+import { TEST_FTB_RATES } from './fixtures';
+
+// ─── getFTBPartARate ────────────────────────────────────────────────────────
+
+describe('getFTBPartARate', () => {
+  it('finds the age band for a child', () => {
+    expect(getFTBPartARate(2, TEST_FTB_RATES)?.maxRatePerFortnight).toBe(228.06);
+    expect(getFTBPartARate(13, TEST_FTB_RATES)?.maxRatePerFortnight).toBe(296.66);
+  });
+
+  it('returns null for a child past the oldest band', () => {
+    expect(getFTBPartARate(20, TEST_FTB_RATES)).toBeNull();
+  });
+});
+
+// ─── calculateFTBPartA ──────────────────────────────────────────────────────
+
+describe('calculateFTBPartA', () => {
+  it('pays the maximum rate and supplement at or below the income free area', () => {
+    const result = calculateFTBPartA(60000, [2], TEST_FTB_RATES);
+    // $228.06 × 365/14
+    expect(result.maxRate).toBe(5945.85);
+    expect(result.annualAmount).toBe(5945.85);
+    expect(result.supplement).toBe(916.15);
+    expect(result.total).toBe(6862);
+  });
+
+  it('tapers the maximum rate by 20c per dollar above the income free area', () => {
+    // $5,945.85 − 20% × ($70,000 − $66,065) = $5,158.85
+    expect(calculateFTBPartA(70000, [2], TEST_FTB_RATES).annualAmount).toBe(5158.85);
+  });
+
+  it('stops at the base rate until the higher income free area (worked example)', () => {
+    const result = calculateFTBPartA(100000, [2], TEST_FTB_RATES);
+    expect(result.baseRate).toBe(1905.3);
+    expect(result.annualAmount).toBe(1905.3);
+    // No supplement above $80,000
+    expect(result.supplement).toBe(0);
+  });
+
+  it('tapers the base rate by 30c per dollar above the higher income free area', () => {
+    // $1,905.30 − 30% × ($120,000 − $117,530) = $1,164.30
+    expect(calculateFTBPartA(120000, [2], TEST_FTB_RATES).annualAmount).toBe(1164.3);
+    expect(calculateFTBPartA(130000, [2], TEST_FTB_RATES).total).toBe(0);
+  });
+
+  it('adds rates for each child', () => {
+    const one = calculateFTBPartA(50000, [2], TEST_FTB_RATES);
+    const two = calculateFTBPartA(50000, [2, 14], TEST_FTB_RATES);
+    expect(two.maxRate).toBeCloseTo(one.maxRate + 296.66 * 365 / 14, 1);
+    expect(two.supplement).toBe(916.15 * 2);
+  });
+
+  it('pays nothing without children', () => {
+    expect(calculateFTBPartA(30000, [], TEST_FTB_RATES).total).toBe(0);
+  });
+});
+
+// ─── calculateFTBPartB ──────────────────────────────────────────────────────
+
+describe('calculateFTBPartB', () => {
+  it('pays the under-5 rate and supplement when the lower earner has no income', () => {
+    const result = calculateFTBPartB(0, 100000, [2], TEST_FTB_RATES);
+    // $188.86 × 365/14
+    expect(result.eligible).toBe(true);
+    expect(result.annualAmount).toBe(4923.85);
+    expect(result.supplement).toBe(459.9);
+  });
+
+  it('uses the 5-and-over rate by the youngest child', () => {
+    // $131.74 × 365/14
+    expect(calculateFTBPartB(0, 100000, [7, 9], TEST_FTB_RATES).annualAmount).toBe(3434.65);
+  });
+
+  it("reduces by 20c per dollar of the lower earner's income (worked example)", () => {
+    // $4,923.85 − 20% × ($20,000 − $6,935) = $2,310.85
+    expect(calculateFTBPartB(20000, 100000, [2], TEST_FTB_RATES).annualAmount).toBe(2310.85);
+    expect(calculateFTBPartB(48000, 100000, [2], TEST_FTB_RATES).total).toBe(0);
+  });
+
+  it('treats whichever partner earns more as the primary earner', () => {
+    expect(calculateFTBPartB(100000, 20000, [2], TEST_FTB_RATES)).toEqual(
+      calculateFTBPartB(20000, 100000, [2], TEST_FTB_RATES)
+    );
+  });
+
+  it('is not paid when the primary earner is over the income limit', () => {
+    const result = calculateFTBPartB(0, 120000, [2], TEST_FTB_RATES);
+    expect(result.eligible).toBe(false);
+    expect(result.total).toBe(0);
+  });
+
+  it('is not paid to couples once the youngest is 13', () => {
+    expect(calculateFTBPartB(0, 60000, [13], TEST_FTB_RATES).eligible).toBe(false);
+  });
+
+  it('pays single parents in full up to the income limit', () => {
+    const result = calculateFTBPartB(60000, null, [13], TEST_FTB_RATES);
+    expect(result.eligible).toBe(true);
+    expect(result.annualAmount).toBe(3434.65);
+  });
+});
+
+// ─── calculateFamilyTaxBenefit ──────────────────────────────────────────────
+
+describe('calculateFamilyTaxBenefit', () => {
+  it('combines Part A on family income with Part B', () => {
+    const result = calculateFamilyTaxBenefit(
+      { parentIncome: 0, partnerIncome: 100000, childAges: [2] },
+      TEST_FTB_RATES
+    );
+    expect(result.familyIncome).toBe(100000);
+    expect(result.partA.total).toBe(1905.3);
+    expect(result.partB.total).toBe(5383.75);
+    expect(result.total).toBe(7289.05);
+  });
+
+  it('drops sharply when the second parent returns to work', () => {
+    const result = calculateFamilyTaxBenefit(
+      { parentIncome: 48000, partnerIncome: 100000, childAges: [2] },
+      TEST_FTB_RATES
+    );
+    expect(result.total).toBe(0);
+  });
+});
@@ -5,7 +5,15 @@
 // so tests are independent of data files and explicitly typed.
 // =============================================================================
 
-import type { CCSRates, TaxRates, StateAverageEntry } from '../types';
+import type {
+  CCSRates,
+  TaxRates,
+  FTBRates,
+  ParentingPaymentRates,
+  PaidParentalLeaveRates,
+  StateAverageEntry,
+  SchoolStartRule,
+} from '../types';
 
 /** FY 2025-26 CCS rates fixture */
 export const TEST_CCS_RATES: CCSRates = {
@@ -36,11 +44,36 @@ export const TEST_CCS_RATES: CCSRates = {
     capAmountPerChild: 11003,
     uncappedBelow: true,
   },
+  activityTest: {
+    tiers: [
+      { minActivityHours: 0, subsidisedHoursPerFortnight: 0 },
+      { minActivityHours: 8, subsidisedHoursPerFortnight: 36 },
+      { minActivityHours: 17, subsidisedHoursPerFortnight: 72 },
+      { minActivityHours: 49, subsidisedHoursPerFortnight: 100 },
+    ],
+    lowIncomeResult: {
+      incomeThreshold: 85279,
+      subsidisedHoursPerFortnight: 24,
+    },
+  },
   threeDayGuarantee: {
     effectiveDate: '2026-01-05',
     minHoursPerFortnight: 72,
     description: '3-Day Guarantee',
   },
+  allowableAbsences: {
+    daysPerChildPerYear: 42,
+    description: 'Allowable absences',
+  },
+  additionalSubsidy: {
+    description: 'Additional Child Care Subsidy',
+    streams: [
+      { stream: 'child_wellbeing', label: 'Child wellbeing', subsidyPercent: 100, rateCapPercent: 120, subsidisedHoursPerFortnight: 100, maxWeeksPerDetermination: 13, eligibility: '' },
+      { stream: 'grandparent', label: 'Grandparent', subsidyPercent: 100, rateCapPercent: 120, subsidisedHoursPerFortnight: 100, maxWeeksPerDetermination: null, eligibility: '' },
+      { stream: 'temporary_financial_hardship', label: 'Temporary financial hardship', subsidyPercent: 100, rateCapPercent: 120, subsidisedHoursPerFortnight: 100, maxWeeksPerDetermination: 13, eligibility: '' },
+      { stream: 'transition_to_work', label: 'Transition to work', subsidyPercent: 95, rateCapPercent: 100, subsidisedHoursPerFortnight: null, maxWeeksPerDetermination: null, eligibility: '' },
+    ],
+  },
   withholdingPercent: 5,
 };
 
@@ -57,9 +90,20 @@ export const TEST_TAX_RATES: TaxRates = {
   ],
   medicareLevy: {
     rate: 0.02,
-    lowIncomeThreshold: 26000,
+    lowIncomeThreshold: 27222,
     phaseInRate: 0.10,
-    shadeInThreshold: 32500,
+    shadeInThreshold: 34027,
+    familyIncomeThreshold: 45907,
+    familyThresholdPerChild: 4216,
+  },
+  medicareLevySurcharge: {
+    tiers: [
+      { singleMin: 0,      familyMin: 0,      rate: 0 },
+      { singleMin: 101001, familyMin: 202001, rate: 0.01 },
+      { singleMin: 118001, familyMin: 236001, rate: 0.0125 },
+      { singleMin: 158001, familyMin: 316001, rate: 0.015 },
+    ],
+    familyThresholdPerExtraChild: 1500,
   },
   lito: {
     maxOffset: 700,
@@ -69,6 +113,82 @@ export const TEST_TAX_RATES: TaxRates = {
     phaseOut2Rate: 0.015,
     phaseOut2To: 66667,
   },
+  superannuation: {
+    concessionalContributionsCap: 30000,
+    contributionsTaxRate: 0.15,
+    guaranteeRate: 0.12,
+    maximumContributionBase: 250000,
+  },
+  help: {
+    bands: [
+      { min: 0,      max: 67000,  baseRepayment: 0,    marginalRate: 0,    totalIncomeRate: 0 },
+      { min: 67001,  max: 125000, baseRepayment: 0,    marginalRate: 0.15, totalIncomeRate: 0 },
+      { min: 125001, max: 179285, baseRepayment: 8700, marginalRate: 0.17, totalIncomeRate: 0 },
+      { min: 179286, max: null,   baseRepayment: 0,    marginalRate: 0,    totalIncomeRate: 0.10 },
+    ],
+  },
+};
+
+/** FY 2025-26 Family Tax Benefit rates fixture */
+export const TEST_FTB_RATES: FTBRates = {
+  financialYear: '2025-26',
+  effectiveDate: '2025-07-01',
+  source: 'test fixture',
+  partA: {
+    rates: [
+      { minAge: 0, maxAge: 12, maxRatePerFortnight: 228.06, baseRatePerFortnight: 73.08 },
+      { minAge: 13, maxAge: 19, maxRatePerFortnight: 296.66, baseRatePerFortnight: 73.08 },
+    ],
+    supplementPerChild: 916.15,
+    supplementIncomeLimit: 80000,
+    incomeFreeArea: 66065,
+    maxRateTaper: 0.20,
+    higherIncomeFreeArea: 117530,
+    baseRateTaper: 0.30,
+  },
+  partB: {
+    ratePerFortnightUnder5: 188.86,
+    ratePerFortnight5AndOver: 131.74,
+    maxChildAgeCouple: 12,
+    maxChildAgeSingle: 18,
+    supplement: 459.90,
+    primaryEarnerIncomeLimit: 119022,
+    secondaryEarnerIncomeFreeArea: 6935,
+    secondaryEarnerTaper: 0.20,
+  },
+};
+
+/** FY 2025-26 Parenting Payment rates fixture */
+export const TEST_PP_RATES: ParentingPaymentRates = {
+  financialYear: '2025-26',
+  effectiveDate: '2025-07-01',
+  source: 'test fixture',
+  single: {
+    maxRatePerFortnight: 1051.10,
+    maxChildAge: 13,
+    incomeFreeAreaPerFortnight: 226.40,
+    incomeFreeAreaPerExtraChild: 26.40,
+    taper: 0.40,
+  },
+  partnered: {
+    maxRatePerFortnight: 714.90,
+    maxChildAge: 5,
+    incomeFreeAreaPerFortnight: 150,
+    upperTaperThresholdPerFortnight: 256,
+    lowerTaper: 0.50,
+    upperTaper: 0.60,
+    partnerIncomeFreeAreaPerFortnight: 1277,
+    partnerTaper: 0.60,
+  },
+};
+
+/** FY 2025-26 Paid Parental Leave rates fixture */
+export const TEST_PPL_RATES: PaidParentalLeaveRates = {
+  financialYear: '2025-26',
+  effectiveDate: '2025-07-01',
+  source: 'test fixture',
+  weeklyRate: 948.10,
+  maxWeeks: 24,
 };
 
 /** State averages fixture (subset for testing) */
@@ -107,3 +227,23 @@ export const TEST_STATE_AVERAGES: StateAverageEntry[] = [
     source: 'test fixture',
   },
 ];
+
+/** School start rules fixture (NSW and VIC) */
+export const TEST_SCHOOL_START_RULES: SchoolStartRule[] = [
+  {
+    state: 'NSW',
+    firstYearOfSchool: 'Kindergarten',
+    cutoffMonthDay: '07-31',
+    termOneStartMonthDay: '02-02',
+    lastUpdated: '2025-07-01',
+    source: 'test fixture',
+  },
+  {
+    state: 'VIC',
+    firstYearOfSchool: 'Prep',
+    cutoffMonthDay: '04-30',
+    termOneStartMonthDay: '01-28',
+    lastUpdated: '2025-07-01',
+    source: 'test fixture',
+  },
+];
@@ -0,0 +1,179 @@
+// =============================================================================
+// TESTS — Fortnight Simulator (Financial Year on a Real Calendar)
+// =============================================================================
+
+import {
+  simulateFinancialYear,
+  getClosureWeekStarts,
+  type SimulatedChild,
+} from '../fortnightSimulator';
+import { TEST_CCS_RATES } from './fixtures';
+
+const FULL_HOURS = { hoursBeforeGuarantee: 100, hoursFromGuarantee: 100 };
+
+/** Centre-based child at one CCS% all year */
+function child(dailyFee: number, daysPerWeek: number, ccsPercent: number): SimulatedChild {
+  return {
+    dailyFee,
+    hoursPerDay: 10,
+    daysPerWeek,
+    careType: 'centre_based_day_care',
+    periods: [
+      { startDate: '2025-07-01', endDate: '2026-07-01', ccsPercent, ageGroup: 'below_school_age' },
+    ],
+  };
+}
+
+describe('simulateFinancialYear', () => {
+  it('costs the first fortnight on real dates (worked example)', () => {
+    const { fortnights } = simulateFinancialYear([child(150, 3, 90)], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const first = fortnights[0];
+
+    expect(first.startDate).toBe('2025-07-01');
+    expect(first.endDate).toBe('2025-07-15');
+    expect(first.sessions).toBe(6);          // Tue 1, Wed 2, Mon 7, Tue 8, Wed 9, Mon 14
+    expect(first.grossFee).toBe(900);
+    expect(first.subsidy).toBe(790.02);      // 6 × $131.67
+    expect(first.withholding).toBe(39.5);
+    expect(first.netOutOfPocket).toBe(149.48);
+  });
+
+  it('covers the whole year with a one-day final fortnight', () => {
+    const { fortnights, totals } = simulateFinancialYear([child(150, 3, 90)], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const last = fortnights[fortnights.length - 1];
+
+    expect(fortnights).toHaveLength(27);
+    expect(last.startDate).toBe('2026-06-30');
+    expect(last.endDate).toBe('2026-07-01');
+    expect(last.sessions).toBe(1);
+    expect(totals.sessions).toBe(157);       // 52 weeks × 3 + Tue 30 Jun
+    expect(last.cumulativeNetOutOfPocket).toBe(totals.netOutOfPocket);
+  });
+
+  it('stops subsidy once the annual cap is reached', () => {
+    // $200k → 67%; $180/day × 5 days → $98.02/session, $980.20/fortnight
+    const result = simulateFinancialYear([child(180, 5, 67)], FULL_HOURS, 200000, TEST_CCS_RATES);
+
+    expect(result.capReachedInFortnight).toEqual([12]);  // ceil(11003 / 980.20)
+    expect(result.fortnights[10].children[0].capLimited).toBe(false);
+    expect(result.fortnights[11].children[0].capLimited).toBe(true);
+    expect(result.fortnights[12].subsidy).toBe(0);
+    expect(result.totals.subsidy).toBe(11003);
+  });
+
+  it('does not apply the annual cap to Additional CCS', () => {
+    const accsChild = { ...child(160, 5, 100), additionalCCSStream: 'grandparent' as const };
+    const result = simulateFinancialYear([accsChild], FULL_HOURS, 200000, TEST_CCS_RATES);
+    expect(result.capReachedInFortnight).toEqual([null]);
+    expect(result.fortnights[0].children[0].capLimited).toBe(false);
+    expect(result.totals.subsidy).toBe(result.totals.grossFee);
+  });
+
+  it('does not cap subsidy at or below the income threshold', () => {
+    const result = simulateFinancialYear([child(180, 5, 90)], FULL_HOURS, 85279, TEST_CCS_RATES);
+    expect(result.capReachedInFortnight).toEqual([null]);
+    expect(result.totals.subsidy).toBeGreaterThan(11003);
+  });
+
+  it('raises the activity test limit from the fortnight containing the 3-Day Guarantee', () => {
+    const result = simulateFinancialYear(
+      [child(150, 5, 90)],
+      { hoursBeforeGuarantee: 36, hoursFromGuarantee: 72 },
+      80000,
+      TEST_CCS_RATES
+    );
+    const before = result.fortnights[12];  // 16 Dec – 29 Dec 2025
+    const from = result.fortnights[13];    // 30 Dec 2025 – 12 Jan 2026
+
+    expect(before.subsidisedHoursLimit).toBe(36);
+    expect(from.subsidisedHoursLimit).toBe(72);
+    // 10 sessions × 10 hours = 100 hours; 36 subsidised
+    expect(before.children[0].subsidisedHours).toBe(36);
+    expect(before.subsidy).toBe(474.01);   // $1,316.70 × 36 / 100
+  });
+
+  it('applies a mid-fortnight rate change from that day', () => {
+    const changing: SimulatedChild = {
+      ...child(150, 3, 90),
+      periods: [
+        { startDate: '2025-07-01', endDate: '2026-01-01', ccsPercent: 90, ageGroup: 'below_school_age' },
+        { startDate: '2026-01-01', endDate: '2026-07-01', ccsPercent: 60, ageGroup: 'below_school_age' },
+      ],
+    };
+    const { fortnights } = simulateFinancialYear([changing], FULL_HOURS, 80000, TEST_CCS_RATES);
+
+    // 30 Dec 2025 – 12 Jan 2026: Tue 30, Wed 31 at 90%; Mon 5 – Wed 7, Mon 12 at 60%
+    expect(fortnights[13].sessions).toBe(6);
+    expect(fortnights[13].subsidy).toBe(614.46);  // 2 × $131.67 + 4 × $87.78
+  });
+
+  it('adds each child into the family total', () => {
+    const { fortnights } = simulateFinancialYear(
+      [child(150, 3, 90), child(150, 2, 95)],
+      FULL_HOURS,
+      80000,
+      TEST_CCS_RATES
+    );
+
+    expect(fortnights[0].children).toHaveLength(2);
+    expect(fortnights[0].sessions).toBe(fortnights[0].children[0].sessions + fortnights[0].children[1].sessions);
+    expect(fortnights[0].grossFee).toBe(
+      fortnights[0].children[0].grossFee + fortnights[0].children[1].grossFee
+    );
+  });
+
+  it('stops CCS on absences once the allowance is used', () => {
+    const absent: SimulatedChild = { ...child(150, 3, 90), absenceDays: 60 };
+    const base = simulateFinancialYear([child(150, 3, 90)], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const result = simulateFinancialYear([absent], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const count = (key: 'absences' | 'unsubsidisedAbsences') =>
+      result.fortnights.reduce((sum, f) => sum + f.children[0][key], 0);
+
+    expect(count('absences')).toBe(60);
+    expect(count('unsubsidisedAbsences')).toBe(18);
+    expect(result.totals.grossFee).toBe(base.totals.grossFee);  // absences are still charged
+    expect(base.totals.subsidy - result.totals.subsidy).toBeCloseTo(18 * 131.67, 2);
+
+    // 42 of 60 absences used → about 70% of the way through the year
+    const exhausted = result.absencesExhaustedInFortnight[0]!;
+    expect(exhausted).toBeGreaterThan(17);
+    expect(exhausted).toBeLessThan(21);
+    expect(result.fortnights[exhausted - 2].children[0].unsubsidisedAbsences).toBe(0);
+  });
+
+  it('keeps evidenced absences beyond the allowance subsidised', () => {
+    const absent: SimulatedChild = { ...child(150, 3, 90), absenceDays: 60, evidencedAbsenceDays: 18 };
+    const result = simulateFinancialYear([absent], FULL_HOURS, 80000, TEST_CCS_RATES);
+    expect(result.absencesExhaustedInFortnight[0]).toBeNull();
+  });
+
+  it('charges nothing in closure weeks', () => {
+    const closed: SimulatedChild = { ...child(150, 3, 90), weeksPerYear: 50 };
+    const base = simulateFinancialYear([child(150, 3, 90)], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const result = simulateFinancialYear([closed], FULL_HOURS, 80000, TEST_CCS_RATES);
+    const christmas = result.fortnights.find((f) => f.startDate <= '2025-12-22' && f.endDate > '2025-12-22')!;
+
+    expect(result.totals.sessions).toBe(base.totals.sessions - 6);
+    expect(result.totals.grossFee).toBe(base.totals.grossFee - 6 * 150);
+    expect(christmas.sessions).toBeLessThan(6);
+  });
+});
+
+describe('getClosureWeekStarts', () => {
+  it('closes the weeks after Christmas first (worked example)', () => {
+    expect(getClosureWeekStarts(2, '2025-07-01')).toEqual(['2025-12-22', '2025-12-29']);
+  });
+
+  it('follows Christmas with the school holidays', () => {
+    expect(getClosureWeekStarts(12, '2025-07-01')).toEqual([
+      '2025-12-22', '2025-12-29', '2026-01-05', '2026-01-12', '2026-01-19', '2026-01-26',
+      '2025-07-07', '2025-07-14',
+      '2025-09-22', '2025-09-29',
+      '2026-04-06', '2026-04-13',
+    ]);
+  });
+
+  it('returns no weeks for care all year', () => {
+    expect(getClosureWeekStarts(0, '2025-07-01')).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+// =============================================================================
+// TESTS — Informal Care Schedule
+// =============================================================================
+
+import {
+  countInformalCareDays,
+  getPaidCareDays,
+  encodeInformalCareParam,
+  decodeInformalCareParam,
+} from '../informalCare';
+import type { InformalCareDay } from '../types';
+
+const SCHEDULE: InformalCareDay[] = [
+  { weekday: 'mon', source: 'grandparents' },
+  { weekday: 'wed', source: 'work_from_home' },
+  { weekday: 'fri', source: 'partner' },
+];
+
+describe('countInformalCareDays', () => {
+  it('counts each weekday once', () => {
+    expect(countInformalCareDays(SCHEDULE)).toBe(3);
+    expect(
+      countInformalCareDays([...SCHEDULE, { weekday: 'mon', source: 'other' }])
+    ).toBe(3);
+  });
+
+  it('is zero for an empty schedule', () => {
+    expect(countInformalCareDays([])).toBe(0);
+  });
+});
+
+describe('getPaidCareDays', () => {
+  it('covers working days informally first', () => {
+    // 5 working days, 3 covered → 2 paid
+    expect(getPaidCareDays(5, 1, SCHEDULE)).toEqual({ paidDays: 2, informalDays: 3 });
+  });
+
+  it('never covers more days than are worked', () => {
+    expect(getPaidCareDays(2, 1, SCHEDULE)).toEqual({ paidDays: 1, informalDays: 2 });
+  });
+
+  it('keeps at least the current days in care', () => {
+    expect(getPaidCareDays(4, 3, SCHEDULE)).toEqual({ paidDays: 3, informalDays: 3 });
+  });
+
+  it('pays for every working day without a schedule', () => {
+    expect(getPaidCareDays(4, 2, [])).toEqual({ paidDays: 4, informalDays: 0 });
+  });
+});
+
+describe('encodeInformalCareParam', () => {
+  it('encodes each day as weekday number and source code', () => {
+    expect(encodeInformalCareParam(SCHEDULE)).toBe('1g~3w~5p');
+  });
+
+  it('returns an empty string for no days', () => {
+    expect(encodeInformalCareParam([])).toBe('');
+  });
+});
+
+describe('decodeInformalCareParam', () => {
+  it('round-trips an encoded schedule', () => {
+    expect(decodeInformalCareParam(encodeInformalCareParam(SCHEDULE))).toEqual(SCHEDULE);
+  });
+
+  it('returns undefined for a missing or empty param', () => {
+    expect(decodeInformalCareParam(undefined)).toBeUndefined();
+    expect(decodeInformalCareParam('')).toBeUndefined();
+  });
+
+  it('skips malformed entries and repeated weekdays, sorting by weekday', () => {
+    expect(decodeInformalCareParam('5p~6g~2x~5g~abc~2o')).toEqual([
+      { weekday: 'tue', source: 'other' },
+      { weekday: 'fri', source: 'partner' },
+    ]);
+  });
+});
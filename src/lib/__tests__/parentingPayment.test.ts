@@ -0,0 +1,106 @@
+// =============================================================================
+// TESTS — Parenting Payment
+// =============================================================================
+
+import {
+  calculateParentingPayment,
+  isEligibleForParentingPayment,
+} from '../parentingPayment';
+import { TEST_PP_RATES } from './fixtures';
+
+// ─── isEligibleForParentingPayment ──────────────────────────────────────────
+
+describe('isEligibleForParentingPayment', () => {
+  it('pays single parents while the youngest child is under 14', () => {
+    expect(isEligibleForParentingPayment([13, 15], false, TEST_PP_RATES)).toBe(true);
+    expect(isEligibleForParentingPayment([14], false, TEST_PP_RATES)).toBe(false);
+  });
+
+  it('pays partnered parents while the youngest child is under 6', () => {
+    expect(isEligibleForParentingPayment([5], true, TEST_PP_RATES)).toBe(true);
+    expect(isEligibleForParentingPayment([6, 9], true, TEST_PP_RATES)).toBe(false);
+  });
+
+  it('is not payable without children', () => {
+    expect(isEligibleForParentingPayment([], false, TEST_PP_RATES)).toBe(false);
+  });
+});
+
+// ─── calculateParentingPayment ──────────────────────────────────────────────
+
+describe('calculateParentingPayment', () => {
+  // ── Single ────────────────────────────────────────────────────────────
+
+  it('pays the single maximum rate with no income', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 0, partnerIncome: null, childAges: [2] },
+      TEST_PP_RATES
+    );
+    // $1,051.10 × 365/14
+    expect(result.maxRate).toBe(27403.68);
+    expect(result.annualAmount).toBe(27403.68);
+    expect(result.marginalTaper).toBe(0);
+  });
+
+  it('tapers by 40c per dollar above a free area that rises per child (worked example)', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 30000, partnerIncome: null, childAges: [3, 7] },
+      TEST_PP_RATES
+    );
+    expect(result.incomeReduction).toBe(9363.66);
+    expect(result.annualAmount).toBe(18040.02);
+    expect(result.marginalTaper).toBe(0.4);
+  });
+
+  it('cuts out once income is high enough', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 80000, partnerIncome: null, childAges: [3] },
+      TEST_PP_RATES
+    );
+    expect(result.eligible).toBe(true);
+    expect(result.annualAmount).toBe(0);
+    expect(result.marginalTaper).toBe(0);
+  });
+
+  // ── Partnered ─────────────────────────────────────────────────────────
+
+  it('tapers by 50c per dollar below the upper threshold', () => {
+    // $5,000 = $191.78/fn → 50% × ($191.78 − $150)
+    const result = calculateParentingPayment(
+      { parentIncome: 5000, partnerIncome: 0, childAges: [2] },
+      TEST_PP_RATES
+    );
+    expect(result.annualAmount).toBe(18093.82);
+    expect(result.marginalTaper).toBe(0.5);
+  });
+
+  it('applies both tapers and the partner income test (worked example)', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 10000, partnerIncome: 40000, childAges: [2] },
+      TEST_PP_RATES
+    );
+    expect(result.maxRate).toBe(18638.46);
+    expect(result.incomeReduction).toBe(3377.21);
+    expect(result.partnerIncomeReduction).toBe(4024.07);
+    expect(result.annualAmount).toBe(11237.18);
+    expect(result.marginalTaper).toBe(0.6);
+  });
+
+  it('pays nothing when the partner earns well above their free area', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 0, partnerIncome: 100000, childAges: [2] },
+      TEST_PP_RATES
+    );
+    expect(result.annualAmount).toBe(0);
+  });
+
+  it('returns nothing when the youngest child is too old', () => {
+    const result = calculateParentingPayment(
+      { parentIncome: 0, partnerIncome: 0, childAges: [8] },
+      TEST_PP_RATES
+    );
+    expect(result.eligible).toBe(false);
+    expect(result.maxRate).toBe(0);
+    expect(result.annualAmount).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+// =============================================================================
+// TESTS — Rates Registry (Rates by Financial Year)
+// =============================================================================
+
+import {
+  getAvailableFinancialYears,
+  getCurrentRates,
+  getRatesForFinancialYear,
+  getRatesForDate,
+  resolveFinancialYearParam,
+} from '../ratesRegistry';
+import { calculateCCSPercentage } from '../ccsCalculations';
+
+describe('getAvailableFinancialYears', () => {
+  it('lists years oldest first, including the current year', () => {
+    const years = getAvailableFinancialYears();
+    expect(years).toEqual([...years].sort());
+    expect(years).toContain(getCurrentRates().financialYear);
+  });
+});
+
+describe('getRatesForFinancialYear', () => {
+  it('returns CCS, tax and family payment rates labelled with the same year', () => {
+    for (const year of getAvailableFinancialYears()) {
+      const rates = getRatesForFinancialYear(year);
+      expect(rates.ccs.financialYear).toBe(year);
+      expect(rates.tax.financialYear).toBe(year);
+      expect(rates.ftb.financialYear).toBe(year);
+      expect(rates.parentingPayment.financialYear).toBe(year);
+      expect(rates.paidParentalLeave.financialYear).toBe(year);
+    }
+  });
+
+  it('throws for a year without data', () => {
+    expect(() => getRatesForFinancialYear('2019-20')).toThrow();
+  });
+});
+
+describe('getRatesForDate', () => {
+  it('switches years on 1 July', () => {
+    expect(getRatesForDate('2025-06-30').financialYear).toBe('2024-25');
+    expect(getRatesForDate('2025-07-01').financialYear).toBe('2025-26');
+  });
+
+  it('keeps the newest rates after the last effective date', () => {
+    expect(getRatesForDate('2027-01-01').financialYear).toBe('2025-26');
+  });
+
+  it('throws before the oldest year', () => {
+    expect(() => getRatesForDate('2024-06-30')).toThrow();
+  });
+});
+
+describe('getCurrentRates', () => {
+  it('picks the year in force on the date', () => {
+    expect(getCurrentRates('2025-06-30').financialYear).toBe('2024-25');
+    expect(getCurrentRates('2025-07-01').financialYear).toBe('2025-26');
+    expect(getCurrentRates('2027-01-01').financialYear).toBe('2025-26');
+  });
+
+  it('falls back to the newest year before the oldest effective date', () => {
+    expect(getCurrentRates('2020-01-01').financialYear).toBe('2025-26');
+  });
+});
+
+describe('resolveFinancialYearParam', () => {
+  it('returns the requested year', () => {
+    expect(resolveFinancialYearParam('2024-25', '2025-08-01').financialYear).toBe('2024-25');
+  });
+
+  it('falls back to the year in force for missing or unknown values', () => {
+    expect(resolveFinancialYearParam(undefined, '2025-03-01').financialYear).toBe('2024-25');
+    expect(resolveFinancialYearParam('1999-00', '2025-08-01').financialYear).toBe('2025-26');
+    expect(resolveFinancialYearParam(undefined).financialYear).toBe(
+      getCurrentRates().financialYear
+    );
+  });
+});
+
+describe('FY 2024–25 rates', () => {
+  const { ccs } = getRatesForFinancialYear('2024-25');
+
+  it('applies the maximum rate up to the $83,280 threshold', () => {
+    expect(calculateCCSPercentage(83280, ccs).percent).toBe(90);
+    expect(calculateCCSPercentage(83281, ccs).percent).toBe(89);
+  });
+});
@@ -0,0 +1,116 @@
+// =============================================================================
+// TESTS — End-of-Year Reconciliation
+// =============================================================================
+
+import {
+  reconcileYear,
+  compareWithholdingOptions,
+  type ReconciliationChild,
+} from '../reconciliation';
+import { TEST_CCS_RATES } from './fixtures';
+
+const BOTH_WORKING = { activityHoursPerFortnight: 76, partnerActivityHoursPerFortnight: 76 };
+
+/** Centre-based child aged 3, $150/day × 10hr, all year on one rate */
+function child(daysPerWeek: number, usesHigherRate = false): ReconciliationChild {
+  return {
+    dailyFee: 150,
+    hoursPerDay: 10,
+    daysPerWeek,
+    careType: 'centre_based_day_care',
+    periods: [{ shareOfYear: 1, ageGroup: 'below_school_age', usesHigherRate }],
+  };
+}
+
+describe('reconcileYear', () => {
+  it('creates a debt when the overpayment exceeds the withholding (worked example)', () => {
+    const r = reconcileYear([child(1)], BOTH_WORKING, 90000, 120000, TEST_CCS_RATES);
+    expect(r.estimatedPercent).toBe(89);
+    expect(r.actualPercent).toBe(83);
+    expect(r.subsidyPaid).toBeCloseTo(6770.92, 2);
+    expect(r.withheld).toBeCloseTo(338.55, 2);
+    expect(r.subsidyEntitled).toBeCloseTo(6314.36, 2);
+    expect(r.overpayment).toBeCloseTo(456.56, 2);
+    expect(r.balance).toBeCloseTo(-118.01, 2);
+    expect(r.debt).toBeCloseTo(118.01, 2);
+    expect(r.topUp).toBe(0);
+    expect(r.withholdingAbsorbsDebt).toBe(false);
+  });
+
+  it('absorbs a small overpayment in the withholding', () => {
+    const r = reconcileYear([child(1)], BOTH_WORKING, 90000, 95000, TEST_CCS_RATES);
+    expect(r.overpayment).toBeGreaterThan(0);
+    expect(r.overpayment).toBeLessThan(r.withheld);
+    expect(r.debt).toBe(0);
+    expect(r.topUp).toBeCloseTo(r.withheld - r.overpayment, 2);
+    expect(r.withholdingAbsorbsDebt).toBe(true);
+  });
+
+  it('returns the withholding as a top-up when the estimate was exact', () => {
+    const r = reconcileYear([child(1)], BOTH_WORKING, 90000, 90000, TEST_CCS_RATES);
+    expect(r.subsidyEntitled).toBe(r.subsidyPaid);
+    expect(r.topUp).toBe(r.withheld);
+  });
+
+  it('tops up the difference when income was over-estimated', () => {
+    const r = reconcileYear([child(1)], BOTH_WORKING, 100000, 90000, TEST_CCS_RATES);
+    expect(r.subsidyEntitled).toBeGreaterThan(r.subsidyPaid);
+    expect(r.topUp).toBeCloseTo(r.subsidyEntitled - r.subsidyPaid + r.withheld, 2);
+  });
+
+  it('applies the annual cap at actual income', () => {
+    // 3 days/week: uncapped subsidy exceeds the cap once income is above the threshold
+    const r = reconcileYear([child(3)], BOTH_WORKING, 80000, 100000, TEST_CCS_RATES);
+    expect(r.subsidyEntitled).toBe(TEST_CCS_RATES.annualSubsidyCap.capAmountPerChild);
+    expect(r.debt).toBeGreaterThan(0);
+  });
+
+  it('recalculates the higher rate for younger children', () => {
+    const r = reconcileYear([child(1), child(1, true)], BOTH_WORKING, 90000, 120000, TEST_CCS_RATES);
+    expect(r.children).toHaveLength(2);
+    expect(r.children[1].entitled.subsidyPerYear).toBeGreaterThan(r.children[0].entitled.subsidyPerYear);
+    expect(r.subsidyPaid).toBeCloseTo(
+      r.children[0].paid.subsidyPerYear + r.children[1].paid.subsidyPerYear,
+      2
+    );
+  });
+
+  it('throws without children', () => {
+    expect(() => reconcileYear([], BOTH_WORKING, 90000, 90000, TEST_CCS_RATES)).toThrow();
+  });
+
+  it('uses the withholding percentage it is given', () => {
+    const r = reconcileYear([child(1)], BOTH_WORKING, 90000, 120000, TEST_CCS_RATES, 10);
+    expect(r.withholdingPercent).toBe(10);
+    expect(r.withheld).toBeCloseTo(677.09, 2);
+    expect(r.debt).toBe(0);
+  });
+
+  it('rejects withholding outside 0–100%', () => {
+    expect(() => reconcileYear([child(1)], BOTH_WORKING, 90000, 90000, TEST_CCS_RATES, 101)).toThrow();
+  });
+});
+
+describe('compareWithholdingOptions', () => {
+  it('suggests the lowest option that avoids a debt (worked example)', () => {
+    const c = compareWithholdingOptions([child(1)], BOTH_WORKING, 90000, 120000, TEST_CCS_RATES);
+    expect(c.requiredPercent).toBe(7);
+    expect(c.suggestedPercent).toBe(10);
+    expect(c.options[0].debt).toBeGreaterThan(0);
+    expect(c.options[1].debt).toBe(0);
+  });
+
+  it('costs more per fortnight at higher withholding', () => {
+    const { options } = compareWithholdingOptions([child(1)], BOTH_WORKING, 90000, 120000, TEST_CCS_RATES);
+    expect(options[1].netOutOfPocketPerFortnight - options[0].netOutOfPocketPerFortnight).toBeCloseTo(13.02, 2);
+    expect(options[options.length - 1].withholdingPercent).toBe(100);
+    // Subsidy paid and entitlement don't depend on withholding
+    expect(new Set(options.map((o) => o.subsidyEntitled)).size).toBe(1);
+  });
+
+  it('keeps the standard level when income is not under-estimated', () => {
+    const c = compareWithholdingOptions([child(1)], BOTH_WORKING, 90000, 90000, TEST_CCS_RATES);
+    expect(c.requiredPercent).toBe(0);
+    expect(c.suggestedPercent).toBe(5);
+  });
+});
@@ -7,8 +7,16 @@ import {
   resolveAgeGroup,
   resolveDailyFee,
   resolveHoursPerDay,
+  resolveWeeksOfCare,
+  resolveDaysWorking,
+  resolveFullTimeIncome,
+  resolveNumberOfChildren,
+  resolveAdditionalCCSStream,
   isEligibleForHigherRate,
   resolveInputs,
+  resolveChildren,
+  synthesiseChildren,
+  findEldestChildIndex,
   INCOME_RANGE_MIDPOINTS,
   DEFAULT_HOURS_PER_DAY,
   type IncomeRange,
@@ -155,6 +163,85 @@ describe('resolveHoursPerDay', () => {
   });
 });
 
+// ─── resolveWeeksOfCare ─────────────────────────────────────────────────────
+
+describe('resolveWeeksOfCare', () => {
+  it('returns the weeks entered', () => {
+    expect(resolveWeeksOfCare(48)).toBe(48);
+  });
+
+  it('defaults to all year when missing or not positive', () => {
+    expect(resolveWeeksOfCare(undefined)).toBe(52);
+    expect(resolveWeeksOfCare(0)).toBe(52);
+  });
+
+  it('caps weeks at 52', () => {
+    expect(resolveWeeksOfCare(60)).toBe(52);
+  });
+});
+
+// ─── resolveDaysWorking ─────────────────────────────────────────────────────
+
+describe('resolveDaysWorking', () => {
+  it('returns the days entered, rounded into 0–5', () => {
+    expect(resolveDaysWorking(3, 5)).toBe(3);
+    expect(resolveDaysWorking(0, 5)).toBe(0);
+    expect(resolveDaysWorking(7, 5)).toBe(5);
+    expect(resolveDaysWorking(-1, 5)).toBe(0);
+  });
+
+  it('falls back when missing or invalid', () => {
+    expect(resolveDaysWorking(undefined, 5)).toBe(5);
+    expect(resolveDaysWorking(NaN, 0)).toBe(0);
+  });
+});
+
+// ─── resolveFullTimeIncome ──────────────────────────────────────────────────
+
+describe('resolveFullTimeIncome', () => {
+  it('uses the full-time salary entered', () => {
+    expect(resolveFullTimeIncome(120000, 80000, 4)).toBe(120000);
+  });
+
+  it('scales the current income up to 5 days when none is entered', () => {
+    expect(resolveFullTimeIncome(undefined, 80000, 4)).toBe(100000);
+    expect(resolveFullTimeIncome(0, 60000, 3)).toBe(100000);
+  });
+
+  it('keeps the current income for a parent not working now', () => {
+    expect(resolveFullTimeIncome(NaN, 20000, 0)).toBe(20000);
+  });
+});
+
+// ─── resolveNumberOfChildren ────────────────────────────────────────────────
+
+describe('resolveNumberOfChildren', () => {
+  it('returns the count entered, rounded into 1–3', () => {
+    expect(resolveNumberOfChildren(2, 1)).toBe(2);
+    expect(resolveNumberOfChildren(5, 1)).toBe(3);
+    expect(resolveNumberOfChildren(0, 1)).toBe(1);
+  });
+
+  it('falls back when missing or invalid', () => {
+    expect(resolveNumberOfChildren(undefined, 1)).toBe(1);
+    expect(resolveNumberOfChildren(NaN, 2)).toBe(2);
+  });
+});
+
+// ─── resolveAdditionalCCSStream ─────────────────────────────────────────────
+
+describe('resolveAdditionalCCSStream', () => {
+  it('returns a known stream', () => {
+    expect(resolveAdditionalCCSStream('transition_to_work')).toBe('transition_to_work');
+  });
+
+  it('returns null for empty or unknown values', () => {
+    expect(resolveAdditionalCCSStream('')).toBeNull();
+    expect(resolveAdditionalCCSStream(undefined)).toBeNull();
+    expect(resolveAdditionalCCSStream('other')).toBeNull();
+  });
+});
+
 // ─── isEligibleForHigherRate ────────────────────────────────────────────────
 
 describe('isEligibleForHigherRate', () => {
@@ -192,6 +279,8 @@ describe('resolveInputs', () => {
     hoursPerDay: 10,
     feePerDay: 150,
     useStateAverage: false,
+    activityHoursPerFortnight: 76,
+    partnerActivityHoursPerFortnight: 76,
     includeBackToWork: false,
     currentAnnualIncome: 0,
     proposedAnnualIncome: 0,
@@ -288,3 +377,144 @@ describe('resolveInputs', () => {
     expect(resolved.workRelatedCostsPerWeek).toBe(75);
   });
 });
+
+// ─── Per-child resolution ──────────────────────────────────────────────────
+
+describe('resolveChildren', () => {
+  const baseInputs: WizardInputs = {
+    numberOfChildren: 2,
+    youngestChildAge: 'under_6',
+    combinedAnnualIncome: 100000,
+    careType: 'centre_based_day_care',
+    state: 'NSW',
+    daysPerWeek: 3,
+    hoursPerDay: 10,
+    feePerDay: 150,
+    useStateAverage: false,
+    activityHoursPerFortnight: 76,
+    partnerActivityHoursPerFortnight: 76,
+    includeBackToWork: false,
+    currentAnnualIncome: 0,
+    proposedAnnualIncome: 0,
+    workRelatedCostsPerWeek: 0,
+  };
+
+  it('synthesises identical children from the shared arrangement', () => {
+    const children = synthesiseChildren(baseInputs);
+
+    expect(children).toHaveLength(2);
+    expect(children[0]).toEqual({
+      ageYears: 3,
+      careType: 'centre_based_day_care',
+      daysPerWeek: 3,
+      hoursPerDay: 10,
+      feePerDay: 150,
+    });
+  });
+
+  it('keeps the eldest on the standard rate for the shared arrangement', () => {
+    const children = resolveChildren(baseInputs, TEST_STATE_AVERAGES);
+
+    expect(children.map((c) => c.isEldest)).toEqual([true, false]);
+    expect(children.map((c) => c.usesHigherRate)).toEqual([false, true]);
+  });
+
+  it('gives the higher rate to the younger of two children aged 5 or under', () => {
+    const inputs: WizardInputs = {
+      ...baseInputs,
+      children: [
+        { ageYears: 2, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: null, feePerDay: 150 },
+        { ageYears: 4, careType: 'family_day_care', daysPerWeek: 2, hoursPerDay: null, feePerDay: null },
+      ],
+    };
+    const children = resolveChildren(inputs, TEST_STATE_AVERAGES);
+
+    expect(children[0].usesHigherRate).toBe(true);
+    expect(children[1].usesHigherRate).toBe(false);
+    expect(children[1].isEldest).toBe(true);
+    expect(children[1].dailyFee).toBe(128); // NSW FDC average
+    expect(children[1].usingStateAverage).toBe(true);
+  });
+
+  it('keeps a child aged 5 or under on the standard rate when the sibling is school age', () => {
+    const inputs: WizardInputs = {
+      ...baseInputs,
+      children: [
+        { ageYears: 4, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: null, feePerDay: 150 },
+        { ageYears: 8, careType: 'outside_school_hours', daysPerWeek: 5, hoursPerDay: null, feePerDay: null },
+      ],
+    };
+    const children = resolveChildren(inputs, TEST_STATE_AVERAGES);
+
+    expect(children.map((c) => c.usesHigherRate)).toEqual([false, false]);
+    expect(children[1].ageGroup).toBe('school_age');
+    expect(children[1].dailyFee).toBe(50); // NSW OSHC average
+  });
+
+  it('summarises per-child inputs in the resolved single-arrangement fields', () => {
+    const inputs: WizardInputs = {
+      ...baseInputs,
+      numberOfChildren: 3,
+      children: [
+        { ageYears: 8, careType: 'outside_school_hours', daysPerWeek: 5, hoursPerDay: null, feePerDay: null },
+        { ageYears: 1, careType: 'centre_based_day_care', daysPerWeek: 4, hoursPerDay: 11, feePerDay: 160 },
+      ],
+    };
+    const resolved = resolveInputs(inputs, TEST_STATE_AVERAGES);
+
+    expect(resolved.hasPerChildInputs).toBe(true);
+    expect(resolved.numberOfChildren).toBe(2);
+    expect(resolved.eligibleForHigherRate).toBe(false);
+    expect(resolved.daysPerWeek).toBe(4);
+    expect(resolved.dailyFee).toBe(160);
+  });
+
+  it('defaults absences to none', () => {
+    const inputs: WizardInputs = {
+      ...baseInputs,
+      children: [
+        { ageYears: 2, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: null, feePerDay: 150, absenceDaysPerYear: 50, evidencedAbsenceDaysPerYear: 4 },
+        { ageYears: 4, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: null, feePerDay: 150 },
+      ],
+    };
+    const children = resolveChildren(inputs, TEST_STATE_AVERAGES);
+
+    expect(children[0].absenceDaysPerYear).toBe(50);
+    expect(children[0].evidencedAbsenceDaysPerYear).toBe(4);
+    expect(children[1].absenceDaysPerYear).toBe(0);
+    expect(children[1].evidencedAbsenceDaysPerYear).toBe(0);
+  });
+
+  it('uses the shared weeks of care unless a child has their own', () => {
+    const inputs: WizardInputs = {
+      ...baseInputs,
+      weeksOfCarePerYear: 50,
+      children: [
+        { ageYears: 2, careType: 'centre_based_day_care', daysPerWeek: 3, hoursPerDay: null, feePerDay: 150 },
+        { ageYears: 7, careType: 'outside_school_hours', daysPerWeek: 3, hoursPerDay: null, feePerDay: 60, weeksPerYear: 40 },
+      ],
+    };
+    const children = resolveChildren(inputs, TEST_STATE_AVERAGES);
+
+    expect(children[0].weeksPerYear).toBe(50);
+    expect(children[1].weeksPerYear).toBe(40);
+  });
+});
+
+describe('findEldestChildIndex', () => {
+  const child = (ageYears: number) => ({
+    ageYears,
+    careType: 'centre_based_day_care' as const,
+    daysPerWeek: 3,
+    hoursPerDay: null,
+    feePerDay: null,
+  });
+
+  it('returns the oldest child, preferring the first listed on a tie', () => {
+    expect(findEldestChildIndex([child(2), child(7), child(7)])).toBe(1);
+  });
+
+  it('returns null when no child matches the filter', () => {
+    expect(findEldestChildIndex([child(8), child(10)], (c) => c.ageYears <= 5)).toBeNull();
+  });
+});
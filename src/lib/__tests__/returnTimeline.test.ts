@@ -0,0 +1,99 @@
+// =============================================================================
+// TESTS — Return Timeline (Paid Parental Leave and Return Date)
+// =============================================================================
+
+import {
+  buildReturnTimeline,
+  encodeReturnTimelineParam,
+  decodeReturnTimelineParam,
+} from '../returnTimeline';
+import type { ReturnTimeline } from '../types';
+import { TEST_PPL_RATES } from './fixtures';
+
+// 24 weeks of PPL, back at work 2 February, care from 19 January
+const TIMELINE: ReturnTimeline = {
+  pplWeeks: TEST_PPL_RATES.maxWeeks,
+  pplWeeklyRate: TEST_PPL_RATES.weeklyRate,
+  returnDate: '2026-02-02',
+  careStartDate: '2026-01-19',
+};
+
+describe('buildReturnTimeline', () => {
+  const result = buildReturnTimeline(TIMELINE, '2025-07-01');
+
+  it('splits the year at the PPL start, care start and return dates', () => {
+    expect(result.pplStartDate).toBe('2025-08-18');
+    expect(result.segments.map((s) => [s.startDate, s.days])).toEqual([
+      ['2025-07-01', 48],
+      ['2025-08-18', 154],
+      ['2026-01-19', 14],
+      ['2026-02-02', 149],
+    ]);
+    expect(result.segments.map((s) => [s.onPaidParentalLeave, s.inCare, s.atWork])).toEqual([
+      [false, false, false],
+      [true, false, false],
+      [true, true, false],
+      [false, true, true],
+    ]);
+  });
+
+  it('counts PPL paid within the year as income', () => {
+    expect(result.pplDaysInYear).toBe(168);
+    // $948.10 × 24
+    expect(result.pplIncome).toBe(22754.4);
+  });
+
+  it('works out the shares of the year before leave, at work and in care', () => {
+    expect(result.preLeaveShareOfYear).toBeCloseTo(48 / 365, 6);
+    expect(result.workingShareOfYear).toBeCloseTo(149 / 365, 6);
+    expect(result.careShareOfYear).toBeCloseTo(163 / 365, 6);
+  });
+
+  it('counts only the PPL within the year when leave started the year before', () => {
+    const early = buildReturnTimeline(
+      { ...TIMELINE, returnDate: '2025-09-01', careStartDate: '2025-09-01' },
+      '2025-07-01'
+    );
+    // PPL from 2025-03-17; 62 days fall from 1 July
+    expect(early.pplDaysInYear).toBe(62);
+    expect(early.pplIncome).toBe(8397.46);
+    expect(early.segments).toHaveLength(2);
+  });
+
+  it('covers the whole year when the return and care dates are before it', () => {
+    const before = buildReturnTimeline(
+      { ...TIMELINE, returnDate: '2025-01-06', careStartDate: '2024-12-02' },
+      '2025-07-01'
+    );
+    expect(before.segments).toHaveLength(1);
+    expect(before.pplIncome).toBe(0);
+    expect(before.preLeaveShareOfYear).toBe(0);
+    expect(before.workingShareOfYear).toBe(1);
+    expect(before.careShareOfYear).toBe(1);
+  });
+
+  it('rejects negative PPL weeks or rates', () => {
+    expect(() => buildReturnTimeline({ ...TIMELINE, pplWeeks: -1 }, '2025-07-01')).toThrow(
+      'PPL weeks and weekly rate cannot be negative.'
+    );
+  });
+});
+
+describe('encodeReturnTimelineParam / decodeReturnTimelineParam', () => {
+  it('encodes the dates, weeks and rate in order', () => {
+    expect(encodeReturnTimelineParam(TIMELINE)).toBe('2026-02-02~2026-01-19~24~948.1');
+  });
+
+  it('round-trips a timeline', () => {
+    expect(decodeReturnTimelineParam(encodeReturnTimelineParam(TIMELINE))).toEqual(TIMELINE);
+  });
+
+  it('returns undefined for empty or malformed values', () => {
+    expect(decodeReturnTimelineParam(undefined)).toBeUndefined();
+    expect(decodeReturnTimelineParam('')).toBeUndefined();
+    expect(decodeReturnTimelineParam('2026-02-30~2026-01-19~24~948.1')).toBeUndefined();
+    expect(decodeReturnTimelineParam('2026-02-02~soon~24~948.1')).toBeUndefined();
+    expect(decodeReturnTimelineParam('2026-02-02~2026-01-19~-2~948.1')).toBeUndefined();
+    expect(decodeReturnTimelineParam('2026-02-02~2026-01-19~24')).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+// =============================================================================
+// TESTS — Salary Sacrifice Near a CCS Bracket Boundary
+// =============================================================================
+
+import { calculateSalarySacrifice, type SalarySacrificeParams } from '../salarySacrifice';
+import { EMPTY_ATI_COMPONENTS } from '../adjustedTaxableIncome';
+import { calculateIncomeTax } from '../taxCalculations';
+import { TEST_CCS_RATES, TEST_TAX_RATES } from './fixtures';
+
+// Single parent on $102,000, $150/day × 10hr, 3 days
+const baseParams: SalarySacrificeParams = {
+  parent: { ...EMPTY_ATI_COMPONENTS, taxableIncome: 102000 },
+  partner: null,
+  dailyFee: 150,
+  hoursPerDay: 10,
+  daysPerWeek: 3,
+  careType: 'centre_based_day_care',
+  ageGroup: 'below_school_age',
+};
+
+describe('calculateSalarySacrifice', () => {
+  const result = calculateSalarySacrifice(baseParams, TEST_CCS_RATES, TEST_TAX_RATES)!;
+
+  it('finds the amount over the bracket boundary', () => {
+    expect(result.current.ccsPercent).toBe(86);
+    expect(result.bracketBoundary).toBe(100279);
+    expect(result.amountOverBoundary).toBe(1721);
+    expect(result.withSacrifice.sacrifice).toBe(1721);
+    expect(result.limitedByCap).toBe(false);
+  });
+
+  it('lowers taxable income and take-home pay', () => {
+    expect(result.withSacrifice.taxableIncome).toBe(100279);
+    expect(result.withSacrifice.netIncome).toBe(
+      calculateIncomeTax(100279, TEST_TAX_RATES).netIncome
+    );
+    // 32% (30% tax + 2% Medicare) of $1,721 saved → $1,170.28 less cash
+    expect(result.netTakeHomeChange).toBeCloseTo(-1170.28, 2);
+  });
+
+  it('adds the sacrifice to super after 15% contributions tax', () => {
+    expect(result.superGained).toBe(1462.85);
+  });
+
+  it('leaves ATI and CCS unchanged, as reportable super is added back', () => {
+    expect(result.withSacrifice.familyATI).toBe(102000);
+    expect(result.withSacrifice.ccsPercent).toBe(86);
+    expect(result.reachesLowerBracket).toBe(false);
+    expect(result.ccsGained).toBe(0);
+    expect(result.totalBenefit).toBeCloseTo(292.57, 2);
+  });
+
+  it("includes the partner's ATI in the family income", () => {
+    const partnered = calculateSalarySacrifice(
+      {
+        ...baseParams,
+        parent: { ...EMPTY_ATI_COMPONENTS, taxableIncome: 60000 },
+        partner: { ...EMPTY_ATI_COMPONENTS, taxableIncome: 42000 },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    )!;
+    expect(partnered.current.familyATI).toBe(102000);
+    expect(partnered.withSacrifice.taxableIncome).toBe(58279);
+  });
+
+  it('limits the sacrifice to the room left under the concessional cap', () => {
+    const nearCap = calculateSalarySacrifice(
+      {
+        ...baseParams,
+        parent: {
+          ...EMPTY_ATI_COMPONENTS,
+          taxableIncome: 94000,
+          reportableSuperContributions: 29000,
+        },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    )!;
+    // ATI $123,000 → boundary $120,279, $2,721 over; only $1,000 of cap left
+    expect(nearCap.amountOverBoundary).toBe(2721);
+    expect(nearCap.withSacrifice.sacrifice).toBe(1000);
+    expect(nearCap.limitedByCap).toBe(true);
+  });
+
+  it('returns null at the maximum CCS rate', () => {
+    expect(
+      calculateSalarySacrifice(
+        { ...baseParams, parent: { ...EMPTY_ATI_COMPONENTS, taxableIncome: 80000 } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toBeNull();
+  });
+
+  it('returns null once CCS has tapered to nothing', () => {
+    expect(
+      calculateSalarySacrifice(
+        { ...baseParams, parent: { ...EMPTY_ATI_COMPONENTS, taxableIncome: 600000 } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toBeNull();
+  });
+});
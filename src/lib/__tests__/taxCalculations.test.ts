@@ -6,6 +6,8 @@ import {
   calculateBaseIncomeTax,
   calculateMedicareLevy,
   calculateLITO,
+  calculateHELPRepayment,
+  calculateMedicareLevySurcharge,
   calculateIncomeTax,
   calculateNetIncome,
 } from '../taxCalculations';
@@ -70,25 +72,26 @@ describe('calculateBaseIncomeTax', () => {
 describe('calculateMedicareLevy', () => {
   const medicare = TEST_TAX_RATES.medicareLevy;
 
-  it('returns $0 below the low-income threshold ($26,000)', () => {
+  it('returns $0 below the low-income threshold ($27,222)', () => {
     expect(calculateMedicareLevy(20000, medicare)).toBe(0);
   });
 
-  it('returns $0 at exactly $26,000', () => {
-    expect(calculateMedicareLevy(26000, medicare)).toBe(0);
+  it('returns $0 at exactly $27,222', () => {
+    expect(calculateMedicareLevy(27222, medicare)).toBe(0);
   });
 
-  it('phases in at $26,001 — 10c × $1 = $0.10', () => {
-    expect(calculateMedicareLevy(26001, medicare)).toBeCloseTo(0.10, 2);
+  it('phases in at $27,223 — 10c × $1 = $0.10', () => {
+    expect(calculateMedicareLevy(27223, medicare)).toBeCloseTo(0.10, 2);
   });
 
-  it('phases in at $29,250 — 10c × $3,250 = $325', () => {
-    expect(calculateMedicareLevy(29250, medicare)).toBe(325);
+  it('phases in at $30,222 — 10c × $3,000 = $300', () => {
+    expect(calculateMedicareLevy(30222, medicare)).toBe(300);
   });
 
-  it('reaches full rate at shade-in threshold ($32,500) — 10c × $6,500 = $650', () => {
-    // This should also equal 2% × $32,500 = $650
-    expect(calculateMedicareLevy(32500, medicare)).toBe(650);
+  it('reaches full rate at shade-in threshold ($34,027) — 10c × $6,805 = $680.50', () => {
+    // Within a few cents of 2% × $34,027 = $680.54
+    expect(calculateMedicareLevy(34027, medicare)).toBe(680.5);
+    expect(calculateMedicareLevy(34028, medicare)).toBe(680.56);
   });
 
   it('returns 2% of income above shade-in — $50,000 → $1,000', () => {
@@ -98,6 +101,30 @@ describe('calculateMedicareLevy', () => {
   it('returns $2,000 at $100,000', () => {
     expect(calculateMedicareLevy(100000, medicare)).toBe(2000);
   });
+
+  it('returns $0 for a family at or below the family threshold', () => {
+    // Two children: $45,907 + 2 × $4,216 = $54,339
+    const family = { familyIncome: 54339, dependentChildren: 2 };
+    expect(calculateMedicareLevy(40000, medicare, family)).toBe(0);
+  });
+
+  it("shares the family's phase-in levy between spouses by income", () => {
+    // 10% × ($60,000 − $54,339) = $566.10; share = $566.10 × 40/60
+    const family = { familyIncome: 60000, dependentChildren: 2 };
+    expect(calculateMedicareLevy(40000, medicare, family)).toBe(377.4);
+  });
+
+  it('applies the family threshold to a single parent on their own income', () => {
+    // One child: $45,907 + $4,216 = $50,123 → $0 on $45,000
+    const family = { familyIncome: 45000, dependentChildren: 1 };
+    expect(calculateMedicareLevy(45000, medicare, family)).toBe(0);
+    expect(calculateMedicareLevy(45000, medicare)).toBe(900);
+  });
+
+  it('never exceeds the individual levy', () => {
+    const family = { familyIncome: 150000, dependentChildren: 1 };
+    expect(calculateMedicareLevy(50000, medicare, family)).toBe(1000);
+  });
 });
 
 // ─── 2.5c: calculateLITO ───────────────────────────────────────────────────
@@ -215,6 +242,124 @@ describe('calculateIncomeTax', () => {
     expect(result.totalTax).toBe(0); // Medicare also $0 (below $26k)
     expect(result.netIncome).toBe(20000);
   });
+
+  it('has no HELP repayment without a HELP debt', () => {
+    expect(calculateIncomeTax(100000, TEST_TAX_RATES).helpRepayment).toBe(0);
+  });
+
+  it('takes the HELP repayment out of net income, not total tax', () => {
+    // HELP at $100,000: 15% × $33,000 = $4,950
+    const result = calculateIncomeTax(100000, TEST_TAX_RATES, { hasHELPDebt: true });
+    expect(result.helpRepayment).toBe(4950);
+    expect(result.totalTax).toBe(22788);
+    expect(result.netIncome).toBe(72262);
+  });
+
+  it('has no Medicare levy surcharge with private hospital cover', () => {
+    expect(calculateIncomeTax(150000, TEST_TAX_RATES).medicareLevySurcharge).toBe(0);
+  });
+
+  it('adds the Medicare levy surcharge to total tax without hospital cover', () => {
+    // Single on $110,000: tier 1, 1% × $110,000 = $1,100
+    const covered = calculateIncomeTax(110000, TEST_TAX_RATES);
+    const result = calculateIncomeTax(110000, TEST_TAX_RATES, { privateHospitalCover: false });
+    expect(result.medicareLevySurcharge).toBe(1100);
+    expect(result.totalTax).toBe(covered.totalTax + 1100);
+    expect(result.netIncome).toBe(covered.netIncome - 1100);
+  });
+
+  it('uses combined family income for the surcharge tier', () => {
+    const family = { familyIncome: 210000, dependentChildren: 2 };
+    const result = calculateIncomeTax(90000, TEST_TAX_RATES, {
+      family,
+      privateHospitalCover: false,
+    });
+    expect(result.medicareLevySurcharge).toBe(900);
+  });
+
+  it('charges no surcharge below the Medicare low-income threshold', () => {
+    const family = { familyIncome: 320000, dependentChildren: 1 };
+    const result = calculateIncomeTax(20000, TEST_TAX_RATES, {
+      family,
+      privateHospitalCover: false,
+    });
+    expect(result.medicareLevySurcharge).toBe(0);
+  });
+});
+
+// ─── 2.5d: calculateHELPRepayment ───────────────────────────────────────────
+
+describe('calculateHELPRepayment', () => {
+  const help = TEST_TAX_RATES.help;
+
+  it('returns $0 at or below the $67,000 threshold', () => {
+    expect(calculateHELPRepayment(0, help)).toBe(0);
+    expect(calculateHELPRepayment(60000, help)).toBe(0);
+    expect(calculateHELPRepayment(67000, help)).toBe(0);
+  });
+
+  it('repays 15c per dollar above the threshold', () => {
+    expect(calculateHELPRepayment(67001, help)).toBeCloseTo(0.15, 2);
+    expect(calculateHELPRepayment(80000, help)).toBe(1950);
+    expect(calculateHELPRepayment(125000, help)).toBe(8700);
+  });
+
+  it('repays $8,700 plus 17c per dollar above $125,000', () => {
+    expect(calculateHELPRepayment(150000, help)).toBe(12950);
+  });
+
+  it('repays 10% of total income in the top band', () => {
+    expect(calculateHELPRepayment(200000, help)).toBe(20000);
+  });
+
+  it('keeps incomes with cents between bands in the lower band', () => {
+    expect(calculateHELPRepayment(67000.2, help)).toBeCloseTo(0.03, 2);
+    expect(calculateHELPRepayment(125000.5, help)).toBeCloseTo(8700.08, 2);
+  });
+
+  it('applies a percentage of total income for older band data', () => {
+    const percentageSystem = {
+      bands: [
+        { min: 0, max: 54434, baseRepayment: 0, marginalRate: 0, totalIncomeRate: 0 },
+        { min: 54435, max: null, baseRepayment: 0, marginalRate: 0, totalIncomeRate: 0.01 },
+      ],
+    };
+    expect(calculateHELPRepayment(60000, percentageSystem)).toBe(600);
+  });
+});
+
+// ─── 2.5e: calculateMedicareLevySurcharge ───────────────────────────────────
+
+describe('calculateMedicareLevySurcharge', () => {
+  const mls = TEST_TAX_RATES.medicareLevySurcharge;
+
+  it('returns $0 in the base tier', () => {
+    expect(calculateMedicareLevySurcharge(0, mls)).toBe(0);
+    expect(calculateMedicareLevySurcharge(101000, mls)).toBe(0);
+  });
+
+  it('charges singles at the tier for their own income', () => {
+    expect(calculateMedicareLevySurcharge(110000, mls)).toBe(1100);
+    expect(calculateMedicareLevySurcharge(120000, mls)).toBe(1500);
+    expect(calculateMedicareLevySurcharge(200000, mls)).toBe(3000);
+  });
+
+  it('charges families at the tier for their combined income', () => {
+    const family = { familyIncome: 200000, dependentChildren: 1 };
+    expect(calculateMedicareLevySurcharge(150000, mls, family)).toBe(0);
+    const higher = { familyIncome: 240000, dependentChildren: 1 };
+    expect(calculateMedicareLevySurcharge(150000, mls, higher)).toBe(1875);
+  });
+
+  it('raises family tiers by $1,500 for each child after the first', () => {
+    // Two children: tier 1 starts at $203,501
+    expect(
+      calculateMedicareLevySurcharge(90000, mls, { familyIncome: 203000, dependentChildren: 2 })
+    ).toBe(0);
+    expect(
+      calculateMedicareLevySurcharge(90000, mls, { familyIncome: 210000, dependentChildren: 2 })
+    ).toBe(900);
+  });
 });
 
 // ─── calculateNetIncome (convenience) ───────────────────────────────────────
@@ -0,0 +1,359 @@
+// =============================================================================
+// TESTS — Two-Parent Work Matrix
+// =============================================================================
+
+import {
+  calculateWorkMatrix,
+  getDaysNobodyHome,
+  type WorkMatrixParams,
+} from '../workMatrix';
+import { calculateIncomeTax } from '../taxCalculations';
+import { calculateBackToWork } from '../backToWorkCalculations';
+import { resolveFullTimeIncome } from '../resolveInputs';
+import { TEST_CCS_RATES, TEST_TAX_RATES, TEST_FTB_RATES, TEST_PP_RATES } from './fixtures';
+
+// Shared test params: A not working ($80k FTE), B full-time on $100k
+const baseParams: WorkMatrixParams = {
+  parentA: {
+    currentIncome: 0,
+    currentDaysWorking: 0,
+    fteIncome: 80000,
+    workRelatedCostsPerWeek: 0,
+  },
+  parentB: {
+    currentIncome: 100000,
+    currentDaysWorking: 5,
+    fteIncome: 100000,
+    workRelatedCostsPerWeek: 0,
+  },
+  currentDaysInCare: 2,
+  dailyFee: 100,
+  hoursPerDay: 10,
+  careType: 'centre_based_day_care',
+  ageGroup: 'below_school_age',
+};
+
+describe('getDaysNobodyHome', () => {
+  it('is zero while the couple can cover the week between them', () => {
+    expect(getDaysNobodyHome(0, 5)).toBe(0);
+    expect(getDaysNobodyHome(2, 3)).toBe(0);
+  });
+
+  it('counts the days both partners work', () => {
+    expect(getDaysNobodyHome(3, 4)).toBe(2);
+    expect(getDaysNobodyHome(5, 5)).toBe(5);
+  });
+});
+
+describe('calculateWorkMatrix', () => {
+  const result = calculateWorkMatrix(baseParams, TEST_CCS_RATES, TEST_TAX_RATES);
+
+  // ── Structure ─────────────────────────────────────────────────────────
+
+  it('covers every combination of 0–5 days for both parents', () => {
+    expect(result.dayOptions).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.cells).toHaveLength(6);
+    result.cells.forEach((row, a) => {
+      expect(row).toHaveLength(6);
+      row.forEach((cell, b) => {
+        expect(cell.daysA).toBe(a);
+        expect(cell.daysB).toBe(b);
+      });
+    });
+  });
+
+  it('builds the baseline from current incomes and days in care', () => {
+    expect(result.current.combinedFamilyIncome).toBe(100000);
+    expect(result.current.ccsPercent).toBe(87);
+    // 87% CCS → $13/session × 2 days × 52 weeks
+    expect(result.current.annualChildcareCost).toBe(1352);
+    expect(result.current.householdNetIncome).toBe(
+      calculateIncomeTax(100000, TEST_TAX_RATES).netIncome
+    );
+  });
+
+  it('shows no change for the current combination', () => {
+    expect(result.cells[0][5].netBenefit).toBe(0);
+    expect(result.cells[0][5].isWorthIt).toBe(false);
+  });
+
+  it('shows no change at current days with the default full-time salaries', () => {
+    // Partner on $80,000 over 4 days, A on $30,000 over 3 days
+    const partTime = calculateWorkMatrix(
+      {
+        ...baseParams,
+        parentA: {
+          ...baseParams.parentA,
+          currentIncome: 30000,
+          currentDaysWorking: 3,
+          fteIncome: resolveFullTimeIncome(undefined, 30000, 3),
+        },
+        parentB: {
+          ...baseParams.parentB,
+          currentIncome: 80000,
+          currentDaysWorking: 4,
+          fteIncome: resolveFullTimeIncome(undefined, 80000, 4),
+        },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(partTime.cells[3][4].incomeA).toBe(30000);
+    expect(partTime.cells[3][4].incomeB).toBe(80000);
+    expect(partTime.cells[3][4].netBenefit).toBe(0);
+  });
+
+  // ── Worked example ────────────────────────────────────────────────────
+
+  it('pro-rates and taxes each partner separately', () => {
+    const cell = result.cells[3][4];
+    expect(cell.incomeA).toBe(48000);
+    expect(cell.incomeB).toBe(80000);
+    expect(cell.taxA).toEqual(calculateIncomeTax(48000, TEST_TAX_RATES));
+    expect(cell.taxB).toEqual(calculateIncomeTax(80000, TEST_TAX_RATES));
+    expect(cell.combinedFamilyIncome).toBe(128000);
+    expect(cell.ccsPercent).toBe(81);
+  });
+
+  it('keeps the current days in care when the couple can stagger their days', () => {
+    // 3 + 4 − 5 = 2 days nobody is home, same as today
+    expect(result.cells[3][4].childcareDaysPerWeek).toBe(2);
+    expect(result.cells[3][4].annualChildcareCost).toBe(1976);
+    expect(result.cells[3][4].netBenefit).toBe(27908);
+  });
+
+  it('adds care days once both partners work more days than the week allows', () => {
+    expect(result.cells[3][5].childcareDaysPerWeek).toBe(3);
+    expect(result.cells[3][5].ccsPercent).toBe(77);
+    expect(result.cells[3][5].annualChildcareCost).toBe(3588);
+    expect(result.cells[5][5].childcareDaysPerWeek).toBe(5);
+  });
+
+  it('picks the combination with the highest net benefit', () => {
+    const all = result.cells.flat();
+    const max = Math.max(...all.map((c) => c.netBenefit));
+    expect(result.bestCell?.netBenefit).toBe(max);
+  });
+
+  // ── Work costs ────────────────────────────────────────────────────────
+
+  it('charges each partner work costs for the days they work', () => {
+    const withCosts = calculateWorkMatrix(
+      {
+        ...baseParams,
+        parentA: { ...baseParams.parentA, workRelatedCostsPerWeek: 50 },
+        parentB: { ...baseParams.parentB, workRelatedCostsPerWeek: 100 },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // Current: B works 5 days → $100 × 52
+    expect(withCosts.current.annualWorkCosts).toBe(5200);
+    // A 3 days: $50 × 3/5 × 52 = $1,560; B 4 days: $100 × 4/5 × 52 = $4,160
+    expect(withCosts.cells[3][4].annualWorkCosts).toBe(5720);
+    expect(withCosts.cells[3][4].netBenefit).toBe(
+      result.cells[3][4].netBenefit - (5720 - 5200)
+    );
+  });
+
+  // ── Household details ─────────────────────────────────────────────────
+
+  it('matches the back-to-work scenario when only one parent changes days', () => {
+    const informalCare = [
+      { weekday: 'mon' as const, source: 'grandparents' as const },
+      { weekday: 'fri' as const, source: 'partner' as const },
+    ];
+    const childAges = [2];
+    const full = calculateWorkMatrix(
+      {
+        ...baseParams,
+        parentA: { ...baseParams.parentA, workRelatedCostsPerWeek: 50, hasHELPDebt: true },
+        medicare: { dependentChildren: 1, privateHospitalCover: true },
+        informalCare,
+        familyTaxBenefit: { childAges },
+        parentingPayment: { childAges },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES,
+      TEST_PP_RATES
+    );
+    const backToWork = calculateBackToWork(
+      {
+        combinedAnnualIncome: 100000,
+        currentIndividualIncome: 0,
+        proposedFTEIncome: 80000,
+        workRelatedCostsPerWeek: 50,
+        currentDaysInCare: 2,
+        dailyFee: 100,
+        hoursPerDay: 10,
+        careType: 'centre_based_day_care',
+        ageGroup: 'below_school_age',
+        hasHELPDebt: true,
+        medicare: { partnered: true, dependentChildren: 1, privateHospitalCover: true },
+        informalCare,
+        familyTaxBenefit: { childAges, partnered: true },
+        parentingPayment: { childAges, partnered: true },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES,
+      TEST_FTB_RATES,
+      TEST_PP_RATES
+    );
+
+    expect(full.current.familyPayments).toBeCloseTo(
+      backToWork.current.familyTaxBenefit!.total +
+        backToWork.current.parentingPayment!.annualAmount,
+      2
+    );
+    backToWork.scenarios.forEach((scenario) => {
+      const cell = full.cells[scenario.daysWorking][5];
+      expect(cell.taxA).toEqual(scenario.tax);
+      expect(cell.childcareDaysPerWeek).toBe(scenario.childcareDaysPerWeek);
+      expect(cell.netBenefit).toBeCloseTo(scenario.netBenefit, 1);
+    });
+  });
+
+  it('matches the part-year back-to-work scenario under a return timeline', () => {
+    const returnTimeline = {
+      pplIncome: 10000,
+      preLeaveShareOfYear: 0.25,
+      workingShareOfYear: 0.5,
+      careShareOfYear: 0.6,
+    };
+    const partYear = calculateWorkMatrix(
+      {
+        ...baseParams,
+        parentA: { ...baseParams.parentA, currentIncome: 20000, workRelatedCostsPerWeek: 50 },
+        returnTimeline,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const backToWork = calculateBackToWork(
+      {
+        combinedAnnualIncome: 120000,
+        currentIndividualIncome: 20000,
+        proposedFTEIncome: 80000,
+        workRelatedCostsPerWeek: 50,
+        currentDaysInCare: 2,
+        dailyFee: 100,
+        hoursPerDay: 10,
+        careType: 'centre_based_day_care',
+        ageGroup: 'below_school_age',
+        returnTimeline,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+
+    // $20,000 × 0.75 + $10,000 of PPL
+    expect(partYear.current.combinedFamilyIncome).toBe(backToWork.current.combinedFamilyIncome);
+    expect(partYear.current.annualChildcareCost).toBe(backToWork.current.annualChildcareCost);
+    backToWork.scenarios.forEach((scenario) => {
+      const cell = partYear.cells[scenario.daysWorking][5];
+      expect(cell.incomeA).toBe(scenario.grossIncome);
+      expect(cell.annualChildcareCost).toBe(scenario.annualChildcare.outOfPocketPerYear);
+      expect(cell.netBenefit).toBeCloseTo(scenario.netBenefit, 1);
+    });
+  });
+
+  it('costs every child in care as the back-to-work scenarios do', () => {
+    const additionalChildren = [
+      {
+        careType: 'centre_based_day_care' as const,
+        dailyFee: 100,
+        hoursPerDay: 10,
+        ageGroup: 'below_school_age' as const,
+        higherCCSRate: true,
+      },
+    ];
+    const twoChildren = calculateWorkMatrix(
+      { ...baseParams, additionalChildren },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    const backToWork = calculateBackToWork(
+      {
+        combinedAnnualIncome: 100000,
+        currentIndividualIncome: 0,
+        proposedFTEIncome: 80000,
+        workRelatedCostsPerWeek: 0,
+        currentDaysInCare: 2,
+        dailyFee: 100,
+        hoursPerDay: 10,
+        careType: 'centre_based_day_care',
+        ageGroup: 'below_school_age',
+        additionalChildren,
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+
+    expect(twoChildren.current.annualChildcareCost).toBe(backToWork.current.annualChildcareCost);
+    expect(twoChildren.current.annualChildcareCost).toBeGreaterThan(
+      result.current.annualChildcareCost
+    );
+    backToWork.scenarios.forEach((scenario) => {
+      const cell = twoChildren.cells[scenario.daysWorking][5];
+      expect(cell.annualChildcareCost).toBe(scenario.annualChildcare.outOfPocketPerYear);
+      expect(cell.netBenefit).toBeCloseTo(scenario.netBenefit, 1);
+    });
+  });
+
+  it('limits subsidised hours by the activity test when asked', () => {
+    const tested = calculateWorkMatrix(
+      { ...baseParams, applyActivityTest: true },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    // A not working: the family gets the base hours, short of 2 × 10hr days
+    expect(tested.current.annualChildcareCost).toBeGreaterThan(
+      result.current.annualChildcareCost
+    );
+    // A working 3 days: 48 activity hours a fortnight covers all care hours
+    expect(tested.cells[3][4].annualChildcareCost).toBe(result.cells[3][4].annualChildcareCost);
+  });
+
+  it('requires rates for the family payments it models', () => {
+    expect(() =>
+      calculateWorkMatrix(
+        { ...baseParams, familyTaxBenefit: { childAges: [2] } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('FTB rates are required to model Family Tax Benefit.');
+    expect(() =>
+      calculateWorkMatrix(
+        { ...baseParams, parentingPayment: { childAges: [2] } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('Parenting Payment rates are required to model Parenting Payment.');
+  });
+
+  // ── Edge cases ────────────────────────────────────────────────────────
+
+  it('returns no best cell when no combination beats the current situation', () => {
+    const noGain = calculateWorkMatrix(
+      {
+        ...baseParams,
+        parentA: { ...baseParams.parentA, fteIncome: 0 },
+        parentB: { ...baseParams.parentB, fteIncome: 0, currentIncome: 0, currentDaysWorking: 0 },
+      },
+      TEST_CCS_RATES,
+      TEST_TAX_RATES
+    );
+    expect(noGain.bestCell).toBeNull();
+  });
+
+  it('throws when current days working is out of range', () => {
+    expect(() =>
+      calculateWorkMatrix(
+        { ...baseParams, parentB: { ...baseParams.parentB, currentDaysWorking: 6 } },
+        TEST_CCS_RATES,
+        TEST_TAX_RATES
+      )
+    ).toThrow('currentDaysWorking must be between 0 and 5.');
+  });
+});
@@ -0,0 +1,45 @@
+// =============================================================================
+// TESTS — Work Pattern URL Param Encoding
+// =============================================================================
+
+import { encodeWorkPatternsParam, decodeWorkPatternsParam } from '../workPatternParams';
+import type { WorkPattern } from '../types';
+
+const PATTERNS: WorkPattern[] = [
+  { daysPerWeek: 4, hoursPerDay: 9.5 },
+  { daysPerWeek: 5, hoursPerDay: 5, childcareHoursPerDay: 6 },
+  { daysPerWeek: 3, hoursPerDay: 7.6, childcareDaysPerWeek: 4 },
+];
+
+describe('encodeWorkPatternsParam', () => {
+  it('encodes each pattern as days x hours joined by ~', () => {
+    expect(encodeWorkPatternsParam(PATTERNS)).toBe('4x9.5~5x5xx6~3x7.6x4');
+  });
+
+  it('returns an empty string for no patterns', () => {
+    expect(encodeWorkPatternsParam([])).toBe('');
+  });
+});
+
+describe('decodeWorkPatternsParam', () => {
+  it('round-trips encoded patterns', () => {
+    expect(decodeWorkPatternsParam(encodeWorkPatternsParam(PATTERNS))).toEqual(PATTERNS);
+  });
+
+  it('restores preset labels', () => {
+    expect(decodeWorkPatternsParam('4x9')).toEqual([
+      { daysPerWeek: 4, hoursPerDay: 9, label: '4 × 9-hour days' },
+    ]);
+  });
+
+  it('returns undefined for a missing or empty param', () => {
+    expect(decodeWorkPatternsParam(undefined)).toBeUndefined();
+    expect(decodeWorkPatternsParam('')).toBeUndefined();
+  });
+
+  it('skips malformed entries and clamps days and hours', () => {
+    expect(decodeWorkPatternsParam('abc~7x30~0x8')).toEqual([
+      { daysPerWeek: 5, hoursPerDay: 24 },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+// =============================================================================
+// ACTIVITY TEST — Subsidised Hours per Fortnight
+// =============================================================================
+// Determines how many hours of care per fortnight attract CCS, based on the
+// hours of recognised activity (work, study, training, volunteering, job
+// searching) each parent does per fortnight.
+//
+// Before 5 January 2026 (activity test tiers):
+//   Less than 8 hours   →   0 hours (24 if income ≤ $85,279)
+//   8 to 16 hours       →  36 hours
+//   17 to 48 hours      →  72 hours
+//   More than 48 hours  → 100 hours
+//
+// From 5 January 2026 (3-Day Guarantee):
+//   max(72, tier result) — every family gets at least 72 hours.
+//
+// For couples, the parent with FEWER activity hours determines the result.
+// Single parents are assessed on their own hours only.
+//
+// All functions are pure.
+// Source: https://www.servicesaustralia.gov.au/activity-test-for-child-care-subsidy
+// =============================================================================
+
+import type { CCSRates } from './types';
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface ActivityTestResult {
+  /** Activity hours used for the test (lower of the two parents for couples) */
+  assessedActivityHours: number;
+  /** Whether the low income result (24 hours) applied */
+  lowIncomeResultApplied: boolean;
+  /** Subsidised hours per fortnight before the 3-Day Guarantee */
+  hoursBeforeGuarantee: number;
+  /** Subsidised hours per fortnight from the 3-Day Guarantee date */
+  hoursFromGuarantee: number;
+  /** Share of the financial year that falls before the guarantee (0–1) */
+  shareOfYearBeforeGuarantee: number;
+  /** Year-weighted average subsidised hours per fortnight */
+  averageHoursPerFortnight: number;
+}
+
+// ─── 2.8: Activity Test Tier ────────────────────────────────────────────────
+//
+// Worked example (partnered, parent A works 76 hrs, parent B works 20 hrs,
+// combined income $120,000):
+//   Assessed hours:    min(76, 20) = 20 → tier "17 to 48" → 72 hours
+//   Low income result: not applicable (income above $85,279)
+//   From 2026-01-05:   max(72, 72) = 72 hours
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Look up the activity test tier for a given number of activity hours.
+ *
+ * @param activityHours   Hours of recognised activity per fortnight.
+ * @param combinedIncome  Combined annual family income (AUD).
+ * @param rates           CCS rates data.
+ * @returns               Subsidised hours per fortnight and whether the low
+ *                        income result applied.
+ */
+export function getActivityTestHours(
+  activityHours: number,
+  combinedIncome: number,
+  rates: CCSRates
+): { subsidisedHours: number; lowIncomeResultApplied: boolean } {
+  if (activityHours < 0) {
+    throw new Error('activityHours cannot be negative.');
+  }
+
+  const { tiers, lowIncomeResult } = rates.activityTest;
+
+  // Tiers are ascending — take the last one whose minimum is met
+  let tierHours = 0;
+  for (const tier of tiers) {
+    if (activityHours >= tier.minActivityHours) {
+      tierHours = tier.subsidisedHoursPerFortnight;
+    }
+  }
+
+  if (
+    combinedIncome <= lowIncomeResult.incomeThreshold &&
+    tierHours < lowIncomeResult.subsidisedHoursPerFortnight
+  ) {
+    return {
+      subsidisedHours: lowIncomeResult.subsidisedHoursPerFortnight,
+      lowIncomeResultApplied: true,
+    };
+  }
+
+  return { subsidisedHours: tierHours, lowIncomeResultApplied: false };
+}
+
+// ─── 2.9: Activity Test Across the Financial Year ───────────────────────────
+//
+// The 3-Day Guarantee starts part-way through FY 2025–26, so the annual
+// estimate blends the two regimes by the share of the year each covers.
+//
+// Worked example (assessed hours 10 → 36 hours before, 72 hours from):
+//   FY start 2025-07-01, guarantee 2026-01-05, FY end 2026-07-01
+//   Share before:      188 / 365 = 0.515
+//   Average:           36 × 0.515 + 72 × 0.485 = 53.46 hours/fortnight
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run the activity test for a family and blend the result across the year.
+ *
+ * @param activityHours         User's (or single parent's) activity hours
+ *                              per fortnight.
+ * @param partnerActivityHours  Partner's activity hours per fortnight, or
+ *                              null for single parents.
+ * @param combinedIncome        Combined annual family income (AUD).
+ * @param rates                 CCS rates data.
+ * @returns                     Activity test result for the financial year.
+ */
+export function calculateActivityTest(
+  activityHours: number,
+  partnerActivityHours: number | null,
+  combinedIncome: number,
+  rates: CCSRates
+): ActivityTestResult {
+  const assessedActivityHours =
+    partnerActivityHours == null
+      ? activityHours
+      : Math.min(activityHours, partnerActivityHours);
+
+  const { subsidisedHours, lowIncomeResultApplied } = getActivityTestHours(
+    assessedActivityHours,
+    combinedIncome,
+    rates
+  );
+
+  const hoursBeforeGuarantee = subsidisedHours;
+  const hoursFromGuarantee = Math.max(
+    rates.threeDayGuarantee.minHoursPerFortnight,
+    subsidisedHours
+  );
+
+  const shareOfYearBeforeGuarantee = calculateShareOfYearBefore(
+    rates.effectiveDate,
+    rates.threeDayGuarantee.effectiveDate
+  );
+
+  const averageHoursPerFortnight =
+    hoursBeforeGuarantee * shareOfYearBeforeGuarantee +
+    hoursFromGuarantee * (1 - shareOfYearBeforeGuarantee);
+
+  return {
+    assessedActivityHours,
+    lowIncomeResultApplied,
+    hoursBeforeGuarantee,
+    hoursFromGuarantee,
+    shareOfYearBeforeGuarantee: round4(shareOfYearBeforeGuarantee),
+    averageHoursPerFortnight: round2(averageHoursPerFortnight),
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Share of the financial year starting on `yearStart` that falls before
+ * `changeDate` (clamped to 0–1). Dates are ISO 'YYYY-MM-DD' strings.
+ */
+function calculateShareOfYearBefore(yearStart: string, changeDate: string): number {
+  const start = Date.parse(`${yearStart}T00:00:00Z`);
+  const change = Date.parse(`${changeDate}T00:00:00Z`);
+  const end = new Date(start);
+  end.setUTCFullYear(end.getUTCFullYear() + 1);
+
+  const daysInYear = (end.getTime() - start) / MS_PER_DAY;
+  const daysBefore = (change - start) / MS_PER_DAY;
+
+  return Math.min(1, Math.max(0, daysBefore / daysInYear));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,165 @@
+// =============================================================================
+// ADDITIONAL CHILD CARE SUBSIDY (ACCS) — Carers and Vulnerable Families
+// =============================================================================
+// ACCS replaces the income-tested CCS rate for families in one of four
+// streams:
+//
+//   Stream                        Rate   Rate cap   Hours / fortnight
+//   Child wellbeing               100%   120%       100
+//   Grandparent                   100%   120%       100
+//   Temporary financial hardship  100%   120%       100
+//   Transition to work             95%   100%       activity test
+//
+// The rate is applied to the lower of the actual hourly fee or the stream's
+// share of the standard hourly rate cap, so families paying up to 120% of
+// the cap pay no gap fee. ACCS is not income tested and the annual CCS cap
+// does not apply.
+//
+// All functions are pure.
+// Source: https://www.servicesaustralia.gov.au/additional-child-care-subsidy
+// =============================================================================
+
+import type { ACCSStream, ACCSStreamRates, CareType, CCSRates } from './types';
+import { getHourlyRateCap, type SessionCCSResult } from './ccsCalculations';
+import type { ActivityTestResult } from './activityTest';
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface AdditionalCCSResult {
+  stream: ACCSStream;
+  /** Rates and rules for the stream */
+  streamRates: ACCSStreamRates;
+  /** Percentage of the fee (up to the stream's rate cap) paid */
+  subsidyPercent: number;
+  /** Whether subsidised hours follow the family's activity test */
+  activityTested: boolean;
+  /** Subsidised hours per fortnight before the 3-Day Guarantee */
+  hoursBeforeGuarantee: number;
+  /** Subsidised hours per fortnight from the 3-Day Guarantee date */
+  hoursFromGuarantee: number;
+  /** Year-weighted average subsidised hours per fortnight */
+  averageHoursPerFortnight: number;
+}
+
+// ─── Stream Lookup ──────────────────────────────────────────────────────────
+
+/**
+ * Get the rates and rules for an ACCS stream.
+ *
+ * @param stream  ACCS stream.
+ * @param rates   CCS rates data.
+ * @returns       The stream's rate, rate cap, hours and eligibility.
+ * @throws        Error if the stream is missing (data integrity issue).
+ */
+export function getACCSStreamRates(stream: ACCSStream, rates: CCSRates): ACCSStreamRates {
+  const streamRates = rates.additionalSubsidy.streams.find((s) => s.stream === stream);
+  if (!streamRates) {
+    throw new Error(
+      `No ACCS rates found for stream "${stream}". Check CCS rates data integrity.`
+    );
+  }
+  return streamRates;
+}
+
+// ─── 2.13: ACCS Rate and Subsidised Hours ───────────────────────────────────
+//
+// Worked example (grandparent, centre-based, below school age, $160/day, 10hr):
+//   Rate cap:          $14.63 × 120% = $17.56/hr
+//   Hourly fee:        $160 / 10 = $16.00/hr (below the cap)
+//   Subsidy/session:   $16.00 × 100% × 10 = $160.00 → no gap fee
+//
+// Transition to work, same care:
+//   Effective hourly:  min($16.00, $14.63) = $14.63/hr
+//   Subsidy/session:   $14.63 × 95% × 10 = $138.99
+//   Out-of-pocket:     $160.00 − $138.99 = $21.01/session
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Work out a family's ACCS rate and subsidised hours for the year.
+ *
+ * @param stream        ACCS stream the family is eligible for.
+ * @param activityTest  Family's activity test result (used by streams that
+ *                      follow the activity test).
+ * @param rates         CCS rates data.
+ * @returns             ACCS rate and subsidised hours per fortnight.
+ */
+export function calculateAdditionalCCS(
+  stream: ACCSStream,
+  activityTest: Pick<
+    ActivityTestResult,
+    'hoursBeforeGuarantee' | 'hoursFromGuarantee' | 'averageHoursPerFortnight'
+  >,
+  rates: CCSRates
+): AdditionalCCSResult {
+  const streamRates = getACCSStreamRates(stream, rates);
+  const fixedHours = streamRates.subsidisedHoursPerFortnight;
+
+  return {
+    stream,
+    streamRates,
+    subsidyPercent: streamRates.subsidyPercent,
+    activityTested: fixedHours === null,
+    hoursBeforeGuarantee: fixedHours ?? activityTest.hoursBeforeGuarantee,
+    hoursFromGuarantee: fixedHours ?? activityTest.hoursFromGuarantee,
+    averageHoursPerFortnight: fixedHours ?? activityTest.averageHoursPerFortnight,
+  };
+}
+
+/**
+ * Calculate the ACCS subsidy for a single childcare session (one day).
+ * The result has the same shape as calculateSessionCCS(), so it can be
+ * annualised with calculateAnnualCost().
+ *
+ * @param dailyFee     Daily fee charged by the provider (AUD).
+ * @param hoursPerDay  Hours of care per session.
+ * @param stream       ACCS stream.
+ * @param careType     Type of care (determines which rate cap applies).
+ * @param ageGroup     Child's age group for rate cap purposes.
+ * @param rates        CCS rates data.
+ * @returns            Per-session subsidy breakdown at the ACCS rate.
+ */
+export function calculateACCSSession(
+  dailyFee: number,
+  hoursPerDay: number,
+  stream: ACCSStream,
+  careType: CareType,
+  ageGroup: 'below_school_age' | 'school_age',
+  rates: CCSRates
+): SessionCCSResult {
+  if (hoursPerDay <= 0) {
+    throw new Error('hoursPerDay must be greater than 0.');
+  }
+  if (dailyFee < 0) {
+    throw new Error('dailyFee cannot be negative.');
+  }
+
+  const { subsidyPercent, rateCapPercent } = getACCSStreamRates(stream, rates);
+  const hourlyFee = dailyFee / hoursPerDay;
+  const hourlyRateCap =
+    getHourlyRateCap(careType, ageGroup, rates) * (rateCapPercent / 100);
+  const effectiveHourlyRate = Math.min(hourlyFee, hourlyRateCap);
+  const feeAboveCapPerHour = Math.max(0, hourlyFee - hourlyRateCap);
+
+  const subsidyPerHour = effectiveHourlyRate * (subsidyPercent / 100);
+  const subsidyPerSession = subsidyPerHour * hoursPerDay;
+  const outOfPocketPerSession = dailyFee - subsidyPerSession;
+
+  return {
+    dailyFeeUsed: round2(dailyFee),
+    hourlyFee: round2(hourlyFee),
+    hourlyRateCap: round2(hourlyRateCap),
+    effectiveHourlyRate: round2(effectiveHourlyRate),
+    feeAboveCapPerHour: round2(feeAboveCapPerHour),
+    hoursPerSession: hoursPerDay,
+    subsidyPerHour: round2(subsidyPerHour),
+    subsidyPerSession: round2(subsidyPerSession),
+    outOfPocketPerSession: round2(outOfPocketPerSession),
+    ccsPercent: subsidyPercent,
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
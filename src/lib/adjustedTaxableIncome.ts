@@ -0,0 +1,176 @@
+// =============================================================================
+// ADJUSTED TAXABLE INCOME — The Income CCS Is Worked Out On
+// =============================================================================
+// CCS (and other family payments) use adjusted taxable income (ATI), not
+// taxable income alone. For each parent:
+//
+//   ATI = taxable income
+//       + reportable fringe benefits
+//       + reportable super contributions (salary sacrifice, personal
+//         deductible contributions)
+//       + net investment losses (e.g. negative gearing)
+//       + tax-free foreign income
+//       − deductible child maintenance paid
+//
+// The family's ATI is the sum of both partners' ATI. This module builds it
+// from its components, and encodes each parent's components into a short URL
+// param (`ai` for the parent, `pai` for their partner).
+//
+// Param format:
+//   components = taxable~fringe~super~investment~foreign~maintenance
+//   (whole dollars, in that order; trailing zeros omitted)
+//
+// Example: "95000~0~8000" → $95,000 taxable income + $8,000 salary sacrifice
+//
+// All functions are pure.
+// Source: https://www.servicesaustralia.gov.au/adjusted-taxable-income
+// =============================================================================
+
+import type { ATIComponents } from './types';
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Component fields in param order. */
+export const ATI_COMPONENT_FIELDS: (keyof ATIComponents)[] = [
+  'taxableIncome',
+  'reportableFringeBenefits',
+  'reportableSuperContributions',
+  'netInvestmentLosses',
+  'taxFreeForeignIncome',
+  'childMaintenancePaid',
+];
+
+export const ATI_COMPONENT_LABELS: Record<keyof ATIComponents, string> = {
+  taxableIncome:                'Taxable income',
+  reportableFringeBenefits:     'Reportable fringe benefits',
+  reportableSuperContributions: 'Reportable super contributions',
+  netInvestmentLosses:          'Net investment losses',
+  taxFreeForeignIncome:         'Tax-free foreign income',
+  childMaintenancePaid:         'Child maintenance paid',
+};
+
+/** Components that reduce ATI rather than add to it. */
+export const ATI_DEDUCTION_FIELDS: (keyof ATIComponents)[] = ['childMaintenancePaid'];
+
+/** A parent with only taxable income and nothing else to add. */
+export const EMPTY_ATI_COMPONENTS: ATIComponents = {
+  taxableIncome: 0,
+  reportableFringeBenefits: 0,
+  reportableSuperContributions: 0,
+  netInvestmentLosses: 0,
+  taxFreeForeignIncome: 0,
+  childMaintenancePaid: 0,
+};
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface ATIResult {
+  /** Taxable income (from the tax return) */
+  taxableIncome: number;
+  /** Amounts added on top of taxable income */
+  additions: number;
+  /** Amounts taken off (child maintenance paid) */
+  deductions: number;
+  /** taxableIncome + additions − deductions, never below 0 */
+  adjustedTaxableIncome: number;
+}
+
+// ─── 2.17: Adjusted Taxable Income ──────────────────────────────────────────
+//
+// Worked example (parent with salary sacrifice and an investment property):
+//   Taxable income:                $95,000
+//   Reportable super (sacrifice):  + $8,000
+//   Net investment loss:           + $4,500
+//   ATI = $107,500
+//
+// Partner on $60,000 taxable income paying $3,000 child maintenance:
+//   ATI = $57,000 → family ATI = $164,500
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate one parent's adjusted taxable income from its components.
+ *
+ * @param components  Taxable income and the amounts added or taken off.
+ * @returns           Breakdown and adjusted taxable income.
+ */
+export function calculateAdjustedTaxableIncome(components: ATIComponents): ATIResult {
+  const additions =
+    components.reportableFringeBenefits +
+    components.reportableSuperContributions +
+    components.netInvestmentLosses +
+    components.taxFreeForeignIncome;
+  const deductions = components.childMaintenancePaid;
+
+  return {
+    taxableIncome: round2(components.taxableIncome),
+    additions: round2(additions),
+    deductions: round2(deductions),
+    adjustedTaxableIncome: round2(
+      Math.max(0, components.taxableIncome + additions - deductions)
+    ),
+  };
+}
+
+/**
+ * Calculate the family's adjusted taxable income.
+ *
+ * @param parent   The parent's income components.
+ * @param partner  The partner's income components, or null for single parents.
+ * @returns        Combined adjusted taxable income.
+ */
+export function calculateFamilyATI(
+  parent: ATIComponents,
+  partner: ATIComponents | null
+): number {
+  const parentATI = calculateAdjustedTaxableIncome(parent).adjustedTaxableIncome;
+  const partnerATI = partner
+    ? calculateAdjustedTaxableIncome(partner).adjustedTaxableIncome
+    : 0;
+  return round2(parentATI + partnerATI);
+}
+
+// ─── URL Param ──────────────────────────────────────────────────────────────
+
+/**
+ * Encode a parent's income components into the compact `ai` / `pai` URL
+ * param value.
+ *
+ * @param components  Income components.
+ * @returns           Encoded string, with trailing zero fields omitted.
+ */
+export function encodeATIParam(components: ATIComponents): string {
+  const values = ATI_COMPONENT_FIELDS.map((field) => Math.round(components[field]));
+  while (values.length > 1 && values[values.length - 1] === 0) values.pop();
+  return values.join('~');
+}
+
+/**
+ * Decode the `ai` / `pai` URL param back into income components. Missing or
+ * malformed fields are treated as $0.
+ *
+ * @param value  Raw param value.
+ * @returns      Income components, or undefined if the param is empty or has
+ *               no valid taxable income.
+ */
+export function decodeATIParam(value: string | undefined): ATIComponents | undefined {
+  if (!value) return undefined;
+
+  const parts = value.split('~');
+  const taxableIncome = Number(parts[0]);
+  if (parts[0] === '' || !Number.isFinite(taxableIncome) || taxableIncome < 0) {
+    return undefined;
+  }
+
+  const components = { ...EMPTY_ATI_COMPONENTS };
+  ATI_COMPONENT_FIELDS.forEach((field, i) => {
+    const n = Number(parts[i]);
+    components[field] = Number.isFinite(n) && n > 0 ? n : 0;
+  });
+  return components;
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -3,31 +3,141 @@
 // =============================================================================
 // The signature differentiator: "Is it financially worth going back to work?"
 //
-// Compares the family's financial position across 1–5 day working scenarios,
-// accounting for:
-//   1. Additional income tax on the second earner
+// Compares the family's financial position across working patterns — the
+// whole-day 1–5 day scenarios plus any patterns the family defines (e.g.
+// 4 × 9-hour days or school hours) — accounting for:
+//   1. Additional income tax on the second earner, and compulsory HELP
+//      repayments if they have a HELP debt. With household details, the
+//      Medicare levy uses the family threshold, and families without private
+//      hospital cover pay the surcharge at their combined income's tier
 //   2. Reduced CCS% due to higher combined family income
 //   3. Work-related costs (transport, uniforms, meals)
+//   4. Lost Family Tax Benefit Parts A and B, when FTB inputs are given
+//   5. Lost Parenting Payment, for parents who receive it
 //
-// All functions are pure. They compose ccsCalculations and taxCalculations.
+// Each scenario reports its effective marginal tax rate: the share of the
+// extra gross income lost to tax, childcare and reduced family payments.
+//
+// Each scenario also reports the employer Superannuation Guarantee paid on
+// its income. The net benefit counts take-home pay only; the total value adds
+// the extra super (after contributions tax) alongside it, and
+// projectSuperBalance() shows what that extra super grows to over the years.
+//
+// A family with more than one child in care books each child on the same
+// days; every child's care is costed at its own fee, hours and CCS rate.
+//
+// Working days covered by informal care (grandparents, a partner's day off,
+// working from home) don't need paid childcare; each scenario reports what
+// that informal care saves.
+//
+// For a parent coming back from Paid Parental Leave part-way through the
+// year, a return timeline (see returnTimeline) makes each scenario a part
+// year: pay accrues from the return date and childcare costs from the care
+// start date, while Parental Leave Pay counts towards the full-year income
+// that CCS, tax and family payments are tested on. The parent's current pay
+// stops for the weeks of leave.
+//
+// It also solves for the break-even FTE salary of each scenario — the lowest
+// salary at which working that many days leaves the family better off.
+//
+// All functions are pure. They compose ccsCalculations, familyTaxBenefit,
+// informalCare, parentingPayment and taxCalculations.
+// With a return timeline, they use the shares from returnTimeline.
 // =============================================================================
 
-import type { CCSRates, CareType, TaxRates } from './types';
+import type {
+  CCSRates,
+  CareType,
+  FTBRates,
+  InformalCareDay,
+  ParentingPaymentRates,
+  TaxRates,
+  WorkPattern,
+} from './types';
 import {
   calculateCCSPercentage,
+  calculateHigherCCSPercentage,
   calculateSessionCCS,
   calculateAnnualCost,
   type SessionCCSResult,
   type AnnualCostResult,
 } from './ccsCalculations';
+import { calculateActivityTest } from './activityTest';
 import { calculateIncomeTax, type IncomeTaxResult } from './taxCalculations';
+import { getPaidCareDays } from './informalCare';
+import {
+  calculateFamilyTaxBenefit,
+  type FamilyTaxBenefitResult,
+} from './familyTaxBenefit';
+import {
+  calculateParentingPayment,
+  type ParentingPaymentResult,
+} from './parentingPayment';
+import type { ReturnTimelineResult } from './returnTimeline';
+
+// ─── Work Patterns ──────────────────────────────────────────────────────────
+
+/** Common part-time patterns offered alongside the whole-day scenarios. */
+export const WORK_PATTERN_PRESETS: WorkPattern[] = [
+  { daysPerWeek: 4, hoursPerDay: 9,   label: '4 × 9-hour days' },
+  { daysPerWeek: 5, hoursPerDay: 5,   label: 'School hours (5 × 5 hours)' },
+  { daysPerWeek: 5, hoursPerDay: 4.8, label: '0.6 FTE over 5 short days' },
+];
+
+/**
+ * Display label for a work pattern.
+ *
+ * @param pattern  Work pattern.
+ * @returns        The pattern's own label, or e.g. "4 days × 9 hrs".
+ */
+export function getWorkPatternLabel(pattern: WorkPattern): string {
+  if (pattern.label) return pattern.label;
+  const { daysPerWeek: days, hoursPerDay: hours } = pattern;
+  return `${days} day${days === 1 ? '' : 's'} × ${hours} hr${hours === 1 ? '' : 's'}`;
+}
+
+/**
+ * Whole-day patterns for 1–5 days per week — the default scenarios.
+ *
+ * @param workHoursPerDay  Hours in a standard working day.
+ * @returns                One pattern per day count, labelled "1 day" … "5 days".
+ */
+export function getWholeDayPatterns(workHoursPerDay: number): WorkPattern[] {
+  return [1, 2, 3, 4, 5].map((days) => ({
+    daysPerWeek: days,
+    hoursPerDay: workHoursPerDay,
+    label: `${days} day${days === 1 ? '' : 's'}`,
+  }));
+}
 
 // ─── Result Types ───────────────────────────────────────────────────────────
 
 export interface BackToWorkScenario {
+  /** Working pattern for this scenario (label always set) */
+  pattern: WorkPattern & { label: string };
+  /** Whether this is one of the whole-day 1–5 day scenarios */
+  isWholeDays: boolean;
   /** Number of days working per week (1–5) */
   daysWorking: number;
-  /** Gross income proportional to FTE: (days/5) × fteIncome */
+  /** Paid work hours per week: days × hours per day */
+  workHoursPerWeek: number;
+  /** Fraction of full-time: workHoursPerWeek / fullTimeHoursPerWeek */
+  fteFraction: number;
+  /** Days of paid childcare per week in this scenario */
+  childcareDaysPerWeek: number;
+  /** Working days per week covered by informal care instead of paid care */
+  informalCareDaysPerWeek: number;
+  /**
+   * Annual out-of-pocket childcare saved by informal care: the cost of
+   * paying for the covered days too, less this scenario's cost.
+   */
+  informalCareValue: number;
+  /** Hours of care per session in this scenario */
+  childcareHoursPerDay: number;
+  /**
+   * Gross income for the year: fteFraction × fteIncome, plus (with a return
+   * timeline) Parental Leave Pay, with FTE pay only from the return date
+   */
   grossIncome: number;
   /** Individual income tax breakdown */
   tax: IncomeTaxResult;
@@ -35,24 +145,53 @@ export interface BackToWorkScenario {
   netIncome: number;
   /** Combined family income at this scenario */
   combinedFamilyIncome: number;
-  /** CCS percentage at this combined income */
+  /** CCS percentage at this combined income (for the first child) */
   ccsPercent: number;
-  /** Per-session childcare breakdown at new CCS% */
+  /** Per-session childcare breakdown at new CCS% (for the first child) */
   sessionCCS: SessionCCSResult;
-  /** Annualised childcare cost at this scenario's days and CCS% */
+  /** Annualised childcare cost of every child in care at this scenario's days */
   annualChildcare: AnnualCostResult;
-  /** Annual work-related costs: (days/5) × weeklyWorkCosts × 52 */
+  /** Annual work-related costs: (days/5) × weeklyWorkCosts × 52 × working share */
   annualWorkCosts: number;
+  /** Family Tax Benefit at this scenario's incomes (null if not modelled) */
+  familyTaxBenefit: FamilyTaxBenefitResult | null;
+  /** Change in annual FTB vs. current (0 if not modelled) */
+  ftbChange: number;
+  /** Parenting Payment at this scenario's income (null if not modelled) */
+  parentingPayment: ParentingPaymentResult | null;
+  /** Change in annual Parenting Payment vs. current (0 if not modelled) */
+  parentingPaymentChange: number;
   /** Net financial benefit vs. current situation */
   netBenefit: number;
-  /** Effective hourly rate: netBenefit / (days × hoursPerDay × 52) */
+  /**
+   * Effective marginal tax rate (%) on the extra gross income: the share lost
+   * to income tax, HELP repayments, higher childcare costs and reduced FTB and
+   * Parenting Payment. Work costs are excluded. Null if income doesn't rise.
+   */
+  effectiveMarginalTaxRate: number | null;
+  /** Effective hourly rate: netBenefit / (workHoursPerWeek × 52) */
   effectiveHourlyRate: number | null;
+  /** Employer Superannuation Guarantee contributions on grossIncome */
+  employerSuper: number;
+  /** Change in employer super vs. current, after contributions tax */
+  superChange: number;
+  /** Total value of the scenario: netBenefit + superChange */
+  totalValue: number;
   /** Whether returning to work is financially positive */
   isWorthIt: boolean;
+  /**
+   * Lowest FTE salary at which working this many days is net-positive, or
+   * null if no salary up to BREAK_EVEN_MAX_FTE_INCOME gets there (or the
+   * break-even isn't solved).
+   */
+  breakEvenFTEIncome: number | null;
 }
 
 export interface CurrentSituation {
-  /** Current individual income */
+  /**
+   * Current individual income; with a return timeline, only outside the
+   * weeks of leave, plus Parental Leave Pay
+   */
   grossIncome: number;
   /** Tax on current individual income */
   tax: IncomeTaxResult;
@@ -60,16 +199,22 @@ export interface CurrentSituation {
   netIncome: number;
   /** Current combined family income */
   combinedFamilyIncome: number;
-  /** Current CCS percentage */
+  /** Current CCS percentage (for the first child) */
   ccsPercent: number;
-  /** Current annual childcare out-of-pocket */
+  /** Current annual childcare out-of-pocket, for every child in care */
   annualChildcareCost: number;
+  /** Current Family Tax Benefit (null if not modelled) */
+  familyTaxBenefit: FamilyTaxBenefitResult | null;
+  /** Current Parenting Payment (null if not modelled) */
+  parentingPayment: ParentingPaymentResult | null;
+  /** Employer Superannuation Guarantee contributions on current income */
+  employerSuper: number;
 }
 
 export interface BackToWorkResult {
   /** Current financial situation (baseline) */
   current: CurrentSituation;
-  /** Scenarios for 1–5 working days */
+  /** Scenarios for 1–5 working days, then any custom work patterns */
   scenarios: BackToWorkScenario[];
   /** Best scenario (highest net benefit), or null if all negative */
   bestScenario: BackToWorkScenario | null;
@@ -79,6 +224,20 @@ export interface BackToWorkResult {
 
 // ─── Input Parameters ───────────────────────────────────────────────────────
 
+/** One child's paid care arrangement. */
+export interface ChildCareArrangement {
+  /** Type of care */
+  careType: CareType;
+  /** Daily childcare fee */
+  dailyFee: number;
+  /** Hours per day of care */
+  hoursPerDay: number;
+  /** Child age group for rate cap */
+  ageGroup: 'below_school_age' | 'school_age';
+  /** Whether the child gets the higher CCS rate for a younger child (default false) */
+  higherCCSRate?: boolean;
+}
+
 export interface BackToWorkParams {
   /** Current combined family income (from Step 2) */
   combinedAnnualIncome: number;
@@ -98,24 +257,137 @@ export interface BackToWorkParams {
   careType: CareType;
   /** Child age group for rate cap */
   ageGroup: 'below_school_age' | 'school_age';
-  /** Standard work hours per day (for effective hourly rate calc) */
+  /** Standard work hours per day for the whole-day scenarios (default 8) */
   workHoursPerDay?: number;
+  /**
+   * Extra working patterns to compare after the whole-day 1–5 day
+   * scenarios. Income is pro-rated by hours against a full-time week of
+   * 5 × workHoursPerDay.
+   */
+  workPatterns?: WorkPattern[];
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksOfCarePerYear?: number;
+  /**
+   * Whether the child gets the higher CCS rate for a younger child in a
+   * family with more than one child in care: the standard rate plus the
+   * extra percentage points, capped at the maximum (default false).
+   */
+  higherCCSRate?: boolean;
+  /**
+   * The family's other children in paid care. Each is booked on the same
+   * days as the first child (careType … higherCCSRate above), at their own
+   * fee, hours and CCS rate, and their costs add to the childcare cost.
+   */
+  additionalChildren?: ChildCareArrangement[];
+  /**
+   * Whether the person considering work has a HELP debt. Compulsory
+   * repayments then come out of their net income (default false).
+   */
+  hasHELPDebt?: boolean;
+  /**
+   * Whether to solve each scenario's break-even FTE salary (default true).
+   * Callers running many years or families can skip the solver.
+   */
+  solveBreakEven?: boolean;
+  /**
+   * Household details for the Medicare levy. When provided, the levy uses
+   * the family threshold, and without private hospital cover the surcharge
+   * is charged at the tier for each scenario's combined family income.
+   */
+  medicare?: {
+    /** Whether the person considering work has a partner */
+    partnered: boolean;
+    /** Number of dependent children */
+    dependentChildren: number;
+    /** Whether the family has private hospital cover */
+    privateHospitalCover: boolean;
+  };
+  /**
+   * Part-year return from Paid Parental Leave (from buildReturnTimeline).
+   * Scenario pay replaces current income only from the return date, work and
+   * childcare costs accrue only from the return and care start dates, and
+   * Parental Leave Pay is added to the parent's income for the year.
+   */
+  returnTimeline?: Pick<
+    ReturnTimelineResult,
+    'pplIncome' | 'preLeaveShareOfYear' | 'workingShareOfYear' | 'careShareOfYear'
+  >;
+  /**
+   * Weekdays covered by informal care (grandparents, a partner's day off,
+   * working from home). Working days are placed on these first and need no
+   * paid care. Ignored by patterns that set their own childcare days.
+   */
+  informalCare?: InformalCareDay[];
+  /**
+   * Family Tax Benefit inputs. When provided (with FTB rates), Parts A and B
+   * are recalculated for each scenario and the change counts towards the
+   * net benefit.
+   */
+  familyTaxBenefit?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+    /** Whether the person considering work has a partner */
+    partnered: boolean;
+  };
+  /**
+   * Parenting Payment inputs, for a parent who currently receives it. When
+   * provided (with Parenting Payment rates), the payment is income tested at
+   * each scenario's income and the change counts towards the net benefit.
+   */
+  parentingPayment?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+    /** Whether the person considering work has a partner */
+    partnered: boolean;
+  };
+  /**
+   * Activity test inputs. When provided, subsidised hours are limited by the
+   * activity test — each working day adds workHoursPerDay × 2 activity hours
+   * per fortnight. Omit to assume care hours are fully subsidised.
+   */
+  activityTest?: {
+    /** Current activity hours per fortnight of the person considering work */
+    currentActivityHoursPerFortnight: number;
+    /** Partner's activity hours per fortnight, or null for single parents */
+    partnerActivityHoursPerFortnight: number | null;
+  };
 }
 
 // ─── 2.6: Back-to-Work Calculation ──────────────────────────────────────────
 //
-// For each scenario (1–5 days working per week):
+// For each scenario (1–5 whole days, then any custom work patterns):
 //
-//   1. Proportional income = (daysWorking / 5) × proposedFTEIncome
+//   1. Proportional income = (days × hours / full-time hours) × proposedFTEIncome
 //   2. Partner income = combinedIncome − currentIndividualIncome
 //   3. New combined = partner income + proportional income
-//   4. New CCS% at higher combined income (LOWER subsidy)
-//   5. New annual childcare cost at new CCS% and max(currentDays, daysWorking)
-//   6. Individual tax on proportional income
+//   4. New CCS% at higher combined income (LOWER subsidy), raised by 30
+//      points (capped at 95%) for a younger child on the higher rate
+//   5. New annual childcare cost at new CCS% and
+//      max(currentDays, daysWorking − informal care days) days, unless the
+//      pattern sets its own childcare days and hours (subsidised hours
+//      re-tested with the new activity hours, if provided). Each additional
+//      child adds their own cost on the same days
+//   6. Individual tax on proportional income (plus HELP repayment), with
+//      the Medicare levy and surcharge tested on the new combined income
 //   7. Annual work costs proportional to days
-//   8. Net benefit = (newNetIncome − currentNetIncome)
+//   8. FTB Parts A and B at the new incomes, if FTB inputs are given
+//   9. Parenting Payment at the new income, if the parent receives it
+//  10. Net benefit = (newNetIncome − currentNetIncome)
 //                  − (newChildcareCost − currentChildcareCost)
 //                  − annualWorkCosts
+//                  + (newFTB − currentFTB)
+//                  + (newParentingPayment − currentParentingPayment)
+//  11. Effective marginal tax rate
+//        = 1 − (netBenefit + annualWorkCosts) / (newGross − currentGross)
+//  12. Employer super = SG rate × min(income, maximum contribution base);
+//      total value = netBenefit + (newSuper − currentSuper) × (1 − 15%)
+//
+// With a return timeline (pre-leave share s, working share w, care share c,
+// PPL income P), current pay stops for the weeks of leave:
+//   Current income  = currentIndividualIncome × (s + w) + P
+//   Scenario income = currentIndividualIncome × s + FTE pay × w + P
+//   Weeks of care   = weeksOfCarePerYear × c (current and scenarios alike)
+//   Work costs and hours worked × w
 //
 // Worked example (partner earns $100k, FTE offer $80k, $160/day × 10hr,
 //                 centre-based below school age, 3 days currently in care):
@@ -124,20 +396,80 @@ export interface BackToWorkParams {
 //   3-day scenario: income = $48k, combined = $148k, CCS = 78%,
 //     childcare OOP ≈ $5,491/yr, tax ≈ $5,928, work costs ≈ $3,120
 //     Net benefit = ($48k − $5,928) − ($5,491 − $2,995) − $3,120 = $36,456
+//
+// With grandparents on Mondays and a partner's day off on Fridays, the
+// 5-day scenario needs max(3, 5 − 2) = 3 paid days instead of 5. Informal
+// care is worth the 5-day cost less the 3-day cost at the 5-day CCS%.
+//
+// With one child aged 2 and FTB modelled, today's FTB is $1,905 Part A plus
+// $5,384 Part B. At $48k the family loses both (Part A tapers to nothing at
+// $148k; Part B is cut 20c per $ of the lower earner's income above
+// $6,935), so the 3-day net benefit falls by $7,289.
+//
+// Effective marginal tax rate, 3-day scenario without FTB:
+//   1 − ($36,456 + $3,120) / $48,000 = 17.55% (tax $5,928 + childcare $2,496)
+//
+// Employer super, 3-day scenario at the 12% SG rate:
+//   12% × $48,000 = $5,760 → $4,896 after 15% contributions tax
+//   Total value = $36,456 + $4,896 = $41,352
+//
+// Coming back from 24 weeks of PPL ($22,754.40) on 2 February, with care
+// from 19 January (w = 149/365, c = 163/365), 3-day scenario:
+//   Income = $48k × 149/365 + $22,754.40 = $42,348.92, combined = $142,348.92
+//   CCS is tested on that full-year income; childcare is paid for 23.2 weeks
+//
+// Custom pattern, 4 × 9-hour days at the same $80k FTE:
+//   Hours = 36/week of a 40-hour full-time week → income = 0.9 × $80k = $72k
+//   Childcare = 4 days, work costs = 4/5 of the weekly costs
 // ────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Check a work pattern is usable.
+ *
+ * @throws  Error if days aren't a whole number from 1 to 5 or hours are
+ *          outside 0–24.
+ */
+function validateWorkPattern(pattern: WorkPattern): void {
+  const { daysPerWeek, hoursPerDay, childcareDaysPerWeek, childcareHoursPerDay } = pattern;
+  if (!Number.isInteger(daysPerWeek) || daysPerWeek < 1 || daysPerWeek > 5) {
+    throw new Error('Work pattern daysPerWeek must be a whole number from 1 to 5.');
+  }
+  if (!(hoursPerDay > 0 && hoursPerDay <= 24)) {
+    throw new Error('Work pattern hoursPerDay must be greater than 0 and at most 24.');
+  }
+  if (
+    childcareDaysPerWeek !== undefined &&
+    (!Number.isInteger(childcareDaysPerWeek) || childcareDaysPerWeek < 1 || childcareDaysPerWeek > 5)
+  ) {
+    throw new Error('Work pattern childcareDaysPerWeek must be a whole number from 1 to 5.');
+  }
+  if (
+    childcareHoursPerDay !== undefined &&
+    !(childcareHoursPerDay > 0 && childcareHoursPerDay <= 24)
+  ) {
+    throw new Error('Work pattern childcareHoursPerDay must be greater than 0 and at most 24.');
+  }
+}
+
 /**
  * Calculate the full back-to-work analysis with scenarios for 1–5 days.
  *
  * @param params    Input parameters (income, childcare details, work costs).
  * @param ccsRates  CCS rates data.
  * @param taxRates  Tax rates data.
+ * @param ftbRates  FTB rates data (required when params.familyTaxBenefit is set).
+ * @param ppRates   Parenting Payment rates data (required when
+ *                  params.parentingPayment is set).
  * @returns         Current situation, 1–5 day scenarios, best scenario.
+ * @throws          Error if FTB or Parenting Payment inputs are given
+ *                  without their rates.
  */
 export function calculateBackToWork(
   params: BackToWorkParams,
   ccsRates: CCSRates,
-  taxRates: TaxRates
+  taxRates: TaxRates,
+  ftbRates?: FTBRates,
+  ppRates?: ParentingPaymentRates
 ): BackToWorkResult {
   const {
     combinedAnnualIncome,
@@ -150,112 +482,332 @@ export function calculateBackToWork(
     careType,
     ageGroup,
     workHoursPerDay = 8,
+    weeksOfCarePerYear = 52,
+    hasHELPDebt = false,
+    higherCCSRate = false,
+    additionalChildren = [],
+    solveBreakEven = true,
+    medicare,
+    returnTimeline,
+    workPatterns = [],
+    informalCare = [],
+    familyTaxBenefit,
+    parentingPayment,
+    activityTest,
   } = params;
 
+  workPatterns.forEach(validateWorkPattern);
+  if (familyTaxBenefit && !ftbRates) {
+    throw new Error('FTB rates are required to model Family Tax Benefit.');
+  }
+  if (parentingPayment && !ppRates) {
+    throw new Error('Parenting Payment rates are required to model Parenting Payment.');
+  }
+  const fullTimeHoursPerWeek = 5 * workHoursPerDay;
+  const { guaranteeRate, maximumContributionBase, contributionsTaxRate } =
+    taxRates.superannuation;
+
   const partnerIncome = combinedAnnualIncome - currentIndividualIncome;
 
-  // ── Current baseline ──────────────────────────────────────────────────
-  const currentTax = calculateIncomeTax(currentIndividualIncome, taxRates);
-  const currentCCSResult = calculateCCSPercentage(
-    combinedAnnualIncome,
-    ccsRates
+  // Part-year return: PPL income and the shares of the year at work and in care
+  const pplIncome = returnTimeline?.pplIncome ?? 0;
+  const preLeaveShare = returnTimeline?.preLeaveShareOfYear ?? 0;
+  const workingShare = returnTimeline?.workingShareOfYear ?? 1;
+  const careWeeks = weeksOfCarePerYear * (returnTimeline?.careShareOfYear ?? 1);
+
+  // Current pay, earned before leave and from the return date
+  const currentEmploymentIncome = round2(
+    currentIndividualIncome * (preLeaveShare + workingShare)
   );
+  const currentGrossIncome = round2(currentEmploymentIncome + pplIncome);
+
+  // CCS% at a combined income, with the higher rate for a younger child
+  const ccsPercentFor = (familyIncome: number, higherRate = higherCCSRate): number => {
+    const standard = calculateCCSPercentage(familyIncome, ccsRates).percent;
+    return higherRate
+      ? calculateHigherCCSPercentage(standard, ccsRates).higherPercent
+      : standard;
+  };
+
+  // Subsidised hours per fortnight for a given activity level (null = no limit)
+  const subsidisedHoursFor = (
+    activityHours: number,
+    familyIncome: number
+  ): number | null =>
+    activityTest
+      ? calculateActivityTest(
+          activityHours,
+          activityTest.partnerActivityHoursPerFortnight,
+          familyIncome,
+          ccsRates
+        ).averageHoursPerFortnight
+      : null;
+
+  // Individual tax, with the family's Medicare levy threshold and surcharge
+  // tier tested on the combined income
+  const taxFor = (income: number, familyIncome: number): IncomeTaxResult =>
+    calculateIncomeTax(income, taxRates, {
+      hasHELPDebt,
+      family:
+        medicare && (medicare.partnered || medicare.dependentChildren > 0)
+          ? { familyIncome, dependentChildren: medicare.dependentChildren }
+          : undefined,
+      privateHospitalCover: medicare?.privateHospitalCover ?? true,
+    });
+
+  // ── Current baseline ──────────────────────────────────────────────────
+  const currentCombinedIncome = round2(partnerIncome + currentGrossIncome);
+  const currentTax = taxFor(currentGrossIncome, currentCombinedIncome);
+  const currentCCSPercent = ccsPercentFor(currentCombinedIncome);
   const currentSession = calculateSessionCCS(
     dailyFee,
     hoursPerDay,
-    currentCCSResult.percent,
+    currentCCSPercent,
     careType,
     ageGroup,
     ccsRates
   );
 
+  // Family Tax Benefit at the parent's income (null = not modelled)
+  const ftbFor = (parentIncome: number): FamilyTaxBenefitResult | null =>
+    familyTaxBenefit && ftbRates
+      ? calculateFamilyTaxBenefit(
+          {
+            parentIncome,
+            partnerIncome: familyTaxBenefit.partnered ? partnerIncome : null,
+            childAges: familyTaxBenefit.childAges,
+          },
+          ftbRates
+        )
+      : null;
+
+  // Parenting Payment at the parent's income (null = not modelled)
+  const parentingPaymentFor = (parentIncome: number): ParentingPaymentResult | null =>
+    parentingPayment && ppRates
+      ? calculateParentingPayment(
+          {
+            parentIncome,
+            partnerIncome: parentingPayment.partnered ? partnerIncome : null,
+            childAges: parentingPayment.childAges,
+          },
+          ppRates
+        )
+      : null;
+
+  // Employer Superannuation Guarantee on the parent's income
+  const employerSuperFor = (income: number): number =>
+    round2(Math.min(income, maximumContributionBase) * guaranteeRate);
+
+  // The other children's care at the given days and combined income
+  const additionalChildrenCosts = (
+    days: number,
+    familyIncome: number,
+    subsidisedHours: number | null
+  ): AnnualCostResult[] =>
+    additionalChildren.map((child) =>
+      calculateAnnualCost(
+        calculateSessionCCS(
+          child.dailyFee,
+          child.hoursPerDay,
+          ccsPercentFor(familyIncome, child.higherCCSRate ?? false),
+          child.careType,
+          child.ageGroup,
+          ccsRates
+        ),
+        days,
+        ccsRates.withholdingPercent,
+        careWeeks,
+        subsidisedHours
+      )
+    );
+
   // Use currentDaysInCare (clamped to 1–5) for current childcare cost
   const clampedCurrentDays = Math.max(1, Math.min(5, currentDaysInCare));
-  const currentAnnual = calculateAnnualCost(
-    currentSession,
-    clampedCurrentDays,
-    ccsRates.withholdingPercent
-  );
+  const currentActivityHours =
+    activityTest?.currentActivityHoursPerFortnight ?? 0;
+  const currentSubsidisedHours = subsidisedHoursFor(currentActivityHours, currentCombinedIncome);
+  const currentAnnual = sumAnnualCosts([
+    calculateAnnualCost(
+      currentSession,
+      clampedCurrentDays,
+      ccsRates.withholdingPercent,
+      careWeeks,
+      currentSubsidisedHours
+    ),
+    ...additionalChildrenCosts(clampedCurrentDays, currentCombinedIncome, currentSubsidisedHours),
+  ]);
 
   const current: CurrentSituation = {
-    grossIncome: currentIndividualIncome,
+    grossIncome: currentGrossIncome,
     tax: currentTax,
     netIncome: currentTax.netIncome,
-    combinedFamilyIncome: combinedAnnualIncome,
-    ccsPercent: currentCCSResult.percent,
+    combinedFamilyIncome: currentCombinedIncome,
+    ccsPercent: currentCCSPercent,
     annualChildcareCost: currentAnnual.outOfPocketPerYear,
+    familyTaxBenefit: ftbFor(currentGrossIncome),
+    parentingPayment: parentingPaymentFor(currentGrossIncome),
+    employerSuper: employerSuperFor(currentEmploymentIncome),
   };
 
-  // ── Generate 1–5 day scenarios ────────────────────────────────────────
-  const scenarios: BackToWorkScenario[] = [];
+  // ── Scenario at a given FTE salary ────────────────────────────────────
+  type ScenarioResult = Omit<BackToWorkScenario, 'breakEvenFTEIncome' | 'isWholeDays'>;
+
+  const scenarioFor = (pattern: WorkPattern, fteIncome: number): ScenarioResult => {
+    const days = pattern.daysPerWeek;
+    const workHoursPerWeek = days * pattern.hoursPerDay;
+    const fteFraction = workHoursPerWeek / fullTimeHoursPerWeek;
 
-  for (let days = 1; days <= 5; days++) {
-    // 1. Proportional income
-    const grossIncome = round2((days / 5) * proposedFTEIncome);
+    // 1. Proportional income (from the return date, plus PPL and current
+    //    income before leave)
+    const employmentIncome = round2(
+      currentIndividualIncome * preLeaveShare + fteFraction * fteIncome * workingShare
+    );
+    const grossIncome = round2(employmentIncome + pplIncome);
 
     // 2. New combined income
     const newCombinedIncome = round2(partnerIncome + grossIncome);
 
-    // 3. Tax on individual income
-    const tax = calculateIncomeTax(grossIncome, taxRates);
+    // 3. Tax (and HELP repayment) on individual income
+    const tax = taxFor(grossIncome, newCombinedIncome);
 
     // 4. CCS% at new combined income
-    const ccsResult = calculateCCSPercentage(newCombinedIncome, ccsRates);
+    const ccsPercent = ccsPercentFor(newCombinedIncome);
 
-    // 5. Childcare cost: child needs max(currentDays, daysWorking) days
-    const childcareDays = Math.max(clampedCurrentDays, days);
+    // 5. Childcare cost: children need max(currentDays, daysWorking) days,
+    //    less working days covered by informal care
+    const { paidDays: childcareDays, informalDays } =
+      pattern.childcareDaysPerWeek !== undefined
+        ? { paidDays: pattern.childcareDaysPerWeek, informalDays: 0 }
+        : getPaidCareDays(days, clampedCurrentDays, informalCare);
+    const childcareHoursPerDay = pattern.childcareHoursPerDay ?? hoursPerDay;
     const session = calculateSessionCCS(
       dailyFee,
-      hoursPerDay,
-      ccsResult.percent,
+      childcareHoursPerDay,
+      ccsPercent,
       careType,
       ageGroup,
       ccsRates
     );
-    const annualChildcare = calculateAnnualCost(
-      session,
-      childcareDays,
-      ccsRates.withholdingPercent
-    );
+    const activityHours = Math.max(currentActivityHours, workHoursPerWeek * 2);
+    const subsidisedHours = subsidisedHoursFor(activityHours, newCombinedIncome);
+    const childcareAt = (paidDays: number): AnnualCostResult =>
+      sumAnnualCosts([
+        calculateAnnualCost(
+          session,
+          paidDays,
+          ccsRates.withholdingPercent,
+          careWeeks,
+          subsidisedHours
+        ),
+        ...additionalChildrenCosts(paidDays, newCombinedIncome, subsidisedHours),
+      ]);
+    const annualChildcare = childcareAt(childcareDays);
 
-    // 6. Work costs (proportional to days worked)
+    //    Value of informal care: the cost if the covered days were paid too
+    const informalCareValue =
+      informalDays > 0
+        ? round2(
+            childcareAt(Math.max(clampedCurrentDays, days)).outOfPocketPerYear -
+              annualChildcare.outOfPocketPerYear
+          )
+        : 0;
+
+    // 6. Work costs (proportional to days worked, from the return date)
     const annualWorkCosts = round2(
-      workRelatedCostsPerWeek * (days / 5) * 52
+      workRelatedCostsPerWeek * (days / 5) * 52 * workingShare
+    );
+
+    // 7. Family Tax Benefit at the new incomes
+    const familyTaxBenefitResult = ftbFor(grossIncome);
+    const ftbChange = round2(
+      (familyTaxBenefitResult?.total ?? 0) - (current.familyTaxBenefit?.total ?? 0)
+    );
+
+    // 8. Parenting Payment at the new income
+    const parentingPaymentResult = parentingPaymentFor(grossIncome);
+    const parentingPaymentChange = round2(
+      (parentingPaymentResult?.annualAmount ?? 0) -
+        (current.parentingPayment?.annualAmount ?? 0)
     );
 
-    // 7. Net benefit
+    // 9. Net benefit
     //    = (newNetIncome − currentNetIncome)
     //    − (newChildcareCost − currentChildcareCost)
     //    − workCosts
+    //    + (newFTB − currentFTB)
+    //    + (newParentingPayment − currentParentingPayment)
     const additionalNetIncome = tax.netIncome - current.netIncome;
     const additionalChildcareCost =
       annualChildcare.outOfPocketPerYear - current.annualChildcareCost;
     const netBenefit = round2(
       additionalNetIncome - additionalChildcareCost - annualWorkCosts
+      + ftbChange + parentingPaymentChange
     );
 
-    // 8. Effective hourly rate
-    const annualHoursWorked = days * workHoursPerDay * 52;
+    // 10. Effective marginal tax rate on the extra gross income
+    const additionalGrossIncome = grossIncome - current.grossIncome;
+    const effectiveMarginalTaxRate =
+      additionalGrossIncome > 0
+        ? round2((1 - (netBenefit + annualWorkCosts) / additionalGrossIncome) * 100)
+        : null;
+
+    // 11. Effective hourly rate
+    const annualHoursWorked = workHoursPerWeek * 52 * workingShare;
     const effectiveHourlyRate =
       annualHoursWorked > 0
         ? round2(netBenefit / annualHoursWorked)
         : null;
 
-    scenarios.push({
+    // 12. Employer super (not paid on PPL), and the total value with the
+    //     extra super
+    const employerSuper = employerSuperFor(employmentIncome);
+    const superChange = round2(
+      (employerSuper - current.employerSuper) * (1 - contributionsTaxRate)
+    );
+
+    return {
+      pattern: { ...pattern, label: getWorkPatternLabel(pattern) },
       daysWorking: days,
+      workHoursPerWeek: round2(workHoursPerWeek),
+      fteFraction: round2(fteFraction),
+      childcareDaysPerWeek: childcareDays,
+      informalCareDaysPerWeek: informalDays,
+      informalCareValue,
+      childcareHoursPerDay,
       grossIncome,
       tax,
       netIncome: tax.netIncome,
       combinedFamilyIncome: newCombinedIncome,
-      ccsPercent: ccsResult.percent,
+      ccsPercent,
       sessionCCS: session,
       annualChildcare,
       annualWorkCosts,
+      familyTaxBenefit: familyTaxBenefitResult,
+      ftbChange,
+      parentingPayment: parentingPaymentResult,
+      parentingPaymentChange,
       netBenefit,
+      effectiveMarginalTaxRate,
       effectiveHourlyRate,
+      employerSuper,
+      superChange,
+      totalValue: round2(netBenefit + superChange),
       isWorthIt: netBenefit > 0,
-    });
-  }
+    };
+  };
+
+  // ── Generate 1–5 day and custom pattern scenarios ─────────────────────
+  const wholeDayPatterns = getWholeDayPatterns(workHoursPerDay);
+  const scenarios: BackToWorkScenario[] = [
+    ...wholeDayPatterns,
+    ...workPatterns,
+  ].map((pattern, i) => ({
+    ...scenarioFor(pattern, proposedFTEIncome),
+    isWholeDays: i < wholeDayPatterns.length,
+    breakEvenFTEIncome: solveBreakEven
+      ? findBreakEvenIncome((fteIncome) => scenarioFor(pattern, fteIncome).netBenefit)
+      : null,
+  }));
 
   // ── Find best scenario ────────────────────────────────────────────────
   const positiveScenarios = scenarios.filter((s) => s.netBenefit > 0);
@@ -270,12 +822,131 @@ export function calculateBackToWork(
     current,
     scenarios,
     bestScenario,
-    breakEvenFTEIncome: null, // TODO: binary search for break-even if needed
+    breakEvenFTEIncome: lowestBreakEven(scenarios),
   };
 }
 
+// ─── 2.6b: Break-Even FTE Income ────────────────────────────────────────────
+//
+// Net benefit rises with salary, but not smoothly: each $5,000 of combined
+// income above the threshold drops CCS by 1%, tax brackets and the Medicare
+// levy shade-in kick in, and the activity test low income result falls away
+// above $85,279. A small pay rise can therefore leave the family worse off,
+// so the net benefit curve has saw-tooth dips and plain bisection over the
+// whole range could land on the wrong crossing.
+//
+// The solver scans upward in BREAK_EVEN_SCAN_STEP increments to find the
+// first step that is net-positive, then bisects within that step to the
+// dollar. Dips narrower than one step are not resolved.
+//
+// Worked example (partner $100k, $100/day × 10hr, 2 days in care,
+//                 $50/week work costs, 3-day scenario):
+//   At $3,987 FTE: income = $2,392.20 (no tax), combined = $102,392.20
+//     CCS drops 87% → 86%, childcare OOP $1,352 → $2,184 (+$832)
+//     work costs = $1,560
+//     Net benefit = $2,392.20 − $832 − $1,560 = +$0.20
+//   At $3,986 FTE the net benefit is −$0.40 → break-even is $3,987
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Highest FTE salary the break-even solver will search up to. */
+export const BREAK_EVEN_MAX_FTE_INCOME = 500000;
+
+/** Coarse scan step for the break-even solver. */
+const BREAK_EVEN_SCAN_STEP = 1000;
+
+/**
+ * Find the lowest whole-dollar FTE income at which netBenefitAt() is positive.
+ *
+ * @param netBenefitAt  Net benefit of a scenario at a given FTE income.
+ * @returns             Break-even FTE income, or null if none up to
+ *                      BREAK_EVEN_MAX_FTE_INCOME.
+ */
+function findBreakEvenIncome(
+  netBenefitAt: (fteIncome: number) => number
+): number | null {
+  if (netBenefitAt(0) > 0) return 0;
+
+  for (
+    let hi = BREAK_EVEN_SCAN_STEP;
+    hi <= BREAK_EVEN_MAX_FTE_INCOME;
+    hi += BREAK_EVEN_SCAN_STEP
+  ) {
+    if (netBenefitAt(hi) <= 0) continue;
+
+    // Bisect: lo is not positive, hi is
+    let lo = hi - BREAK_EVEN_SCAN_STEP;
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (netBenefitAt(mid) > 0) {
+        hi = mid;
+      } else {
+        lo = mid;
+      }
+    }
+    return hi;
+  }
+  return null;
+}
+
+/** Lowest break-even FTE income across scenarios, or null if none. */
+function lowestBreakEven(scenarios: BackToWorkScenario[]): number | null {
+  const incomes = scenarios
+    .map((s) => s.breakEvenFTEIncome)
+    .filter((v): v is number => v !== null);
+  return incomes.length > 0 ? Math.min(...incomes) : null;
+}
+
+// ─── 2.6c: Super Balance Projection ─────────────────────────────────────────
+//
+// The extra employer super from working compounds in the fund. Contributions
+// are assumed to arrive at the end of each year, growing at a steady return
+// (net of fees and earnings tax) with no salary growth:
+//
+//   Balance after n years = C × ((1 + r)^n − 1) / r    (C × n when r = 0)
+//
+// Worked example ($4,896/yr extra super, 6% return, 10 years):
+//   $4,896 × (1.06^10 − 1) / 0.06 = $4,896 × 13.18080 = $64,533.17
+//   of which $48,960 is contributions and $15,573.17 is earnings
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Default annual super return (net of fees and earnings tax) for projections. */
+export const DEFAULT_SUPER_RETURN_RATE = 0.06;
+
+/**
+ * Project the super balance built up by a steady extra yearly contribution.
+ *
+ * @param annualContribution  Extra contribution each year, after contributions tax.
+ * @param years               Number of years to project.
+ * @param returnRate          Annual return, e.g. 0.06 (default DEFAULT_SUPER_RETURN_RATE).
+ * @returns                   Balance at the end of the final year.
+ * @throws                    Error if years isn't a whole number of 0 or more.
+ */
+export function projectSuperBalance(
+  annualContribution: number,
+  years: number,
+  returnRate: number = DEFAULT_SUPER_RETURN_RATE
+): number {
+  if (!Number.isInteger(years) || years < 0) {
+    throw new Error('Projection years must be a whole number of 0 or more.');
+  }
+  if (returnRate === 0) return round2(annualContribution * years);
+  return round2(
+    (annualContribution * (Math.pow(1 + returnRate, years) - 1)) / returnRate
+  );
+}
+
 // ─── Utility ────────────────────────────────────────────────────────────────
 
+/** Add up each child's annual cost into the family's cost. */
+function sumAnnualCosts(costs: AnnualCostResult[]): AnnualCostResult {
+  if (costs.length === 1) return costs[0];
+  const total = { ...costs[0] };
+  for (const key of Object.keys(total) as (keyof AnnualCostResult)[]) {
+    total[key] = round2(costs.reduce((sum, cost) => sum + cost[key], 0));
+  }
+  return total;
+}
+
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -0,0 +1,480 @@
+// =============================================================================
+// CAREER PROJECTION — Back-to-Work Net Benefit Over Several Years
+// =============================================================================
+// calculateBackToWork() answers the question for this financial year only. A
+// scenario that costs the family money in year one can still pay off:
+// children age out of long day care into cheaper outside school hours care
+// (OSHC), then out of paid care altogether.
+//
+// This module runs calculateBackToWork() once per year, moving everything
+// that changes forward:
+//   1. Salaries (the proposed FTE salary, current income and the partner's
+//      income) grow at salaryGrowthRate
+//   2. Childcare fees rise at feeInflationRate
+//   3. The CCS hourly rate caps and income thresholds, which are indexed to
+//      CPI each 1 July, rise at capIndexationRate
+//   4. Each child gets a year older: before school (under 6) they use the
+//      family's day care arrangement, at school (6–12) OSHC if given, and
+//      from 13 no paid care. Younger children aged 5 or under get the higher
+//      CCS rate, as in runCalculations. Family Tax Benefit and Parenting
+//      Payment use the children's ages that year
+//
+// Every child in paid care is costed in the one calculateBackToWork() run
+// (as additionalChildren), so year one matches the single-year result for
+// the same children.
+//
+// A return timeline (part-year return from parental leave) applies to year
+// one only; every later year is a full year at work. Break-even salaries are
+// not solved for the yearly runs.
+//
+// Figures are in each year's dollars. Tax brackets, Family Tax Benefit and
+// Parenting Payment rates and work-related costs stay at today's values, so
+// pay rises carry more tax as incomes move up the brackets. With all three
+// rates at 0 the projection is in today's dollars.
+//
+// All functions are pure. They compose backToWorkCalculations and
+// resolveInputs.
+// =============================================================================
+
+import type { CCSRates, FTBRates, ParentingPaymentRates, TaxRates } from './types';
+import {
+  calculateBackToWork,
+  type BackToWorkParams,
+  type ChildCareArrangement,
+} from './backToWorkCalculations';
+import {
+  findEldestChildIndex,
+  resolveAgeGroupFromYears,
+  HIGHER_RATE_MAX_CHILD_AGE,
+} from './resolveInputs';
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/**
+ * Default yearly salary growth: the ABS Wage Price Index rose 3.4% in the
+ * year to June 2025.
+ */
+export const DEFAULT_SALARY_GROWTH_RATE = 0.034;
+
+/**
+ * Default yearly childcare fee growth: the 4.4% limit on fee rises for
+ * services taking the Worker Retention Payment, to August 2025.
+ */
+export const DEFAULT_FEE_INFLATION_RATE = 0.044;
+
+/**
+ * Default yearly CCS indexation: on 1 July 2025 the centre-based day care
+ * hourly cap rose from $14.29 to $14.63 and the income threshold from
+ * $83,280 to $85,279, both 2.4%.
+ */
+export const DEFAULT_CAP_INDEXATION_RATE = 0.024;
+
+/** Default number of years to project. */
+export const DEFAULT_PROJECTION_YEARS = 10;
+
+/** Age from which children no longer need paid care. */
+export const CARE_END_AGE = 13;
+
+/** Longest projection allowed. */
+export const MAX_PROJECTION_YEARS = 30;
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface CareerProjectionParams {
+  /**
+   * Year-one back-to-work inputs. The care type, daily fee and hours per day
+   * are the family's arrangement for children of its age group; childAges
+   * below replace any additional children and any ages given for Family Tax
+   * Benefit or Parenting Payment. Any return timeline applies to year one
+   * only.
+   */
+  backToWork: BackToWorkParams;
+  /** Number of years to project (1–MAX_PROJECTION_YEARS) */
+  years: number;
+  /** Children's ages in years today */
+  childAges: number[];
+  /**
+   * OSHC arrangement once a child is at school, or null for no paid care.
+   * Not used when backToWork is already school-age care.
+   */
+  oshc: {
+    dailyFee: number;
+    hoursPerDay: number;
+  } | null;
+  /** Yearly salary growth (default DEFAULT_SALARY_GROWTH_RATE) */
+  salaryGrowthRate?: number;
+  /** Yearly childcare fee inflation (default DEFAULT_FEE_INFLATION_RATE) */
+  feeInflationRate?: number;
+  /**
+   * Yearly indexation of the CCS hourly rate caps and income thresholds
+   * (default DEFAULT_CAP_INDEXATION_RATE)
+   */
+  capIndexationRate?: number;
+}
+
+/** Projection length and growth rates the family can adjust. */
+export type ProjectionAssumptions = Required<
+  Pick<CareerProjectionParams, 'years' | 'salaryGrowthRate' | 'feeInflationRate' | 'capIndexationRate'>
+>;
+
+/** Default projection length and growth rates. */
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+  years: DEFAULT_PROJECTION_YEARS,
+  salaryGrowthRate: DEFAULT_SALARY_GROWTH_RATE,
+  feeInflationRate: DEFAULT_FEE_INFLATION_RATE,
+  capIndexationRate: DEFAULT_CAP_INDEXATION_RATE,
+};
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface ProjectionYear {
+  /** Year of the projection, from 1 */
+  year: number;
+  /** Proposed FTE salary that year */
+  fteIncome: number;
+  /** Children's ages that year */
+  childAges: number[];
+  /** Children in before-school care that year */
+  childrenInDayCare: number;
+  /** Children in school-age care (OSHC) that year */
+  childrenInOSHC: number;
+  /** Net benefit of each scenario that year, in scenario order */
+  netBenefits: number[];
+  /** Net benefit of each scenario summed to the end of that year */
+  cumulativeNetBenefits: number[];
+}
+
+export interface ProjectedScenario {
+  /** Scenario label, e.g. "3 days" */
+  label: string;
+  /** Net benefit in year one */
+  firstYearNetBenefit: number;
+  /** Net benefit summed over the whole projection */
+  cumulativeNetBenefit: number;
+  /**
+   * First year at which the cumulative net benefit is positive, or null if
+   * it never is within the projection.
+   */
+  paybackYear: number | null;
+}
+
+export interface CareerProjectionResult {
+  /** Growth rates the projection used, after defaults */
+  assumptions: {
+    salaryGrowthRate: number;
+    feeInflationRate: number;
+    capIndexationRate: number;
+  };
+  /** One entry per projected year */
+  years: ProjectionYear[];
+  /** One entry per back-to-work scenario, in scenario order */
+  scenarios: ProjectedScenario[];
+  /** Scenario with the highest cumulative net benefit, or null if all negative */
+  bestScenario: ProjectedScenario | null;
+}
+
+// ─── 2.19: Career Projection ────────────────────────────────────────────────
+//
+// For each year t = 0 … years − 1:
+//
+//   1. Growth factors: salary (1 + g)^t, fees (1 + f)^t, CCS caps and
+//      thresholds (1 + c)^t
+//   2. Children's ages = today's ages + t
+//   3. Each child in paid care gets their own arrangement (day care before
+//      6, OSHC from 6 to 12) and CCS rate (higher for each child aged 5 or
+//      under except the eldest); calculateBackToWork() costs them all
+//   4. With no child in paid care, childcare costs nothing in any scenario
+//   5. Cumulative net benefit = running sum of each scenario's net benefit
+//
+// Worked example (partner $100k, FTE offer $60k, $150/day × 10hr, 2 days in
+//                 care now, one child aged 4, OSHC $60/day × 4hr, no growth):
+//   Years 1–2 (day care, aged 4–5): 3-day net benefit = $30,125.36
+//     after extra day care of $3,006.64 (3 days at 79% vs 2 at 87%)
+//   Years 3–5 (OSHC, aged 6–8):      3-day net benefit = $31,690.56
+//     after extra OSHC of only $1,441.44
+//   5-year cumulative = $155,322.40, vs 5 × year one = $150,626.80
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Each child's paid care arrangement at the given ages.
+ *
+ * @param ages      Children's ages in years.
+ * @param ownCare   The family's own arrangement, for children in its age
+ *                  group (ageGroup); below school age it is day care.
+ * @param oshc      OSHC for school-age children when ownCare is day care,
+ *                  or null for no paid care at school.
+ * @returns         One arrangement per child in paid care, in child order.
+ *                  Children aged 5 or under, except the eldest, get the
+ *                  higher CCS rate.
+ */
+export function getChildCareArrangements(
+  ages: number[],
+  ownCare: ChildCareArrangement,
+  oshc: CareerProjectionParams['oshc']
+): ChildCareArrangement[] {
+  const eldestUnderSixIndex = findEldestChildIndex(
+    ages.map((ageYears) => ({ ageYears })),
+    (c) => c.ageYears <= HIGHER_RATE_MAX_CHILD_AGE
+  );
+  return ages.flatMap((age, i): ChildCareArrangement[] => {
+    const ageGroup = resolveAgeGroupFromYears(age);
+    const higherCCSRate = age <= HIGHER_RATE_MAX_CHILD_AGE && i !== eldestUnderSixIndex;
+    if (age >= CARE_END_AGE) return [];
+    if (ageGroup === ownCare.ageGroup) {
+      return [{ ...ownCare, ageGroup, higherCCSRate }];
+    }
+    if (ageGroup === 'school_age' && oshc) {
+      return [{
+        careType: 'outside_school_hours',
+        dailyFee: oshc.dailyFee,
+        hoursPerDay: oshc.hoursPerDay,
+        ageGroup,
+        higherCCSRate,
+      }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Scale the CCS hourly rate caps and income thresholds by an indexation
+ * factor.
+ *
+ * @param ccsRates  CCS rates data.
+ * @param factor    Indexation factor, e.g. 1.03 for one year at 3%.
+ * @returns         A copy of the rates with indexed hourly caps and income
+ *                  thresholds (whole dollars).
+ */
+export function indexCCSRates(ccsRates: CCSRates, factor: number): CCSRates {
+  const { standardSubsidy, annualSubsidyCap, activityTest } = ccsRates;
+  return {
+    ...ccsRates,
+    standardSubsidy: {
+      ...standardSubsidy,
+      baseIncomeThreshold: Math.round(standardSubsidy.baseIncomeThreshold * factor),
+    },
+    hourlyRateCaps: ccsRates.hourlyRateCaps.map((cap) => ({
+      ...cap,
+      ratePerHour: round2(cap.ratePerHour * factor),
+    })),
+    annualSubsidyCap: {
+      ...annualSubsidyCap,
+      incomeThreshold: Math.round(annualSubsidyCap.incomeThreshold * factor),
+    },
+    activityTest: {
+      ...activityTest,
+      lowIncomeResult: {
+        ...activityTest.lowIncomeResult,
+        incomeThreshold: Math.round(activityTest.lowIncomeResult.incomeThreshold * factor),
+      },
+    },
+  };
+}
+
+/**
+ * Project each back-to-work scenario's net benefit over several years.
+ *
+ * @param params    Year-one inputs, children and growth assumptions.
+ * @param ccsRates  CCS rates data (today's).
+ * @param taxRates  Tax rates data.
+ * @param ftbRates  FTB rates data (required when FTB is modelled).
+ * @param ppRates   Parenting Payment rates data (required when Parenting
+ *                  Payment is modelled).
+ * @returns         Year-by-year and cumulative net benefit per scenario.
+ * @throws          Error if years is outside 1–MAX_PROJECTION_YEARS.
+ */
+export function calculateCareerProjection(
+  params: CareerProjectionParams,
+  ccsRates: CCSRates,
+  taxRates: TaxRates,
+  ftbRates?: FTBRates,
+  ppRates?: ParentingPaymentRates
+): CareerProjectionResult {
+  const {
+    backToWork,
+    years,
+    childAges,
+    oshc,
+    salaryGrowthRate = DEFAULT_SALARY_GROWTH_RATE,
+    feeInflationRate = DEFAULT_FEE_INFLATION_RATE,
+    capIndexationRate = DEFAULT_CAP_INDEXATION_RATE,
+  } = params;
+
+  if (!Number.isInteger(years) || years < 1 || years > MAX_PROJECTION_YEARS) {
+    throw new Error(
+      `Projection years must be a whole number from 1 to ${MAX_PROJECTION_YEARS}.`
+    );
+  }
+
+  const projectionYears: ProjectionYear[] = [];
+  let cumulative: number[] = [];
+  let labels: string[] = [];
+
+  for (let t = 0; t < years; t++) {
+    // 1. Growth factors
+    const salaryFactor = Math.pow(1 + salaryGrowthRate, t);
+    const feeFactor = Math.pow(1 + feeInflationRate, t);
+    const yearCCSRates = indexCCSRates(
+      ccsRates,
+      Math.pow(1 + capIndexationRate, t)
+    );
+
+    // 2. Children's ages this year
+    const ages = childAges.map((age) => age + t);
+
+    const yearParams: BackToWorkParams = {
+      ...backToWork,
+      combinedAnnualIncome: round2(backToWork.combinedAnnualIncome * salaryFactor),
+      currentIndividualIncome: round2(backToWork.currentIndividualIncome * salaryFactor),
+      proposedFTEIncome: round2(backToWork.proposedFTEIncome * salaryFactor),
+      returnTimeline: t === 0 ? backToWork.returnTimeline : undefined,
+      solveBreakEven: false,
+      familyTaxBenefit: backToWork.familyTaxBenefit && {
+        ...backToWork.familyTaxBenefit,
+        childAges: ages,
+      },
+      parentingPayment: backToWork.parentingPayment && {
+        ...backToWork.parentingPayment,
+        childAges: ages,
+      },
+    };
+
+    // 3. Each child's arrangement and CCS rate
+    const arrangements = getChildCareArrangements(
+      ages,
+      {
+        careType: backToWork.careType,
+        dailyFee: round2(backToWork.dailyFee * feeFactor),
+        hoursPerDay: backToWork.hoursPerDay,
+        ageGroup: backToWork.ageGroup,
+      },
+      oshc && { ...oshc, dailyFee: round2(oshc.dailyFee * feeFactor) }
+    );
+
+    // 4. No child in paid care: cost the family's arrangement at $0/day
+    const noPaidCare: ChildCareArrangement = {
+      careType: backToWork.careType,
+      dailyFee: 0,
+      hoursPerDay: backToWork.hoursPerDay,
+      ageGroup: backToWork.ageGroup,
+      higherCCSRate: false,
+    };
+    const [firstChild = noPaidCare, ...additionalChildren] = arrangements;
+    const run = calculateBackToWork(
+      { ...yearParams, ...firstChild, additionalChildren },
+      yearCCSRates,
+      taxRates,
+      ftbRates,
+      ppRates
+    );
+    const netBenefits = run.scenarios.map((s) => s.netBenefit);
+
+    // 5. Running totals
+    if (t === 0) {
+      labels = run.scenarios.map((s) => s.pattern.label);
+      cumulative = netBenefits.map(() => 0);
+    }
+    cumulative = cumulative.map((total, i) => round2(total + netBenefits[i]));
+
+    projectionYears.push({
+      year: t + 1,
+      fteIncome: yearParams.proposedFTEIncome,
+      childAges: ages,
+      childrenInDayCare: arrangements.filter((a) => a.ageGroup === 'below_school_age').length,
+      childrenInOSHC: arrangements.filter((a) => a.ageGroup === 'school_age').length,
+      netBenefits,
+      cumulativeNetBenefits: cumulative,
+    });
+  }
+
+  const scenarios: ProjectedScenario[] = labels.map((label, i) => {
+    const payback = projectionYears.find((y) => y.cumulativeNetBenefits[i] > 0);
+    return {
+      label,
+      firstYearNetBenefit: projectionYears[0].netBenefits[i],
+      cumulativeNetBenefit: cumulative[i],
+      paybackYear: payback ? payback.year : null,
+    };
+  });
+
+  const positive = scenarios.filter((s) => s.cumulativeNetBenefit > 0);
+  const bestScenario =
+    positive.length > 0
+      ? positive.reduce((best, s) =>
+          s.cumulativeNetBenefit > best.cumulativeNetBenefit ? s : best
+        )
+      : null;
+
+  return {
+    assumptions: { salaryGrowthRate, feeInflationRate, capIndexationRate },
+    years: projectionYears,
+    scenarios,
+    bestScenario,
+  };
+}
+
+// ─── URL Params ─────────────────────────────────────────────────────────────
+//
+// Projection settings travel as four URL params, rates as percentages:
+//   py  years               e.g. 10
+//   sg  salaryGrowthRate    e.g. 3.4
+//   fi  feeInflationRate    e.g. 4.4
+//   cx  capIndexationRate   e.g. 2.4
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Encode projection settings as URL params.
+ *
+ * @param assumptions  Projection length and growth rates.
+ * @returns            The py, sg, fi and cx params.
+ */
+export function encodeProjectionParams(
+  assumptions: ProjectionAssumptions
+): Record<'py' | 'sg' | 'fi' | 'cx', string> {
+  const percent = (rate: number) => String(round2(rate * 100));
+  return {
+    py: String(assumptions.years),
+    sg: percent(assumptions.salaryGrowthRate),
+    fi: percent(assumptions.feeInflationRate),
+    cx: percent(assumptions.capIndexationRate),
+  };
+}
+
+/**
+ * Decode projection settings from URL params. Missing or invalid values
+ * fall back to the defaults; rates are kept to 0.01%, and years are rounded
+ * and clamped to 1–MAX_PROJECTION_YEARS.
+ *
+ * @param params  URL params (py, sg, fi, cx).
+ * @returns       Projection length and growth rates.
+ */
+export function decodeProjectionParams(
+  params: Record<string, string | undefined>
+): ProjectionAssumptions {
+  const number = (value: string | undefined): number | null => {
+    const n = value === undefined || value === '' ? NaN : Number(value);
+    return Number.isFinite(n) ? n : null;
+  };
+  const rate = (value: string | undefined, fallback: number): number => {
+    const percent = number(value);
+    return percent !== null && percent > -100
+      ? Math.round(percent * 100) / 10000
+      : fallback;
+  };
+  const years = number(params.py);
+  return {
+    years:
+      years === null
+        ? DEFAULT_PROJECTION_YEARS
+        : Math.min(MAX_PROJECTION_YEARS, Math.max(1, Math.round(years))),
+    salaryGrowthRate: rate(params.sg, DEFAULT_SALARY_GROWTH_RATE),
+    feeInflationRate: rate(params.fi, DEFAULT_FEE_INFLATION_RATE),
+    capIndexationRate: rate(params.cx, DEFAULT_CAP_INDEXATION_RATE),
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
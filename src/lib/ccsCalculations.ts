@@ -51,6 +51,8 @@ export interface SessionCCSResult {
   effectiveHourlyRate: number;
   /** Hourly fee above cap — always fully out-of-pocket */
   feeAboveCapPerHour: number;
+  /** Hours of care charged per session (day) */
+  hoursPerSession: number;
   /** Subsidy per hour: effectiveHourlyRate × (ccsPercent / 100) */
   subsidyPerHour: number;
   /** Subsidy per session (day): subsidyPerHour × hoursPerDay */
@@ -70,6 +72,12 @@ export interface AnnualCostResult {
   outOfPocketPerFortnight: number;
   /** Gap fee + withholding — what family actually pays each fortnight */
   netOutOfPocketPerFortnight: number;
+  /** Hours of care charged per fortnight */
+  hoursOfCarePerFortnight: number;
+  /** Hours of care that attract CCS (limited by the activity test) */
+  subsidisedHoursPerFortnight: number;
+  /** Hours of care above the limit — full fee, no subsidy */
+  unsubsidisedHoursPerFortnight: number;
 
   // ── Per week ──
   grossFeePerWeek: number;
@@ -88,6 +96,36 @@ export interface AnnualCostResult {
   netOutOfPocketPerYear: number;
 }
 
+export interface AnnualCapResult {
+  /** Whether the family is subject to the annual cap (income above threshold) */
+  applies: boolean;
+  /** Maximum CCS payable per child per year, or null if uncapped */
+  capAmount: number | null;
+  /** Whether this child's subsidy reaches the cap within the year */
+  isCapReached: boolean;
+  /** Fortnight of the financial year (1-based) in which the cap is reached */
+  capReachedInFortnight: number | null;
+  /** Annual subsidy before the cap is applied */
+  uncappedSubsidyPerYear: number;
+  /** Annual subsidy after the cap is applied */
+  cappedSubsidyPerYear: number;
+  /** Subsidy lost to the cap — paid by the family as extra out-of-pocket */
+  extraOutOfPocketPerYear: number;
+}
+
+export interface AbsenceResult {
+  /** Booked days of care missed during the year */
+  absenceDays: number;
+  /** Absence days subsidised without evidence */
+  allowableDays: number;
+  /** Absences beyond the allowance that are covered by evidence */
+  evidencedDays: number;
+  /** Absence days with no CCS — the family pays the full fee */
+  unsubsidisedDays: number;
+  /** Subsidy lost on unsubsidised days — extra out-of-pocket before the annual cap */
+  extraOutOfPocketPerYear: number;
+}
+
 // ─── 2.1: Standard CCS Percentage ──────────────────────────────────────────
 //
 // Formula: max(0, 90 − ceil((income − 85279) / 5000) × 1)
@@ -108,7 +146,7 @@ export interface AnnualCostResult {
  *
  * @param income  Combined annual family income (AUD). Values ≤ 0 treated as
  *                below threshold (returns max rate).
- * @param rates   CCS rates data loaded from current.json.
+ * @param rates   CCS rates data from the rates registry.
  * @returns       CCS percentage and calculation breakdown.
  */
 export function calculateCCSPercentage(
@@ -323,6 +361,7 @@ export function calculateSessionCCS(
     hourlyRateCap,
     effectiveHourlyRate: round2(effectiveHourlyRate),
     feeAboveCapPerHour: round2(feeAboveCapPerHour),
+    hoursPerSession: hoursPerDay,
     subsidyPerHour: round2(subsidyPerHour),
     subsidyPerSession: round2(subsidyPerSession),
     outOfPocketPerSession: round2(outOfPocketPerSession),
@@ -343,6 +382,15 @@ export function calculateSessionCCS(
 //
 // After reconciliation, if income was estimated correctly:
 //   annual cost = gap fee only (withholding refunded)
+//
+// When the activity test limits subsidised hours, CCS is only paid on the
+// first N hours each fortnight. Hours above the limit attract no subsidy:
+//   subsidised share = min(1, subsidisedHours / hoursOfCare)
+//
+// Worked example (10hr days, 5 days/week, 36 subsidised hours):
+//   Hours of care:     10 × 10 = 100 hours/fortnight
+//   Subsidised share:  36 / 100 = 0.36
+//   Subsidy/fortnight: subsidyPerSession × 10 × 0.36
 // ────────────────────────────────────────────────────────────────────────────
 
 /**
@@ -352,22 +400,39 @@ export function calculateSessionCCS(
  * @param daysPerWeek         Days of care per week (1–5).
  * @param withholdingPercent  Percentage of CCS withheld (default 5%).
  * @param weeksPerYear        Weeks of care per year (default 52).
+ * @param subsidisedHoursPerFortnight
+ *                            Activity test limit on subsidised hours per
+ *                            fortnight (default null = no limit).
  * @returns                   Annualised cost breakdown at all time horizons.
  */
 export function calculateAnnualCost(
   session: SessionCCSResult,
   daysPerWeek: number,
   withholdingPercent: number = 5,
-  weeksPerYear: number = 52
+  weeksPerYear: number = 52,
+  subsidisedHoursPerFortnight: number | null = null
 ): AnnualCostResult {
   if (daysPerWeek < 1 || daysPerWeek > 5) {
     throw new Error('daysPerWeek must be between 1 and 5.');
   }
+  if (subsidisedHoursPerFortnight != null && subsidisedHoursPerFortnight < 0) {
+    throw new Error('subsidisedHoursPerFortnight cannot be negative.');
+  }
 
-  // ── Per fortnight (base unit for CCS payments) ──
+  // ── Activity test limit ──
   const sessionsPerFortnight = daysPerWeek * 2;
+  const hoursOfCarePerFortnight = session.hoursPerSession * sessionsPerFortnight;
+  const subsidisedHours =
+    subsidisedHoursPerFortnight == null
+      ? hoursOfCarePerFortnight
+      : Math.min(hoursOfCarePerFortnight, subsidisedHoursPerFortnight);
+  const subsidisedShare =
+    hoursOfCarePerFortnight > 0 ? subsidisedHours / hoursOfCarePerFortnight : 0;
+  const subsidyPerSession = session.subsidyPerSession * subsidisedShare;
+
+  // ── Per fortnight (base unit for CCS payments) ──
   const grossFeePerFortnight = session.dailyFeeUsed * sessionsPerFortnight;
-  const subsidyPerFortnight = session.subsidyPerSession * sessionsPerFortnight;
+  const subsidyPerFortnight = subsidyPerSession * sessionsPerFortnight;
   const withholdingPerFortnight =
     subsidyPerFortnight * (withholdingPercent / 100);
   const outOfPocketPerFortnight = grossFeePerFortnight - subsidyPerFortnight;
@@ -376,14 +441,14 @@ export function calculateAnnualCost(
 
   // ── Per week (for easy comparison with weekly budgets) ──
   const grossFeePerWeek = session.dailyFeeUsed * daysPerWeek;
-  const subsidyPerWeek = session.subsidyPerSession * daysPerWeek;
+  const subsidyPerWeek = subsidyPerSession * daysPerWeek;
   const outOfPocketPerWeek = grossFeePerWeek - subsidyPerWeek;
   const netOutOfPocketPerWeek =
     outOfPocketPerWeek + withholdingPerFortnight / 2;
 
   // ── Per year (52 weeks standard) ──
   const grossFeePerYear = session.dailyFeeUsed * daysPerWeek * weeksPerYear;
-  const subsidyPerYear = session.subsidyPerSession * daysPerWeek * weeksPerYear;
+  const subsidyPerYear = subsidyPerSession * daysPerWeek * weeksPerYear;
   const withholdingPerYear = subsidyPerYear * (withholdingPercent / 100);
   const outOfPocketPerYear = grossFeePerYear - subsidyPerYear;
   const netOutOfPocketPerYear = outOfPocketPerYear + withholdingPerYear;
@@ -394,6 +459,11 @@ export function calculateAnnualCost(
     withholdingPerFortnight: round2(withholdingPerFortnight),
     outOfPocketPerFortnight: round2(outOfPocketPerFortnight),
     netOutOfPocketPerFortnight: round2(netOutOfPocketPerFortnight),
+    hoursOfCarePerFortnight: round2(hoursOfCarePerFortnight),
+    subsidisedHoursPerFortnight: round2(subsidisedHours),
+    unsubsidisedHoursPerFortnight: round2(
+      hoursOfCarePerFortnight - subsidisedHours
+    ),
 
     grossFeePerWeek: round2(grossFeePerWeek),
     subsidyPerWeek: round2(subsidyPerWeek),
@@ -408,6 +478,231 @@ export function calculateAnnualCost(
   };
 }
 
+// ─── 2.4b: Annual Subsidy Cap ───────────────────────────────────────────────
+//
+// Families with combined income above $85,279 can receive at most $11,003 of
+// CCS per child per financial year. Once a child's subsidy reaches the cap,
+// the family pays the full fee for that child until 1 July.
+//
+// Fortnight in which the cap is reached = ceil(cap / subsidyPerFortnight)
+//
+// Worked example (centre-based, $180/day × 10hr, 5 days, $200k → 67% CCS):
+//   Subsidy/session:   $14.63 × 0.67 × 10 = $98.02
+//   Subsidy/fortnight: $98.02 × 10 = $980.20
+//   Uncapped/year:     $98.02 × 5 × 52 = $25,485.20
+//   Cap reached:       ceil($11,003 / $980.20) = fortnight 12
+//   Extra out-of-pocket: $25,485.20 − $11,003 = $14,482.20
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Determine whether the annual CCS cap applies to a child and when it is reached.
+ *
+ * @param annual          Uncapped annual cost from calculateAnnualCost().
+ * @param combinedIncome  Combined annual family income (AUD).
+ * @param rates           CCS rates data.
+ * @returns               Cap status, fortnight reached and extra out-of-pocket.
+ */
+export function calculateAnnualCap(
+  annual: AnnualCostResult,
+  combinedIncome: number,
+  rates: CCSRates
+): AnnualCapResult {
+  const { incomeThreshold, capAmountPerChild, uncappedBelow } =
+    rates.annualSubsidyCap;
+  const uncappedSubsidyPerYear = annual.subsidyPerYear;
+
+  // At or below threshold → no cap
+  if (uncappedBelow && combinedIncome <= incomeThreshold) {
+    return {
+      applies: false,
+      capAmount: null,
+      isCapReached: false,
+      capReachedInFortnight: null,
+      uncappedSubsidyPerYear,
+      cappedSubsidyPerYear: uncappedSubsidyPerYear,
+      extraOutOfPocketPerYear: 0,
+    };
+  }
+
+  const isCapReached = uncappedSubsidyPerYear > capAmountPerChild;
+  const cappedSubsidyPerYear = Math.min(uncappedSubsidyPerYear, capAmountPerChild);
+  const capReachedInFortnight =
+    isCapReached && annual.subsidyPerFortnight > 0
+      ? Math.ceil(capAmountPerChild / annual.subsidyPerFortnight)
+      : null;
+
+  return {
+    applies: true,
+    capAmount: capAmountPerChild,
+    isCapReached,
+    capReachedInFortnight,
+    uncappedSubsidyPerYear,
+    cappedSubsidyPerYear: round2(cappedSubsidyPerYear),
+    extraOutOfPocketPerYear: round2(uncappedSubsidyPerYear - cappedSubsidyPerYear),
+  };
+}
+
+/**
+ * Apply an annual cap result to the per-year figures of an annual cost.
+ *
+ * Fortnightly and weekly figures are left unchanged — they describe a
+ * typical fortnight before the cap is reached.
+ *
+ * @param annual              Uncapped annual cost from calculateAnnualCost().
+ * @param cap                 Cap result from calculateAnnualCap().
+ * @param withholdingPercent  Percentage of CCS withheld (default 5%).
+ * @returns                   Annual cost with per-year subsidy capped.
+ */
+export function applyAnnualCap(
+  annual: AnnualCostResult,
+  cap: AnnualCapResult,
+  withholdingPercent: number = 5
+): AnnualCostResult {
+  if (!cap.isCapReached) {
+    return annual;
+  }
+
+  const subsidyPerYear = cap.cappedSubsidyPerYear;
+  const withholdingPerYear = subsidyPerYear * (withholdingPercent / 100);
+  const outOfPocketPerYear = annual.grossFeePerYear - subsidyPerYear;
+
+  return {
+    ...annual,
+    subsidyPerYear: round2(subsidyPerYear),
+    withholdingPerYear: round2(withholdingPerYear),
+    outOfPocketPerYear: round2(outOfPocketPerYear),
+    netOutOfPocketPerYear: round2(outOfPocketPerYear + withholdingPerYear),
+  };
+}
+
+// ─── 2.4c: Part-Year Costs ──────────────────────────────────────────────────
+//
+// When a child's rate or hourly rate cap changes mid-year, each part of the
+// year is costed as if it ran all year, then weighted by its share.
+//
+// Worked example (school start on 2 Feb 2026 → 216 / 149 days):
+//   Before: $2,100/fortnight gap × 0.5918 = $1,242.78
+//   After:  $2,300/fortnight gap × 0.4082 =   $938.86
+//   Average gap/fortnight:                  $2,181.64
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Combine full-year costs for parts of the year into one annual cost.
+ * Per-year figures become part-year totals; fortnightly and weekly figures
+ * become year-weighted averages.
+ *
+ * @param parts  Full-year cost for each part, with its share of the year.
+ * @returns      Combined annual cost (before the annual cap).
+ */
+export function combinePartYearCosts(
+  parts: { annual: AnnualCostResult; shareOfYear: number }[]
+): AnnualCostResult {
+  if (parts.length === 0) {
+    throw new Error('At least one part of the year is required.');
+  }
+  if (parts.length === 1) {
+    return parts[0].annual;
+  }
+
+  const combined = { ...parts[0].annual };
+  for (const key of Object.keys(combined) as (keyof AnnualCostResult)[]) {
+    combined[key] = round2(
+      parts.reduce((sum, p) => sum + p.annual[key] * p.shareOfYear, 0)
+    );
+  }
+  return combined;
+}
+
+// ─── 2.4d: Allowable Absences ───────────────────────────────────────────────
+//
+// CCS is paid for up to 42 absence days per child per financial year. Beyond
+// that, absences are only subsidised with evidence (e.g. a medical
+// certificate) — otherwise the family pays the full fee for the day.
+//
+// Unsubsidised days = max(0, absences − 42 − evidenced absences)
+//
+// Worked example (centre-based, $150/day × 10hr, 3 days, 90% CCS):
+//   Subsidy/session:  $14.63 × 0.90 × 10 = $131.67
+//   Absences:         50 days, no evidence → 50 − 42 = 8 unsubsidised
+//   Extra gap fee:    8 × $131.67 = $1,053.36/year
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Work out how many absence days lose CCS and what that costs the family.
+ *
+ * @param annual         Annual cost (before the annual cap).
+ * @param daysPerWeek    Days of care per week (1–5).
+ * @param absenceDays    Booked days missed during the year.
+ * @param evidencedDays  Absences beyond the allowance covered by evidence.
+ * @param rates          CCS rates data.
+ * @param weeksPerYear   Weeks of care per year (default 52).
+ * @returns              Unsubsidised absence days and the extra gap fee.
+ */
+export function calculateAbsences(
+  annual: AnnualCostResult,
+  daysPerWeek: number,
+  absenceDays: number,
+  evidencedDays: number,
+  rates: CCSRates,
+  weeksPerYear: number = 52
+): AbsenceResult {
+  if (absenceDays < 0 || evidencedDays < 0) {
+    throw new Error('Absence days cannot be negative.');
+  }
+
+  const sessionsPerYear = daysPerWeek * weeksPerYear;
+  const absences = Math.min(absenceDays, sessionsPerYear);
+  const allowableDays = rates.allowableAbsences.daysPerChildPerYear;
+  const beyondAllowance = Math.max(0, absences - allowableDays);
+  const evidenced = Math.min(evidencedDays, beyondAllowance);
+  const unsubsidisedDays = beyondAllowance - evidenced;
+
+  // Average subsidy per session across the year (after the activity test)
+  const subsidyPerSession = sessionsPerYear > 0 ? annual.subsidyPerYear / sessionsPerYear : 0;
+
+  return {
+    absenceDays: absences,
+    allowableDays,
+    evidencedDays: evidenced,
+    unsubsidisedDays,
+    extraOutOfPocketPerYear: round2(unsubsidisedDays * subsidyPerSession),
+  };
+}
+
+/**
+ * Remove the subsidy for unsubsidised absence days from the per-year figures
+ * of an annual cost. Apply before the annual cap.
+ *
+ * Fortnightly and weekly figures are left unchanged — they describe a
+ * typical fortnight of attendance.
+ *
+ * @param annual              Annual cost from calculateAnnualCost().
+ * @param absences            Result from calculateAbsences().
+ * @param withholdingPercent  Percentage of CCS withheld (default 5%).
+ * @returns                   Annual cost with absence days unsubsidised.
+ */
+export function applyAbsences(
+  annual: AnnualCostResult,
+  absences: AbsenceResult,
+  withholdingPercent: number = 5
+): AnnualCostResult {
+  if (absences.extraOutOfPocketPerYear === 0) {
+    return annual;
+  }
+
+  const subsidyPerYear = annual.subsidyPerYear - absences.extraOutOfPocketPerYear;
+  const withholdingPerYear = subsidyPerYear * (withholdingPercent / 100);
+  const outOfPocketPerYear = annual.grossFeePerYear - subsidyPerYear;
+
+  return {
+    ...annual,
+    subsidyPerYear: round2(subsidyPerYear),
+    withholdingPerYear: round2(withholdingPerYear),
+    outOfPocketPerYear: round2(outOfPocketPerYear),
+    netOutOfPocketPerYear: round2(outOfPocketPerYear + withholdingPerYear),
+  };
+}
+
 // ─── Utility ────────────────────────────────────────────────────────────────
 
 /** Round to 2 decimal places (cents). */
@@ -0,0 +1,211 @@
+// =============================================================================
+// CHILD TIMELINE — Mid-Year Age Changes Across the Financial Year
+// =============================================================================
+// When children are entered by date of birth, their CCS position can change
+// part-way through the financial year:
+//
+//   - Turning 6        → the higher CCS rate stops (and a younger sibling
+//                        may become the eldest child aged 5 or under)
+//   - Starting school  → the hourly rate cap drops to the school age cap
+//                        (centre-based $14.63 → $12.81)
+//
+// The financial year is split into segments at every such change, so each
+// segment can be costed with the ages, rates and caps that applied then.
+//
+// School start follows the state's rules (src/data/school-start/rules.json):
+// a child starts in the year they turn 5 if born on or before the cut-off,
+// otherwise the following year — assuming they start as soon as eligible.
+//
+// All functions are pure. Dates are ISO 'YYYY-MM-DD' strings.
+// =============================================================================
+
+import type { SchoolStartRule } from './types';
+import {
+  HIGHER_RATE_MAX_CHILD_AGE,
+  findEldestChildIndex,
+  type ResolvedChild,
+} from './resolveInputs';
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+/** One child's CCS position during a segment of the year. */
+export interface ChildSegmentStatus {
+  /** Age in whole years at the start of the segment */
+  ageYears: number;
+  ageGroup: 'below_school_age' | 'school_age';
+  /** Receives the higher CCS rate during this segment */
+  usesHigherRate: boolean;
+}
+
+/** A part of the financial year in which no child's position changes. */
+export interface YearSegment {
+  /** First day of the segment (inclusive) */
+  startDate: string;
+  /** Day after the segment ends (exclusive) */
+  endDate: string;
+  days: number;
+  /** Share of the financial year covered (0–1) */
+  shareOfYear: number;
+  /** One entry per child, in input order */
+  children: ChildSegmentStatus[];
+}
+
+// ─── Dates ──────────────────────────────────────────────────────────────────
+
+/**
+ * Age in whole years on a given date. A 29 February birthday is treated as
+ * falling on 1 March in non-leap years.
+ *
+ * @param dateOfBirth  ISO date of birth.
+ * @param date         ISO date to measure age on.
+ * @returns            Completed years of age (0 if not yet born).
+ */
+export function getAgeOnDate(dateOfBirth: string, date: string): number {
+  const years = Number(date.slice(0, 4)) - Number(dateOfBirth.slice(0, 4));
+  const hadBirthday = date.slice(5) >= dateOfBirth.slice(5);
+  return Math.max(0, hadBirthday ? years : years - 1);
+}
+
+/**
+ * Date on which a child reaches a given age.
+ *
+ * @param dateOfBirth  ISO date of birth.
+ * @param years        Age in years.
+ * @returns            ISO date of that birthday.
+ */
+export function getBirthdayDate(dateOfBirth: string, years: number): string {
+  const year = Number(dateOfBirth.slice(0, 4)) + years;
+  const monthDay = dateOfBirth.slice(5);
+  if (monthDay === '02-29' && !isLeapYear(year)) return `${year}-03-01`;
+  return `${year}-${monthDay}`;
+}
+
+/**
+ * Approximate date a child starts their first year of school.
+ *
+ * Worked example (NSW, born 2020-08-15, cut-off 31 July):
+ *   Turns 5 on 2025-08-15 — after the cut-off → starts the following year
+ *   School start: 2026-02-02 (Term 1, 2026)
+ *
+ * @param dateOfBirth  ISO date of birth.
+ * @param rule         School start rule for the family's state.
+ * @returns            ISO date of the first day of school.
+ */
+export function getSchoolStartDate(dateOfBirth: string, rule: SchoolStartRule): string {
+  const yearTurnsFive = Number(dateOfBirth.slice(0, 4)) + 5;
+  const startYear =
+    dateOfBirth.slice(5) <= rule.cutoffMonthDay ? yearTurnsFive : yearTurnsFive + 1;
+  return `${startYear}-${rule.termOneStartMonthDay}`;
+}
+
+// ─── 2.10: Financial Year Segments ──────────────────────────────────────────
+//
+// Worked example (NSW, FY 2025–26, two children in care):
+//   Child 1 born 2020-03-10 → turns 6 on 2026-03-10, started school 2025-02-02
+//   Child 2 born 2023-05-01 → aged 2, no changes during the year
+//
+//   Segment 1: 2025-07-01 → 2026-03-10 (252 days)
+//     Child 1: age 5, school age, standard rate (eldest aged 5 or under)
+//     Child 2: age 2, below school age, higher rate
+//   Segment 2: 2026-03-10 → 2026-07-01 (113 days)
+//     Child 1: age 6, school age, standard rate
+//     Child 2: age 2, below school age, standard rate (now the eldest
+//              aged 5 or under → higher rate stops)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split the financial year into segments at every change in a child's age
+ * group or higher-rate eligibility.
+ *
+ * Children without a date of birth keep the same age and age group all year.
+ * Without a school start rule, children are treated as school age from
+ * their 6th birthday.
+ *
+ * @param children    Resolved children (in input order).
+ * @param yearStart   ISO date the financial year starts (e.g. '2025-07-01').
+ * @param rule        School start rule for the family's state, or null.
+ * @returns           Segments covering the whole financial year, in order.
+ */
+export function buildYearSegments(
+  children: Pick<ResolvedChild, 'ageYears' | 'ageGroup' | 'dateOfBirth'>[],
+  yearStart: string,
+  rule: SchoolStartRule | null
+): YearSegment[] {
+  const yearEnd = addYears(yearStart, 1);
+  const daysInYear = daysBetween(yearStart, yearEnd);
+
+  const schoolStarts = children.map((c) =>
+    c.dateOfBirth
+      ? rule
+        ? getSchoolStartDate(c.dateOfBirth, rule)
+        : getBirthdayDate(c.dateOfBirth, 6)
+      : null
+  );
+
+  // Boundaries: each child's 6th birthday and school start within the year
+  const boundaries = new Set<string>([yearStart, yearEnd]);
+  children.forEach((c, i) => {
+    if (!c.dateOfBirth) return;
+    for (const date of [getBirthdayDate(c.dateOfBirth, HIGHER_RATE_MAX_CHILD_AGE + 1), schoolStarts[i]!]) {
+      if (date > yearStart && date < yearEnd) boundaries.add(date);
+    }
+  });
+  const dates = Array.from(boundaries).sort();
+
+  return dates.slice(0, -1).map((startDate, s) => {
+    const endDate = dates[s + 1];
+    const days = daysBetween(startDate, endDate);
+
+    const ages = children.map((c) =>
+      c.dateOfBirth ? getAgeOnDate(c.dateOfBirth, startDate) : c.ageYears
+    );
+    // Eldest child aged 5 or under stays on the standard rate. Exact ages
+    // (from date of birth) break ties between children of the same age.
+    const eligibleAges = children.map((c, i) =>
+      ages[i] > HIGHER_RATE_MAX_CHILD_AGE
+        ? -1
+        : c.dateOfBirth
+          ? daysBetween(c.dateOfBirth, startDate) / 365.25
+          : ages[i]
+    );
+    const eldestUnderSixIndex = findEldestChildIndex(
+      eligibleAges.map((ageYears) => ({ ageYears })),
+      (c) => c.ageYears >= 0
+    );
+
+    return {
+      startDate,
+      endDate,
+      days,
+      shareOfYear: days / daysInYear,
+      children: children.map((c, i) => ({
+        ageYears: ages[i],
+        ageGroup: c.dateOfBirth
+          ? startDate >= schoolStarts[i]!
+            ? 'school_age'
+            : 'below_school_age'
+          : c.ageGroup,
+        usesHigherRate:
+          ages[i] <= HIGHER_RATE_MAX_CHILD_AGE && i !== eldestUnderSixIndex,
+      })),
+    };
+  });
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+  );
+}
+
+function addYears(date: string, years: number): string {
+  return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
@@ -0,0 +1,129 @@
+// =============================================================================
+// CHILDREN URL PARAM — Compact Encoding of Per-Child Care
+// =============================================================================
+// Encodes WizardInputs.children into a single short URL param (`ch`) so the
+// wizard → results → "Edit answers" round trip keeps per-child details.
+//
+// Format:
+//   child = age.care.days.hours.fee[.dob[.absences.evidenced[.weeks]]]
+//           (hours/fee empty → default/state average; dob may be empty when
+//           later fields follow; weeks of care omitted when 52)
+//   list  = child~child~...
+//
+// Example: "4.cb.3.10.150.2021-03-14~8.os.5...50.4.40"
+//   Child 1: age 4, centre-based, 3 days, 10 hrs, $150/day, born 14 Mar 2021
+//   Child 2: age 8, OSHC, 5 days, default hours, state average fee,
+//            50 absence days (4 with evidence), 40 weeks of care
+// =============================================================================
+
+import type { CareType, ChildInput } from './types';
+
+// ─── Care Type Codes ────────────────────────────────────────────────────────
+
+export const CARE_TYPE_CODES: Record<CareType, string> = {
+  centre_based_day_care: 'cb',
+  family_day_care: 'fd',
+  outside_school_hours: 'os',
+  in_home_care: 'ih',
+};
+
+const CARE_TYPE_BY_CODE: Record<string, CareType> = Object.fromEntries(
+  Object.entries(CARE_TYPE_CODES).map(([careType, code]) => [code, careType])
+) as Record<string, CareType>;
+
+// ─── Encode ─────────────────────────────────────────────────────────────────
+
+/**
+ * Encode a list of children into the compact `ch` URL param value.
+ *
+ * @param children  Per-child care details.
+ * @returns         Encoded string (empty if there are no children).
+ */
+export function encodeChildrenParam(children: ChildInput[]): string {
+  return children
+    .map((c) => {
+      const fields = [
+        c.ageYears,
+        CARE_TYPE_CODES[c.careType],
+        c.daysPerWeek,
+        c.hoursPerDay ?? '',
+        c.feePerDay ?? '',
+      ];
+      const absences = c.absenceDaysPerYear ?? 0;
+      const evidenced = c.evidencedAbsenceDaysPerYear ?? 0;
+      const weeks = c.weeksPerYear ?? 52;
+      if (weeks < 52) {
+        fields.push(c.dateOfBirth ?? '', absences, evidenced, weeks);
+      } else if (absences > 0 || evidenced > 0) {
+        fields.push(c.dateOfBirth ?? '', absences, evidenced);
+      } else if (c.dateOfBirth) {
+        fields.push(c.dateOfBirth);
+      }
+      return fields.join('.');
+    })
+    .join('~');
+}
+
+// ─── Decode ─────────────────────────────────────────────────────────────────
+
+/**
+ * Decode the `ch` URL param back into per-child care details.
+ * Malformed entries are skipped; ages are clamped to 0–13 and days to 1–5.
+ * An invalid date of birth is dropped (the age is kept); invalid absence
+ * counts are treated as none and invalid weeks of care as all year.
+ *
+ * @param value  Raw `ch` param value.
+ * @returns      Decoded children, or undefined if none are valid.
+ */
+export function decodeChildrenParam(
+  value: string | undefined
+): ChildInput[] | undefined {
+  if (!value) return undefined;
+
+  const children: ChildInput[] = [];
+  for (const part of value.split('~')) {
+    const [age, code, days, hours, fee, dob, absences, evidenced, weeks] = part.split('.');
+    const careType = CARE_TYPE_BY_CODE[code];
+    const ageYears = Number(age);
+    const daysPerWeek = Number(days);
+    if (!careType || age === '' || !Number.isFinite(ageYears) || !Number.isFinite(daysPerWeek)) {
+      continue;
+    }
+
+    const child: ChildInput = {
+      ageYears: clamp(Math.round(ageYears), 0, 13),
+      careType,
+      daysPerWeek: clamp(Math.round(daysPerWeek), 1, 5),
+      hoursPerDay: parseOptionalPositive(hours),
+      feePerDay: parseOptionalPositive(fee),
+    };
+    if (isValidIsoDate(dob)) child.dateOfBirth = dob;
+    const absenceDays = parseOptionalPositive(absences);
+    const evidencedDays = parseOptionalPositive(evidenced);
+    if (absenceDays !== null) child.absenceDaysPerYear = Math.round(absenceDays);
+    if (evidencedDays !== null) child.evidencedAbsenceDaysPerYear = Math.round(evidencedDays);
+    const weeksPerYear = parseOptionalPositive(weeks);
+    if (weeksPerYear !== null) child.weeksPerYear = clamp(Math.round(weeksPerYear), 1, 52);
+    children.push(child);
+  }
+
+  return children.length > 0 ? children : undefined;
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function parseOptionalPositive(v: string | undefined): number | null {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function isValidIsoDate(v: string | undefined): v is string {
+  if (!v || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const date = new Date(`${v}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === v;
+}
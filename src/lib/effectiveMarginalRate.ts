@@ -0,0 +1,362 @@
+// =============================================================================
+// EFFECTIVE MARGINAL TAX RATE (EMTR) — What an Extra $1,000 Is Worth
+// =============================================================================
+// The effective marginal tax rate is the share of an extra dollar earned that
+// the family doesn't keep. For a family using childcare it is much more than
+// the tax bracket:
+//   - Income tax at the earner's marginal rate
+//   - Low Income Tax Offset (LITO) withdrawn as income rises
+//   - Medicare levy, including the low-income shade-in and any surcharge
+//   - CCS lost: family income sets the CCS rate, so childcare costs more
+//   - Family payments lost: Family Tax Benefit and Parenting Payment taper
+//     away as income rises (where modelled)
+//
+// This module varies one partner's income across a range, holding the other
+// partner's income fixed, and works out at each point what happens to the
+// family when that partner earns an extra $1,000.
+//
+// All functions are pure. They compose taxCalculations, ccsCalculations,
+// familyTaxBenefit and parentingPayment.
+// =============================================================================
+
+import type {
+  CCSRates,
+  CareType,
+  FTBRates,
+  ParentingPaymentRates,
+  TaxRates,
+} from './types';
+import { calculateIncomeTax, type IncomeTaxResult } from './taxCalculations';
+import {
+  calculateCCSPercentage,
+  calculateSessionCCS,
+  calculateAnnualCost,
+} from './ccsCalculations';
+import { calculateFamilyTaxBenefit } from './familyTaxBenefit';
+import { calculateParentingPayment } from './parentingPayment';
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Default extra income the rate is measured on. */
+export const DEFAULT_EXTRA_INCOME = 1000;
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface EffectiveMarginalRateParams {
+  /** Parent's annual income (the parent paid Parenting Payment, if modelled) */
+  parentIncome: number;
+  /** Partner's annual income, or null for single parents */
+  partnerIncome: number | null;
+  /**
+   * Whose income varies across the range and earns the extra (default
+   * 'parent'). The other partner's income stays fixed.
+   */
+  earner?: 'parent' | 'partner';
+  /** Daily childcare fee */
+  dailyFee: number;
+  /** Hours per day of care */
+  hoursPerDay: number;
+  /** Days per week of care */
+  daysPerWeek: number;
+  /** Type of care */
+  careType: CareType;
+  /** Child age group for rate cap */
+  ageGroup: 'below_school_age' | 'school_age';
+  /** Activity test limit on subsidised hours per fortnight (default no limit) */
+  subsidisedHoursPerFortnight?: number | null;
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksPerYear?: number;
+  /**
+   * Household details for the Medicare levy. When provided, the levy uses
+   * the family threshold, and without private hospital cover the surcharge
+   * is charged at the tier for the family's combined income.
+   */
+  medicare?: {
+    /** Number of dependent children */
+    dependentChildren: number;
+    /** Whether the family has private hospital cover */
+    privateHospitalCover: boolean;
+  };
+  /** Model Family Tax Benefit Parts A and B (requires ftbRates) */
+  familyTaxBenefit?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+  };
+  /** Model Parenting Payment paid to the parent (requires ppRates) */
+  parentingPayment?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+  };
+  /** Extra income earned at each point (default DEFAULT_EXTRA_INCOME) */
+  extraIncome?: number;
+  /** Earner's lowest income in the range (default $0) */
+  incomeMin?: number;
+  /** Earner's highest income in the range (default $250,000) */
+  incomeMax?: number;
+  /** Increment between rows (default: the extra income, so rows tile the range) */
+  increment?: number;
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+/**
+ * What an extra amount earned at one income does to the family. Rates are
+ * shares of the extra amount (0.3 = 30 cents in the dollar); a negative rate
+ * means the family gains.
+ */
+export interface EffectiveMarginalRateRow {
+  /** Earner's income before the extra */
+  income: number;
+  /** Combined family income before the extra */
+  familyIncome: number;
+  /** CCS percentage before the extra */
+  ccsPercent: number;
+  /** Extra income tax, net of any LITO that still covers it */
+  incomeTaxRate: number;
+  /** LITO withdrawn */
+  litoRate: number;
+  /** Extra Medicare levy and surcharge */
+  medicareRate: number;
+  /** Extra out-of-pocket childcare cost from a lower CCS rate */
+  childcareRate: number;
+  /** Family Tax Benefit and Parenting Payment lost */
+  familyPaymentsRate: number;
+  /** Sum of the above: the effective marginal tax rate */
+  effectiveMarginalRate: number;
+  /** Amount of the extra the family keeps */
+  amountKept: number;
+}
+
+export interface EffectiveMarginalRateResult {
+  /** Extra income the rates are measured on */
+  extraIncome: number;
+  /** One row per income point, lowest income first */
+  rows: EffectiveMarginalRateRow[];
+  /** Row closest to the earner's own income */
+  userRowIndex: number;
+  /** Row with the highest effective marginal rate */
+  peakRow: EffectiveMarginalRateRow;
+}
+
+/** The family's position at one pair of incomes. */
+interface FamilyPosition {
+  taxAfterLITO: number;
+  litoUsed: number;
+  medicare: number;
+  familyPayments: number;
+}
+
+// ─── 2.21: Effective Marginal Tax Rate ──────────────────────────────────────
+//
+// For each earner income x in the range (every increment):
+//   1. Family income F = x + the other partner's income
+//   2. Each partner's tax at their income, with Medicare tested on F; again
+//      with the earner on x + extra
+//   3. Childcare cost at F and at F + extra
+//   4. Family payments at both incomes (where modelled)
+//   5. Each component's rate = change ÷ extra; the EMTR is their sum, and
+//      the family keeps extra × (1 − EMTR)
+//
+// LITO is counted as far as it is used: while the offset still covers all
+// the tax, the extra income tax is nil, and LITO only adds to the rate once
+// it starts being withdrawn.
+//
+// Worked example (single parent, no FTB, $140/day × 10hr, 3 days, extra
+//                 $1,000 on $85,000 → family income $85,000 → $86,000):
+//   Income tax:  30% × $1,000                         = $300.00
+//   Medicare:     2% × $1,000                         =  $20.00
+//   LITO:        already nil above $66,667            =   $0.00
+//   Childcare:   CCS 90% → 89% on $21,840 a year      = $218.40
+//   EMTR = 53.84%, the family keeps $461.60 of the $1,000
+//
+// The CCS rate falls by 1% per $5,000 of family income, so childcare adds
+// to the rate only for the $1,000 that crosses a $5,000 step; averaged over
+// a step it's 1% of the annual fee per $5,000.
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Work out the effective marginal tax rate on an extra amount earned by one
+ * partner, across a range of that partner's income.
+ *
+ * @param params    Incomes, childcare arrangement, payments and range.
+ * @param ccsRates  CCS rates data.
+ * @param taxRates  Tax rates data.
+ * @param ftbRates  FTB rates data (required when params.familyTaxBenefit is set).
+ * @param ppRates   Parenting Payment rates data (required when
+ *                  params.parentingPayment is set).
+ * @returns         One row per income point, the user's row and the peak.
+ * @throws          Error if the extra income, increment or range is invalid,
+ *                  if the partner earns the extra for a single parent, or if
+ *                  FTB or Parenting Payment inputs are given without rates.
+ */
+export function calculateEffectiveMarginalRates(
+  params: EffectiveMarginalRateParams,
+  ccsRates: CCSRates,
+  taxRates: TaxRates,
+  ftbRates?: FTBRates,
+  ppRates?: ParentingPaymentRates
+): EffectiveMarginalRateResult {
+  const {
+    parentIncome,
+    partnerIncome,
+    earner = 'parent',
+    dailyFee,
+    hoursPerDay,
+    daysPerWeek,
+    careType,
+    ageGroup,
+    subsidisedHoursPerFortnight = null,
+    weeksPerYear = 52,
+    medicare,
+    familyTaxBenefit,
+    parentingPayment,
+    extraIncome = DEFAULT_EXTRA_INCOME,
+    incomeMin = 0,
+    incomeMax = 250000,
+    increment = extraIncome,
+  } = params;
+
+  if (extraIncome <= 0) {
+    throw new Error('Extra income must be more than $0.');
+  }
+  if (increment <= 0 || incomeMin < 0 || incomeMax < incomeMin) {
+    throw new Error('Income range must run upwards from $0 or more in steps above $0.');
+  }
+  if (earner === 'partner' && partnerIncome === null) {
+    throw new Error('A single parent has no partner to earn the extra income.');
+  }
+  if (familyTaxBenefit && !ftbRates) {
+    throw new Error('FTB rates are required to model Family Tax Benefit.');
+  }
+  if (parentingPayment && !ppRates) {
+    throw new Error('Parenting Payment rates are required to model Parenting Payment.');
+  }
+
+  const partnered = partnerIncome !== null;
+  const otherIncome = earner === 'parent' ? partnerIncome ?? 0 : parentIncome;
+  const userIncome = earner === 'parent' ? parentIncome : partnerIncome ?? 0;
+
+  // Individual tax, with the family's Medicare levy threshold and surcharge
+  // tier tested on the combined income
+  const taxFor = (income: number, familyIncome: number): IncomeTaxResult =>
+    calculateIncomeTax(income, taxRates, {
+      family:
+        medicare && (partnered || medicare.dependentChildren > 0)
+          ? { familyIncome, dependentChildren: medicare.dependentChildren }
+          : undefined,
+      privateHospitalCover: medicare?.privateHospitalCover ?? true,
+    });
+
+  // 2, 4. Tax for both partners and family payments at the earner's income
+  const positionFor = (earnerIncome: number): FamilyPosition => {
+    const parent = earner === 'parent' ? earnerIncome : parentIncome;
+    const partner = earner === 'partner' ? earnerIncome : partnerIncome;
+    const familyIncome = parent + (partner ?? 0);
+    const taxes = (partner === null ? [parent] : [parent, partner]).map((income) =>
+      taxFor(income, familyIncome)
+    );
+
+    const ftb =
+      familyTaxBenefit && ftbRates
+        ? calculateFamilyTaxBenefit(
+            { parentIncome: parent, partnerIncome: partner, childAges: familyTaxBenefit.childAges },
+            ftbRates
+          ).total
+        : 0;
+    const pp =
+      parentingPayment && ppRates
+        ? calculateParentingPayment(
+            { parentIncome: parent, partnerIncome: partner, childAges: parentingPayment.childAges },
+            ppRates
+          ).annualAmount
+        : 0;
+
+    return {
+      taxAfterLITO: sum(taxes.map((t) => t.taxAfterLITO)),
+      litoUsed: sum(taxes.map((t) => t.incomeTax - t.taxAfterLITO)),
+      medicare: sum(taxes.map((t) => t.medicareLevy + t.medicareLevySurcharge)),
+      familyPayments: ftb + pp,
+    };
+  };
+
+  // 3. CCS% and annual out-of-pocket childcare cost at a family income
+  const childcareFor = (familyIncome: number) => {
+    const ccsPercent = calculateCCSPercentage(familyIncome, ccsRates).percent;
+    const session = calculateSessionCCS(
+      dailyFee,
+      hoursPerDay,
+      ccsPercent,
+      careType,
+      ageGroup,
+      ccsRates
+    );
+    const annual = calculateAnnualCost(
+      session,
+      daysPerWeek,
+      ccsRates.withholdingPercent,
+      weeksPerYear,
+      subsidisedHoursPerFortnight
+    );
+    return { ccsPercent, annualOutOfPocket: annual.outOfPocketPerYear };
+  };
+
+  // 5. Component rates at each income
+  const rateOf = (change: number) => round4(change / extraIncome);
+  const rows: EffectiveMarginalRateRow[] = [];
+  for (let income = incomeMin; income <= incomeMax; income += increment) {
+    const familyIncome = income + otherIncome;
+    const now = positionFor(income);
+    const withExtra = positionFor(income + extraIncome);
+    const litoLost = Math.max(0, now.litoUsed - withExtra.litoUsed);
+    const taxChange = withExtra.taxAfterLITO - now.taxAfterLITO;
+    const before = childcareFor(familyIncome);
+    const after = childcareFor(familyIncome + extraIncome);
+    const childcareChange = after.annualOutOfPocket - before.annualOutOfPocket;
+    const totalChange =
+      taxChange +
+      (withExtra.medicare - now.medicare) +
+      childcareChange +
+      (now.familyPayments - withExtra.familyPayments);
+
+    rows.push({
+      income,
+      familyIncome,
+      ccsPercent: before.ccsPercent,
+      incomeTaxRate: rateOf(taxChange - litoLost),
+      litoRate: rateOf(litoLost),
+      medicareRate: rateOf(withExtra.medicare - now.medicare),
+      childcareRate: rateOf(childcareChange),
+      familyPaymentsRate: rateOf(now.familyPayments - withExtra.familyPayments),
+      effectiveMarginalRate: rateOf(totalChange),
+      amountKept: round2(extraIncome - totalChange),
+    });
+  }
+
+  const userRowIndex = rows.reduce(
+    (closest, row, i) =>
+      Math.abs(row.income - userIncome) < Math.abs(rows[closest].income - userIncome)
+        ? i
+        : closest,
+    0
+  );
+  const peakRow = rows.reduce((peak, row) =>
+    row.effectiveMarginalRate > peak.effectiveMarginalRate ? row : peak
+  );
+
+  return { extraIncome, rows, userRowIndex, peakRow };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Round to 4 decimal places (for rates like 0.2345). */
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,239 @@
+// =============================================================================
+// FAMILY TAX BENEFIT — Parts A and B
+// =============================================================================
+// Family Tax Benefit (FTB) is income tested, so for lower and middle-income
+// families it can take a large share of each extra dollar earned — on top of
+// income tax and the CCS taper.
+//
+//   Part A  per child, by age. Family income test (Method 1):
+//           maximum rate − 20c per $ above the income free area, but not
+//           below the base rate; base rate − 30c per $ above the higher
+//           income free area. Supplement per child if income ≤ $80,000.
+//
+//   Part B  per family, by the youngest child's age. Couples: higher earner
+//           at or below the income limit, youngest under 13, reduced by 20c
+//           per $ of the lower earner's income above the income free area.
+//           Single parents: income at or below the limit, youngest under 19.
+//
+// All functions are pure. Rates are annualised over 365 days (26.07
+// fortnights), as Services Australia does.
+// Source: https://www.servicesaustralia.gov.au/family-tax-benefit
+// =============================================================================
+
+import type { FTBPartARate, FTBRates } from './types';
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface FamilyTaxBenefitParams {
+  /** Income of the parent (adjusted taxable income) */
+  parentIncome: number;
+  /** Partner's income, or null for single parents */
+  partnerIncome: number | null;
+  /** Ages of dependent children in years */
+  childAges: number[];
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface FTBPartAResult {
+  /** Annual maximum rate for all children */
+  maxRate: number;
+  /** Annual base rate for all children */
+  baseRate: number;
+  /** Annual Part A after the income test, before the supplement */
+  annualAmount: number;
+  /** Part A supplement (paid after the year) */
+  supplement: number;
+  /** annualAmount + supplement */
+  total: number;
+}
+
+export interface FTBPartBResult {
+  /** Whether the family meets the child age and income limit tests */
+  eligible: boolean;
+  /** Annual maximum rate for the youngest child's age */
+  maxRate: number;
+  /** Annual Part B after the secondary earner test, before the supplement */
+  annualAmount: number;
+  /** Part B supplement (paid after the year) */
+  supplement: number;
+  /** annualAmount + supplement */
+  total: number;
+}
+
+export interface FamilyTaxBenefitResult {
+  /** Family income used for the Part A income test */
+  familyIncome: number;
+  partA: FTBPartAResult;
+  partB: FTBPartBResult;
+  /** Part A + Part B, including supplements */
+  total: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Fortnights in a year, as Services Australia annualises fortnightly rates. */
+const FORTNIGHTS_PER_YEAR = 365 / 14;
+
+// ─── Rate Lookup ────────────────────────────────────────────────────────────
+
+/**
+ * Get the FTB Part A rates for a child's age.
+ *
+ * @param ageYears  Child's age in years.
+ * @param rates     FTB rates data.
+ * @returns         The age band's rates, or null if the child is too old.
+ */
+export function getFTBPartARate(ageYears: number, rates: FTBRates): FTBPartARate | null {
+  return (
+    rates.partA.rates.find((r) => ageYears >= r.minAge && ageYears <= r.maxAge) ?? null
+  );
+}
+
+// ─── 2.15: FTB Part A ───────────────────────────────────────────────────────
+//
+// Worked example (one child aged 2, family income $100,000):
+//   Max rate:   $228.06 × 365/14 = $5,945.85
+//   Base rate:  $73.08 × 365/14 = $1,905.30
+//   Max rate test:   $5,945.85 − 20% × ($100,000 − $66,065) = −$841.15
+//   Base rate test:  $1,905.30 (below the higher income free area)
+//   Part A = greater of the two = $1,905.30; no supplement (over $80,000)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate FTB Part A for the year.
+ *
+ * @param familyIncome  Combined family income.
+ * @param childAges     Ages of dependent children in years.
+ * @param rates         FTB rates data.
+ * @returns             Annual Part A and supplement.
+ */
+export function calculateFTBPartA(
+  familyIncome: number,
+  childAges: number[],
+  rates: FTBRates
+): FTBPartAResult {
+  const partA = rates.partA;
+  const childRates = childAges
+    .map((age) => getFTBPartARate(age, rates))
+    .filter((r): r is FTBPartARate => r !== null);
+
+  const maxRate = childRates.reduce((sum, r) => sum + r.maxRatePerFortnight, 0) * FORTNIGHTS_PER_YEAR;
+  const baseRate = childRates.reduce((sum, r) => sum + r.baseRatePerFortnight, 0) * FORTNIGHTS_PER_YEAR;
+
+  const maxRateTest =
+    maxRate - partA.maxRateTaper * Math.max(0, familyIncome - partA.incomeFreeArea);
+  const baseRateTest =
+    baseRate - partA.baseRateTaper * Math.max(0, familyIncome - partA.higherIncomeFreeArea);
+  const annualAmount = Math.max(0, maxRateTest, baseRateTest);
+
+  const supplement =
+    annualAmount > 0 && familyIncome <= partA.supplementIncomeLimit
+      ? partA.supplementPerChild * childRates.length
+      : 0;
+
+  return {
+    maxRate: round2(maxRate),
+    baseRate: round2(baseRate),
+    annualAmount: round2(annualAmount),
+    supplement: round2(supplement),
+    total: round2(annualAmount + supplement),
+  };
+}
+
+// ─── 2.15b: FTB Part B ──────────────────────────────────────────────────────
+//
+// Worked example (couple, youngest aged 2, incomes $100,000 and $48,000):
+//   Max rate:  $188.86 × 365/14 = $4,923.85 (youngest under 5)
+//   Primary earner $100,000 ≤ $119,022 → eligible
+//   Secondary earner test:  20% × ($48,000 − $6,935) = $8,213 reduction
+//   Part B = max(0, $4,923.85 − $8,213) = $0
+// With the lower earner on $0, Part B = $4,923.85 + $459.90 supplement.
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate FTB Part B for the year.
+ *
+ * @param parentIncome   Income of the parent.
+ * @param partnerIncome  Partner's income, or null for single parents.
+ * @param childAges      Ages of dependent children in years.
+ * @param rates          FTB rates data.
+ * @returns              Annual Part B and supplement.
+ */
+export function calculateFTBPartB(
+  parentIncome: number,
+  partnerIncome: number | null,
+  childAges: number[],
+  rates: FTBRates
+): FTBPartBResult {
+  const partB = rates.partB;
+  const none: FTBPartBResult = {
+    eligible: false,
+    maxRate: 0,
+    annualAmount: 0,
+    supplement: 0,
+    total: 0,
+  };
+  if (childAges.length === 0) return none;
+
+  const youngest = Math.min(...childAges);
+  const isCouple = partnerIncome !== null;
+  const primaryIncome = isCouple ? Math.max(parentIncome, partnerIncome) : parentIncome;
+  const secondaryIncome = isCouple ? Math.min(parentIncome, partnerIncome) : 0;
+  const maxChildAge = isCouple ? partB.maxChildAgeCouple : partB.maxChildAgeSingle;
+
+  if (youngest > maxChildAge || primaryIncome > partB.primaryEarnerIncomeLimit) {
+    return none;
+  }
+
+  const maxRate =
+    (youngest < 5 ? partB.ratePerFortnightUnder5 : partB.ratePerFortnight5AndOver) *
+    FORTNIGHTS_PER_YEAR;
+  const reduction = isCouple
+    ? partB.secondaryEarnerTaper *
+      Math.max(0, secondaryIncome - partB.secondaryEarnerIncomeFreeArea)
+    : 0;
+  const annualAmount = Math.max(0, maxRate - reduction);
+  const supplement = annualAmount > 0 ? partB.supplement : 0;
+
+  return {
+    eligible: true,
+    maxRate: round2(maxRate),
+    annualAmount: round2(annualAmount),
+    supplement: round2(supplement),
+    total: round2(annualAmount + supplement),
+  };
+}
+
+// ─── Family Tax Benefit ─────────────────────────────────────────────────────
+
+/**
+ * Calculate Family Tax Benefit Parts A and B for the year.
+ *
+ * @param params  Parent and partner incomes and children's ages.
+ * @param rates   FTB rates data.
+ * @returns       Part A, Part B and the family's total FTB.
+ */
+export function calculateFamilyTaxBenefit(
+  params: FamilyTaxBenefitParams,
+  rates: FTBRates
+): FamilyTaxBenefitResult {
+  const { parentIncome, partnerIncome, childAges } = params;
+  const familyIncome = parentIncome + (partnerIncome ?? 0);
+
+  const partA = calculateFTBPartA(familyIncome, childAges, rates);
+  const partB = calculateFTBPartB(parentIncome, partnerIncome, childAges, rates);
+
+  return {
+    familyIncome: round2(familyIncome),
+    partA,
+    partB,
+    total: round2(partA.total + partB.total),
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -40,3 +40,12 @@ export function formatDateLong(dateStr: string): string {
     timeZone: 'UTC',
   });
 }
+
+/** Format a date string like "2025-09-20" as "20 Sep". */
+export function formatDateShort(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
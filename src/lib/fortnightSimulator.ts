@@ -0,0 +1,434 @@
+// =============================================================================
+// FORTNIGHT SIMULATOR — Financial Year on a Real Calendar
+// =============================================================================
+// Steps through every CCS fortnight of the financial year, starting on
+// CCSRates.effectiveDate, and costs each day of care on its actual date.
+//
+// For each fortnight:
+//   sessions      = care days falling in the fortnight
+//   gross fee     = sessions × daily fee
+//   subsidy       = Σ subsidy per session × (subsidised hours / hours of care)
+//                   limited by what remains of the annual cap
+//   withholding   = subsidy × 5%
+//   gap fee       = gross fee − subsidy
+//   net gap       = gap fee + withholding (what the family pays)
+//
+// Care days are the first `daysPerWeek` weekdays (Monday onwards), except in
+// weeks the child is away (see getClosureWeekStarts). The last fortnight is a
+// partial one when the year doesn't divide evenly into 14 days.
+//
+// Date-based rules come from the inputs:
+//   - Each child's CCS% and age group by date (year segments, see
+//     childTimeline.ts) — a mid-fortnight change applies from that day.
+//   - Activity test hours — the 3-Day Guarantee applies from the fortnight
+//     containing its start date.
+//   - Annual CCS cap — subsidy stops once a child's running total reaches it
+//     (ACCS is not capped).
+//   - Allowable absences — absence days are spread evenly across the year's
+//     care days; once a child's 42 allowable absences (plus any evidenced
+//     extra absences) are used, further absences get no CCS.
+//   - Weeks of care — in closure weeks no care is booked and no fee charged.
+//
+// All functions are pure.
+// =============================================================================
+
+import type { ACCSStream, CareType, CCSRates } from './types';
+import { calculateSessionCCS, type SessionCCSResult } from './ccsCalculations';
+import { calculateACCSSession } from './additionalCCS';
+import type { ActivityTestResult } from './activityTest';
+
+// ─── Input Types ────────────────────────────────────────────────────────────
+
+/** A part of the year with a fixed CCS% and age group for one child. */
+export interface SimulatedChildPeriod {
+  startDate: string;
+  /** Day after the period ends (exclusive) */
+  endDate: string;
+  ccsPercent: number;
+  ageGroup: 'below_school_age' | 'school_age';
+}
+
+/** One child's care arrangement for the simulation. */
+export interface SimulatedChild {
+  dailyFee: number;
+  hoursPerDay: number;
+  daysPerWeek: number;
+  careType: CareType;
+  /** Periods covering the whole financial year, in date order */
+  periods: SimulatedChildPeriod[];
+  /** Booked days missed during the year (default 0) */
+  absenceDays?: number;
+  /** Absences beyond the allowance covered by evidence (default 0) */
+  evidencedAbsenceDays?: number;
+  /** Weeks of care per year; the rest are closures (default 52) */
+  weeksPerYear?: number;
+  /** ACCS stream — costs care at the stream's rate instead of `ccsPercent` */
+  additionalCCSStream?: ACCSStream;
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+/** One child's figures for a single fortnight. */
+export interface ChildFortnight {
+  sessions: number;
+  /** Sessions missed this fortnight (charged, subsidised within the allowance) */
+  absences: number;
+  /** Absences this fortnight beyond the allowance — no CCS */
+  unsubsidisedAbsences: number;
+  hoursOfCare: number;
+  subsidisedHours: number;
+  grossFee: number;
+  subsidy: number;
+  withholding: number;
+  outOfPocket: number;
+  netOutOfPocket: number;
+  /** Subsidy this fortnight was reduced by the annual cap */
+  capLimited: boolean;
+  /** Running CCS total for this child at the end of the fortnight */
+  cumulativeSubsidy: number;
+}
+
+/** Family figures for a single CCS fortnight. */
+export interface FortnightResult {
+  /** 1-based fortnight number within the financial year */
+  fortnight: number;
+  startDate: string;
+  /** Day after the fortnight ends (exclusive) */
+  endDate: string;
+  /** Activity test limit on subsidised hours per child this fortnight */
+  subsidisedHoursLimit: number;
+  /** One entry per child, in input order */
+  children: ChildFortnight[];
+
+  sessions: number;
+  grossFee: number;
+  subsidy: number;
+  withholding: number;
+  /** Gap fee excluding withholding */
+  outOfPocket: number;
+  /** Gap fee + withholding — what the family pays this fortnight */
+  netOutOfPocket: number;
+
+  // ── Running totals (end of fortnight) ──
+  cumulativeGrossFee: number;
+  cumulativeSubsidy: number;
+  cumulativeNetOutOfPocket: number;
+}
+
+export interface FinancialYearSimulation {
+  fortnights: FortnightResult[];
+  totals: {
+    sessions: number;
+    grossFee: number;
+    subsidy: number;
+    withholding: number;
+    outOfPocket: number;
+    netOutOfPocket: number;
+  };
+  /** Per child: fortnight (1-based) in which the annual cap was reached, or null */
+  capReachedInFortnight: (number | null)[];
+  /** Per child: fortnight (1-based) of the first unsubsidised absence, or null */
+  absencesExhaustedInFortnight: (number | null)[];
+}
+
+// ─── 2.11: Fortnight-by-Fortnight Simulation ────────────────────────────────
+//
+// Worked example (FY 2025–26, one child, centre-based, $150/day × 10hr,
+// Mon–Wed, 90% CCS, 100 subsidised hours):
+//   Fortnight 1: Tue 1 Jul – Mon 14 Jul 2025
+//     Care days:  Tue 1, Wed 2, Mon 7, Tue 8, Wed 9, Mon 14 → 6 sessions
+//     Gross fee:  6 × $150 = $900
+//     Subsidy:    6 × $131.67 = $790.02 (60 hours ≤ 100 → fully subsidised)
+//     Withheld:   $790.02 × 5% = $39.50
+//     Net gap:    $900 − $790.02 + $39.50 = $149.48
+//   Fortnight 27: Tue 30 Jun 2026 (1 day) → 1 session
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Simulate every CCS fortnight of the financial year for a family.
+ *
+ * @param children        Each child's care arrangement and rate periods.
+ * @param activityTest    Activity test result (hours before / from the
+ *                        3-Day Guarantee), or the ACCS hours.
+ * @param combinedIncome  Combined annual family income (for the annual cap).
+ * @param rates           CCS rates data.
+ * @returns               Fortnightly figures, year totals and cap timing.
+ */
+export function simulateFinancialYear(
+  children: SimulatedChild[],
+  activityTest: Pick<ActivityTestResult, 'hoursBeforeGuarantee' | 'hoursFromGuarantee'>,
+  combinedIncome: number,
+  rates: CCSRates
+): FinancialYearSimulation {
+  const yearStart = rates.effectiveDate;
+  const yearEnd = addYears(yearStart, 1);
+  const guaranteeDate = rates.threeDayGuarantee.effectiveDate;
+
+  const { incomeThreshold, capAmountPerChild, uncappedBelow } = rates.annualSubsidyCap;
+  const familyCapApplies = !(uncappedBelow && combinedIncome <= incomeThreshold);
+  const capApplies = children.map((child) => familyCapApplies && !child.additionalCCSStream);
+
+  // Session subsidy depends only on CCS% and age group — cache per period
+  const sessionsByPeriod = children.map((child) =>
+    child.periods.map((p) =>
+      child.additionalCCSStream
+        ? calculateACCSSession(
+            child.dailyFee,
+            child.hoursPerDay,
+            child.additionalCCSStream,
+            child.careType,
+            p.ageGroup,
+            rates
+          )
+        : calculateSessionCCS(
+            child.dailyFee,
+            child.hoursPerDay,
+            p.ccsPercent,
+            child.careType,
+            p.ageGroup,
+            rates
+          )
+    )
+  );
+
+  // Weeks without care (centre closures, holidays) for each child
+  const closedWeeks = children.map(
+    (child) => new Set(getClosureWeekStarts(52 - (child.weeksPerYear ?? 52), yearStart))
+  );
+  const isChildCareDay = (day: string, c: number) =>
+    isCareDay(day, children[c].daysPerWeek) && !closedWeeks[c].has(mondayOf(day));
+
+  // Absences: spread evenly over each child's care days in the year
+  const careDaysInYear = children.map((_, c) => {
+    let days = 0;
+    for (let day = yearStart; day < yearEnd; day = addDays(day, 1)) {
+      if (isChildCareDay(day, c)) days++;
+    }
+    return days;
+  });
+  const absenceAllowance = children.map(
+    (child) => rates.allowableAbsences.daysPerChildPerYear + (child.evidencedAbsenceDays ?? 0)
+  );
+  const careDaysSoFar = children.map(() => 0);
+  const absencesSoFar = children.map(() => 0);
+
+  const cumulativeByChild = children.map(() => 0);
+  const capReachedInFortnight: (number | null)[] = children.map(() => null);
+  const absencesExhaustedInFortnight: (number | null)[] = children.map(() => null);
+  const fortnights: FortnightResult[] = [];
+  let cumulativeGrossFee = 0;
+  let cumulativeSubsidy = 0;
+  let cumulativeNetOutOfPocket = 0;
+
+  for (let start = yearStart, n = 1; start < yearEnd; start = addDays(start, 14), n++) {
+    const end = minDate(addDays(start, 14), yearEnd);
+    const subsidisedHoursLimit =
+      end > guaranteeDate
+        ? activityTest.hoursFromGuarantee
+        : activityTest.hoursBeforeGuarantee;
+
+    const childResults = children.map((child, c): ChildFortnight => {
+      const absenceDays = Math.min(child.absenceDays ?? 0, careDaysInYear[c]);
+      let sessions = 0;
+      let absences = 0;
+      let unsubsidisedAbsences = 0;
+      let uncappedSubsidy = 0;
+      for (let day = start; day < end; day = addDays(day, 1)) {
+        if (!isChildCareDay(day, c)) continue;
+        const session = sessionOn(day, child.periods, sessionsByPeriod[c]);
+        sessions++;
+
+        const k = careDaysSoFar[c]++;
+        const isAbsent =
+          Math.floor(((k + 1) * absenceDays) / careDaysInYear[c]) >
+          Math.floor((k * absenceDays) / careDaysInYear[c]);
+        if (isAbsent) {
+          absences++;
+          if (++absencesSoFar[c] > absenceAllowance[c]) {
+            unsubsidisedAbsences++;
+            continue;
+          }
+        }
+        uncappedSubsidy += session.subsidyPerSession;
+      }
+      if (unsubsidisedAbsences > 0 && absencesExhaustedInFortnight[c] === null) {
+        absencesExhaustedInFortnight[c] = n;
+      }
+
+      const hoursOfCare = sessions * child.hoursPerDay;
+      const subsidisedHours = Math.min(hoursOfCare, subsidisedHoursLimit);
+      if (hoursOfCare > 0) {
+        uncappedSubsidy *= subsidisedHours / hoursOfCare;
+      }
+
+      const remainingCap = capApplies[c]
+        ? Math.max(0, capAmountPerChild - cumulativeByChild[c])
+        : Infinity;
+      const subsidy = round2(Math.min(uncappedSubsidy, remainingCap));
+      const capLimited = subsidy < round2(uncappedSubsidy);
+
+      cumulativeByChild[c] = round2(cumulativeByChild[c] + subsidy);
+      if (capLimited && capReachedInFortnight[c] === null) {
+        capReachedInFortnight[c] = n;
+      }
+
+      const grossFee = round2(sessions * child.dailyFee);
+      const withholding = round2(subsidy * (rates.withholdingPercent / 100));
+      const outOfPocket = round2(grossFee - subsidy);
+
+      return {
+        sessions,
+        absences,
+        unsubsidisedAbsences,
+        hoursOfCare: round2(hoursOfCare),
+        subsidisedHours: round2(subsidisedHours),
+        grossFee,
+        subsidy,
+        withholding,
+        outOfPocket,
+        netOutOfPocket: round2(outOfPocket + withholding),
+        capLimited,
+        cumulativeSubsidy: cumulativeByChild[c],
+      };
+    });
+
+    const sum = (key: keyof ChildFortnight) =>
+      round2(childResults.reduce((total, r) => total + Number(r[key]), 0));
+    const grossFee = sum('grossFee');
+    const subsidy = sum('subsidy');
+    const netOutOfPocket = sum('netOutOfPocket');
+
+    cumulativeGrossFee = round2(cumulativeGrossFee + grossFee);
+    cumulativeSubsidy = round2(cumulativeSubsidy + subsidy);
+    cumulativeNetOutOfPocket = round2(cumulativeNetOutOfPocket + netOutOfPocket);
+
+    fortnights.push({
+      fortnight: n,
+      startDate: start,
+      endDate: end,
+      subsidisedHoursLimit,
+      children: childResults,
+      sessions: sum('sessions'),
+      grossFee,
+      subsidy,
+      withholding: sum('withholding'),
+      outOfPocket: sum('outOfPocket'),
+      netOutOfPocket,
+      cumulativeGrossFee,
+      cumulativeSubsidy,
+      cumulativeNetOutOfPocket,
+    });
+  }
+
+  const total = (key: 'sessions' | 'grossFee' | 'subsidy' | 'withholding' | 'outOfPocket' | 'netOutOfPocket') =>
+    round2(fortnights.reduce((t, f) => t + f[key], 0));
+
+  return {
+    fortnights,
+    totals: {
+      sessions: total('sessions'),
+      grossFee: total('grossFee'),
+      subsidy: total('subsidy'),
+      withholding: total('withholding'),
+      outOfPocket: total('outOfPocket'),
+      netOutOfPocket: total('netOutOfPocket'),
+    },
+    capReachedInFortnight,
+    absencesExhaustedInFortnight,
+  };
+}
+
+// ─── 2.11b: Closure Weeks ───────────────────────────────────────────────────
+//
+// Families with fewer than 52 weeks of care are away in the weeks most
+// centres close or school holidays fall, taken in this order:
+//   1. Christmas — up to 6 weeks from the first Monday on or after 19 Dec
+//   2. July school holidays — 2 weeks from the first Monday on or after 1 Jul
+//   3. September holidays — 2 weeks from the first Monday on or after 22 Sep
+//   4. Easter holidays — 2 weeks from the first Monday on or after 6 Apr
+//   5. Any remaining weeks of the year, in date order
+//
+// Worked example (FY 2025–26):
+//   50 weeks → 2 closed: Mon 22 Dec 2025, Mon 29 Dec 2025
+//   40 weeks → 12 closed: 22 Dec – 26 Jan, 7 + 14 Jul, 22 + 29 Sep, 6 + 13 Apr
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Choose the weeks of the financial year without care.
+ *
+ * @param closedWeeks  Number of weeks without care (0–52).
+ * @param yearStart    First day of the financial year, 'YYYY-MM-DD'.
+ * @returns            Monday of each closed week, in the order chosen.
+ */
+export function getClosureWeekStarts(closedWeeks: number, yearStart: string): string[] {
+  if (closedWeeks <= 0) return [];
+
+  const startYear = Number(yearStart.slice(0, 4));
+  const yearEnd = addYears(yearStart, 1);
+  const firstMondayFrom = (date: string) => addDays(date, (8 - weekdayOf(date)) % 7);
+  const weeksFrom = (date: string, count: number) =>
+    Array.from({ length: count }, (_, i) => addDays(firstMondayFrom(date), i * 7));
+
+  const mondays: string[] = [];
+  for (let monday = mondayOf(yearStart); monday < yearEnd; monday = addDays(monday, 7)) {
+    mondays.push(monday);
+  }
+
+  const preferred = [
+    ...weeksFrom(`${startYear}-12-19`, 6),
+    ...weeksFrom(`${startYear}-07-01`, 2),
+    ...weeksFrom(`${startYear}-09-22`, 2),
+    ...weeksFrom(`${startYear + 1}-04-06`, 2),
+  ];
+  const ordered = Array.from(new Set([...preferred, ...mondays])).filter((m) =>
+    mondays.includes(m)
+  );
+  return ordered.slice(0, closedWeeks);
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Care is on the first `daysPerWeek` weekdays, Monday onwards. */
+function isCareDay(date: string, daysPerWeek: number): boolean {
+  const weekday = weekdayOf(date);
+  return weekday >= 1 && weekday <= daysPerWeek;
+}
+
+/** 0 = Sunday … 6 = Saturday */
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** Monday of the week containing `date`. */
+function mondayOf(date: string): string {
+  return addDays(date, -((weekdayOf(date) + 6) % 7));
+}
+
+/** Session result for the period containing `date` (last period if none). */
+function sessionOn(
+  date: string,
+  periods: SimulatedChildPeriod[],
+  sessions: SessionCCSResult[]
+): SessionCCSResult {
+  const i = periods.findIndex((p) => date >= p.startDate && date < p.endDate);
+  return sessions[i === -1 ? sessions.length - 1 : i];
+}
+
+function addDays(date: string, days: number): string {
+  const ms = Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY;
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function addYears(date: string, years: number): string {
+  return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+}
+
+function minDate(a: string, b: string): string {
+  return a < b ? a : b;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -57,6 +57,10 @@ export interface IncomeSensitivityParams {
   careType: CareType;
   /** Child age group for rate cap */
   ageGroup: 'below_school_age' | 'school_age';
+  /** Activity test limit on subsidised hours per fortnight (default no limit) */
+  subsidisedHoursPerFortnight?: number | null;
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksPerYear?: number;
   /** Minimum income to start from (default $40,000) */
   incomeMin?: number;
   /** Maximum income to end at (default $600,000) */
@@ -97,6 +101,8 @@ export function calculateIncomeSensitivity(
     daysPerWeek,
     careType,
     ageGroup,
+    subsidisedHoursPerFortnight = null,
+    weeksPerYear = 52,
     incomeMin = 40000,
     incomeMax = 600000,
     increment = 5000,
@@ -123,7 +129,9 @@ export function calculateIncomeSensitivity(
     const annual = calculateAnnualCost(
       session,
       daysPerWeek,
-      ccsRates.withholdingPercent
+      ccsRates.withholdingPercent,
+      weeksPerYear,
+      subsidisedHoursPerFortnight
     );
 
     rows.push({
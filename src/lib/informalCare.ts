@@ -0,0 +1,126 @@
+// =============================================================================
+// INFORMAL CARE — Weekdays Covered Without Paid Childcare
+// =============================================================================
+// Many families cover some working days without paid care: grandparents on a
+// Monday, a partner's regular day off, or working from home. This module
+// turns a weekly schedule of those days into the paid childcare days a work
+// scenario needs, and encodes the schedule into a short URL param (`ic`).
+//
+// Param format:
+//   entry = weekday source   (weekday 1–5 = Mon–Fri; source g/p/w/o)
+//   list  = entry~entry~...
+//
+// Example: "1g~3p" → grandparents on Monday, partner's day off on Wednesday
+//
+// All functions are pure.
+// =============================================================================
+
+import type { InformalCareDay, InformalCareSource, Weekday } from './types';
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Weekdays in order, Monday first. */
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+};
+
+export const INFORMAL_CARE_SOURCE_LABELS: Record<InformalCareSource, string> = {
+  grandparents:   'Grandparents or family',
+  partner:        "Partner's day off",
+  work_from_home: 'Working from home',
+  other:          'Other informal care',
+};
+
+/** Single-letter codes used in the `ic` URL param. */
+const SOURCE_CODES: Record<InformalCareSource, string> = {
+  grandparents:   'g',
+  partner:        'p',
+  work_from_home: 'w',
+  other:          'o',
+};
+
+// ─── Paid Care Days ─────────────────────────────────────────────────────────
+
+/**
+ * Number of distinct weekdays covered by informal care.
+ *
+ * @param schedule  Informal care days (a weekday may be listed more than once).
+ * @returns         Covered weekdays, 0–5.
+ */
+export function countInformalCareDays(schedule: InformalCareDay[]): number {
+  return new Set(schedule.map((d) => d.weekday)).size;
+}
+
+/**
+ * Paid childcare days needed when working a number of days a week.
+ *
+ * Working days are placed on the covered weekdays first, so informal care
+ * covers up to one working day per covered weekday. The child keeps at least
+ * their current days in care.
+ *
+ * @param daysWorking        Days per week worked (0–5).
+ * @param currentDaysInCare  Current paid days of care per week.
+ * @param schedule           Weekdays covered by informal care.
+ * @returns                  Paid days of care, and working days covered
+ *                           informally.
+ */
+export function getPaidCareDays(
+  daysWorking: number,
+  currentDaysInCare: number,
+  schedule: InformalCareDay[]
+): { paidDays: number; informalDays: number } {
+  const informalDays = Math.min(daysWorking, countInformalCareDays(schedule));
+  return {
+    paidDays: Math.max(currentDaysInCare, daysWorking - informalDays),
+    informalDays,
+  };
+}
+
+// ─── URL Param ──────────────────────────────────────────────────────────────
+
+/**
+ * Encode an informal care schedule into the compact `ic` URL param value.
+ *
+ * @param schedule  Informal care days.
+ * @returns         Encoded string (empty if there are none).
+ */
+export function encodeInformalCareParam(schedule: InformalCareDay[]): string {
+  return schedule
+    .map((d) => `${WEEKDAYS.indexOf(d.weekday) + 1}${SOURCE_CODES[d.source]}`)
+    .join('~');
+}
+
+/**
+ * Decode the `ic` URL param back into an informal care schedule.
+ * Malformed entries and repeated weekdays are skipped.
+ *
+ * @param value  Raw `ic` param value.
+ * @returns      Schedule in weekday order, or undefined if none are valid.
+ */
+export function decodeInformalCareParam(
+  value: string | undefined
+): InformalCareDay[] | undefined {
+  if (!value) return undefined;
+
+  const byWeekday = new Map<Weekday, InformalCareSource>();
+  for (const part of value.split('~')) {
+    const weekday = WEEKDAYS[Number(part.charAt(0)) - 1];
+    const source = (Object.keys(SOURCE_CODES) as InformalCareSource[]).find(
+      (s) => SOURCE_CODES[s] === part.slice(1)
+    );
+    if (!weekday || !source || byWeekday.has(weekday)) continue;
+    byWeekday.set(weekday, source);
+  }
+
+  const schedule = WEEKDAYS.flatMap((weekday) => {
+    const source = byWeekday.get(weekday);
+    return source ? [{ weekday, source }] : [];
+  });
+  return schedule.length > 0 ? schedule : undefined;
+}
@@ -0,0 +1,175 @@
+// =============================================================================
+// PARENTING PAYMENT — Income Support for Principal Carers
+// =============================================================================
+// Parenting Payment is income tested fortnightly, so a parent who returns to
+// work loses part of it with every extra dollar earned — on top of income
+// tax, the CCS taper and Family Tax Benefit.
+//
+//   Single     youngest child under 14. 40c per $ of income above the income
+//              free area, which rises for each child after the first.
+//
+//   Partnered  youngest child under 6. 50c per $ of income above the income
+//              free area up to the upper threshold, then 60c per $. The
+//              partner's income above its own free area reduces the payment
+//              by a further 60c per $.
+//
+// The assets test is not modelled, and the payment is treated as untaxed
+// (the beneficiary tax offset usually cancels the tax on it). All functions
+// are pure. Rates are annualised over 365 days, as Services Australia does.
+// Source: https://www.servicesaustralia.gov.au/parenting-payment
+// =============================================================================
+
+import type { ParentingPaymentRates } from './types';
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface ParentingPaymentParams {
+  /** Annual income of the parent receiving the payment */
+  parentIncome: number;
+  /** Partner's annual income, or null for single parents */
+  partnerIncome: number | null;
+  /** Ages of dependent children in years */
+  childAges: number[];
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface ParentingPaymentResult {
+  /** Whether the youngest child is young enough for the payment */
+  eligible: boolean;
+  /** Annual maximum rate */
+  maxRate: number;
+  /** Annual reduction for the parent's own income */
+  incomeReduction: number;
+  /** Annual reduction for the partner's income (0 for single parents) */
+  partnerIncomeReduction: number;
+  /** Annual payment after the income test */
+  annualAmount: number;
+  /**
+   * Cents lost per extra dollar the parent earns, at this income (e.g. 0.4).
+   * 0 below the income free area or once the payment has cut out.
+   */
+  marginalTaper: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Fortnights in a year, as Services Australia annualises fortnightly rates. */
+const FORTNIGHTS_PER_YEAR = 365 / 14;
+
+// ─── Eligibility ────────────────────────────────────────────────────────────
+
+/**
+ * Check the youngest child is young enough for Parenting Payment.
+ *
+ * @param childAges  Ages of dependent children in years.
+ * @param partnered  Whether the parent has a partner.
+ * @param rates      Parenting Payment rates data.
+ * @returns          True if the payment can be paid.
+ */
+export function isEligibleForParentingPayment(
+  childAges: number[],
+  partnered: boolean,
+  rates: ParentingPaymentRates
+): boolean {
+  if (childAges.length === 0) return false;
+  const maxChildAge = partnered ? rates.partnered.maxChildAge : rates.single.maxChildAge;
+  return Math.min(...childAges) <= maxChildAge;
+}
+
+// ─── 2.16: Parenting Payment ────────────────────────────────────────────────
+//
+// Incomes are converted to fortnightly amounts (annual ÷ 365/14), tested,
+// and the payment is annualised again.
+//
+// Worked example (single, two children, earning $30,000):
+//   Income:          $30,000 ÷ 26.07 = $1,150.68/fn
+//   Free area:       $226.40 + $26.40 for the second child = $252.80/fn
+//   Reduction:       40% × ($1,150.68 − $252.80) = $359.15/fn
+//   Payment:         $1,051.10 − $359.15 = $691.95/fn = $18,040.02/yr
+//
+// Worked example (partnered, earning $10,000, partner earning $40,000):
+//   Income:          $383.56/fn → 50% × $106 + 60% × $127.56 = $129.54/fn
+//   Partner income:  $1,534.25/fn → 60% × ($1,534.25 − $1,277) = $154.35/fn
+//   Payment:         $714.90 − $129.54 − $154.35 = $431.01/fn = $11,237.18/yr
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate Parenting Payment for the year.
+ *
+ * @param params  Parent and partner incomes and children's ages.
+ * @param rates   Parenting Payment rates data.
+ * @returns       Annual payment, the income test reductions and the
+ *                marginal taper at the parent's income.
+ */
+export function calculateParentingPayment(
+  params: ParentingPaymentParams,
+  rates: ParentingPaymentRates
+): ParentingPaymentResult {
+  const { parentIncome, partnerIncome, childAges } = params;
+  const partnered = partnerIncome !== null;
+
+  if (!isEligibleForParentingPayment(childAges, partnered, rates)) {
+    return {
+      eligible: false,
+      maxRate: 0,
+      incomeReduction: 0,
+      partnerIncomeReduction: 0,
+      annualAmount: 0,
+      marginalTaper: 0,
+    };
+  }
+
+  const incomePerFortnight = Math.max(0, parentIncome) / FORTNIGHTS_PER_YEAR;
+  let maxRatePerFortnight: number;
+  let incomeReduction: number;
+  let partnerIncomeReduction = 0;
+  let taper: number;
+
+  if (partnered) {
+    const p = rates.partnered;
+    maxRatePerFortnight = p.maxRatePerFortnight;
+    const lowerBand =
+      Math.min(incomePerFortnight, p.upperTaperThresholdPerFortnight) -
+      p.incomeFreeAreaPerFortnight;
+    const upperBand = incomePerFortnight - p.upperTaperThresholdPerFortnight;
+    incomeReduction =
+      p.lowerTaper * Math.max(0, lowerBand) + p.upperTaper * Math.max(0, upperBand);
+    partnerIncomeReduction =
+      p.partnerTaper *
+      Math.max(0, partnerIncome / FORTNIGHTS_PER_YEAR - p.partnerIncomeFreeAreaPerFortnight);
+    taper =
+      incomePerFortnight > p.upperTaperThresholdPerFortnight
+        ? p.upperTaper
+        : incomePerFortnight > p.incomeFreeAreaPerFortnight
+          ? p.lowerTaper
+          : 0;
+  } else {
+    const s = rates.single;
+    maxRatePerFortnight = s.maxRatePerFortnight;
+    const incomeFreeArea =
+      s.incomeFreeAreaPerFortnight + s.incomeFreeAreaPerExtraChild * (childAges.length - 1);
+    incomeReduction = s.taper * Math.max(0, incomePerFortnight - incomeFreeArea);
+    taper = incomePerFortnight > incomeFreeArea ? s.taper : 0;
+  }
+
+  const paymentPerFortnight = Math.max(
+    0,
+    maxRatePerFortnight - incomeReduction - partnerIncomeReduction
+  );
+
+  return {
+    eligible: true,
+    maxRate: round2(maxRatePerFortnight * FORTNIGHTS_PER_YEAR),
+    incomeReduction: round2(incomeReduction * FORTNIGHTS_PER_YEAR),
+    partnerIncomeReduction: round2(partnerIncomeReduction * FORTNIGHTS_PER_YEAR),
+    annualAmount: round2(paymentPerFortnight * FORTNIGHTS_PER_YEAR),
+    marginalTaper: paymentPerFortnight > 0 ? taper : 0,
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,146 @@
+// =============================================================================
+// RATES REGISTRY — CCS, Tax and Family Payment Rates by Financial Year
+// =============================================================================
+// Holds every financial year of CCS, tax, Family Tax Benefit, Parenting
+// Payment and Paid Parental Leave data the calculators support, so pages can
+// look up the rates in force on a date or for a chosen year.
+//
+// Adding a year: drop `YYYY-YY.json` into each of `src/data/ccs/`,
+// `src/data/tax/`, `src/data/ftb/`, `src/data/parenting-payment/` and
+// `src/data/paid-parental-leave/`, and add one entry to RATES_BY_YEAR below. Rates for the new year apply
+// automatically from its `effectiveDate` (1 July).
+// =============================================================================
+
+import type {
+  CCSRates,
+  FTBRates,
+  PaidParentalLeaveRates,
+  ParentingPaymentRates,
+  TaxRates,
+} from './types';
+
+import ccs202425 from '../data/ccs/2024-25.json';
+import ccs202526 from '../data/ccs/2025-26.json';
+import tax202425 from '../data/tax/2024-25.json';
+import tax202526 from '../data/tax/2025-26.json';
+import ftb202425 from '../data/ftb/2024-25.json';
+import ftb202526 from '../data/ftb/2025-26.json';
+import pp202425 from '../data/parenting-payment/2024-25.json';
+import pp202526 from '../data/parenting-payment/2025-26.json';
+import ppl202425 from '../data/paid-parental-leave/2024-25.json';
+import ppl202526 from '../data/paid-parental-leave/2025-26.json';
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+/** CCS, tax and family payment rates for one financial year. */
+export interface FinancialYearRates {
+  /** e.g. '2025-26' */
+  financialYear: string;
+  ccs: CCSRates;
+  tax: TaxRates;
+  ftb: FTBRates;
+  parentingPayment: ParentingPaymentRates;
+  paidParentalLeave: PaidParentalLeaveRates;
+}
+
+/** Every supported financial year, oldest first. */
+const RATES_BY_YEAR: FinancialYearRates[] = [
+  {
+    financialYear: '2024-25',
+    ccs: ccs202425 as unknown as CCSRates,
+    tax: tax202425 as unknown as TaxRates,
+    ftb: ftb202425 as unknown as FTBRates,
+    parentingPayment: pp202425 as unknown as ParentingPaymentRates,
+    paidParentalLeave: ppl202425 as PaidParentalLeaveRates,
+  },
+  {
+    financialYear: '2025-26',
+    ccs: ccs202526 as unknown as CCSRates,
+    tax: tax202526 as unknown as TaxRates,
+    ftb: ftb202526 as unknown as FTBRates,
+    parentingPayment: pp202526 as unknown as ParentingPaymentRates,
+    paidParentalLeave: ppl202526 as PaidParentalLeaveRates,
+  },
+];
+
+// ─── Lookups ────────────────────────────────────────────────────────────────
+
+/**
+ * List the financial years with rates data, oldest first.
+ *
+ * @returns  Financial year labels, e.g. ['2024-25', '2025-26'].
+ */
+export function getAvailableFinancialYears(): string[] {
+  return RATES_BY_YEAR.map((r) => r.financialYear);
+}
+
+/**
+ * Rates for a financial year.
+ *
+ * @param financialYear  Financial year label, e.g. '2025-26'.
+ * @returns              CCS and tax rates for that year.
+ */
+export function getRatesForFinancialYear(financialYear: string): FinancialYearRates {
+  const rates = RATES_BY_YEAR.find((r) => r.financialYear === financialYear);
+  if (!rates) {
+    throw new Error(`No rates data for financial year ${financialYear}.`);
+  }
+  return rates;
+}
+
+/**
+ * Rates in force on a date — the latest year whose effective date is on or
+ * before it. Dates after the newest year keep using the newest rates until
+ * the next year's data is added.
+ *
+ * @param date  ISO date 'YYYY-MM-DD'.
+ * @returns     CCS and tax rates in force on that date.
+ */
+export function getRatesForDate(date: string): FinancialYearRates {
+  let match: FinancialYearRates | null = null;
+  for (const rates of RATES_BY_YEAR) {
+    if (rates.ccs.effectiveDate <= date) match = rates;
+  }
+  if (!match) {
+    throw new Error(`No rates data in force on ${date}.`);
+  }
+  return match;
+}
+
+/**
+ * Rates in force today — the default when no year is requested. Falls back
+ * to the newest year if today is before every year's effective date.
+ *
+ * @param today  ISO date 'YYYY-MM-DD' (default: today's local date).
+ * @returns      CCS and tax rates in force today.
+ */
+export function getCurrentRates(today: string = localISODate(new Date())): FinancialYearRates {
+  try {
+    return getRatesForDate(today);
+  } catch {
+    return RATES_BY_YEAR[RATES_BY_YEAR.length - 1];
+  }
+}
+
+/**
+ * Resolve a financial-year URL param (`fy`) to rates. Unknown or missing
+ * values fall back to the rates in force today.
+ *
+ * @param param  Raw `fy` param value, e.g. '2024-25'.
+ * @param today  ISO date 'YYYY-MM-DD' (default: today's local date).
+ * @returns      CCS and tax rates for the selected year.
+ */
+export function resolveFinancialYearParam(
+  param: string | undefined,
+  today?: string
+): FinancialYearRates {
+  const known = RATES_BY_YEAR.find((r) => r.financialYear === param);
+  return known ?? getCurrentRates(today);
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function localISODate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
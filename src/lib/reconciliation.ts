@@ -0,0 +1,318 @@
+// =============================================================================
+// RECONCILIATION — End-of-Year CCS Balancing
+// =============================================================================
+// CCS is paid during the year on the family's income ESTIMATE. After the
+// financial year, Services Australia recalculates the entitlement using the
+// family's ACTUAL adjusted taxable income and balances the two:
+//
+//   paid          = CCS paid to the provider on the estimate
+//   withheld      = paid × 5% (kept back during the year)
+//   entitled      = CCS recalculated at actual income
+//   balance       = entitled − (paid − withheld)
+//
+//   balance > 0 → top-up paid to the family (includes the withheld amount)
+//   balance < 0 → debt to repay
+//
+// The withholding absorbs an overpayment (paid − entitled) up to the amount
+// withheld, so a small under-estimate of income does not create a debt.
+// Families can ask Services Australia to withhold more (up to 100%), paying
+// more each fortnight in exchange for a larger buffer at year end.
+//
+// Both sides are costed the same way as the main calculation: each part of
+// the year at the child's rate and age group, limited by the activity test
+// (which also depends on income), allowable absences and the annual cap.
+//
+// All functions are pure.
+// =============================================================================
+
+import type { CareType, CCSRates } from './types';
+import {
+  calculateCCSPercentage,
+  calculateHigherCCSPercentage,
+  calculateSessionCCS,
+  calculateAnnualCost,
+  calculateAnnualCap,
+  applyAnnualCap,
+  calculateAbsences,
+  applyAbsences,
+  combinePartYearCosts,
+  type AnnualCostResult,
+} from './ccsCalculations';
+import { calculateActivityTest } from './activityTest';
+
+// ─── Input Types ────────────────────────────────────────────────────────────
+
+/** A part of the year in which a child's age group and rate don't change. */
+export interface ReconciliationPeriod {
+  /** Share of the financial year covered (0–1) */
+  shareOfYear: number;
+  ageGroup: 'below_school_age' | 'school_age';
+  /** Child receives the higher CCS rate during this period */
+  usesHigherRate: boolean;
+}
+
+/** One child's care arrangement for the year. */
+export interface ReconciliationChild {
+  dailyFee: number;
+  hoursPerDay: number;
+  daysPerWeek: number;
+  careType: CareType;
+  /** Periods covering the whole financial year */
+  periods: ReconciliationPeriod[];
+  /** Booked days missed during the year (default 0) */
+  absenceDays?: number;
+  /** Absences beyond the allowance covered by evidence (default 0) */
+  evidencedAbsenceDays?: number;
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksPerYear?: number;
+}
+
+/** Each parent's recognised activity hours per fortnight. */
+export interface ReconciliationActivity {
+  activityHoursPerFortnight: number;
+  /** null for single parents */
+  partnerActivityHoursPerFortnight: number | null;
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+/** One child's paid and recalculated subsidy. */
+export interface ChildReconciliation {
+  /** Annual cost as paid during the year, on the income estimate */
+  paid: AnnualCostResult;
+  /** Annual cost recalculated at actual income */
+  entitled: AnnualCostResult;
+}
+
+export interface ReconciliationResult {
+  estimatedIncome: number;
+  actualIncome: number;
+  /** Percentage of CCS withheld during the year */
+  withholdingPercent: number;
+  /** Standard CCS% on the estimate and at actual income */
+  estimatedPercent: number;
+  actualPercent: number;
+  /** One entry per child, in input order */
+  children: ChildReconciliation[];
+
+  /** CCS paid during the year, before withholding */
+  subsidyPaid: number;
+  /** Withheld during the year (from AnnualCostResult.withholdingPerYear) */
+  withheld: number;
+  /** CCS the family was entitled to at actual income */
+  subsidyEntitled: number;
+  /** CCS paid above the entitlement (0 if under-paid) */
+  overpayment: number;
+  /** Entitlement − amount actually passed on: positive = top-up, negative = debt */
+  balance: number;
+  topUp: number;
+  debt: number;
+  /** Withholding covers any overpayment in full (no debt) */
+  withholdingAbsorbsDebt: boolean;
+  /** What the family pays in a typical fortnight, including withholding */
+  netOutOfPocketPerFortnight: number;
+}
+
+export interface WithholdingComparison {
+  /** Reconciliation at each withholding option, lowest first */
+  options: ReconciliationResult[];
+  /** Lowest whole-number withholding % that avoids a debt at actual income */
+  requiredPercent: number;
+  /** Lowest listed option that avoids a debt */
+  suggestedPercent: number;
+}
+
+/** Withholding levels offered for comparison (%). */
+export const WITHHOLDING_OPTIONS = [5, 10, 15, 20, 25, 30, 40, 50, 75, 100];
+
+// ─── 2.12: End-of-Year Reconciliation ───────────────────────────────────────
+//
+// Worked example (FY 2025–26, one child aged 3, centre-based, $150/day × 10hr,
+// 1 day/week, both parents 76 activity hours):
+//   Estimate $90,000  → 89%  → paid $6,770.92, withheld $338.55
+//   Actual   $120,000 → 83%  → entitled $6,314.36
+//   Overpayment:  $6,770.92 − $6,314.36 = $456.56 (more than $338.55 withheld)
+//   Balance:      $6,314.36 − ($6,770.92 − $338.55) = −$118.01 → debt
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Balance CCS paid on an income estimate against the entitlement at actual
+ * income.
+ *
+ * @param children         Each child's care arrangement and rate periods.
+ * @param activity         Each parent's activity hours per fortnight.
+ * @param estimatedIncome  Combined income estimate given to Services Australia.
+ * @param actualIncome     Combined actual adjusted taxable income.
+ * @param rates            CCS rates data for the financial year.
+ * @param withholdingPercent
+ *                         Percentage of CCS withheld (default from rates).
+ * @returns                Paid vs entitled subsidy and the top-up or debt.
+ */
+export function reconcileYear(
+  children: ReconciliationChild[],
+  activity: ReconciliationActivity,
+  estimatedIncome: number,
+  actualIncome: number,
+  rates: CCSRates,
+  withholdingPercent: number = rates.withholdingPercent
+): ReconciliationResult {
+  if (children.length === 0) {
+    throw new Error('At least one child is required.');
+  }
+  if (withholdingPercent < 0 || withholdingPercent > 100) {
+    throw new Error('withholdingPercent must be between 0 and 100.');
+  }
+
+  const paid = costYearAtIncome(children, activity, estimatedIncome, withholdingPercent, rates);
+  const entitled = costYearAtIncome(children, activity, actualIncome, withholdingPercent, rates);
+
+  const total = (results: AnnualCostResult[], key: 'subsidyPerYear' | 'withholdingPerYear') =>
+    round2(results.reduce((sum, r) => sum + r[key], 0));
+  const subsidyPaid = total(paid, 'subsidyPerYear');
+  const withheld = total(paid, 'withholdingPerYear');
+  const subsidyEntitled = total(entitled, 'subsidyPerYear');
+
+  const overpayment = round2(Math.max(0, subsidyPaid - subsidyEntitled));
+  const balance = round2(subsidyEntitled - (subsidyPaid - withheld));
+
+  return {
+    estimatedIncome,
+    actualIncome,
+    withholdingPercent,
+    estimatedPercent: calculateCCSPercentage(estimatedIncome, rates).percent,
+    actualPercent: calculateCCSPercentage(actualIncome, rates).percent,
+    children: children.map((_, i) => ({ paid: paid[i], entitled: entitled[i] })),
+    subsidyPaid,
+    withheld,
+    subsidyEntitled,
+    overpayment,
+    balance,
+    topUp: Math.max(0, balance),
+    debt: round2(Math.max(0, -balance)),
+    withholdingAbsorbsDebt: balance >= 0,
+    netOutOfPocketPerFortnight: round2(
+      paid.reduce((sum, r) => sum + r.netOutOfPocketPerFortnight, 0)
+    ),
+  };
+}
+
+// ─── 2.12b: Choosing a Withholding Level ────────────────────────────────────
+//
+// Withholding only changes the timing of payments: the subsidy paid and the
+// entitlement are the same at every level. A debt is avoided when
+//   withheld ≥ overpayment  →  withholding% ≥ overpayment ÷ paid × 100
+//
+// Worked example (continuing 2.12, actual income $120,000):
+//   Required:   $456.56 ÷ $6,770.92 × 100 = 6.7% → 7%
+//   Suggested:  10% (lowest listed option ≥ 7%)
+//   Cashflow:   +$13.02 per fortnight compared with 5%
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reconcile the year at each withholding option and suggest the lowest one
+ * that avoids a debt if income turns out to be `actualIncome`.
+ *
+ * @param children         Each child's care arrangement and rate periods.
+ * @param activity         Each parent's activity hours per fortnight.
+ * @param estimatedIncome  Combined income estimate given to Services Australia.
+ * @param actualIncome     Combined income to plan for (e.g. the highest
+ *                         likely income).
+ * @param rates            CCS rates data for the financial year.
+ * @param options          Withholding percentages to compare.
+ * @returns                Reconciliation per option and the suggested level.
+ */
+export function compareWithholdingOptions(
+  children: ReconciliationChild[],
+  activity: ReconciliationActivity,
+  estimatedIncome: number,
+  actualIncome: number,
+  rates: CCSRates,
+  options: number[] = WITHHOLDING_OPTIONS
+): WithholdingComparison {
+  const reconcileAt = (percent: number) =>
+    reconcileYear(children, activity, estimatedIncome, actualIncome, rates, percent);
+
+  const results = Array.from(new Set(options))
+    .sort((a, b) => a - b)
+    .map(reconcileAt);
+
+  // Whole-number level from the overpayment, nudged up if rounding leaves
+  // a few cents of debt
+  const { overpayment, subsidyPaid } = reconcileAt(0);
+  let requiredPercent =
+    subsidyPaid > 0 ? Math.min(100, Math.ceil((overpayment / subsidyPaid) * 100)) : 0;
+  while (requiredPercent < 100 && reconcileAt(requiredPercent).debt > 0) {
+    requiredPercent++;
+  }
+
+  const suggested = results.find((r) => r.withholdingPercent >= requiredPercent && r.debt === 0);
+
+  return {
+    options: results,
+    requiredPercent,
+    suggestedPercent: suggested?.withholdingPercent ?? 100,
+  };
+}
+
+// ─── Costing at an Income ───────────────────────────────────────────────────
+
+/**
+ * Each child's annual cost (after the annual cap) at a given family income.
+ */
+function costYearAtIncome(
+  children: ReconciliationChild[],
+  activity: ReconciliationActivity,
+  income: number,
+  withholdingPercent: number,
+  rates: CCSRates
+): AnnualCostResult[] {
+  const standardPercent = calculateCCSPercentage(income, rates).percent;
+  const higherPercent = calculateHigherCCSPercentage(standardPercent, rates).higherPercent;
+  const { averageHoursPerFortnight } = calculateActivityTest(
+    activity.activityHoursPerFortnight,
+    activity.partnerActivityHoursPerFortnight,
+    income,
+    rates
+  );
+
+  return children.map((child) => {
+    const parts = child.periods.map((period) => {
+      const session = calculateSessionCCS(
+        child.dailyFee,
+        child.hoursPerDay,
+        period.usesHigherRate ? higherPercent : standardPercent,
+        child.careType,
+        period.ageGroup,
+        rates
+      );
+      return {
+        shareOfYear: period.shareOfYear,
+        annual: calculateAnnualCost(
+          session,
+          child.daysPerWeek,
+          withholdingPercent,
+          child.weeksPerYear ?? 52,
+          averageHoursPerFortnight
+        ),
+      };
+    });
+    const attended = combinePartYearCosts(parts);
+    const absences = calculateAbsences(
+      attended,
+      child.daysPerWeek,
+      child.absenceDays ?? 0,
+      child.evidencedAbsenceDays ?? 0,
+      rates,
+      child.weeksPerYear ?? 52
+    );
+    const uncapped = applyAbsences(attended, absences, withholdingPercent);
+    const cap = calculateAnnualCap(uncapped, income, rates);
+    return applyAnnualCap(uncapped, cap, withholdingPercent);
+  });
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -9,11 +9,16 @@
 // =============================================================================
 
 import type {
+  ACCSStream,
+  ATIComponents,
   WizardInputs,
+  ChildInput,
   CareType,
   State,
   StateAverageEntry,
   CCSRates,
+  WorkPattern,
+  InformalCareDay,
 } from './types';
 import { getStateAverageDailyFee } from './ccsCalculations';
 
@@ -151,6 +156,145 @@ export function resolveHoursPerDay(
   return DEFAULT_HOURS_PER_DAY[careType];
 }
 
+// ─── Weeks of Care ──────────────────────────────────────────────────────────
+//
+// Fees are only charged for weeks the child attends. Most centres close for
+// 2–3 weeks over Christmas; OSHC follows school terms (about 40 weeks) plus
+// any vacation care.
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface WeeksOfCareOption {
+  weeksPerYear: number;
+  label: string;
+}
+
+/** Common care patterns, most weeks first. */
+export const WEEKS_OF_CARE_OPTIONS: WeeksOfCareOption[] = [
+  { weeksPerYear: 52, label: 'All year — no closures' },
+  { weeksPerYear: 50, label: '50 weeks — 2-week Christmas closure' },
+  { weeksPerYear: 49, label: '49 weeks — 3-week Christmas closure' },
+  { weeksPerYear: 48, label: '48 weeks — 4 weeks closed or on holiday' },
+  { weeksPerYear: 46, label: '46 weeks — school terms plus some vacation care' },
+  { weeksPerYear: 40, label: '40 weeks — school terms only' },
+];
+
+/** Default weeks of care per year (no closures). */
+export const DEFAULT_WEEKS_OF_CARE_PER_YEAR = 52;
+
+/**
+ * Resolve weeks of care per year. Missing or non-positive values mean all
+ * year; others are rounded and capped at 52.
+ */
+export function resolveWeeksOfCare(weeksPerYear: number | null | undefined): number {
+  if (weeksPerYear == null || !Number.isFinite(weeksPerYear) || weeksPerYear <= 0) {
+    return DEFAULT_WEEKS_OF_CARE_PER_YEAR;
+  }
+  return Math.min(DEFAULT_WEEKS_OF_CARE_PER_YEAR, Math.max(1, Math.round(weeksPerYear)));
+}
+
+// ─── Days Worked ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve days worked per week (used by the two-parent work matrix).
+ * Missing or invalid values fall back; others are rounded into 0–5.
+ */
+export function resolveDaysWorking(
+  daysPerWeek: number | null | undefined,
+  fallback: number
+): number {
+  if (daysPerWeek == null || !Number.isFinite(daysPerWeek)) return fallback;
+  return Math.min(5, Math.max(0, Math.round(daysPerWeek)));
+}
+
+/**
+ * Resolve a parent's full-time salary for the two-parent work matrix.
+ * Without a positive salary entered, their current income is scaled up to
+ * 5 days, so working their current days matches today's income.
+ *
+ * @param fteIncome      Full-time salary entered (missing or ≤ 0 = not entered).
+ * @param currentIncome  The parent's current income.
+ * @param daysWorking    Days they work now (0–5).
+ * @returns              Full-time salary; the current income if they don't work.
+ */
+export function resolveFullTimeIncome(
+  fteIncome: number | null | undefined,
+  currentIncome: number,
+  daysWorking: number
+): number {
+  if (fteIncome != null && Number.isFinite(fteIncome) && fteIncome > 0) return fteIncome;
+  return daysWorking > 0 ? (currentIncome * 5) / daysWorking : currentIncome;
+}
+
+// ─── Number of Children ─────────────────────────────────────────────────────
+
+/**
+ * Resolve the number of children entered as a URL param (the wizards offer
+ * 1, 2 or "3 or more"). Missing or invalid values fall back; others are
+ * rounded into 1–3.
+ */
+export function resolveNumberOfChildren(
+  numberOfChildren: number | null | undefined,
+  fallback: number
+): number {
+  if (numberOfChildren == null || !Number.isFinite(numberOfChildren)) return fallback;
+  return Math.min(3, Math.max(1, Math.round(numberOfChildren)));
+}
+
+// ─── Additional CCS Support ─────────────────────────────────────────────────
+
+/** ACCS streams in the order the wizard lists them. */
+export const ACCS_STREAMS: ACCSStream[] = [
+  'child_wellbeing',
+  'grandparent',
+  'temporary_financial_hardship',
+  'transition_to_work',
+];
+
+/**
+ * Resolve an ACCS stream from a URL param. Unknown or empty values mean the
+ * family is on the standard income-tested CCS rate.
+ */
+export function resolveAdditionalCCSStream(value: string | null | undefined): ACCSStream | null {
+  return ACCS_STREAMS.includes(value as ACCSStream) ? (value as ACCSStream) : null;
+}
+
+// ─── Activity Level Support ─────────────────────────────────────────────────
+//
+// The wizard asks for each parent's recognised activity (work, study,
+// training, volunteering) as a band matching the activity test tiers.
+// Each band maps to a representative hours-per-fortnight value.
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface ActivityLevelOption {
+  /** Representative activity hours per fortnight stored in WizardInputs */
+  hoursPerFortnight: number;
+  /** Lowest hours per fortnight in this band (inclusive) */
+  minHours: number;
+  label: string;
+}
+
+/** Activity bands, ascending. Full-time work (76 hrs) is the default. */
+export const ACTIVITY_LEVEL_OPTIONS: ActivityLevelOption[] = [
+  { hoursPerFortnight: 0,  minHours: 0,  label: 'Less than 8 hours' },
+  { hoursPerFortnight: 12, minHours: 8,  label: '8 to 16 hours' },
+  { hoursPerFortnight: 32, minHours: 17, label: '17 to 48 hours' },
+  { hoursPerFortnight: 76, minHours: 49, label: 'More than 48 hours' },
+];
+
+/** Default activity hours per fortnight (full-time work → 100 subsidised hours). */
+export const DEFAULT_ACTIVITY_HOURS_PER_FORTNIGHT = 76;
+
+/**
+ * Find the activity band that a number of hours per fortnight falls into.
+ */
+export function getActivityLevelOption(hoursPerFortnight: number): ActivityLevelOption {
+  let match = ACTIVITY_LEVEL_OPTIONS[0];
+  for (const opt of ACTIVITY_LEVEL_OPTIONS) {
+    if (hoursPerFortnight >= opt.minHours) match = opt;
+  }
+  return match;
+}
+
 // ─── Higher Rate Eligibility ────────────────────────────────────────────────
 
 /**
@@ -173,6 +317,148 @@ export function isEligibleForHigherRate(
 
 // ─── Resolved Inputs Type ───────────────────────────────────────────────────
 
+// ─── Per-Child Resolution ───────────────────────────────────────────────────
+//
+// Each child may have their own age, care type, days, hours and fee.
+// When the wizard only collected a single arrangement (numberOfChildren ×
+// identical care), the children are synthesised from the legacy fields.
+//
+// Higher rate (from 10 July 2023): each child aged 5 or under receives the
+// higher rate, except the eldest child aged 5 or under in care, who receives
+// the standard rate. Children aged 6+ always receive the standard rate.
+// Ties on age are broken by list order (the first listed is treated as eldest).
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Oldest age (years) at which a younger child can receive the higher rate. */
+export const HIGHER_RATE_MAX_CHILD_AGE = 5;
+
+/** Representative age used when synthesising children from the age band. */
+export const LEGACY_CHILD_AGE_YEARS: Record<WizardInputs['youngestChildAge'], number> = {
+  under_6: 3,
+  '6_to_13': 8,
+};
+
+/** A child with all care details resolved to concrete values. */
+export interface ResolvedChild {
+  ageYears: number;
+  /** ISO date of birth, or null when only the age was entered */
+  dateOfBirth: string | null;
+  ageGroup: 'below_school_age' | 'school_age';
+  careType: CareType;
+  daysPerWeek: number;
+  hoursPerDay: number;
+  dailyFee: number;
+  usingStateAverage: boolean;
+  /** Weeks of care per year (52 less closures and holidays) */
+  weeksPerYear: number;
+  /** Booked days missed during the year */
+  absenceDaysPerYear: number;
+  /** Absences beyond the allowance covered by evidence */
+  evidencedAbsenceDaysPerYear: number;
+  /** Eldest child in care (oldest; first listed on a tie) */
+  isEldest: boolean;
+  /** Receives the higher CCS rate (younger child aged 5 or under) */
+  usesHigherRate: boolean;
+}
+
+/**
+ * Derive the hourly rate cap age group from a child's age in years.
+ * Children under 6 are treated as below school age.
+ */
+export function resolveAgeGroupFromYears(
+  ageYears: number
+): 'below_school_age' | 'school_age' {
+  return ageYears < 6 ? 'below_school_age' : 'school_age';
+}
+
+/**
+ * Build the per-child list from the legacy single-arrangement fields.
+ * Every child shares the youngest child's age band, care type, days, hours
+ * and fee — matching the pre-per-child behaviour.
+ */
+export function synthesiseChildren(inputs: WizardInputs): ChildInput[] {
+  const count = Math.max(1, inputs.numberOfChildren);
+  const feePerDay =
+    inputs.useStateAverage && inputs.careType !== 'in_home_care'
+      ? null
+      : inputs.feePerDay;
+
+  return Array.from({ length: count }, () => ({
+    ageYears: LEGACY_CHILD_AGE_YEARS[inputs.youngestChildAge],
+    careType: inputs.careType,
+    daysPerWeek: inputs.daysPerWeek,
+    hoursPerDay: inputs.hoursPerDay,
+    feePerDay,
+    weeksPerYear: inputs.weeksOfCarePerYear,
+  }));
+}
+
+/**
+ * Find the index of the eldest child among those matching `filter`.
+ * Returns null if no child matches. Ties go to the first listed child.
+ */
+export function findEldestChildIndex(
+  children: Pick<ChildInput, 'ageYears'>[],
+  filter: (child: Pick<ChildInput, 'ageYears'>) => boolean = () => true
+): number | null {
+  let eldest: number | null = null;
+  children.forEach((child, i) => {
+    if (!filter(child)) return;
+    if (eldest === null || child.ageYears > children[eldest].ageYears) {
+      eldest = i;
+    }
+  });
+  return eldest;
+}
+
+/**
+ * Resolve every child's care details and higher-rate status.
+ *
+ * @param inputs         Raw wizard inputs (uses `children` if present).
+ * @param stateAverages  State average fee data.
+ * @returns              One resolved entry per child, in input order.
+ */
+export function resolveChildren(
+  inputs: WizardInputs,
+  stateAverages: StateAverageEntry[]
+): ResolvedChild[] {
+  const children =
+    inputs.children && inputs.children.length > 0
+      ? inputs.children
+      : synthesiseChildren(inputs);
+
+  const eldestIndex = findEldestChildIndex(children);
+  const eldestUnderSixIndex = findEldestChildIndex(
+    children,
+    (c) => c.ageYears <= HIGHER_RATE_MAX_CHILD_AGE
+  );
+
+  return children.map((child, i) => ({
+    ageYears: child.ageYears,
+    dateOfBirth: child.dateOfBirth ?? null,
+    ageGroup: resolveAgeGroupFromYears(child.ageYears),
+    careType: child.careType,
+    daysPerWeek: child.daysPerWeek,
+    hoursPerDay: resolveHoursPerDay(child.hoursPerDay, child.careType),
+    dailyFee: resolveDailyFee(
+      {
+        feePerDay: child.feePerDay,
+        useStateAverage: child.feePerDay == null,
+        state: inputs.state,
+        careType: child.careType,
+      },
+      stateAverages
+    ),
+    usingStateAverage: child.feePerDay == null && child.careType !== 'in_home_care',
+    weeksPerYear: resolveWeeksOfCare(child.weeksPerYear ?? inputs.weeksOfCarePerYear),
+    absenceDaysPerYear: Math.max(0, child.absenceDaysPerYear ?? 0),
+    evidencedAbsenceDaysPerYear: Math.max(0, child.evidencedAbsenceDaysPerYear ?? 0),
+    isEldest: i === eldestIndex,
+    usesHigherRate:
+      child.ageYears <= HIGHER_RATE_MAX_CHILD_AGE && i !== eldestUnderSixIndex,
+  }));
+}
+
 /**
  * Fully resolved inputs — all concrete values, ready for calculation functions.
  * No ranges, no nulls, no "use average" flags.
@@ -186,6 +472,9 @@ export interface ResolvedInputs {
 
   // Income
   combinedAnnualIncome: number;
+  /** Each parent's ATI components, or null if the builder wasn't used */
+  incomeComponents: ATIComponents | null;
+  partnerIncomeComponents: ATIComponents | null;
 
   // Childcare
   careType: CareType;
@@ -194,12 +483,37 @@ export interface ResolvedInputs {
   hoursPerDay: number;
   dailyFee: number;
   usingStateAverage: boolean;
+  /** Weeks of care per year for the shared arrangement */
+  weeksOfCarePerYear: number;
+
+  /**
+   * Every child in care with their own resolved arrangement. The single-
+   * arrangement fields above describe the youngest child.
+   */
+  children: ResolvedChild[];
+  /** Whether children were entered individually (vs. one shared arrangement) */
+  hasPerChildInputs: boolean;
+
+  /** Additional CCS stream, or null for the income-tested CCS rate */
+  additionalCCSStream: ACCSStream | null;
+
+  // Activity test
+  activityHoursPerFortnight: number;
+  partnerActivityHoursPerFortnight: number | null;
 
   // Back-to-work (optional)
   includeBackToWork: boolean;
   currentIndividualIncome: number;
   proposedFTEIncome: number;
   workRelatedCostsPerWeek: number;
+  workPatterns: WorkPattern[];
+  informalCare: InformalCareDay[];
+  /** Whether the parent is currently paid Parenting Payment */
+  receivesParentingPayment: boolean;
+  /** Whether the parent has a HELP debt to repay */
+  hasHELPDebt: boolean;
+  /** Whether the family has private hospital cover (no Medicare levy surcharge) */
+  privateHospitalCover: boolean;
   partnerIncome: number;
 }
 
@@ -216,13 +530,22 @@ export function resolveInputs(
   inputs: WizardInputs,
   stateAverages: StateAverageEntry[]
 ): ResolvedInputs {
-  const ageGroup = resolveAgeGroup(inputs.youngestChildAge);
-  const dailyFee = resolveDailyFee(inputs, stateAverages);
-  const hoursPerDay = resolveHoursPerDay(inputs.hoursPerDay, inputs.careType);
-  const eligibleForHigherRate = isEligibleForHigherRate(
-    inputs.numberOfChildren,
-    inputs.youngestChildAge
-  );
+  const children = resolveChildren(inputs, stateAverages);
+  const hasPerChildInputs = !!inputs.children && inputs.children.length > 0;
+
+  // Youngest child (last listed on a tie) drives the single-arrangement fields
+  const youngest = children.reduce((y, c) => (c.ageYears <= y.ageYears ? c : y));
+
+  const ageGroup = hasPerChildInputs
+    ? youngest.ageGroup
+    : resolveAgeGroup(inputs.youngestChildAge);
+  const dailyFee = hasPerChildInputs
+    ? youngest.dailyFee
+    : resolveDailyFee(inputs, stateAverages);
+  const hoursPerDay = hasPerChildInputs
+    ? youngest.hoursPerDay
+    : resolveHoursPerDay(inputs.hoursPerDay, inputs.careType);
+  const eligibleForHigherRate = children.some((c) => c.usesHigherRate);
 
   // Derive partner income (combined minus user's current individual income)
   const partnerIncome = Math.max(
@@ -232,27 +555,48 @@ export function resolveInputs(
 
   return {
     // Family
-    numberOfChildren: inputs.numberOfChildren,
-    youngestChildAge: inputs.youngestChildAge,
+    numberOfChildren: children.length,
+    youngestChildAge: hasPerChildInputs
+      ? (youngest.ageYears < 6 ? 'under_6' : '6_to_13')
+      : inputs.youngestChildAge,
     ageGroup,
     eligibleForHigherRate,
 
     // Income
     combinedAnnualIncome: inputs.combinedAnnualIncome,
+    incomeComponents: inputs.incomeComponents ?? null,
+    partnerIncomeComponents: inputs.partnerIncomeComponents ?? null,
 
     // Childcare
-    careType: inputs.careType,
+    careType: hasPerChildInputs ? youngest.careType : inputs.careType,
     state: inputs.state,
-    daysPerWeek: inputs.daysPerWeek,
+    daysPerWeek: hasPerChildInputs ? youngest.daysPerWeek : inputs.daysPerWeek,
     hoursPerDay,
     dailyFee,
-    usingStateAverage: inputs.useStateAverage,
+    usingStateAverage: hasPerChildInputs
+      ? youngest.usingStateAverage
+      : inputs.useStateAverage,
+    weeksOfCarePerYear: hasPerChildInputs
+      ? youngest.weeksPerYear
+      : resolveWeeksOfCare(inputs.weeksOfCarePerYear),
+    children,
+    hasPerChildInputs,
+    additionalCCSStream: inputs.additionalCCSStream ?? null,
+
+    // Activity test
+    activityHoursPerFortnight: inputs.activityHoursPerFortnight,
+    partnerActivityHoursPerFortnight: inputs.partnerActivityHoursPerFortnight,
 
     // Back-to-work
     includeBackToWork: inputs.includeBackToWork,
     currentIndividualIncome: inputs.currentAnnualIncome,
     proposedFTEIncome: inputs.proposedAnnualIncome,
     workRelatedCostsPerWeek: inputs.workRelatedCostsPerWeek,
+    workPatterns: inputs.workPatterns ?? [],
+    informalCare: inputs.informalCare ?? [],
+    receivesParentingPayment: inputs.receivesParentingPayment ?? false,
+    hasHELPDebt: inputs.hasHELPDebt ?? false,
+    privateHospitalCover: !inputs.noPrivateHospitalCover,
     partnerIncome,
   };
 }
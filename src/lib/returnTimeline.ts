@@ -0,0 +1,226 @@
+// =============================================================================
+// RETURN TIMELINE — Coming Back From Paid Parental Leave Mid-Year
+// =============================================================================
+// Families rarely return to work on 1 July. A parent typically finishes Paid
+// Parental Leave (PPL) part-way through the financial year, goes back to work
+// on a return date, and starts paid childcare on or before it.
+//
+// The financial year is split at those dates:
+//
+//   FY start ── PPL start ── return date ── FY end
+//                               ↑ care start date (anywhere in the year)
+//
+// PPL is assumed to run for its full number of weeks right up to the return
+// date. For the year as a whole:
+//   - PPL income counts towards the parent's taxable income and so towards
+//     the family's adjusted taxable income, which sets the CCS rate for the
+//     whole year
+//   - The parent's current pay is earned only before PPL starts (and, if
+//     they don't take the new job, from the return date)
+//   - Pay from the new job accrues only from the return date
+//   - Childcare costs accrue only from the care start date
+//
+// This module works out those shares of the year and encodes the timeline
+// into a short URL param (`tl`).
+//
+// Param format:
+//   returnDate~careStartDate~pplWeeks~pplWeeklyRate
+//
+// Example: "2026-02-02~2026-01-19~24~948.1" → back at work 2 February after
+// 24 weeks of PPL at $948.10/week, care from 19 January
+//
+// All functions are pure. Dates are ISO 'YYYY-MM-DD' strings.
+// Source: https://www.servicesaustralia.gov.au/parental-leave-pay
+// =============================================================================
+
+import type { ReturnTimeline } from './types';
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+/** A part of the financial year in which nothing on the timeline changes. */
+export interface TimelineSegment {
+  /** First day of the segment (inclusive) */
+  startDate: string;
+  /** Day after the segment ends (exclusive) */
+  endDate: string;
+  days: number;
+  /** Share of the financial year covered (0–1) */
+  shareOfYear: number;
+  /** Parental Leave Pay is paid during the segment */
+  onPaidParentalLeave: boolean;
+  /** Back at work during the segment */
+  atWork: boolean;
+  /** Paid childcare during the segment */
+  inCare: boolean;
+}
+
+export interface ReturnTimelineResult {
+  /** Segments covering the whole financial year, in order */
+  segments: TimelineSegment[];
+  /** First day of PPL (may fall before the financial year) */
+  pplStartDate: string;
+  /** Days of PPL that fall within the financial year */
+  pplDaysInYear: number;
+  /** Parental Leave Pay received within the financial year */
+  pplIncome: number;
+  /** Share of the financial year before PPL starts (0–1) */
+  preLeaveShareOfYear: number;
+  /** Share of the financial year from the return date on (0–1) */
+  workingShareOfYear: number;
+  /** Share of the financial year from the care start date on (0–1) */
+  careShareOfYear: number;
+}
+
+// ─── 2.20: Return Timeline ──────────────────────────────────────────────────
+//
+//   1. PPL start = return date − 7 × PPL weeks
+//   2. Split the year at the PPL start, return date and care start date
+//   3. PPL income = weekly rate × (PPL days within the year) / 7
+//   4. Pre-leave share = days from year start to the PPL start / days in year
+//   5. Working share   = days from the return date to year end / days in year
+//   6. Care share      = days from the care start date to year end / days in year
+//
+// Worked example (FY 2025–26, 24 weeks of PPL at $948.10/week, back at work
+//                 2026-02-02, care from 2026-01-19):
+//   PPL start = 2026-02-02 − 168 days = 2025-08-18
+//   Segments: 2025-07-01 → 2025-08-18   48 days  (before leave)
+//             2025-08-18 → 2026-01-19  154 days  (PPL)
+//             2026-01-19 → 2026-02-02   14 days  (PPL, in care)
+//             2026-02-02 → 2026-07-01  149 days  (at work, in care)
+//   PPL income = $948.10 × 24 = $22,754.40
+//   Pre-leave share = 48 / 365 = 0.132
+//   Working share = 149 / 365 = 0.408; care share = 163 / 365 = 0.447
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split the financial year at the PPL start, return and care start dates.
+ *
+ * @param timeline   PPL weeks and rate, return date and care start date.
+ * @param yearStart  ISO date the financial year starts (e.g. '2025-07-01').
+ * @returns          Segments and the year's PPL income and shares.
+ * @throws           Error if PPL weeks or rate are negative.
+ */
+export function buildReturnTimeline(
+  timeline: ReturnTimeline,
+  yearStart: string
+): ReturnTimelineResult {
+  const { pplWeeks, pplWeeklyRate, returnDate, careStartDate } = timeline;
+  if (pplWeeks < 0 || pplWeeklyRate < 0) {
+    throw new Error('PPL weeks and weekly rate cannot be negative.');
+  }
+
+  const yearEnd = addYears(yearStart, 1);
+  const daysInYear = daysBetween(yearStart, yearEnd);
+  const pplStartDate = addDays(returnDate, -Math.round(pplWeeks * 7));
+
+  // 1–2. Boundaries within the year
+  const boundaries = new Set<string>([yearStart, yearEnd]);
+  for (const date of [pplStartDate, returnDate, careStartDate]) {
+    if (date > yearStart && date < yearEnd) boundaries.add(date);
+  }
+  const dates = Array.from(boundaries).sort();
+
+  const segments: TimelineSegment[] = dates.slice(0, -1).map((startDate, s) => {
+    const endDate = dates[s + 1];
+    const days = daysBetween(startDate, endDate);
+    return {
+      startDate,
+      endDate,
+      days,
+      shareOfYear: days / daysInYear,
+      onPaidParentalLeave: startDate >= pplStartDate && startDate < returnDate,
+      atWork: startDate >= returnDate,
+      inCare: startDate >= careStartDate,
+    };
+  });
+
+  // 3–6. PPL income and shares of the year
+  const daysWhere = (test: (s: TimelineSegment) => boolean) =>
+    segments.filter(test).reduce((total, s) => total + s.days, 0);
+  const pplDaysInYear = daysWhere((s) => s.onPaidParentalLeave);
+
+  return {
+    segments,
+    pplStartDate,
+    pplDaysInYear,
+    pplIncome: round2((pplWeeklyRate * pplDaysInYear) / 7),
+    preLeaveShareOfYear: daysWhere((s) => s.startDate < pplStartDate) / daysInYear,
+    workingShareOfYear: daysWhere((s) => s.atWork) / daysInYear,
+    careShareOfYear: daysWhere((s) => s.inCare) / daysInYear,
+  };
+}
+
+// ─── URL Param ──────────────────────────────────────────────────────────────
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Encode a return timeline into the compact `tl` URL param value.
+ *
+ * @param timeline  Return timeline.
+ * @returns         Encoded string.
+ */
+export function encodeReturnTimelineParam(timeline: ReturnTimeline): string {
+  return [
+    timeline.returnDate,
+    timeline.careStartDate,
+    timeline.pplWeeks,
+    timeline.pplWeeklyRate,
+  ].join('~');
+}
+
+/**
+ * Decode the `tl` URL param back into a return timeline.
+ *
+ * @param value  Raw param value.
+ * @returns      Return timeline, or undefined if the param is empty or
+ *               malformed.
+ */
+export function decodeReturnTimelineParam(
+  value: string | undefined
+): ReturnTimeline | undefined {
+  if (!value) return undefined;
+
+  const [returnDate, careStartDate, weeks, rate] = value.split('~');
+  const pplWeeks = Number(weeks);
+  const pplWeeklyRate = Number(rate);
+  if (
+    !isValidDate(returnDate) ||
+    !isValidDate(careStartDate) ||
+    !Number.isFinite(pplWeeks) || pplWeeks < 0 || pplWeeks > 52 ||
+    !Number.isFinite(pplWeeklyRate) || pplWeeklyRate < 0
+  ) {
+    return undefined;
+  }
+  return { pplWeeks, pplWeeklyRate, returnDate, careStartDate };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function isValidDate(date: string | undefined): date is string {
+  if (date === undefined || !ISO_DATE.test(date)) return false;
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === date;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+  );
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function addYears(date: string, years: number): string {
+  return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -6,34 +6,118 @@
 //
 // Flow:
 //   1. resolveInputs      → concrete values (fee, age group, etc.)
+//   1b. buildYearSegments → split the year at mid-year age changes
 //   2. calculateCCSPercentage  → standard rate for eldest/only child
 //   3. calculateHigherCSSPercentage → younger children rate (if eligible)
-//   4. calculateSessionCCS → per-session subsidy breakdown
-//   5. calculateAnnualCost → fortnightly / weekly / annual figures
-//   6. calculateBackToWork → optional, 1–5 day scenarios (if Step 4)
+//   4. calculateActivityTest → subsidised hours per fortnight
+//   4b. calculateAdditionalCCS → ACCS rate and hours (if eligible)
+//   5. Per child, per year segment:
+//        calculateSessionCCS → per-session subsidy breakdown
+//        (calculateACCSSession for ACCS families)
+//        calculateAnnualCost → fortnightly / weekly / annual figures
+//      then combinePartYearCosts → whole-year cost
+//        calculateAnnualCap  → annual CCS cap (income > $85,279; not ACCS)
+//   5b. Family totals → sum of every child
+//   5c. simulateFinancialYear → fortnight-by-fortnight payment timeline
+//   6. calculateBackToWork → optional, 1–5 day scenarios (if Step 4),
+//      including Family Tax Benefit and Parenting Payment at each
+//      scenario's income
 //   7. calculateIncomeSensitivity → income vs cost data series
+//   8. calculateSalarySacrifice → salary sacrifice near the CCS bracket
+//      boundary, when the earner's taxable income is known
 // =============================================================================
 
-import type { WizardInputs, CCSRates, TaxRates, StateAverageEntry } from './types';
-import { resolveInputs, type ResolvedInputs } from './resolveInputs';
+import type {
+  WizardInputs,
+  CCSRates,
+  TaxRates,
+  FTBRates,
+  ParentingPaymentRates,
+  StateAverageEntry,
+  SchoolStartRule,
+} from './types';
+import {
+  resolveInputs,
+  type ResolvedInputs,
+  type ResolvedChild,
+} from './resolveInputs';
 import {
   calculateCCSPercentage,
   calculateHigherCCSPercentage,
   calculateSessionCCS,
   calculateAnnualCost,
+  calculateAnnualCap,
+  applyAnnualCap,
+  calculateAbsences,
+  applyAbsences,
+  combinePartYearCosts,
+  type AbsenceResult,
+  type AnnualCapResult,
   type CCSPercentageResult,
   type HigherCCSResult,
   type SessionCCSResult,
   type AnnualCostResult,
 } from './ccsCalculations';
+import { calculateActivityTest, type ActivityTestResult } from './activityTest';
+import {
+  calculateAdditionalCCS,
+  calculateACCSSession,
+  type AdditionalCCSResult,
+} from './additionalCCS';
+import { buildYearSegments, type YearSegment } from './childTimeline';
+import {
+  simulateFinancialYear,
+  type FinancialYearSimulation,
+} from './fortnightSimulator';
 import { calculateBackToWork, type BackToWorkResult } from './backToWorkCalculations';
 import {
   calculateIncomeSensitivity,
   type IncomeSensitivityResult,
 } from './incomeSensitivity';
+import {
+  calculateSalarySacrifice,
+  type SalarySacrificeResult,
+} from './salarySacrifice';
+import { EMPTY_ATI_COMPONENTS } from './adjustedTaxableIncome';
 
 // ─── Output Type ────────────────────────────────────────────────────────────
 
+/** One child's cost during a segment of the year with a fixed rate and cap. */
+export interface ChildSegmentCost {
+  startDate: string;
+  /** Day after the segment ends (exclusive) */
+  endDate: string;
+  shareOfYear: number;
+  ageYears: number;
+  ageGroup: 'below_school_age' | 'school_age';
+  ccsPercent: number;
+  session: SessionCCSResult;
+  /** Full-year-equivalent cost at this segment's rate (before the annual cap) */
+  annual: AnnualCostResult;
+}
+
+/** Per-child results — each child's own rate, session and annual cost. */
+export interface ChildCalculation {
+  /** Resolved care details for this child (as at the start of the year) */
+  child: ResolvedChild;
+  /** CCS% applied to this child at the start of the year */
+  ccsPercent: number;
+  /** Per-session breakdown at the start of the year */
+  session: SessionCCSResult;
+  /** Annualised cost across all segments, with absences and the annual CCS cap applied */
+  annual: AnnualCostResult;
+  annualCap: AnnualCapResult;
+  /** Out-of-pocket saving per year from the higher rate (0 at standard rate) */
+  higherRateSavingPerYear: number;
+  /**
+   * Parts of the year with a different age group or rate — one entry when
+   * nothing changes during the year.
+   */
+  segments: ChildSegmentCost[];
+  /** Absence days beyond the 42-day allowance and their cost */
+  absences: AbsenceResult;
+}
+
 export interface CalculationOutput {
   /** Fully resolved inputs — what was actually used in calculations */
   resolved: ResolvedInputs;
@@ -49,10 +133,20 @@ export interface CalculationOutput {
    */
   higherCCS: HigherCCSResult | null;
 
+  // ── Per-Child Results ──
+
+  /** One entry per child in care, in input order */
+  children: ChildCalculation[];
+
+  /** Index into `children` of the eldest child in care */
+  eldestChildIndex: number;
+
+  /** Parts of the financial year split at children's mid-year age changes */
+  yearSegments: YearSegment[];
+
   /**
-   * Per-session subsidy calculation.
+   * Per-session subsidy calculation for the youngest child.
    * Uses higherCCS rate if eligible, otherwise standard rate.
-   * For multi-child families, this represents the younger child's session.
    * The eldest child session is in `eldestChildSession`.
    */
   session: SessionCCSResult;
@@ -63,23 +157,47 @@ export interface CalculationOutput {
    */
   eldestChildSession: SessionCCSResult | null;
 
-  /** Annualised cost at the primary session rate (younger child if multi-child) */
+  /** Activity test result — subsidised hours per fortnight across the year */
+  activityTest: ActivityTestResult;
+
+  /**
+   * Additional CCS rate and hours when the family is in an ACCS stream —
+   * replaces the CCS rate for every child. Null otherwise.
+   */
+  additionalCCS: AdditionalCCSResult | null;
+
+  /**
+   * Annualised cost for the youngest child.
+   * Per-year figures have the annual CCS cap applied.
+   */
   annual: AnnualCostResult;
 
   /** Annualised cost for eldest child (standard rate). Null for single-child. */
   eldestChildAnnual: AnnualCostResult | null;
 
+  // ── Annual CCS Cap ──
+
+  /** Annual cap status for the youngest child */
+  annualCap: AnnualCapResult;
+
+  /** Annual cap status for the eldest child. Null for single-child. */
+  eldestChildAnnualCap: AnnualCapResult | null;
+
   // ── Combined Family Totals (multi-child) ──
 
   /**
    * Total annual out-of-pocket for all children combined.
-   * For single-child: same as annual.outOfPocketPerYear
-   * For multi-child: youngest + eldest annual costs
+   * Sum of every child's own annual cost (after the annual cap).
    */
   totalAnnualOutOfPocket: number;
   totalAnnualGovSubsidy: number;
   totalWeeklyOutOfPocket: number;
 
+  // ── Payment Timeline ──
+
+  /** Every CCS fortnight of the financial year on real dates */
+  timeline: FinancialYearSimulation;
+
   // ── Back-to-Work ──
 
   /** Back-to-work scenarios (null if user skipped Step 4) */
@@ -90,8 +208,19 @@ export interface CalculationOutput {
   /** Income sensitivity data series for chart/table */
   sensitivity: IncomeSensitivityResult;
 
+  // ── Salary Sacrifice ──
+
+  /**
+   * Salary sacrifice of the amount over the CCS bracket boundary. Null for
+   * ACCS families, at the maximum or minimum rate, or when a partnered
+   * family's taxable incomes weren't entered.
+   */
+  salarySacrifice: SalarySacrificeResult | null;
+
   // ── Metadata ──
 
+  /** CCS rates the figures were calculated with (for display copy) */
+  rates: CCSRates;
   ratesVersion: string;
   calculatedAt: string;
 }
@@ -105,21 +234,37 @@ export interface CalculationOutput {
  * All intermediate results are returned for transparency/display.
  *
  * @param inputs         Raw wizard inputs from the wizard context.
- * @param ccsRates       CCS rates data (from current.json).
- * @param taxRates       Tax rates data (from current.json).
+ * @param ccsRates       CCS rates data (from the rates registry).
+ * @param taxRates       Tax rates data (from the rates registry).
+ * @param ftbRates       FTB rates data (from the rates registry).
+ * @param ppRates        Parenting Payment rates data (from the rates registry).
  * @param stateAverages  State average fee data (from state-averages.json).
+ * @param schoolStartRules  School start rules (from school-start/rules.json).
  * @returns              Complete calculation output.
  */
 export function runCalculations(
   inputs: WizardInputs,
   ccsRates: CCSRates,
   taxRates: TaxRates,
-  stateAverages: StateAverageEntry[]
+  ftbRates: FTBRates,
+  ppRates: ParentingPaymentRates,
+  stateAverages: StateAverageEntry[],
+  schoolStartRules: SchoolStartRule[]
 ): CalculationOutput {
   const now = new Date().toISOString();
 
   // ── Step 1: Resolve inputs ──────────────────────────────────────────────
-  const resolved = resolveInputs(inputs, stateAverages);
+  const baseResolved = resolveInputs(inputs, stateAverages);
+
+  // ── Step 1b: Split the year at mid-year age changes ────────────────────
+  // Children entered by date of birth may turn 6 or start school during
+  // the year. Resolved values describe each child on the first day.
+  const yearSegments = buildYearSegments(
+    baseResolved.children,
+    ccsRates.effectiveDate,
+    schoolStartRules.find((r) => r.state === baseResolved.state) ?? null
+  );
+  const resolved = applyYearStartStatus(baseResolved, yearSegments);
 
   // ── Step 2: Standard CCS percentage ────────────────────────────────────
   const ccsPercentage = calculateCCSPercentage(
@@ -127,84 +272,100 @@ export function runCalculations(
     ccsRates
   );
 
-  // ── Step 3: Higher rate (if eligible) ──────────────────────────────────
-  const higherCCS = resolved.eligibleForHigherRate
+  // ── Step 3: Higher rate (if eligible; ACCS already covers every child) ─
+  const higherCCS = resolved.eligibleForHigherRate && !resolved.additionalCCSStream
     ? calculateHigherCCSPercentage(ccsPercentage.percent, ccsRates)
     : null;
 
-  // ── Step 4: Per-session subsidy ─────────────────────────────────────────
-  //
-  // For multi-child families:
-  //   - Youngest child → higher rate session
-  //   - Eldest child   → standard rate session
-  // For single-child families:
-  //   - Only child     → standard rate session
-
-  // Primary session: younger child (higher rate) or only child (standard)
-  const primaryCCSPercent = higherCCS
-    ? higherCCS.higherPercent
-    : ccsPercentage.percent;
-
-  const session = calculateSessionCCS(
-    resolved.dailyFee,
-    resolved.hoursPerDay,
-    primaryCCSPercent,
-    resolved.careType,
-    resolved.ageGroup,
+  // ── Step 4: Activity test ───────────────────────────────────────────────
+  // Each child gets the same subsidised hours limit per fortnight.
+  const activityTest = calculateActivityTest(
+    resolved.activityHoursPerFortnight,
+    resolved.partnerActivityHoursPerFortnight,
+    resolved.combinedAnnualIncome,
     ccsRates
   );
 
-  // Eldest child session (standard rate) — only for multi-child families
-  const eldestChildSession = higherCCS
-    ? calculateSessionCCS(
-        resolved.dailyFee,
-        resolved.hoursPerDay,
-        ccsPercentage.percent,
-        resolved.careType,
-        resolved.ageGroup,
-        ccsRates
-      )
+  // ── Step 4b: Additional CCS (if eligible) ───────────────────────────────
+  const additionalCCS = resolved.additionalCCSStream
+    ? calculateAdditionalCCS(resolved.additionalCCSStream, activityTest, ccsRates)
     : null;
+  const subsidisedHours = additionalCCS ?? activityTest;
 
-  // ── Step 5: Annualise ───────────────────────────────────────────────────
-  const annual = calculateAnnualCost(
-    session,
-    resolved.daysPerWeek,
-    ccsRates.withholdingPercent
+  // ── Step 5: Per-child session, annual cost and cap ──────────────────────
+  //
+  // Each child uses their own care type, days, hours and fee, costed
+  // separately for each segment of the year:
+  //   - ACCS families → the stream's rate for every child
+  //   - Younger children aged 5 or under → higher rate
+  //   - Everyone else (incl. eldest aged 5 or under) → standard rate
+  const children = resolved.children.map((child, i) =>
+    calculateChildCost(
+      child,
+      yearSegments.map((segment) => {
+        const status = segment.children[i];
+        return {
+          startDate: segment.startDate,
+          endDate: segment.endDate,
+          shareOfYear: segment.shareOfYear,
+          ageYears: status.ageYears,
+          ageGroup: status.ageGroup,
+          ccsPercent: additionalCCS
+            ? additionalCCS.subsidyPercent
+            : status.usesHigherRate && higherCCS
+              ? higherCCS.higherPercent
+              : ccsPercentage.percent,
+        };
+      }),
+      additionalCCS?.subsidyPercent ?? ccsPercentage.percent,
+      resolved.combinedAnnualIncome,
+      subsidisedHours.averageHoursPerFortnight,
+      additionalCCS,
+      ccsRates
+    )
   );
 
-  const eldestChildAnnual = eldestChildSession
-    ? calculateAnnualCost(
-        eldestChildSession,
-        resolved.daysPerWeek,
-        ccsRates.withholdingPercent
-      )
-    : null;
+  // Primary child: the youngest (last listed on a tie). Eldest child is only
+  // reported separately when some sibling receives the higher rate.
+  const primaryIndex = children.reduce(
+    (y, c, i) => (c.child.ageYears <= children[y].child.ageYears ? i : y),
+    0
+  );
+  const eldestChildIndex = children.findIndex((c) => c.child.isEldest);
+  const primary = children[primaryIndex];
+  const eldest =
+    higherCCS && eldestChildIndex !== primaryIndex
+      ? children[eldestChildIndex]
+      : null;
 
   // ── Step 5b: Combined family totals ────────────────────────────────────
-  // For multi-child: youngest child cost + (numberOfChildren - 1) × eldest child cost
-  // This is a simplification — assumes all children use the same care type/days/fee
-  const youngerChildrenCount = resolved.numberOfChildren - 1;
-  const totalAnnualOutOfPocket = eldestChildAnnual
-    ? round2(
-        annual.outOfPocketPerYear +
-          eldestChildAnnual.outOfPocketPerYear * youngerChildrenCount
-      )
-    : annual.outOfPocketPerYear;
-
-  const totalAnnualGovSubsidy = eldestChildAnnual
-    ? round2(
-        annual.subsidyPerYear +
-          eldestChildAnnual.subsidyPerYear * youngerChildrenCount
-      )
-    : annual.subsidyPerYear;
+  const totalAnnualOutOfPocket = round2(
+    children.reduce((sum, c) => sum + c.annual.outOfPocketPerYear, 0)
+  );
+  const totalAnnualGovSubsidy = round2(
+    children.reduce((sum, c) => sum + c.annual.subsidyPerYear, 0)
+  );
+  const totalWeeklyOutOfPocket = round2(
+    children.reduce((sum, c) => sum + c.annual.outOfPocketPerWeek, 0)
+  );
 
-  const totalWeeklyOutOfPocket = eldestChildAnnual
-    ? round2(
-        annual.outOfPocketPerWeek +
-          eldestChildAnnual.outOfPocketPerWeek * youngerChildrenCount
-      )
-    : annual.outOfPocketPerWeek;
+  // ── Step 5c: Fortnight-by-fortnight timeline ────────────────────────────
+  const timeline = simulateFinancialYear(
+    children.map(({ child, segments }) => ({
+      dailyFee: child.dailyFee,
+      hoursPerDay: child.hoursPerDay,
+      daysPerWeek: child.daysPerWeek,
+      careType: child.careType,
+      periods: segments,
+      absenceDays: child.absenceDaysPerYear,
+      evidencedAbsenceDays: child.evidencedAbsenceDaysPerYear,
+      weeksPerYear: child.weeksPerYear,
+      additionalCCSStream: additionalCCS?.stream,
+    })),
+    subsidisedHours,
+    resolved.combinedAnnualIncome,
+    ccsRates
+  );
 
   // ── Step 6: Back-to-work analysis (optional) ────────────────────────────
   const backToWork = resolved.includeBackToWork
@@ -219,9 +380,35 @@ export function runCalculations(
           hoursPerDay: resolved.hoursPerDay,
           careType: resolved.careType,
           ageGroup: resolved.ageGroup,
+          weeksOfCarePerYear: resolved.weeksOfCarePerYear,
+          hasHELPDebt: resolved.hasHELPDebt,
+          medicare: {
+            partnered: resolved.partnerActivityHoursPerFortnight !== null,
+            dependentChildren: resolved.children.length,
+            privateHospitalCover: resolved.privateHospitalCover,
+          },
+          workPatterns: resolved.workPatterns,
+          informalCare: resolved.informalCare,
+          activityTest: {
+            currentActivityHoursPerFortnight: resolved.activityHoursPerFortnight,
+            partnerActivityHoursPerFortnight:
+              resolved.partnerActivityHoursPerFortnight,
+          },
+          familyTaxBenefit: {
+            childAges: resolved.children.map((c) => c.ageYears),
+            partnered: resolved.partnerActivityHoursPerFortnight !== null,
+          },
+          parentingPayment: resolved.receivesParentingPayment
+            ? {
+                childAges: resolved.children.map((c) => c.ageYears),
+                partnered: resolved.partnerActivityHoursPerFortnight !== null,
+              }
+            : undefined,
         },
         ccsRates,
-        taxRates
+        taxRates,
+        ftbRates,
+        ppRates
       )
     : null;
 
@@ -234,29 +421,198 @@ export function runCalculations(
       daysPerWeek: resolved.daysPerWeek,
       careType: resolved.careType,
       ageGroup: resolved.ageGroup,
+      subsidisedHoursPerFortnight: activityTest.averageHoursPerFortnight,
+      weeksPerYear: resolved.weeksOfCarePerYear,
     },
     ccsRates
   );
 
+  // ── Step 8: Salary sacrifice near the bracket boundary ──────────────────
+  //    Single parents without the ATI builder are assumed to have only
+  //    taxable income
+  const sacrificeParent =
+    resolved.incomeComponents ??
+    (resolved.partnerActivityHoursPerFortnight === null
+      ? { ...EMPTY_ATI_COMPONENTS, taxableIncome: resolved.combinedAnnualIncome }
+      : null);
+  const salarySacrifice =
+    sacrificeParent && !additionalCCS
+      ? calculateSalarySacrifice(
+          {
+            parent: sacrificeParent,
+            partner: resolved.partnerIncomeComponents,
+            dailyFee: resolved.dailyFee,
+            hoursPerDay: resolved.hoursPerDay,
+            daysPerWeek: resolved.daysPerWeek,
+            careType: resolved.careType,
+            ageGroup: resolved.ageGroup,
+            subsidisedHoursPerFortnight: activityTest.averageHoursPerFortnight,
+            weeksPerYear: resolved.weeksOfCarePerYear,
+          },
+          ccsRates,
+          taxRates
+        )
+      : null;
+
   // ── Assemble output ─────────────────────────────────────────────────────
   return {
     resolved,
     ccsPercentage,
     higherCCS,
-    session,
-    eldestChildSession,
-    annual,
-    eldestChildAnnual,
+    children,
+    eldestChildIndex,
+    yearSegments,
+    session: primary.session,
+    eldestChildSession: eldest?.session ?? null,
+    activityTest,
+    additionalCCS,
+    annual: primary.annual,
+    eldestChildAnnual: eldest?.annual ?? null,
+    annualCap: primary.annualCap,
+    eldestChildAnnualCap: eldest?.annualCap ?? null,
     totalAnnualOutOfPocket,
     totalAnnualGovSubsidy,
     totalWeeklyOutOfPocket,
+    timeline,
     backToWork,
     sensitivity,
+    salarySacrifice,
+    rates: ccsRates,
     ratesVersion: ccsRates.financialYear,
     calculatedAt: now,
   };
 }
 
+// ─── Per-Child Cost ─────────────────────────────────────────────────────────
+
+/**
+ * Calculate one child's session, annual cost and annual cap. Each segment of
+ * the year is costed at its own rate and age group, then combined; absences
+ * beyond the allowance are unsubsidised before the annual cap is applied.
+ * ACCS families are costed at the stream's rate cap, with no annual cap.
+ *
+ * @param child                Resolved child care details.
+ * @param segments             Parts of the year with the CCS% and age group
+ *                             that applied to this child.
+ * @param standardPercent      Family standard CCS% (for the higher-rate saving).
+ * @param combinedIncome       Combined annual family income.
+ * @param subsidisedHours      Activity test limit per fortnight.
+ * @param additionalCCS        ACCS rate and hours, or null for CCS.
+ * @param ccsRates             CCS rates data.
+ * @returns                    Per-child calculation.
+ */
+function calculateChildCost(
+  child: ResolvedChild,
+  segments: Omit<ChildSegmentCost, 'session' | 'annual'>[],
+  standardPercent: number,
+  combinedIncome: number,
+  subsidisedHours: number,
+  additionalCCS: AdditionalCCSResult | null,
+  ccsRates: CCSRates
+): ChildCalculation {
+  const costAt = (percentFor: (segment: (typeof segments)[number]) => number) => {
+    const costed: ChildSegmentCost[] = segments.map((segment) => {
+      const ccsPercent = percentFor(segment);
+      const session = additionalCCS
+        ? calculateACCSSession(
+            child.dailyFee,
+            child.hoursPerDay,
+            additionalCCS.stream,
+            child.careType,
+            segment.ageGroup,
+            ccsRates
+          )
+        : calculateSessionCCS(
+            child.dailyFee,
+            child.hoursPerDay,
+            ccsPercent,
+            child.careType,
+            segment.ageGroup,
+            ccsRates
+          );
+      const annual = calculateAnnualCost(
+        session,
+        child.daysPerWeek,
+        ccsRates.withholdingPercent,
+        child.weeksPerYear,
+        subsidisedHours
+      );
+      return { ...segment, ccsPercent, session, annual };
+    });
+    const attended = combinePartYearCosts(costed);
+    const absences = calculateAbsences(
+      attended,
+      child.daysPerWeek,
+      child.absenceDaysPerYear,
+      child.evidencedAbsenceDaysPerYear,
+      ccsRates,
+      child.weeksPerYear
+    );
+    const uncapped = applyAbsences(attended, absences, ccsRates.withholdingPercent);
+    const annualCap = additionalCCS
+      ? annualCapNotApplied(uncapped)
+      : calculateAnnualCap(uncapped, combinedIncome, ccsRates);
+    const annual = applyAnnualCap(uncapped, annualCap, ccsRates.withholdingPercent);
+    return { segments: costed, annual, annualCap, absences };
+  };
+
+  const { segments: costed, annual, annualCap, absences } = costAt((s) => s.ccsPercent);
+  const higherRateSavingPerYear = segments.some((s) => s.ccsPercent > standardPercent)
+    ? round2(costAt(() => standardPercent).annual.outOfPocketPerYear - annual.outOfPocketPerYear)
+    : 0;
+
+  return {
+    child,
+    ccsPercent: costed[0].ccsPercent,
+    session: costed[0].session,
+    annual,
+    annualCap,
+    higherRateSavingPerYear,
+    segments: costed,
+    absences,
+  };
+}
+
+/** Annual cap result for subsidy the cap doesn't apply to (ACCS). */
+function annualCapNotApplied(annual: AnnualCostResult): AnnualCapResult {
+  return {
+    applies: false,
+    capAmount: null,
+    isCapReached: false,
+    capReachedInFortnight: null,
+    uncappedSubsidyPerYear: annual.subsidyPerYear,
+    cappedSubsidyPerYear: annual.subsidyPerYear,
+    extraOutOfPocketPerYear: 0,
+  };
+}
+
+// ─── Year-Start Status ──────────────────────────────────────────────────────
+
+/**
+ * Update resolved inputs with each child's age, age group and rate on the
+ * first day of the year (from the first year segment). Higher-rate
+ * eligibility covers any part of the year.
+ */
+function applyYearStartStatus(
+  resolved: ResolvedInputs,
+  yearSegments: YearSegment[]
+): ResolvedInputs {
+  const children = resolved.children.map((child, i) => ({
+    ...child,
+    ...yearSegments[0].children[i],
+  }));
+  const youngest = children.reduce((y, c) => (c.ageYears <= y.ageYears ? c : y));
+
+  return {
+    ...resolved,
+    children,
+    ageGroup: resolved.hasPerChildInputs ? youngest.ageGroup : resolved.ageGroup,
+    eligibleForHigherRate: yearSegments.some((segment) =>
+      segment.children.some((c) => c.usesHigherRate)
+    ),
+  };
+}
+
 // ─── Utility ────────────────────────────────────────────────────────────────
 
 function round2(n: number): number {
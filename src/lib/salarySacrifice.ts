@@ -0,0 +1,225 @@
+// =============================================================================
+// SALARY SACRIFICE — Super Contributions Near a CCS Bracket Boundary
+// =============================================================================
+// calculateCCSPercentage rounds income above the threshold up to whole
+// $5,000 brackets, so a family a few hundred dollars over a boundary loses a
+// whole percentage point. Salary sacrificing into super looks like a way
+// back under: it lowers taxable income dollar for dollar.
+//
+// This module works out the sacrifice that would cover the amount over the
+// boundary, then what it does to the family: take-home pay (less tax, less
+// cash), super (the sacrifice less 15% contributions tax) and CCS.
+//
+// CCS is tested on adjusted taxable income, which adds reportable super
+// contributions back, so the sacrifice is moved from taxable income to
+// reportable super and ATI is rebuilt from those components. Under current
+// rules this leaves ATI — and so the CCS rate — unchanged; the result says
+// whether the lower bracket is actually reached.
+//
+// All functions are pure. They compose adjustedTaxableIncome, ccsCalculations
+// and taxCalculations.
+// =============================================================================
+
+import type { ATIComponents, CCSRates, CareType, TaxRates } from './types';
+import {
+  calculateCCSPercentage,
+  calculateSessionCCS,
+  calculateAnnualCost,
+} from './ccsCalculations';
+import { calculateIncomeTax } from './taxCalculations';
+import { calculateFamilyATI } from './adjustedTaxableIncome';
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface SalarySacrificeParams {
+  /** Income components of the parent who would salary sacrifice */
+  parent: ATIComponents;
+  /** Partner's income components, or null for single parents */
+  partner: ATIComponents | null;
+  /** Daily childcare fee */
+  dailyFee: number;
+  /** Hours per day of care */
+  hoursPerDay: number;
+  /** Days per week of care */
+  daysPerWeek: number;
+  /** Type of care */
+  careType: CareType;
+  /** Child age group for rate cap */
+  ageGroup: 'below_school_age' | 'school_age';
+  /** Activity test limit on subsidised hours per fortnight (default no limit) */
+  subsidisedHoursPerFortnight?: number | null;
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksPerYear?: number;
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface SalarySacrificeOutcome {
+  /** Amount salary sacrificed into super */
+  sacrifice: number;
+  /** Parent's taxable income after the sacrifice */
+  taxableIncome: number;
+  /** Family adjusted taxable income after the sacrifice */
+  familyATI: number;
+  /** CCS percentage at that ATI */
+  ccsPercent: number;
+  /** Parent's take-home pay after tax */
+  netIncome: number;
+  /** Annual out-of-pocket childcare cost */
+  annualChildcareCost: number;
+}
+
+export interface SalarySacrificeResult {
+  /** The family today, with no extra sacrifice */
+  current: SalarySacrificeOutcome;
+  /** Lower edge of the family's current CCS bracket */
+  bracketBoundary: number;
+  /** Family ATI above the bracket boundary */
+  amountOverBoundary: number;
+  /** Outcome with the amount over the boundary sacrificed (within the cap) */
+  withSacrifice: SalarySacrificeOutcome;
+  /** Whether the sacrifice is limited by the concessional contributions cap */
+  limitedByCap: boolean;
+  /** Whether the sacrifice gets the family into the lower CCS bracket */
+  reachesLowerBracket: boolean;
+  /** Change in take-home pay (negative: less cash in hand) */
+  netTakeHomeChange: number;
+  /** Annual childcare saving from the higher CCS rate */
+  ccsGained: number;
+  /** Added to super after 15% contributions tax */
+  superGained: number;
+  /** netTakeHomeChange + ccsGained + superGained */
+  totalBenefit: number;
+}
+
+// ─── 2.18: Salary Sacrifice Near a Bracket Boundary ─────────────────────────
+//
+//   1. Bracket boundary = threshold + $5,000 × (brackets above − 1)
+//   2. Sacrifice = ATI − boundary (whole dollars), within the room left under
+//      the concessional contributions cap
+//   3. Parent's taxable income falls by the sacrifice; reportable super rises
+//      by the same amount, and family ATI is rebuilt from the components
+//   4. CCS and childcare cost at the new ATI; tax at the new taxable income
+//   5. Super gained = sacrifice × (1 − 15% contributions tax)
+//
+// Worked example (single parent on $102,000, $150/day × 10hr, 3 days):
+//   ATI $102,000 → 4 brackets above $85,279 → 86%
+//   Boundary = $85,279 + 3 × $5,000 = $100,279 → $1,721 over
+//   Sacrifice $1,721: tax and Medicare fall by 32% × $1,721 = $550.72
+//     Take-home change = −$1,170.28, super gained = $1,462.85
+//   ATI = $100,279 taxable + $1,721 reportable super = $102,000 → still 86%
+//   Total benefit = +$292.57, all of it from the tax concession
+//
+// Employer super guarantee contributions also count towards the cap but
+// aren't known here, so the cap room may be overstated.
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Work out what salary sacrificing the amount over the family's CCS bracket
+ * boundary would do to take-home pay, super and CCS.
+ *
+ * @param params    Income components and childcare arrangement.
+ * @param ccsRates  CCS rates data.
+ * @param taxRates  Tax rates data (for tax and super contribution rates).
+ * @returns         Outcomes before and after the sacrifice, or null if the
+ *                  family is at the maximum or minimum CCS rate.
+ */
+export function calculateSalarySacrifice(
+  params: SalarySacrificeParams,
+  ccsRates: CCSRates,
+  taxRates: TaxRates
+): SalarySacrificeResult | null {
+  const {
+    parent,
+    partner,
+    dailyFee,
+    hoursPerDay,
+    daysPerWeek,
+    careType,
+    ageGroup,
+    subsidisedHoursPerFortnight = null,
+    weeksPerYear = 52,
+  } = params;
+  const { baseIncomeThreshold, minSubsidyPercent } = ccsRates.standardSubsidy;
+  const { concessionalContributionsCap, contributionsTaxRate } = taxRates.superannuation;
+
+  const outcomeFor = (sacrifice: number): SalarySacrificeOutcome => {
+    const taxableIncome = parent.taxableIncome - sacrifice;
+    const familyATI = calculateFamilyATI(
+      {
+        ...parent,
+        taxableIncome,
+        reportableSuperContributions: parent.reportableSuperContributions + sacrifice,
+      },
+      partner
+    );
+    const ccsPercent = calculateCCSPercentage(familyATI, ccsRates).percent;
+    const session = calculateSessionCCS(
+      dailyFee,
+      hoursPerDay,
+      ccsPercent,
+      careType,
+      ageGroup,
+      ccsRates
+    );
+    const annual = calculateAnnualCost(
+      session,
+      daysPerWeek,
+      ccsRates.withholdingPercent,
+      weeksPerYear,
+      subsidisedHoursPerFortnight
+    );
+    return {
+      sacrifice,
+      taxableIncome: round2(taxableIncome),
+      familyATI,
+      ccsPercent,
+      netIncome: calculateIncomeTax(taxableIncome, taxRates).netIncome,
+      annualChildcareCost: annual.outOfPocketPerYear,
+    };
+  };
+
+  const current = outcomeFor(0);
+  if (
+    current.familyATI <= baseIncomeThreshold ||
+    current.ccsPercent <= minSubsidyPercent
+  ) {
+    return null;
+  }
+
+  // 1–2. Amount over the bracket boundary, within the cap room
+  const { bracketsAbove } = calculateCCSPercentage(current.familyATI, ccsRates);
+  const bracketBoundary = baseIncomeThreshold + 5000 * (bracketsAbove - 1);
+  const amountOverBoundary = round2(current.familyATI - bracketBoundary);
+  const capRoom = Math.max(
+    0,
+    concessionalContributionsCap - parent.reportableSuperContributions
+  );
+  const wanted = Math.ceil(amountOverBoundary);
+  const sacrifice = Math.min(wanted, capRoom, Math.max(0, Math.floor(parent.taxableIncome)));
+
+  // 3–5. Outcome after the sacrifice
+  const withSacrifice = outcomeFor(sacrifice);
+  const netTakeHomeChange = round2(withSacrifice.netIncome - current.netIncome);
+  const ccsGained = round2(current.annualChildcareCost - withSacrifice.annualChildcareCost);
+  const superGained = round2(sacrifice * (1 - contributionsTaxRate));
+
+  return {
+    current,
+    bracketBoundary,
+    amountOverBoundary,
+    withSacrifice,
+    limitedByCap: sacrifice < wanted,
+    reachesLowerBracket: withSacrifice.ccsPercent > current.ccsPercent,
+    netTakeHomeChange,
+    ccsGained,
+    superGained,
+    totalBenefit: round2(netTakeHomeChange + ccsGained + superGained),
+  };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
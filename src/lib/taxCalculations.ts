@@ -13,9 +13,16 @@
 //   $45,001–$135,000: 30%
 //   $135,001–$190,000: 37%
 //   $190,001+:         45%
+//
+// Compulsory HELP repayments are worked out alongside tax for people with a
+// HELP debt. They aren't tax, but come out of take-home pay the same way.
+//
+// Families (a spouse or dependent children) get the higher Medicare levy
+// family threshold, and people without private hospital cover pay the
+// Medicare levy surcharge at the tier for their family's combined income.
 // =============================================================================
 
-import type { TaxRates, TaxBracket } from './types';
+import type { TaxRates, TaxBracket, MedicareLevySurchargeTier } from './types';
 
 // ─── Result Types ───────────────────────────────────────────────────────────
 
@@ -26,13 +33,17 @@ export interface IncomeTaxResult {
   incomeTax: number;
   /** Medicare levy (2%, with low-income exemption/phasing) */
   medicareLevy: number;
+  /** Medicare levy surcharge (0 with private hospital cover) */
+  medicareLevySurcharge: number;
   /** Low Income Tax Offset — reduces tax liability (cannot create refund) */
   litoOffset: number;
   /** Tax after LITO is applied: max(0, incomeTax − LITO) */
   taxAfterLITO: number;
-  /** Total tax payable: taxAfterLITO + medicareLevy */
+  /** Total tax payable: taxAfterLITO + medicareLevy + medicareLevySurcharge */
   totalTax: number;
-  /** Net income after all tax: grossIncome − totalTax */
+  /** Compulsory HELP repayment (0 without a HELP debt) */
+  helpRepayment: number;
+  /** Net income after all tax and HELP: grossIncome − totalTax − helpRepayment */
   netIncome: number;
   /** Effective tax rate: totalTax / grossIncome (0 if no income) */
   effectiveRate: number;
@@ -42,6 +53,29 @@ export interface IncomeTaxResult {
   bracket: TaxBracket;
 }
 
+/** A person's family, for the Medicare levy family threshold and surcharge tiers. */
+export interface MedicareFamily {
+  /** Combined taxable income of the person and their spouse */
+  familyIncome: number;
+  /** Number of dependent children */
+  dependentChildren: number;
+}
+
+export interface IncomeTaxOptions {
+  /** Whether the person has a HELP (HECS) debt to repay (default false) */
+  hasHELPDebt?: boolean;
+  /**
+   * The person's family, if they have a spouse or dependent children.
+   * Omit for a single person with no dependants.
+   */
+  family?: MedicareFamily;
+  /**
+   * Whether the person has private hospital cover (default true). Without
+   * it, the Medicare levy surcharge applies above the base tier.
+   */
+  privateHospitalCover?: boolean;
+}
+
 // ─── 2.5a: Base Income Tax ──────────────────────────────────────────────────
 //
 // Progressive tax: baseTax + (income − bracketFloor) × marginalRate
@@ -62,7 +96,7 @@ export interface IncomeTaxResult {
  * Calculate the base income tax from progressive brackets.
  *
  * @param income   Taxable income (AUD). Negative/0 returns $0.
- * @param brackets Tax bracket data from current.json.
+ * @param brackets Tax bracket data from the rates registry.
  * @returns        Object with tax amount, bracket, and marginal rate.
  */
 export function calculateBaseIncomeTax(
@@ -108,44 +142,69 @@ export function calculateBaseIncomeTax(
 // ─── 2.5b: Medicare Levy ────────────────────────────────────────────────────
 //
 // Standard rate: 2% of taxable income.
-// Low-income exemption: nil below $26,000.
-// Phase-in: 10 cents per dollar from $26,001 to $32,500.
-// Above $32,500: full 2% of total income.
+// Low-income exemption: nil below $27,222.
+// Phase-in: 10 cents per dollar from $27,223 to $34,027.
+// Above $34,027: full 2% of total income.
 //
 // Worked examples:
 //   $20,000  → $0          (below threshold)
-//   $26,000  → $0          (at threshold)
-//   $26,001  → $0.10       (10c × $1 above threshold)
-//   $29,250  → $325        (10c × $3,250)
-//   $32,500  → $650        (10c × $6,500 = 2% × $32,500 — shade-in point)
+//   $27,222  → $0          (at threshold)
+//   $27,223  → $0.10       (10c × $1 above threshold)
+//   $30,222  → $300        (10c × $3,000)
+//   $34,027  → $680.50     (10c × $6,805 ≈ 2% × $34,027 — shade-in point)
 //   $50,000  → $1,000      (2% × $50,000)
 //   $100,000 → $2,000      (2% × $100,000)
+//
+// Families (a spouse or dependent children) use the family threshold:
+// $45,907 + $4,216 per dependent child. Above it the family's levy phases in
+// at 10c per dollar of family income, shared between spouses by income, and
+// each person pays the lower of their share and their individual levy.
+//
+// Worked example (two children, family income $60,000, person earns $40,000):
+//   Family threshold:  $45,907 + 2 × $4,216 = $54,339
+//   Family levy:       10% × ($60,000 − $54,339) = $566.10
+//   Person's share:    $566.10 × $40,000 / $60,000 = $377.40 (< 2% = $800)
 // ────────────────────────────────────────────────────────────────────────────
 
 /**
  * Calculate the Medicare levy.
  *
  * @param income       Taxable income (AUD).
- * @param medicareData Medicare levy rates from current.json.
+ * @param medicareData Medicare levy rates from the rates registry.
+ * @param family       The person's family, if they have a spouse or
+ *                     dependent children (omit for singles).
  * @returns            Medicare levy amount in AUD.
  */
 export function calculateMedicareLevy(
   income: number,
-  medicareData: TaxRates['medicareLevy']
+  medicareData: TaxRates['medicareLevy'],
+  family?: MedicareFamily
 ): number {
   if (income <= medicareData.lowIncomeThreshold) {
     return 0;
   }
 
   // Phase-in zone: levy = phaseInRate × (income − lowIncomeThreshold)
-  if (income <= medicareData.shadeInThreshold) {
-    return round2(
-      medicareData.phaseInRate * (income - medicareData.lowIncomeThreshold)
-    );
+  // Above shade-in: full 2% of total income
+  const individualLevy =
+    income <= medicareData.shadeInThreshold
+      ? medicareData.phaseInRate * (income - medicareData.lowIncomeThreshold)
+      : income * medicareData.rate;
+
+  if (!family) {
+    return round2(individualLevy);
   }
 
-  // Above shade-in: full 2% of total income
-  return round2(income * medicareData.rate);
+  // Family phase-in: the family's levy, shared between spouses by income
+  const familyIncome = Math.max(income, family.familyIncome);
+  const familyThreshold =
+    medicareData.familyIncomeThreshold +
+    medicareData.familyThresholdPerChild * family.dependentChildren;
+  const familyLevy =
+    medicareData.phaseInRate * Math.max(0, familyIncome - familyThreshold);
+  const share = familyLevy * (income / familyIncome);
+
+  return round2(Math.min(individualLevy, share));
 }
 
 // ─── 2.5c: Low Income Tax Offset (LITO) ────────────────────────────────────
@@ -172,7 +231,7 @@ export function calculateMedicareLevy(
  * Calculate the Low Income Tax Offset.
  *
  * @param income   Taxable income (AUD).
- * @param litoData LITO rates from current.json.
+ * @param litoData LITO rates from the rates registry.
  * @returns        LITO amount in AUD (always ≥ 0).
  */
 export function calculateLITO(
@@ -208,30 +267,142 @@ export function calculateLITO(
   return 0;
 }
 
+// ─── 2.5d: Compulsory HELP Repayment ────────────────────────────────────────
+//
+// From 2025-26 the repayment is marginal — only income above the threshold
+// is repaid, so a pay rise no longer triggers a repayment on the whole income:
+//   $0–$67,000:          nil
+//   $67,001–$125,000:    15c per $ over $67,000
+//   $125,001–$179,285:   $8,700 + 17c per $ over $125,000
+//   $179,286+:           10% of total repayment income
+//
+// Worked examples (FY 2025-26):
+//   $60,000  → $0
+//   $80,000  → $1,950      (15% × $13,000)
+//   $125,000 → $8,700      (15% × $58,000)
+//   $150,000 → $12,950     ($8,700 + 17% × $25,000)
+//   $200,000 → $20,000     (10% × $200,000)
+//
+// Repayment income is approximated by taxable income (reportable fringe
+// benefits and super contributions are not added).
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate the compulsory HELP repayment for the year.
+ *
+ * @param income    Repayment income (AUD).
+ * @param helpData  HELP repayment bands from the rates registry.
+ * @returns         Repayment amount in AUD.
+ */
+export function calculateHELPRepayment(
+  income: number,
+  helpData: TaxRates['help']
+): number {
+  if (income <= 0) return 0;
+
+  // Highest band whose floor the income is above (bands are ascending), so
+  // incomes with cents between one band's max and the next band's min
+  // stay in the lower band
+  const band = helpData.bands.reduce(
+    (found, b) => (income > b.min - 1 ? b : found),
+    helpData.bands[0]
+  );
+
+  // Band floor = min − 1 (e.g., band min 67001, floor is 67000)
+  const bandFloor = Math.max(0, band.min - 1);
+  return round2(
+    band.baseRepayment +
+      band.marginalRate * (income - bandFloor) +
+      band.totalIncomeRate * income
+  );
+}
+
+// ─── 2.5e: Medicare Levy Surcharge ──────────────────────────────────────────
+//
+// People without private hospital cover pay a surcharge on their own income,
+// at a rate set by the tier their income — or, for families, their combined
+// family income — falls into. Family tiers rise by $1,500 for each dependent
+// child after the first.
+//
+// FY 2025-26 tiers:
+//   Base:    singles ≤ $101,000            families ≤ $202,000          0%
+//   Tier 1:  singles $101,001 – $118,000   families $202,001 – $236,000 1%
+//   Tier 2:  singles $118,001 – $158,000   families $236,001 – $316,000 1.25%
+//   Tier 3:  singles $158,001+             families $316,001+           1.5%
+//
+// Worked examples:
+//   Single on $110,000                → 1% × $110,000 = $1,100
+//   Family on $210,000, two children, person earns $90,000:
+//     Tier 1 starts at $202,001 + $1,500 = $203,501 → 1% × $90,000 = $900
+//   Family on $200,000, person earns $150,000 → base tier, $0
+//
+// Income for surcharge purposes is approximated by taxable income
+// (reportable fringe benefits and super contributions are not added).
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate the Medicare levy surcharge for someone without private
+ * hospital cover.
+ *
+ * @param income   Taxable income (AUD).
+ * @param mlsData  Medicare levy surcharge tiers from the rates registry.
+ * @param family   The person's family, if they have a spouse or dependent
+ *                 children (omit for singles).
+ * @returns        Surcharge amount in AUD.
+ */
+export function calculateMedicareLevySurcharge(
+  income: number,
+  mlsData: TaxRates['medicareLevySurcharge'],
+  family?: MedicareFamily
+): number {
+  if (income <= 0) return 0;
+
+  const tierIncome = family ? Math.max(income, family.familyIncome) : income;
+  const increase = family
+    ? mlsData.familyThresholdPerExtraChild * Math.max(0, family.dependentChildren - 1)
+    : 0;
+  const tierMin = (t: MedicareLevySurchargeTier) =>
+    family ? t.familyMin + increase : t.singleMin;
+
+  // Highest tier whose threshold the income reaches (tiers are ascending)
+  const tier = mlsData.tiers.reduce(
+    (found, t) => (tierIncome >= tierMin(t) ? t : found),
+    mlsData.tiers[0]
+  );
+
+  return round2(income * tier.rate);
+}
+
 // ─── 2.5: Full Income Tax Calculation ───────────────────────────────────────
 
 /**
  * Calculate complete individual income tax including Medicare levy and LITO.
  *
  * LITO reduces income tax only (not Medicare levy) and cannot create a refund
- * (clamped to $0). Total tax = max(0, incomeTax − LITO) + medicareLevy.
+ * (clamped to $0). Total tax = max(0, incomeTax − LITO) + medicareLevy
+ * + medicareLevySurcharge. With a HELP debt, the compulsory repayment also
+ * comes out of net income.
  *
- * @param income  Individual taxable income (AUD).
- * @param rates   Tax rates data loaded from current.json.
- * @returns       Complete tax breakdown including net income and effective rate.
+ * @param income   Individual taxable income (AUD).
+ * @param rates    Tax rates data from the rates registry.
+ * @param options  HELP debt, family and private hospital cover details.
+ * @returns        Complete tax breakdown including net income and effective rate.
  */
 export function calculateIncomeTax(
   income: number,
-  rates: TaxRates
+  rates: TaxRates,
+  options: IncomeTaxOptions = {}
 ): IncomeTaxResult {
   if (income <= 0) {
     return {
       grossIncome: 0,
       incomeTax: 0,
       medicareLevy: 0,
+      medicareLevySurcharge: 0,
       litoOffset: 0,
       taxAfterLITO: 0,
       totalTax: 0,
+      helpRepayment: 0,
       netIncome: 0,
       effectiveRate: 0,
       marginalRate: 0,
@@ -243,24 +414,37 @@ export function calculateIncomeTax(
     income,
     rates.brackets
   );
-  const medicareLevy = calculateMedicareLevy(income, rates.medicareLevy);
+  const { hasHELPDebt = false, family, privateHospitalCover = true } = options;
+  const medicareLevy = calculateMedicareLevy(income, rates.medicareLevy, family);
   const litoOffset = calculateLITO(income, rates.lito);
 
+  // Surcharge without hospital cover — not charged on a family member whose
+  // own income is under the Medicare levy low-income threshold
+  const medicareLevySurcharge =
+    !privateHospitalCover && income > rates.medicareLevy.lowIncomeThreshold
+      ? calculateMedicareLevySurcharge(income, rates.medicareLevySurcharge, family)
+      : 0;
+
   // LITO reduces income tax only — cannot make it negative
   const taxAfterLITO = round2(Math.max(0, incomeTax - litoOffset));
 
-  // Total: income tax (after LITO) + Medicare levy
-  const totalTax = round2(taxAfterLITO + medicareLevy);
-  const netIncome = round2(income - totalTax);
+  // Total: income tax (after LITO) + Medicare levy + surcharge
+  const totalTax = round2(taxAfterLITO + medicareLevy + medicareLevySurcharge);
+  const helpRepayment = hasHELPDebt
+    ? calculateHELPRepayment(income, rates.help)
+    : 0;
+  const netIncome = round2(income - totalTax - helpRepayment);
   const effectiveRate = income > 0 ? round4(totalTax / income) : 0;
 
   return {
     grossIncome: income,
     incomeTax: round2(incomeTax),
     medicareLevy,
+    medicareLevySurcharge,
     litoOffset: round2(litoOffset),
     taxAfterLITO,
     totalTax,
+    helpRepayment,
     netIncome,
     effectiveRate,
     marginalRate,
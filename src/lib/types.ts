@@ -16,6 +16,22 @@ export type CareType =
 
 export type State = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
 
+/** Additional Child Care Subsidy (ACCS) streams for carers and vulnerable families. */
+export type ACCSStream =
+  | 'child_wellbeing'               // child at risk of serious abuse or neglect
+  | 'grandparent'                   // grandparent principal carer on income support
+  | 'temporary_financial_hardship'  // hardship event, e.g. disaster, job loss
+  | 'transition_to_work';           // income support recipient moving into work
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri';
+
+/** Who looks after the child on a day without paid childcare. */
+export type InformalCareSource =
+  | 'grandparents'     // grandparents or other family
+  | 'partner'          // partner's day off
+  | 'work_from_home'   // working from home with the child
+  | 'other';           // friends, neighbours, etc.
+
 // ─── Wizard Input Types ─────────────────────────────────────────────────────
 
 export interface WizardInputs {
@@ -25,6 +41,10 @@ export interface WizardInputs {
 
   // Step 2 — Income
   combinedAnnualIncome: number;     // AUD/year — combined family income
+  // Step 2 — Adjusted taxable income builder (optional). When set,
+  // combinedAnnualIncome is the family's ATI built from these components.
+  incomeComponents?: ATIComponents;          // user (or single parent)
+  partnerIncomeComponents?: ATIComponents;   // partner (partnered only)
 
   // Step 3 — Childcare details
   careType: CareType;
@@ -33,12 +53,31 @@ export interface WizardInputs {
   hoursPerDay: number;              // hours per day (e.g. 10 for full day)
   feePerDay: number | null;         // actual daily fee; null → use state average
   useStateAverage: boolean;
+  weeksOfCarePerYear?: number;      // weeks attended (52 − closures/holidays) — default 52
+
+  // Step 3 — Per-child care (optional). When present, each child's own age,
+  // care type, days, hours and fee are used instead of the single
+  // arrangement above (numberOfChildren × identical care).
+  children?: ChildInput[];
+
+  // Step 1 — Additional CCS (optional). When set, every child gets the ACCS
+  // stream's rate instead of the income-tested CCS rate.
+  additionalCCSStream?: ACCSStream | null;
+
+  // Step 3 — Activity test (hours of work, study, etc. per fortnight)
+  activityHoursPerFortnight: number;         // user (or single parent)
+  partnerActivityHoursPerFortnight: number | null; // null = single parent
 
   // Step 4 — Work situation (optional)
   includeBackToWork: boolean;
   currentAnnualIncome: number;      // income if NOT working / current income
   proposedAnnualIncome: number;     // income if working / proposed income
   workRelatedCostsPerWeek: number;  // transport, uniforms, meals, etc.
+  workPatterns?: WorkPattern[];     // custom patterns compared after the 1–5 day scenarios
+  informalCare?: InformalCareDay[]; // weekdays covered without paid childcare
+  receivesParentingPayment?: boolean; // currently paid Parenting Payment
+  hasHELPDebt?: boolean;            // has a HELP (HECS) debt to repay
+  noPrivateHospitalCover?: boolean; // family has no private hospital cover
 }
 
 // ─── CCS Rates Data Types ───────────────────────────────────────────────────
@@ -55,6 +94,68 @@ export interface HourlyRateCap {
   ratePerHour: number;
 }
 
+/** One child in care, with their own care arrangement. */
+export interface ChildInput {
+  ageYears: number;                 // 0–13 (derived from dateOfBirth when set)
+  dateOfBirth?: string;             // ISO 'YYYY-MM-DD' — enables mid-year age changes
+  careType: CareType;
+  daysPerWeek: number;              // 1–5
+  hoursPerDay: number | null;       // null → default for care type
+  feePerDay: number | null;         // null → state average
+  weeksPerYear?: number;            // weeks attended — default WizardInputs.weeksOfCarePerYear
+  absenceDaysPerYear?: number;      // booked days missed (sick days, holidays) — default 0
+  evidencedAbsenceDaysPerYear?: number; // absences beyond the allowance with evidence — default 0
+}
+
+/** A way of working the proposed job, e.g. 4 × 9-hour days. */
+export interface WorkPattern {
+  daysPerWeek: number;              // working days, 1–5
+  hoursPerDay: number;              // paid work hours per working day
+  childcareDaysPerWeek?: number;    // default max(current days in care, daysPerWeek)
+  childcareHoursPerDay?: number;    // default the family's current hours per day
+  label?: string;                   // display label — default e.g. "4 days × 9 hrs"
+}
+
+/** One parent's income components for adjusted taxable income (AUD/year). */
+export interface ATIComponents {
+  taxableIncome: number;
+  reportableFringeBenefits: number;
+  reportableSuperContributions: number; // salary sacrifice, personal deductible
+  netInvestmentLosses: number;          // e.g. negative gearing
+  taxFreeForeignIncome: number;
+  childMaintenancePaid: number;         // deductible child maintenance — subtracted
+}
+
+/** A weekday covered by informal care, e.g. grandparents on Mondays. */
+export interface InformalCareDay {
+  weekday: Weekday;
+  source: InformalCareSource;
+}
+
+/** Coming back from Paid Parental Leave part-way through the financial year. */
+export interface ReturnTimeline {
+  pplWeeks: number;                 // weeks of Parental Leave Pay, ending on the return date
+  pplWeeklyRate: number;            // Parental Leave Pay per week before tax
+  returnDate: string;               // ISO date back at work
+  careStartDate: string;            // ISO date paid childcare starts
+}
+
+/** Rates and rules for one ACCS stream. */
+export interface ACCSStreamRates {
+  stream: ACCSStream;
+  label: string;
+  subsidyPercent: number;            // % of the fee (up to the rate cap) paid
+  rateCapPercent: number;            // % of the standard hourly rate cap, e.g. 120
+  subsidisedHoursPerFortnight: number | null; // null = activity test applies
+  maxWeeksPerDetermination: number | null;    // null = ongoing while eligible
+  eligibility: string;
+}
+
+export interface ActivityTestTier {
+  minActivityHours: number;          // activity hours per fortnight (inclusive)
+  subsidisedHoursPerFortnight: number;
+}
+
 export interface CCSRates {
   financialYear: string;
   effectiveDate: string;
@@ -77,11 +178,26 @@ export interface CCSRates {
     capAmountPerChild: number;       // max $ subsidy paid per child per year
     uncappedBelow: boolean;          // true = no cap if income <= threshold
   };
+  activityTest: {
+    tiers: ActivityTestTier[];         // ascending by minActivityHours
+    lowIncomeResult: {
+      incomeThreshold: number;         // at or below → low income result applies
+      subsidisedHoursPerFortnight: number;
+    };
+  };
   threeDayGuarantee: {
     effectiveDate: string;
     minHoursPerFortnight: number;
     description: string;
   };
+  allowableAbsences: {
+    daysPerChildPerYear: number;     // absence days subsidised without evidence
+    description: string;
+  };
+  additionalSubsidy: {
+    description: string;
+    streams: ACCSStreamRates[];
+  };
   withholdingPercent: number;        // % withheld per fortnight for end-of-year reconciliation
 }
 
@@ -103,6 +219,12 @@ export interface TaxRates {
     lowIncomeThreshold: number;      // income below which no levy applies
     phaseInRate: number;             // rate at which levy phases in above threshold
     shadeInThreshold: number;        // income at which full levy applies
+    familyIncomeThreshold: number;   // family income below which no levy applies
+    familyThresholdPerChild: number; // family threshold increase per dependent child
+  };
+  medicareLevySurcharge: {
+    tiers: MedicareLevySurchargeTier[];
+    familyThresholdPerExtraChild: number; // family tier increase per child after the first
   };
   lito: {
     maxOffset: number;               // maximum Low Income Tax Offset
@@ -112,6 +234,106 @@ export interface TaxRates {
     phaseOut2Rate: number;           // cents per dollar reduction, second phase
     phaseOut2To: number;             // income at which LITO reaches zero
   };
+  superannuation: {
+    concessionalContributionsCap: number; // yearly cap on before-tax contributions
+    contributionsTaxRate: number;    // tax on concessional contributions in the fund, 0.15
+    guaranteeRate: number;           // Superannuation Guarantee rate, e.g. 0.12
+    maximumContributionBase: number; // yearly earnings cap on SG contributions
+  };
+  help: {
+    bands: HELPRepaymentBand[];      // compulsory HELP repayment, by repayment income
+  };
+}
+
+/**
+ * A band of compulsory HELP repayment income. Repayment = baseRepayment
+ * + marginalRate × (income − (min − 1)) + totalIncomeRate × income, which
+ * covers both the marginal system (from 2025-26) and the older system of a
+ * single percentage of total income.
+ */
+export interface HELPRepaymentBand {
+  min: number;
+  max: number | null;                // null = no upper limit
+  baseRepayment: number;             // repayment at the band's floor
+  marginalRate: number;              // per $ above the band's floor
+  totalIncomeRate: number;           // share of the whole repayment income
+}
+
+/** A Medicare levy surcharge tier, for people without private hospital cover. */
+export interface MedicareLevySurchargeTier {
+  singleMin: number;                 // lowest income in the tier, singles
+  familyMin: number;                 // lowest family income in the tier, families
+  rate: number;                      // share of the person's own income, e.g. 0.01
+}
+
+// ─── Family Tax Benefit Rates Data Types ────────────────────────────────────
+
+/** FTB Part A rates for children in an age band. */
+export interface FTBPartARate {
+  minAge: number;                    // inclusive
+  maxAge: number;                    // inclusive
+  maxRatePerFortnight: number;
+  baseRatePerFortnight: number;
+}
+
+export interface FTBRates {
+  financialYear: string;
+  effectiveDate: string;
+  source: string;
+  partA: {
+    rates: FTBPartARate[];
+    supplementPerChild: number;      // paid after the year, per child
+    supplementIncomeLimit: number;   // family income at or below → supplement paid
+    incomeFreeArea: number;          // max rate reduces above this
+    maxRateTaper: number;            // 0.20 — reduction per $ above incomeFreeArea
+    higherIncomeFreeArea: number;    // base rate reduces above this
+    baseRateTaper: number;           // 0.30 — reduction per $ above higherIncomeFreeArea
+  };
+  partB: {
+    ratePerFortnightUnder5: number;  // youngest child under 5
+    ratePerFortnight5AndOver: number;
+    maxChildAgeCouple: number;       // couples: youngest child aged up to this
+    maxChildAgeSingle: number;       // single parents: youngest child aged up to this
+    supplement: number;              // paid after the year, per family
+    primaryEarnerIncomeLimit: number; // higher earner above this → no Part B
+    secondaryEarnerIncomeFreeArea: number;
+    secondaryEarnerTaper: number;    // 0.20 — reduction per $ of lower earner's income
+  };
+}
+
+// ─── Parenting Payment Rates Data Types ─────────────────────────────────────
+
+export interface ParentingPaymentRates {
+  financialYear: string;
+  effectiveDate: string;
+  source: string;
+  single: {
+    maxRatePerFortnight: number;
+    maxChildAge: number;                   // youngest child aged up to this
+    incomeFreeAreaPerFortnight: number;
+    incomeFreeAreaPerExtraChild: number;   // added for each child after the first
+    taper: number;                         // 0.40 — reduction per $ above the free area
+  };
+  partnered: {
+    maxRatePerFortnight: number;
+    maxChildAge: number;                   // youngest child aged up to this
+    incomeFreeAreaPerFortnight: number;
+    upperTaperThresholdPerFortnight: number;
+    lowerTaper: number;                    // 0.50 — between free area and threshold
+    upperTaper: number;                    // 0.60 — above the threshold
+    partnerIncomeFreeAreaPerFortnight: number;
+    partnerTaper: number;                  // 0.60 — per $ of partner income above its free area
+  };
+}
+
+// ─── Paid Parental Leave Rates Data Types ───────────────────────────────────
+
+export interface PaidParentalLeaveRates {
+  financialYear: string;
+  effectiveDate: string;
+  source: string;
+  weeklyRate: number;                      // Parental Leave Pay per week before tax
+  maxWeeks: number;                        // weeks available per child
 }
 
 // ─── State Average Data Types ───────────────────────────────────────────────
@@ -128,6 +350,20 @@ export interface StateAverageEntry {
   source: string;
 }
 
+/**
+ * When children in a state start their first year of school. A child starts
+ * school in the year they turn 5 if their birthday falls on or before the
+ * cut-off, otherwise the following year.
+ */
+export interface SchoolStartRule {
+  state: State;
+  firstYearOfSchool: string;         // e.g. 'Kindergarten', 'Prep'
+  cutoffMonthDay: string;            // 'MM-DD' — must turn 5 on or before
+  termOneStartMonthDay: string;      // 'MM-DD' — approximate first day of Term 1
+  lastUpdated: string;
+  source: string;
+}
+
 // ─── Calculation Result Types ───────────────────────────────────────────────
 
 export interface CCSResult {
@@ -0,0 +1,492 @@
+// =============================================================================
+// TWO-PARENT WORK MATRIX
+// =============================================================================
+// Couples usually decide their working days together ("you do 3, I'll do 4").
+// The back-to-work engine varies only one parent; this module varies both and
+// returns a matrix covering every combination of days (0–5 each), with the
+// household's net benefit against their current situation.
+//
+// For each combination it accounts for the same items as the back-to-work
+// engine:
+//   1. Income tax on each partner's pro-rated salary, with HELP repayments,
+//      the Medicare levy family threshold and the surcharge when given
+//   2. CCS% at the new combined income, with subsidised hours limited by
+//      the activity test when asked
+//   3. Childcare days needed — the days when nobody is home, less days
+//      covered by informal care — for every child in care
+//   4. Each partner's work-related costs
+//   5. Family Tax Benefit and Parenting Payment at the new incomes, when
+//      their inputs are given
+//
+// When parent A is coming back from Paid Parental Leave part-way through the
+// year, the same return timeline as the back-to-work engine makes every cell
+// a part year: A's new pay and work costs count from the return date,
+// childcare from the care start date, and Parental Leave Pay is added to A's
+// income.
+//
+// All functions are pure. They compose activityTest, ccsCalculations,
+// familyTaxBenefit, informalCare, parentingPayment and taxCalculations.
+// With a return timeline, they use the shares from returnTimeline.
+// =============================================================================
+
+import type {
+  CCSRates,
+  CareType,
+  FTBRates,
+  InformalCareDay,
+  ParentingPaymentRates,
+  TaxRates,
+} from './types';
+import {
+  calculateCCSPercentage,
+  calculateHigherCCSPercentage,
+  calculateSessionCCS,
+  calculateAnnualCost,
+} from './ccsCalculations';
+import { calculateActivityTest } from './activityTest';
+import { calculateIncomeTax, type IncomeTaxResult } from './taxCalculations';
+import { getPaidCareDays } from './informalCare';
+import { calculateFamilyTaxBenefit } from './familyTaxBenefit';
+import { calculateParentingPayment } from './parentingPayment';
+import type { ReturnTimelineResult } from './returnTimeline';
+import type { ChildCareArrangement } from './backToWorkCalculations';
+
+// ─── Input Parameters ───────────────────────────────────────────────────────
+
+export interface ParentWorkInput {
+  /** Current individual income */
+  currentIncome: number;
+  /** Days currently worked per week (0–5) */
+  currentDaysWorking: number;
+  /** Full-time equivalent (FTE) annual salary */
+  fteIncome: number;
+  /** Weekly work-related costs at 5 days (transport, meals, etc.) */
+  workRelatedCostsPerWeek: number;
+  /** Whether this parent has a HELP debt to repay (default false) */
+  hasHELPDebt?: boolean;
+}
+
+export interface WorkMatrixParams {
+  /** The parent shown down the rows */
+  parentA: ParentWorkInput;
+  /** The parent shown across the columns */
+  parentB: ParentWorkInput;
+  /** Current days of childcare per week */
+  currentDaysInCare: number;
+  /** Daily childcare fee */
+  dailyFee: number;
+  /** Hours per day of care */
+  hoursPerDay: number;
+  /** Type of care */
+  careType: CareType;
+  /** Child age group for rate cap */
+  ageGroup: 'below_school_age' | 'school_age';
+  /**
+   * The family's other children in paid care, booked on the same days at
+   * their own fee, hours and CCS rate
+   */
+  additionalChildren?: ChildCareArrangement[];
+  /** Weeks of care per year, after centre closures (default 52) */
+  weeksOfCarePerYear?: number;
+  /** Standard work hours per day, for the activity test (default 8) */
+  workHoursPerDay?: number;
+  /**
+   * Household details for the Medicare levy. When provided, each parent's
+   * levy uses the family threshold, and without private hospital cover the
+   * surcharge is charged at the tier for the combined family income.
+   */
+  medicare?: {
+    /** Number of dependent children */
+    dependentChildren: number;
+    /** Whether the family has private hospital cover */
+    privateHospitalCover: boolean;
+  };
+  /**
+   * Weekdays covered by informal care. Days nobody is home are placed on
+   * these first and need no paid care.
+   */
+  informalCare?: InformalCareDay[];
+  /**
+   * Whether subsidised hours are limited by the activity test, with each
+   * working day adding workHoursPerDay × 2 activity hours per fortnight to
+   * that parent. Omit to assume care hours are fully subsidised.
+   */
+  applyActivityTest?: boolean;
+  /**
+   * Parent A's part-year return from Paid Parental Leave (from
+   * buildReturnTimeline), applied as in the back-to-work engine. Parent B
+   * works the whole year.
+   */
+  returnTimeline?: Pick<
+    ReturnTimelineResult,
+    'pplIncome' | 'preLeaveShareOfYear' | 'workingShareOfYear' | 'careShareOfYear'
+  >;
+  /**
+   * Family Tax Benefit inputs. When provided (with FTB rates), Parts A and B
+   * are recalculated for each combination.
+   */
+  familyTaxBenefit?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+  };
+  /**
+   * Parenting Payment inputs, when parent A currently receives it. When
+   * provided (with Parenting Payment rates), the payment is income tested at
+   * each combination's incomes.
+   */
+  parentingPayment?: {
+    /** Ages of dependent children in years */
+    childAges: number[];
+  };
+}
+
+// ─── Result Types ───────────────────────────────────────────────────────────
+
+export interface WorkMatrixCell {
+  /** Days per week worked by parent A / parent B */
+  daysA: number;
+  daysB: number;
+  /**
+   * Gross income of each partner: (days/5) × FTE, with parent A's part year
+   * and Parental Leave Pay under a return timeline
+   */
+  incomeA: number;
+  incomeB: number;
+  /** Income tax of each partner */
+  taxA: IncomeTaxResult;
+  taxB: IncomeTaxResult;
+  /** Household income after tax */
+  householdNetIncome: number;
+  /** Combined family income */
+  combinedFamilyIncome: number;
+  /** CCS percentage at the combined income (for the first child) */
+  ccsPercent: number;
+  /** Days of childcare needed per week */
+  childcareDaysPerWeek: number;
+  /** Annual childcare out-of-pocket, for every child in care */
+  annualChildcareCost: number;
+  /** Annual work-related costs for both partners */
+  annualWorkCosts: number;
+  /** Annual Family Tax Benefit plus Parenting Payment (0 if not modelled) */
+  familyPayments: number;
+  /** Net benefit vs. the current situation */
+  netBenefit: number;
+  /** Whether this combination leaves the household better off */
+  isWorthIt: boolean;
+}
+
+export interface WorkMatrixResult {
+  /** Current situation (baseline) */
+  current: {
+    householdNetIncome: number;
+    combinedFamilyIncome: number;
+    ccsPercent: number;
+    childcareDaysPerWeek: number;
+    annualChildcareCost: number;
+    annualWorkCosts: number;
+    familyPayments: number;
+  };
+  /** Day options for each parent, in row/column order */
+  dayOptions: number[];
+  /** cells[daysA][daysB] */
+  cells: WorkMatrixCell[][];
+  /** Highest net benefit combination, or null if none is positive */
+  bestCell: WorkMatrixCell | null;
+}
+
+// ─── Days of Care Needed ────────────────────────────────────────────────────
+
+/**
+ * Days of care needed when neither parent is home. Assumes the couple
+ * staggers their working days, so care covers only the days they both work.
+ *
+ * @param daysA  Days per week parent A works.
+ * @param daysB  Days per week parent B works.
+ * @returns      Days per week when both parents are at work (0–5).
+ */
+export function getDaysNobodyHome(daysA: number, daysB: number): number {
+  return Math.max(0, daysA + daysB - 5);
+}
+
+// ─── 2.14: Two-Parent Work Matrix ───────────────────────────────────────────
+//
+// For each combination of days (A, B), 0–5 each:
+//
+//   1. Income A = (A / 5) × FTE A, income B = (B / 5) × FTE B
+//   2. Combined income → CCS%
+//   3. Care days = max(current days in care, days nobody is home − informal
+//      care days), where days nobody is home = max(0, A + B − 5); each
+//      additional child is costed on the same days
+//   4. Work costs = Σ weekly costs × (days / 5) × 52
+//   5. Family payments = FTB + Parenting Payment at incomes A and B
+//   6. Net benefit = (household net income − current)
+//                  − (childcare cost − current)
+//                  − (work costs − current work costs)
+//                  + (family payments − current)
+//
+// With a return timeline (parent A's pre-leave share s, working share w,
+// care share c, PPL income P):
+//   Current income A = current A × (s + w) + P
+//   Income A         = current A × s + (A / 5) × FTE A × w + P
+//   Work costs A     = at current days × s, plus at A days × w
+//   Weeks of care    = weeksOfCarePerYear × c (current and cells alike)
+//
+// With only one parent changing days, a cell matches the back-to-work
+// scenario for the same days and inputs.
+//
+// Worked example (A: $80k FTE, not working; B: $100k FTE, 5 days; $100/day
+//                 × 10hr, 2 days in care; no work costs):
+//   Current:    combined $100k → CCS 87%, 2 days → $1,352/yr
+//   A 3 / B 4:  $48k + $80k = $128k → CCS 81%
+//               care days = max(2, 3 + 4 − 5) = 2 → $1,976/yr
+//               net income +$28,532, childcare +$624 → net benefit $27,908
+//   A 3 / B 5:  $48k + $100k = $148k → CCS 77%
+//               care days = max(2, 3 + 5 − 5) = 3 → $3,588/yr
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Days each parent can work in the matrix. */
+const DAY_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+/**
+ * Build the two-parent work matrix.
+ *
+ * @param params    Both partners' salaries and the family's care details.
+ * @param ccsRates  CCS rates data.
+ * @param taxRates  Tax rates data.
+ * @param ftbRates  FTB rates data (required when params.familyTaxBenefit is set).
+ * @param ppRates   Parenting Payment rates data (required when
+ *                  params.parentingPayment is set).
+ * @returns         Baseline, a 6 × 6 matrix of combinations and the best one.
+ * @throws          Error if current days working are out of range, or FTB or
+ *                  Parenting Payment inputs are given without their rates.
+ */
+export function calculateWorkMatrix(
+  params: WorkMatrixParams,
+  ccsRates: CCSRates,
+  taxRates: TaxRates,
+  ftbRates?: FTBRates,
+  ppRates?: ParentingPaymentRates
+): WorkMatrixResult {
+  const {
+    parentA,
+    parentB,
+    currentDaysInCare,
+    dailyFee,
+    hoursPerDay,
+    careType,
+    ageGroup,
+    additionalChildren = [],
+    weeksOfCarePerYear = 52,
+    workHoursPerDay = 8,
+    medicare,
+    informalCare = [],
+    applyActivityTest = false,
+    returnTimeline,
+    familyTaxBenefit,
+    parentingPayment,
+  } = params;
+
+  for (const parent of [parentA, parentB]) {
+    if (parent.currentDaysWorking < 0 || parent.currentDaysWorking > 5) {
+      throw new Error('currentDaysWorking must be between 0 and 5.');
+    }
+  }
+  if (familyTaxBenefit && !ftbRates) {
+    throw new Error('FTB rates are required to model Family Tax Benefit.');
+  }
+  if (parentingPayment && !ppRates) {
+    throw new Error('Parenting Payment rates are required to model Parenting Payment.');
+  }
+
+  const clampedCurrentDays = Math.max(1, Math.min(5, currentDaysInCare));
+
+  // Parent A's part-year return: PPL income and the shares of the year
+  const pplIncome = returnTimeline?.pplIncome ?? 0;
+  const preLeaveShare = returnTimeline?.preLeaveShareOfYear ?? 0;
+  const workingShare = returnTimeline?.workingShareOfYear ?? 1;
+  const careWeeks = weeksOfCarePerYear * (returnTimeline?.careShareOfYear ?? 1);
+
+  // Each parent's tax, with the family's Medicare levy threshold and
+  // surcharge tier tested on the combined income
+  const taxFor = (parent: ParentWorkInput, income: number, familyIncome: number) =>
+    calculateIncomeTax(income, taxRates, {
+      hasHELPDebt: parent.hasHELPDebt ?? false,
+      family: medicare
+        ? { familyIncome, dependentChildren: medicare.dependentChildren }
+        : undefined,
+      privateHospitalCover: medicare?.privateHospitalCover ?? true,
+    });
+
+  // FTB plus Parenting Payment at both parents' incomes
+  const familyPaymentsFor = (incomeA: number, incomeB: number): number => {
+    const ftb =
+      familyTaxBenefit && ftbRates
+        ? calculateFamilyTaxBenefit(
+            { parentIncome: incomeA, partnerIncome: incomeB, childAges: familyTaxBenefit.childAges },
+            ftbRates
+          ).total
+        : 0;
+    const pp =
+      parentingPayment && ppRates
+        ? calculateParentingPayment(
+            { parentIncome: incomeA, partnerIncome: incomeB, childAges: parentingPayment.childAges },
+            ppRates
+          ).annualAmount
+        : 0;
+    return round2(ftb + pp);
+  };
+
+  // Subsidised hours per fortnight when A and B work these days (null = no limit)
+  const subsidisedHoursFor = (daysA: number, daysB: number, familyIncome: number) =>
+    applyActivityTest
+      ? calculateActivityTest(
+          daysA * workHoursPerDay * 2,
+          daysB * workHoursPerDay * 2,
+          familyIncome,
+          ccsRates
+        ).averageHoursPerFortnight
+      : null;
+
+  // Annual childcare out-of-pocket for every child at a combined income
+  const childcareCost = (
+    combinedIncome: number,
+    careDays: number,
+    subsidisedHours: number | null
+  ) => {
+    const ccsPercent = calculateCCSPercentage(combinedIncome, ccsRates).percent;
+    const children: ChildCareArrangement[] = [
+      { careType, dailyFee, hoursPerDay, ageGroup },
+      ...additionalChildren,
+    ];
+    const outOfPocketPerYear = children.reduce((total, child) => {
+      const session = calculateSessionCCS(
+        child.dailyFee,
+        child.hoursPerDay,
+        child.higherCCSRate
+          ? calculateHigherCCSPercentage(ccsPercent, ccsRates).higherPercent
+          : ccsPercent,
+        child.careType,
+        child.ageGroup,
+        ccsRates
+      );
+      const annual = calculateAnnualCost(
+        session,
+        careDays,
+        ccsRates.withholdingPercent,
+        careWeeks,
+        subsidisedHours
+      );
+      return total + annual.outOfPocketPerYear;
+    }, 0);
+    return { ccsPercent, outOfPocketPerYear: round2(outOfPocketPerYear) };
+  };
+
+  const workCosts = (parent: ParentWorkInput, days: number) =>
+    parent.workRelatedCostsPerWeek * (days / 5) * 52;
+
+  // Parent A's work costs: current days before leave, these days from the
+  // return date
+  const workCostsA = (days: number) =>
+    workCosts(parentA, parentA.currentDaysWorking) * preLeaveShare +
+    workCosts(parentA, days) * workingShare;
+
+  // ── Current baseline ──────────────────────────────────────────────────
+  const currentIncomeA = round2(
+    parentA.currentIncome * (preLeaveShare + workingShare) + pplIncome
+  );
+  const currentCombined = currentIncomeA + parentB.currentIncome;
+  const currentNet =
+    taxFor(parentA, currentIncomeA, currentCombined).netIncome +
+    taxFor(parentB, parentB.currentIncome, currentCombined).netIncome;
+  const currentChildcare = childcareCost(
+    currentCombined,
+    clampedCurrentDays,
+    subsidisedHoursFor(parentA.currentDaysWorking, parentB.currentDaysWorking, currentCombined)
+  );
+  const currentWorkCosts =
+    workCostsA(parentA.currentDaysWorking) +
+    workCosts(parentB, parentB.currentDaysWorking);
+
+  const current = {
+    householdNetIncome: round2(currentNet),
+    combinedFamilyIncome: round2(currentCombined),
+    ccsPercent: currentChildcare.ccsPercent,
+    childcareDaysPerWeek: clampedCurrentDays,
+    annualChildcareCost: currentChildcare.outOfPocketPerYear,
+    annualWorkCosts: round2(currentWorkCosts),
+    familyPayments: familyPaymentsFor(currentIncomeA, parentB.currentIncome),
+  };
+
+  // ── Every combination of days ─────────────────────────────────────────
+  const cells = DAY_OPTIONS.map((daysA) =>
+    DAY_OPTIONS.map((daysB): WorkMatrixCell => {
+      const incomeA = round2(
+        parentA.currentIncome * preLeaveShare +
+          (daysA / 5) * parentA.fteIncome * workingShare +
+          pplIncome
+      );
+      const incomeB = round2((daysB / 5) * parentB.fteIncome);
+      const combinedFamilyIncome = round2(incomeA + incomeB);
+      const taxA = taxFor(parentA, incomeA, combinedFamilyIncome);
+      const taxB = taxFor(parentB, incomeB, combinedFamilyIncome);
+      const householdNetIncome = round2(taxA.netIncome + taxB.netIncome);
+
+      const { paidDays: childcareDaysPerWeek } = getPaidCareDays(
+        getDaysNobodyHome(daysA, daysB),
+        clampedCurrentDays,
+        informalCare
+      );
+      const childcare = childcareCost(
+        combinedFamilyIncome,
+        childcareDaysPerWeek,
+        subsidisedHoursFor(daysA, daysB, combinedFamilyIncome)
+      );
+      const annualWorkCosts = round2(
+        workCostsA(daysA) + workCosts(parentB, daysB)
+      );
+      const familyPayments = familyPaymentsFor(incomeA, incomeB);
+
+      const netBenefit = round2(
+        householdNetIncome - current.householdNetIncome
+        - (childcare.outOfPocketPerYear - current.annualChildcareCost)
+        - (annualWorkCosts - current.annualWorkCosts)
+        + (familyPayments - current.familyPayments)
+      );
+
+      return {
+        daysA,
+        daysB,
+        incomeA,
+        incomeB,
+        taxA,
+        taxB,
+        householdNetIncome,
+        combinedFamilyIncome,
+        ccsPercent: childcare.ccsPercent,
+        childcareDaysPerWeek,
+        annualChildcareCost: childcare.outOfPocketPerYear,
+        annualWorkCosts,
+        familyPayments,
+        netBenefit,
+        isWorthIt: netBenefit > 0,
+      };
+    })
+  );
+
+  // ── Find best combination ─────────────────────────────────────────────
+  const bestCell = cells
+    .flat()
+    .filter((c) => c.netBenefit > 0)
+    .reduce<WorkMatrixCell | null>(
+      (best, c) => (best === null || c.netBenefit > best.netBenefit ? c : best),
+      null
+    );
+
+  return { current, dayOptions: DAY_OPTIONS, cells, bestCell };
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// WORK PATTERN URL PARAM — Compact Encoding of Custom Work Patterns
+// =============================================================================
+// Encodes custom back-to-work patterns into a single short URL param (`wp`)
+// so the wizard → results → "Edit answers" round trip keeps them.
+//
+// Format:
+//   pattern = daysxhours[xcareDaysxcareHours]
+//             (careDays/careHours empty → derived defaults; trailing
+//             fields omitted when not set)
+//   list    = pattern~pattern~...
+//
+// Example: "4x9~5x5x5x6"
+//   Pattern 1: 4 days × 9 hours, childcare derived
+//   Pattern 2: 5 days × 5 hours, 5 days of care at 6 hours per session
+//
+// Labels aren't encoded: a decoded pattern matching a preset takes the
+// preset's label, others are labelled from their days and hours.
+// =============================================================================
+
+import type { WorkPattern } from './types';
+import { WORK_PATTERN_PRESETS } from './backToWorkCalculations';
+
+// ─── Encode ─────────────────────────────────────────────────────────────────
+
+/**
+ * Encode work patterns into the compact `wp` URL param value.
+ *
+ * @param patterns  Custom work patterns.
+ * @returns         Encoded string (empty if there are no patterns).
+ */
+export function encodeWorkPatternsParam(patterns: WorkPattern[]): string {
+  return patterns
+    .map((p) => {
+      const fields: Array<number | string> = [p.daysPerWeek, p.hoursPerDay];
+      if (p.childcareHoursPerDay !== undefined) {
+        fields.push(p.childcareDaysPerWeek ?? '', p.childcareHoursPerDay);
+      } else if (p.childcareDaysPerWeek !== undefined) {
+        fields.push(p.childcareDaysPerWeek);
+      }
+      return fields.join('x');
+    })
+    .join('~');
+}
+
+// ─── Decode ─────────────────────────────────────────────────────────────────
+
+/**
+ * Decode the `wp` URL param back into work patterns.
+ * Malformed entries are skipped; days are clamped to 1–5 and hours to 0–24.
+ *
+ * @param value  Raw `wp` param value.
+ * @returns      Decoded patterns, or undefined if none are valid.
+ */
+export function decodeWorkPatternsParam(
+  value: string | undefined
+): WorkPattern[] | undefined {
+  if (!value) return undefined;
+
+  const patterns: WorkPattern[] = [];
+  for (const part of value.split('~')) {
+    const [days, hours, careDays, careHours] = part.split('x');
+    const daysPerWeek = parseOptionalPositive(days);
+    const hoursPerDay = parseOptionalPositive(hours);
+    if (daysPerWeek === null || hoursPerDay === null) continue;
+
+    const pattern: WorkPattern = {
+      daysPerWeek: clamp(Math.round(daysPerWeek), 1, 5),
+      hoursPerDay: Math.min(24, hoursPerDay),
+    };
+    const childcareDays = parseOptionalPositive(careDays);
+    const childcareHours = parseOptionalPositive(careHours);
+    if (childcareDays !== null) pattern.childcareDaysPerWeek = clamp(Math.round(childcareDays), 1, 5);
+    if (childcareHours !== null) pattern.childcareHoursPerDay = Math.min(24, childcareHours);
+
+    const preset = WORK_PATTERN_PRESETS.find((p) => isSamePattern(p, pattern));
+    if (preset?.label) pattern.label = preset.label;
+    patterns.push(pattern);
+  }
+
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+/**
+ * Whether two patterns describe the same work and care (labels ignored).
+ */
+export function isSamePattern(a: WorkPattern, b: WorkPattern): boolean {
+  return (
+    a.daysPerWeek === b.daysPerWeek &&
+    a.hoursPerDay === b.hoursPerDay &&
+    a.childcareDaysPerWeek === b.childcareDaysPerWeek &&
+    a.childcareHoursPerDay === b.childcareHoursPerDay
+  );
+}
+
+// ─── Utility ────────────────────────────────────────────────────────────────
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function parseOptionalPositive(v: string | undefined): number | null {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}